@@ -0,0 +1,38 @@
+// models/AlertRule.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+/**
+ * Threshold rule evaluated on every ingest by services/alertEngine.js,
+ * e.g. "co2ppm gt 1500 for 600 s". A null deviceId applies the rule to
+ * every node.
+ */
+const AlertRuleSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 120 },
+    deviceId: { type: String, default: null, trim: true, index: true },
+    metric: {
+      type: String,
+      enum: ['co2ppm', 'aqi', 'aqiLevel', 'temperature', 'humidity', 'mq135Ppm'],
+      required: true,
+    },
+    operator: { type: String, enum: ['gt', 'gte', 'lt', 'lte'], required: true },
+    threshold: { type: Number, required: true },
+    // Condition must hold this long before the alert fires
+    durationSec: { type: Number, default: 0, min: 0 },
+    // A firing alert only clears once the value is this far back past the threshold
+    hysteresis: { type: Number, default: 0, min: 0 },
+    // Minimum gap between two firings of the rule on the same device
+    cooldownSec: { type: Number, default: 600, min: 0 },
+    severity: { type: String, enum: ['info', 'warning', 'critical'], default: 'warning' },
+    enabled: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const AlertRule =
+  mongoose.models.AlertRule || mongoose.model('AlertRule', AlertRuleSchema);
@@ -0,0 +1,68 @@
+// models/CalibrationProfile.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+// MG811 two-point curve: log10(ppm) is linear in the ADC count
+const Mg811CurveSchema = new Schema(
+  {
+    point1Raw: { type: Number, required: true },
+    point1Ppm: { type: Number, required: true },
+    point2Raw: { type: Number, required: true },
+    point2Ppm: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const Mq135BaselineSchema = new Schema(
+  {
+    // Sensor resistance in fresh air (kΩ); readings are reported as Rs/R0
+    r0Kohm: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const OffsetsSchema = new Schema(
+  {
+    temperature: { type: Number, default: 0 },
+    humidity: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Window of readings a profile was derived from (fresh-air capture)
+const BaselineSessionSchema = new Schema(
+  {
+    from: { type: Date, required: true },
+    to: { type: Date, required: true },
+    sampleCount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+/**
+ * One immutable version of a device's calibration. The highest version is
+ * applied at ingest (services/calibration.js); saving a change creates a new
+ * version so every Reading can name the profile it was processed with.
+ */
+const CalibrationProfileSchema = new Schema(
+  {
+    deviceId: { type: String, required: true, trim: true },
+    version: { type: Number, required: true },
+    mg811: { type: Mg811CurveSchema, default: null },
+    mq135: { type: Mq135BaselineSchema, default: null },
+    offsets: { type: OffsetsSchema, default: () => ({}) },
+    baselineSession: { type: BaselineSessionSchema, default: null },
+    notes: { type: String, default: '' },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CalibrationProfileSchema.index({ deviceId: 1, version: -1 }, { unique: true });
+
+export const CalibrationProfile =
+  mongoose.models.CalibrationProfile ||
+  mongoose.model('CalibrationProfile', CalibrationProfileSchema);
@@ -34,6 +34,8 @@ const ExportRecipeSchema = new Schema(
     questionText: { type: String, default: '' },
 
     deviceId: { type: String, default: null },
+    // Only readings tagged with this zone at ingest (models/Zone.js)
+    zoneId: { type: Schema.Types.ObjectId, ref: 'Zone', default: null },
     context: {
       type: String,
       enum: ['indoor', 'outdoor', 'all'],
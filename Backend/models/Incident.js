@@ -0,0 +1,59 @@
+// models/Incident.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+const IncidentNoteSchema = new Schema(
+  {
+    text: { type: String, required: true, maxlength: 2000 },
+    author: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    authorName: { type: String, default: '' },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+/**
+ * One exceedance of an alert rule on one device (services/incidents.js).
+ * Opened when the alert fires, given clearedAt when the value recovers;
+ * acknowledging and resolving are separate operator steps.
+ */
+const IncidentSchema = new Schema(
+  {
+    // alertEngine alertId of the firing that opened the incident
+    alertId: { type: String, required: true, unique: true },
+    ruleId: { type: Schema.Types.ObjectId, ref: 'AlertRule', required: true },
+    ruleName: { type: String, required: true },
+    deviceId: { type: String, required: true, index: true },
+    metric: { type: String, required: true },
+    operator: { type: String, enum: ['gt', 'gte', 'lt', 'lte'], required: true },
+    threshold: { type: Number, required: true },
+    severity: { type: String, enum: ['info', 'warning', 'critical'], required: true },
+    status: {
+      type: String,
+      enum: ['OPEN', 'ACKNOWLEDGED', 'RESOLVED'],
+      default: 'OPEN',
+      index: true,
+    },
+    // Exceedance window: startedAt is when the condition began to hold
+    startedAt: { type: Date, required: true },
+    triggeredAt: { type: Date, required: true },
+    clearedAt: { type: Date, default: null },
+    durationSec: { type: Number, default: null },
+    peakValue: { type: Number, required: true },
+    peakAt: { type: Date, required: true },
+    acknowledgedAt: { type: Date, default: null },
+    acknowledgedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    resolvedAt: { type: Date, default: null },
+    resolvedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    notes: { type: [IncidentNoteSchema], default: [] },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+IncidentSchema.index({ deviceId: 1, startedAt: -1 });
+
+export const Incident =
+  mongoose.models.Incident || mongoose.model('Incident', IncidentSchema);
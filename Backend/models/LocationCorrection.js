@@ -0,0 +1,63 @@
+// models/LocationCorrection.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+/**
+ * An operator's fix for where a node was between validFrom and validTo.
+ * Stored readings are never rewritten: corrections are layered over them
+ * when they are read (services/locationCorrections.js), so the hashed
+ * original location stays intact. The newest correction covering a reading
+ * wins.
+ *
+ * Append-only: every record is HMAC-signed and chained to the device's
+ * previous correction, and updates / deletes are refused below.
+ */
+const LocationCorrectionSchema = new Schema(
+  {
+    deviceId: { type: String, required: true },
+    lat: { type: Number, required: true },
+    lng: { type: Number, required: true },
+    validFrom: { type: Date, required: true },
+    validTo: { type: Date, required: true },
+    // 'phone' = browser geolocation from the dashboard
+    source: { type: String, enum: ['phone', 'manual'], default: 'phone' },
+    accuracyM: { type: Number, default: null },
+    correctedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    correctedByName: { type: String, default: '' },
+    createdAt: { type: Date, required: true },
+    // signature of the device's previous correction; null for the first
+    prevSignature: { type: String, default: null },
+    signature: { type: String, required: true },
+    signatureVersion: { type: Number, required: true },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+LocationCorrectionSchema.index({ deviceId: 1, validFrom: 1, validTo: 1 });
+LocationCorrectionSchema.index({ deviceId: 1, createdAt: -1 });
+
+// Two records chaining to the same predecessor would fork the device's chain
+// (recordCorrection retries on the duplicate key). prevSignature is null
+// only for a device's first record, so that is covered too.
+LocationCorrectionSchema.index({ deviceId: 1, prevSignature: 1 }, { unique: true });
+
+function appendOnly() {
+  throw new Error('Location corrections are append-only');
+}
+
+LocationCorrectionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  { document: false, query: true },
+  appendOnly
+);
+LocationCorrectionSchema.pre(['updateOne', 'deleteOne'], { document: true, query: false }, appendOnly);
+LocationCorrectionSchema.pre('save', function rejectEdits() {
+  if (!this.isNew) appendOnly();
+});
+
+export const LocationCorrection =
+  mongoose.models.LocationCorrection ||
+  mongoose.model('LocationCorrection', LocationCorrectionSchema);
@@ -0,0 +1,40 @@
+// models/Node.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+/**
+ * Per-node (site) settings, keyed by the deviceId the node reports.
+ * A node without a document uses the defaults.
+ */
+const NodeSchema = new Schema(
+  {
+    deviceId: { type: String, required: true, unique: true, trim: true },
+    // Display name on the map; empty = show the deviceId
+    name: { type: String, trim: true, maxlength: 80, default: '' },
+    // Last known position, so the map can place the node before (or
+    // without) a live reading. `source` is the node's own GPS or a phone fix.
+    lastLocation: {
+      lat: { type: Number, default: null },
+      lng: { type: Number, default: null },
+      at: { type: Date, default: null },
+      source: { type: String, enum: ['gps', 'phone'], default: null },
+    },
+    // AQI breakpoint tables used for this site (services/aqi.js)
+    aqiStandard: {
+      type: String,
+      enum: ['IN_NAQI', 'US_EPA'],
+      default: 'IN_NAQI',
+    },
+    // CO₂ occupational exposure limits (services/exposure.js); null = default
+    exposureLimits: {
+      twa8hPpm: { type: Number, default: null },
+      stel15minPpm: { type: Number, default: null },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Node = mongoose.models.Node || mongoose.model('Node', NodeSchema);
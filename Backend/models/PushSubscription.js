@@ -0,0 +1,28 @@
+// models/PushSubscription.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+/**
+ * One browser's Web Push subscription (PushManager.subscribe) for a user.
+ * A user has one per browser / device they enabled notifications on.
+ * Removed when the push service reports it expired (services/pushNotifications.js).
+ */
+const PushSubscriptionSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    endpoint: { type: String, required: true, unique: true },
+    keys: {
+      p256dh: { type: String, required: true },
+      auth: { type: String, required: true },
+    },
+    userAgent: { type: String, default: '', maxlength: 300 },
+    lastSuccessAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const PushSubscription =
+  mongoose.models.PushSubscription || mongoose.model('PushSubscription', PushSubscriptionSchema);
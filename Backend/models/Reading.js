@@ -8,6 +8,9 @@ const LocationSchema = new Schema(
     lat: { type: Number, default: null },
     lng: { type: Number, default: null },
     altitude: { type: Number, default: null },
+    // km/h from the node's GPS. No default, so readings stored before it
+    // existed keep hashing as they did.
+    speed: { type: Number },
     context: { type: String, enum: ['indoor', 'outdoor'], required: true },
   },
   { _id: false }
@@ -24,9 +27,22 @@ const EnvironmentSchema = new Schema(
 const AirSchema = new Schema(
   {
     aqi: { type: Number, required: true },
+    // Breakpoint engine output (services/aqi.js); null on older readings
+    aqiStandard: { type: String, enum: ['IN_NAQI', 'US_EPA', null], default: null },
+    aqiCategory: { type: String, default: null },
+    dominantPollutant: { type: String, default: null },
     co2ppm: { type: Number, required: true },
     mq135Raw: { type: Number, default: null },
     mq135Volt: { type: Number, default: null },
+    // Temperature/humidity compensated MQ135 values (services/calibration.js):
+    // Rs/R0, CO₂-equivalent ppm, the factor Rs was divided by and the
+    // reference-equivalent ADC count the AQI uses. mq135Raw stays as sent.
+    mq135Ratio: { type: Number, default: null },
+    mq135Ppm: { type: Number, default: null },
+    mq135Compensation: { type: Number, default: null },
+    mq135Corrected: { type: Number, default: null },
+    // Optional concentrations reported by the node, e.g. { pm25: 42 }
+    pollutants: { type: Schema.Types.Mixed, default: null },
   },
   { _id: false }
 );
@@ -60,6 +76,31 @@ const EmissionsSchema = new Schema(
   { _id: false }
 );
 
+// Uncalibrated inputs, kept so readings can be reprocessed with a newer profile
+const RawInputsSchema = new Schema(
+  {
+    temperature: { type: Number, default: null },
+    humidity: { type: Number, default: null },
+    co2ppm: { type: Number, default: null },
+    mg811Raw: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const RecalibrationSchema = new Schema(
+  {
+    fromVersion: { type: Number, default: null },
+    toVersion: { type: Number, required: true },
+    // dataHash and anchor before reprocessing, so an earlier anchor stays
+    // traceable after the reading goes back to PENDING
+    previousHash: { type: String, default: null },
+    previousTxHash: { type: String, default: null },
+    reprocessedAt: { type: Date, default: Date.now },
+    reprocessedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { _id: false }
+);
+
 const MetaSchema = new Schema(
   {
     firmwareVersion: { type: String },
@@ -68,6 +109,16 @@ const MetaSchema = new Schema(
   { _id: false }
 );
 
+const HashMigrationSchema = new Schema(
+  {
+    fromVersion: { type: Number, required: true },
+    legacyHash: { type: String, default: null },
+    legacyVerdict: { type: String, enum: ['INTACT', 'TAMPERED', 'NO_HASH'], required: true },
+    migratedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const ReadingSchema = new Schema(
   {
     deviceId: { type: String, required: true, index: true },
@@ -80,10 +131,23 @@ const ReadingSchema = new Schema(
     sourceClassification: { type: SourceClassificationSchema, required: true },
     emissions: { type: EmissionsSchema, required: true },
     meta: { type: MetaSchema },
+    raw: { type: RawInputsSchema, default: undefined },
+    // CalibrationProfile version applied; null when the device had none
+    calibrationVersion: { type: Number },
+    // Zone the fix fell in at ingest (models/Zone.js). Not part of the hash:
+    // zones are site metadata, not sensor data.
+    zoneId: { type: Schema.Types.ObjectId, ref: 'Zone' },
+    recalibrations: { type: [RecalibrationSchema], default: undefined },
     // ── Blockchain integrity fields ──────────────────────────────────────────
     // SHA-256 fingerprint of the immutable sensor payload (computed at ingest).
     // If any field is later altered in MongoDB, re-hashing will NOT match this value.
     dataHash: { type: String, index: true },
+    // Serialisation scheme used for dataHash (see services/readingHash.js).
+    // Documents written before versioning existed are version 1.
+    hashVersion: { type: Number, default: 1 },
+    // Set by scripts/migrate-hash-versions.js when a legacy hash is replaced.
+    // Keeps the original hash and the verdict it produced before re-hashing.
+    hashMigration: { type: HashMigrationSchema, default: undefined },
     // Tracks on-chain anchoring lifecycle: PENDING → ANCHORED (Phase 2)
     anchorStatus: {
       type: String,
@@ -98,5 +162,10 @@ const ReadingSchema = new Schema(
   }
 );
 
+// Per-device time-range scans (history, replay paging) walk this index
+ReadingSchema.index({ deviceId: 1, timestamp: 1, _id: 1 });
+// Zone summaries walk each device's readings per zone in time order
+ReadingSchema.index({ zoneId: 1, deviceId: 1, timestamp: 1 }, { sparse: true });
+
 export const Reading =
   mongoose.models.Reading || mongoose.model('Reading', ReadingSchema);
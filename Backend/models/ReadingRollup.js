@@ -0,0 +1,39 @@
+// models/ReadingRollup.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+/**
+ * Pre-computed per-device aggregate of the readings in one time bucket.
+ * Maintained by services/rollups.js: incremented at ingest and rebuilt by
+ * scripts/rebuild-rollups.js.
+ *
+ * metrics.<name> = { n, sum, min, max, hist }, where hist maps a fixed-width
+ * bin index to a sample count (used for p95). Stored as Mixed because the
+ * bin keys are dynamic.
+ */
+const ReadingRollupSchema = new Schema(
+  {
+    deviceId: { type: String, required: true },
+    resolution: { type: String, enum: ['minute', 'hour', 'day'], required: true },
+    // UTC start of the bucket
+    bucketStart: { type: Date, required: true },
+    count: { type: Number, default: 0 },
+    firstTs: { type: Date, default: null },
+    lastTs: { type: Date, default: null },
+    // No default: upserts build it from $inc paths, and an inserted {}
+    // would collide with them
+    metrics: { type: Schema.Types.Mixed },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+ReadingRollupSchema.index(
+  { deviceId: 1, resolution: 1, bucketStart: 1 },
+  { unique: true }
+);
+
+export const ReadingRollup =
+  mongoose.models.ReadingRollup || mongoose.model('ReadingRollup', ReadingRollupSchema);
@@ -70,6 +70,41 @@ const userSchema = new mongoose.Schema(
       default: '',
       maxlength: 200,
     },
+    /**
+     * Node the user last picked in the global device selector.
+     */
+    selectedDeviceId: {
+      type: String,
+      default: null,
+      trim: true,
+    },
+    /**
+     * Sensitivity profile that tailors Health thresholds and advice
+     * (Frontend/src/lib/healthProfiles.ts).
+     */
+    healthProfile: {
+      type: String,
+      enum: ['general', 'asthma', 'cardiac', 'pregnancy', 'elderly', 'child', 'outdoorWorker'],
+      default: 'general',
+    },
+    /**
+     * Web Push preferences (services/pushNotifications.js). Quiet hours are
+     * local times in `timezone`; critical alerts can be let through.
+     */
+    notificationPrefs: {
+      severities: {
+        info: { type: Boolean, default: false },
+        warning: { type: Boolean, default: true },
+        critical: { type: Boolean, default: true },
+      },
+      quietHours: {
+        enabled: { type: Boolean, default: false },
+        start: { type: String, default: '22:00' },
+        end: { type: String, default: '07:00' },
+        timezone: { type: String, default: 'UTC' },
+        allowCritical: { type: Boolean, default: true },
+      },
+    },
   },
   { timestamps: true }
 );
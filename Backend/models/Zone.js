@@ -0,0 +1,26 @@
+// models/Zone.js
+import mongoose from 'mongoose';
+
+const { Schema } = mongoose;
+
+/**
+ * A named area of a site (kiln floor, control room, campus perimeter).
+ * Readings whose fix falls inside are tagged with the zone at ingest;
+ * where zones overlap the smallest one wins.
+ */
+const ZoneSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 80 },
+    // [lat, lng] vertices in drawing order; the ring is closed implicitly
+    polygon: { type: [[Number]], required: true },
+    color: { type: String, default: '#f97316' },
+    // AQI above this counts towards the zone's time in exceedance
+    aqiLimit: { type: Number, default: 100 },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Zone = mongoose.models.Zone || mongoose.model('Zone', ZoneSchema);
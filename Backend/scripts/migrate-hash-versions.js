@@ -0,0 +1,88 @@
+/**
+ * migrate-hash-versions.js — Re-hashes legacy (version 1) readings with the
+ * canonical version 2 serialiser from services/readingHash.js.
+ *
+ * For every legacy reading the old hash is verified first and its verdict is
+ * stored in `hashMigration`, together with the original hash. A reading that
+ * was already TAMPERED under version 1 keeps that verdict after migration.
+ * Readings that never had a hash are left alone.
+ *
+ * Run from the Backend folder:
+ *   npm run migrate:hashes             # apply
+ *   npm run migrate:hashes -- --dry-run
+ */
+
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { Reading } from '../models/Reading.js';
+import {
+  CURRENT_HASH_VERSION,
+  LEGACY_HASH_VERSION,
+  computeReadingHash,
+  verifyReadingHash,
+} from '../services/readingHash.js';
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+async function main() {
+  if (!process.env.MONGODB_URI) {
+    console.error('❌ MONGODB_URI not set');
+    process.exit(1);
+  }
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log(`✅ Connected to MongoDB${DRY_RUN ? ' (dry run — no writes)' : ''}`);
+
+  const filter = {
+    dataHash: { $ne: null },
+    $or: [{ hashVersion: { $exists: false } }, { hashVersion: LEGACY_HASH_VERSION }],
+  };
+
+  const totals = { scanned: 0, intact: 0, tampered: 0 };
+  const cursor = Reading.find(filter).lean().cursor();
+
+  for await (const reading of cursor) {
+    totals.scanned += 1;
+
+    const { verdict } = verifyReadingHash({ ...reading, hashVersion: LEGACY_HASH_VERSION });
+    if (verdict === 'TAMPERED') {
+      totals.tampered += 1;
+      console.warn(`⚠️  [${reading._id}] legacy hash mismatch — verdict TAMPERED is carried forward`);
+    } else {
+      totals.intact += 1;
+    }
+
+    if (DRY_RUN) continue;
+
+    await Reading.updateOne(
+      { _id: reading._id },
+      {
+        $set: {
+          dataHash: computeReadingHash(reading, CURRENT_HASH_VERSION),
+          hashVersion: CURRENT_HASH_VERSION,
+          hashMigration: {
+            fromVersion: LEGACY_HASH_VERSION,
+            legacyHash: reading.dataHash,
+            legacyVerdict: verdict,
+            migratedAt: new Date(),
+          },
+        },
+      },
+    );
+  }
+
+  console.log(
+    `🔁 Scanned ${totals.scanned} legacy readings — ${totals.intact} intact, ${totals.tampered} tampered` +
+    (DRY_RUN ? '' : `, re-hashed to v${CURRENT_HASH_VERSION}`),
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error('❌ Migration failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  });
@@ -0,0 +1,72 @@
+/**
+ * rebuild-rollups.js — Recomputes the minute/hour/day ReadingRollup buckets
+ * from raw readings, e.g. after a backfill, a data repair or when rollups
+ * are first introduced on an existing database.
+ *
+ * Buckets in the range are deleted and rebuilt; the range is widened to
+ * whole UTC days. Without options every device and every day is rebuilt.
+ * Run it while ingest is quiet for the affected days: the server only holds
+ * back its live rollup writes for rebuilds it runs itself, so a reading
+ * stored mid-rebuild by the server can be counted twice.
+ *
+ * Run from the Backend folder:
+ *   npm run rollups:rebuild
+ *   npm run rollups:rebuild -- --device ATMOSTRACK-02 --from 2025-01-01 --to 2025-01-31
+ */
+
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { rebuildRollups } from '../services/rollups.js';
+
+function argValue(name) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i !== -1 ? process.argv[i + 1] : undefined;
+}
+
+function parseDate(name) {
+  const raw = argValue(name);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) {
+    console.error(`❌ --${name} must be an ISO date, got "${raw}"`);
+    process.exit(1);
+  }
+  return date;
+}
+
+async function main() {
+  if (!process.env.MONGODB_URI) {
+    console.error('❌ MONGODB_URI not set');
+    process.exit(1);
+  }
+
+  const deviceId = argValue('device');
+  const from = parseDate('from');
+  const to = parseDate('to');
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log('✅ Connected to MongoDB');
+  console.log(`🧮 Rebuilding rollups for ${deviceId ?? 'all devices'}…`);
+
+  const result = await rebuildRollups({
+    deviceId,
+    from,
+    to,
+    onProgress: (n) => console.log(`   … ${n} readings processed`),
+  });
+
+  const range = result.from || result.to
+    ? ` (${result.from?.toISOString() ?? 'start'} → ${result.to?.toISOString() ?? 'now'})`
+    : '';
+  console.log(`✅ ${result.readings} readings folded into ${result.buckets} bucket writes${range}`);
+}
+
+main()
+  .catch((err) => {
+    console.error('❌ Rollup rebuild failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  });
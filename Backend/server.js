@@ -14,12 +14,95 @@ import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { Reading } from './models/Reading.js';
 import { ExportRecipe } from './models/ExportRecipe.js';
+import { Node } from './models/Node.js';
+import { CalibrationProfile } from './models/CalibrationProfile.js';
+import { AlertRule } from './models/AlertRule.js';
+import { Incident } from './models/Incident.js';
+import { PushSubscription } from './models/PushSubscription.js';
+import { Zone } from './models/Zone.js';
 import User from './models/User.js';
 import Verification from './models/Verification.js';
 import nodemailer from 'nodemailer';
 import PasswordReset from './models/PasswordReset.js';
 import { OAuth2Client } from 'google-auth-library';
-import { anchorReading, isReady as anchorReady } from './services/anchorService.js';
+import { anchorReading, anchorRecordId, isReady as anchorReady } from './services/anchorService.js';
+import {
+  MAX_BUCKETS,
+  MAX_RANGE_MS,
+  RESOLUTIONS,
+  aggregateReadings,
+  deviceSummaries,
+  pickResolution,
+} from './services/readingAggregates.js';
+import { ROLLUP_METRICS, applyReadingToRollups, rebuildRollups } from './services/rollups.js';
+import {
+  co2HealthAdvice,
+  co2Status,
+  estimateEmissionsKgFromCO2ppm,
+} from './services/sensorConversions.js';
+import {
+  DEFAULT_AQI_STANDARD,
+  FALLBACK_AQI,
+  computeAQI,
+  isAqiStandard,
+  sanitizePollutants,
+} from './services/aqi.js';
+import {
+  AI_WINDOW_SIZE,
+  REPROCESS_MAX_RANGE_MS,
+  applyCalibration,
+  getActiveProfile,
+  invalidateProfile,
+  reanchorReadings,
+  reprocessReadings,
+  summariseBaseline,
+  validateProfileInput,
+} from './services/calibration.js';
+import {
+  dropRuleState,
+  evaluateAlertRules,
+  getActiveAlerts,
+  invalidateRules,
+  restoreFiringAlerts,
+  validateRuleInput,
+} from './services/alertEngine.js';
+import { incidentStats, recordIncidents, unclearedIncidents } from './services/incidents.js';
+import {
+  computeDailyExposure,
+  exposureRecordCsv,
+  resolveExposureLimits,
+  validateExposureLimits,
+} from './services/exposure.js';
+import { MAX_HORIZON_MINUTES, forecastDevice } from './services/forecast.js';
+import {
+  DEFAULT_TRACK_POINTS,
+  MAX_TRACK_POINTS,
+  buildTrack,
+  hasFix,
+} from './services/track.js';
+import { hourlySnapshots } from './services/surface.js';
+import {
+  applyLocationCorrections,
+  correctReading,
+  correctionLog,
+  findCorrections,
+  recordCorrection,
+  validateCorrection,
+  verifyCorrection,
+} from './services/locationCorrections.js';
+import { invalidateZones, validateZone, zoneIdFor, zoneStats } from './services/zones.js';
+import {
+  getPublicKey as getPushPublicKey,
+  isReady as pushReady,
+  notifyAlertEvents,
+  sendTestNotification,
+  validatePreferences as validatePushPreferences,
+} from './services/pushNotifications.js';
+import {
+  CURRENT_HASH_VERSION,
+  computeReadingHash,
+  verifyReadingHash,
+} from './services/readingHash.js';
 
 
 
@@ -93,16 +176,23 @@ if (!process.env.JWT_SECRET) {
   process.exit(1);
 }
 const JWT_SECRET = process.env.JWT_SECRET;
+// Location corrections are signed with their own key, never the JWT one
+if (!process.env.LOCATION_CORRECTION_SECRET) {
+  console.error('FATAL: LOCATION_CORRECTION_SECRET env var is not set. Refusing to start.');
+  process.exit(1);
+}
 const BCRYPT_ROUNDS = 12; // standardized across all password operations
 
 const googleClient = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
 
 let latestSensorData = null;
 let sensorHistory = [];
+// Latest live reading per deviceId — latestSensorData is only the most recent overall
+const latestByDevice = new Map();
 
 
-const WINDOW_SIZE = 12;
-let aiWindow = [];
+// Rolling AI feature window per deviceId so nodes never mix their samples
+const aiWindows = new Map();
 
 
 // ------------ CreditBatch model ------------
@@ -369,6 +459,7 @@ app.post('/api/auth/signup', authLimiter, async (req, res) => {
         emailVerified: user.emailVerified,
         lastLogin: user.lastLogin,
         needsRoleSelection: user.needsRoleSelection || false,
+        healthProfile: user.healthProfile ?? 'general',
       },
       token,
     });
@@ -432,6 +523,7 @@ app.post('/api/auth/login', authLimiter, async (req, res) => {
         emailVerified: user.emailVerified,
         lastLogin: user.lastLogin,
         needsRoleSelection: user.needsRoleSelection || false,
+        healthProfile: user.healthProfile ?? 'general',
       },
       token,
     });
@@ -521,6 +613,7 @@ app.post('/api/auth/google', authLimiter, async (req, res) => {
         emailVerified: user.emailVerified,
         lastLogin: user.lastLogin,
         needsRoleSelection: user.needsRoleSelection || false,
+        healthProfile: user.healthProfile ?? 'general',
       },
       token,
     });
@@ -760,6 +853,7 @@ app.post('/api/auth/refresh-token', authenticateToken, async (req, res) => {
         emailVerified: user.emailVerified,
         lastLogin: user.lastLogin,
         needsRoleSelection: user.needsRoleSelection || false,
+        healthProfile: user.healthProfile ?? 'general',
       },
     });
   } catch (err) {
@@ -816,6 +910,7 @@ app.put('/api/auth/update-role', authenticateToken, async (req, res) => {
         emailVerified: user.emailVerified,
         lastLogin: user.lastLogin,
         needsRoleSelection: false,
+        healthProfile: user.healthProfile ?? 'general',
       },
     });
   } catch (err) {
@@ -871,7 +966,7 @@ function getPath(obj, path) {
 
 app.get('/api/admin/stats', authenticateToken, requireAdmin, async (req, res) => {
   try {
-    const [totalUsers, verifiedUsers, activeUsers, adminCount, operatorCount, viewerCount, totalReadings, anchoredReadings, pendingBatches] = await Promise.all([
+    const [totalUsers, verifiedUsers, activeUsers, adminCount, operatorCount, viewerCount, totalReadings, anchoredReadings, pendingBatches, incidents] = await Promise.all([
       User.countDocuments(),
       User.countDocuments({ emailVerified: true }),
       User.countDocuments({ isActive: true }),
@@ -881,6 +976,7 @@ app.get('/api/admin/stats', authenticateToken, requireAdmin, async (req, res) =>
       Reading.countDocuments(),
       Reading.countDocuments({ anchorStatus: 'ANCHORED' }),
       CreditBatch.countDocuments({ status: 'PENDING' }),
+      incidentStats(),
     ]);
     const lockedUsers = totalUsers - activeUsers;
     return res.json({
@@ -888,6 +984,7 @@ app.get('/api/admin/stats', authenticateToken, requireAdmin, async (req, res) =>
       users: { total: totalUsers, verified: verifiedUsers, locked: lockedUsers, byRole: { admin: adminCount, operator: operatorCount, viewer: viewerCount } },
       readings: { total: totalReadings, anchored: anchoredReadings },
       carbon: { pendingBatches },
+      incidents,
     });
   } catch (err) {
     console.error('Error in /api/admin/stats:', err);
@@ -991,7 +1088,7 @@ app.post('/api/admin/users/:id/force-reset', authenticateToken, requireAdmin, as
 app.get('/api/admin/ledger', authenticateToken, requireAdmin, async (req, res) => {
   try {
     const readings = await Reading.find({})
-      .select('deviceId timestamp dataHash anchorStatus sourceClassification air')
+      .select('deviceId timestamp dataHash hashVersion anchorStatus sourceClassification air')
       .sort({ timestamp: -1 })
       .limit(30)
       .lean();
@@ -1034,7 +1131,10 @@ app.get('/api/admin/export-recipes', authenticateToken, requireAdmin, async (req
 // POST /api/admin/export-recipes
 app.post('/api/admin/export-recipes', authenticateToken, requireAdmin, async (req, res) => {
   try {
-    const { name, questionText, deviceId, context, timeRange, fields, format, delivery } = req.body;
+    const { name, questionText, deviceId, zoneId, context, timeRange, fields, format, delivery } = req.body;
+    if (zoneId && !mongoose.Types.ObjectId.isValid(zoneId)) {
+      return res.status(400).json({ ok: false, error: 'zoneId must be a valid zone id' });
+    }
     
     const recipeId = `recipe-${crypto.randomBytes(4).toString('hex')}`;
     const newRecipe = new ExportRecipe({
@@ -1042,6 +1142,7 @@ app.post('/api/admin/export-recipes', authenticateToken, requireAdmin, async (re
       name,
       questionText,
       deviceId,
+      zoneId: zoneId || null,
       context,
       timeRange,
       fields,
@@ -1106,33 +1207,221 @@ app.post('/api/admin/export-recipes/:id/run', authenticateToken, requireAdmin, a
   }
 });
 
-// GET /api/readings/history  last N hours for time-series chart
+// Every stored field toLiveReading() reads; history (format=live) and the
+// reconnect backfill select exactly these so both match the socket payload
+const LIVE_READING_FIELDS = 'deviceId timestamp environment location air calibrationVersion sourceClassification';
+
+// Shape a stored Reading like the live `reading:new` payload so the
+// frontend can merge both into the same realtime buffer.
+function toLiveReading(r) {
+  const co2ppm = r.air?.co2ppm ?? null;
+  return {
+    id: r._id.toString(),
+    deviceId: r.deviceId,
+    timestamp: new Date(r.timestamp).toISOString(),
+    environment: {
+      temperature: r.environment?.temperature ?? null,
+      humidity: r.environment?.humidity ?? null,
+    },
+    location: {
+      lat: r.location?.lat ?? null,
+      lng: r.location?.lng ?? null,
+    },
+    co2: co2ppm != null
+      ? { ppm: co2ppm, status: co2Status(co2ppm), healthAdvice: co2HealthAdvice(co2ppm) }
+      : null,
+    mq135: {
+      raw: r.air?.mq135Raw ?? null,
+      volt: r.air?.mq135Volt ?? null,
+      corrected: r.air?.mq135Corrected ?? null,
+      ratio: r.air?.mq135Ratio ?? null,
+      ppm: r.air?.mq135Ppm ?? null,
+      compensation: r.air?.mq135Compensation ?? null,
+    },
+    pollutants: r.air?.pollutants ?? null,
+    calibrationVersion: r.calibrationVersion ?? null,
+    air: { co2ppm, aqi: r.air?.aqi ?? null },
+    sourceClassification: r.sourceClassification ?? null,
+  };
+}
+
+// GET /api/readings/history  time-series for charts and replay
+//   ?hours=N                   last N hours (max 31 days), or
+//   ?from=ISO&to=ISO           explicit range (max 31 days)
+//   &format=live               full LiveReading shape instead of chart points
+//   &limit=N&cursor=…          paging; follow nextCursor until it is null
+const HISTORY_MAX_HOURS = 31 * 24;
+const HISTORY_MAX_LIMIT = 5000;
+
+// Cursor = last (timestamp, _id) returned, so equal timestamps never skip rows
+const encodeHistoryCursor = (r) =>
+  Buffer.from(`${new Date(r.timestamp).toISOString()}|${r._id}`).toString('base64url');
+
+function decodeHistoryCursor(cursor) {
+  const [ts, id] = Buffer.from(String(cursor), 'base64url').toString('utf8').split('|');
+  const timestamp = new Date(ts);
+  if (Number.isNaN(timestamp.getTime()) || !mongoose.Types.ObjectId.isValid(id)) return null;
+  return { timestamp, _id: new mongoose.Types.ObjectId(id) };
+}
+
 app.get('/api/readings/history', authenticateToken, async (req, res) => {
   try {
-    const hours = Math.min(parseInt(req.query.hours ?? '24', 10), 72);
-    const deviceId = req.query.deviceId ?? 'ATMOSTRACK-01';
-    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const deviceId = req.query.deviceId ? String(req.query.deviceId) : null;
+    if (!deviceId) {
+      return res.status(400).json({ ok: false, error: 'deviceId required' });
+    }
+    const live = req.query.format === 'live';
+
+    let from;
+    let to;
+    if (req.query.from) {
+      from = new Date(String(req.query.from));
+      to = req.query.to ? new Date(String(req.query.to)) : new Date();
+      if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({ ok: false, error: 'from/to must be ISO timestamps with from < to' });
+      }
+      if (to - from > HISTORY_MAX_HOURS * 60 * 60 * 1000) {
+        return res.status(400).json({ ok: false, error: `Range exceeds ${HISTORY_MAX_HOURS} hours` });
+      }
+    } else {
+      const hours = Math.min(parseInt(req.query.hours ?? '24', 10) || 24, HISTORY_MAX_HOURS);
+      to = new Date();
+      from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+    }
+    const hours = Number(((to - from) / (60 * 60 * 1000)).toFixed(2));
+    const limit = Math.min(parseInt(req.query.limit ?? '500', 10) || 500, HISTORY_MAX_LIMIT);
+
+    const filter = { deviceId, timestamp: { $gte: from, $lte: to } };
+    if (req.query.cursor) {
+      const after = decodeHistoryCursor(req.query.cursor);
+      if (!after) return res.status(400).json({ ok: false, error: 'Invalid cursor' });
+      filter.$or = [
+        { timestamp: { $gt: after.timestamp } },
+        { timestamp: after.timestamp, _id: { $gt: after._id } },
+      ];
+    }
 
-    const readings = await Reading.find(
-      { deviceId, timestamp: { $gte: since } },
-      { timestamp: 1, 'air.co2ppm': 1, 'air.aqi': 1, 'environment.temperature': 1, 'environment.humidity': 1 }
-    ).sort({ timestamp: 1 }).limit(500).lean();
+    const projection = live
+      ? LIVE_READING_FIELDS
+      : { timestamp: 1, 'air.co2ppm': 1, 'air.aqi': 1, 'environment.temperature': 1, 'environment.humidity': 1 };
 
-    const data = readings.map(r => ({
-      ts: new Date(r.timestamp).getTime(),
-      co2: r.air?.co2ppm ?? null,
-      aqi: r.air?.aqi ?? null,
-      temp: r.environment?.temperature ?? null,
-      humidity: r.environment?.humidity ?? null,
-    }));
+    const readings = await Reading.find(filter, projection)
+      .sort({ timestamp: 1, _id: 1 })
+      .limit(limit)
+      .lean();
+
+    const data = live
+      ? (await applyLocationCorrections(readings)).map(toLiveReading)
+      : readings.map(r => ({
+        ts: new Date(r.timestamp).getTime(),
+        co2: r.air?.co2ppm ?? null,
+        aqi: r.air?.aqi ?? null,
+        temp: r.environment?.temperature ?? null,
+        humidity: r.environment?.humidity ?? null,
+      }));
+
+    const nextCursor = readings.length === limit
+      ? encodeHistoryCursor(readings[readings.length - 1])
+      : null;
 
-    return res.json({ ok: true, hours, deviceId, count: data.length, data });
+    return res.json({
+      ok: true,
+      hours,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      deviceId,
+      count: data.length,
+      nextCursor,
+      data,
+    });
   } catch (err) {
     console.error('Error in /api/readings/history:', err);
     return res.status(500).json({ ok: false, error: 'Failed to fetch history' });
   }
 });
 
+// GET /api/readings/aggregate  bucketed mean/min/max/p95 for long-range charts
+//   ?deviceId=…&from=ISO&to=ISO&resolution=minute|hour|day|auto
+app.get('/api/readings/aggregate', authenticateToken, async (req, res) => {
+  try {
+    const deviceId = req.query.deviceId ? String(req.query.deviceId) : null;
+    const from = new Date(String(req.query.from ?? ''));
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    if (!deviceId || Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return res.status(400).json({ ok: false, error: 'deviceId and from/to (ISO, from < to) required' });
+    }
+    if (to - from > MAX_RANGE_MS) {
+      return res.status(400).json({ ok: false, error: 'Range exceeds one year' });
+    }
+
+    const requested = String(req.query.resolution ?? 'auto');
+    const resolution = requested === 'auto' ? pickResolution(to - from) : requested;
+    if (!RESOLUTIONS[resolution]) {
+      return res.status(400).json({ ok: false, error: 'resolution must be minute, hour, day or auto' });
+    }
+    if ((to - from) / RESOLUTIONS[resolution] > MAX_BUCKETS) {
+      return res.status(400).json({ ok: false, error: `Too many ${resolution} buckets for this range; use a coarser resolution` });
+    }
+
+    const data = await aggregateReadings({ deviceId, from, to, resolution });
+    return res.json({
+      ok: true,
+      deviceId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      resolution,
+      count: data.length,
+      data,
+    });
+  } catch (err) {
+    console.error('Error in /api/readings/aggregate:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to aggregate readings' });
+  }
+});
+
+// GET /api/readings/since  readings stored after a timestamp (socket gap backfill), oldest first;
+//   follow nextCursor while truncated
+app.get('/api/readings/since', authenticateToken, async (req, res) => {
+  try {
+    const since = new Date(String(req.query.since ?? ''));
+    if (Number.isNaN(since.getTime())) {
+      return res.status(400).json({ ok: false, error: 'since (ISO timestamp) required' });
+    }
+    const limit = Math.min(parseInt(req.query.limit ?? '1000', 10) || 1000, 2000);
+
+    const filter = { timestamp: { $gt: since } };
+    if (req.query.deviceId) filter.deviceId = String(req.query.deviceId);
+    // Same keyset cursor as /history, so a long gap is fetched page by page
+    if (req.query.cursor) {
+      const after = decodeHistoryCursor(req.query.cursor);
+      if (!after) return res.status(400).json({ ok: false, error: 'Invalid cursor' });
+      filter.$or = [
+        { timestamp: { $gt: after.timestamp } },
+        { timestamp: after.timestamp, _id: { $gt: after._id } },
+      ];
+    }
+
+    const readings = await Reading.find(filter)
+      .select(LIVE_READING_FIELDS)
+      .sort({ timestamp: 1, _id: 1 })
+      .limit(limit)
+      .lean();
+    const truncated = readings.length === limit;
+
+    return res.json({
+      ok: true,
+      since: since.toISOString(),
+      count: readings.length,
+      truncated,
+      nextCursor: truncated ? encodeHistoryCursor(readings[readings.length - 1]) : null,
+      data: (await applyLocationCorrections(readings)).map(toLiveReading),
+    });
+  } catch (err) {
+    console.error('Error in /api/readings/since:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to fetch readings' });
+  }
+});
+
 // GET /api/readings/:id/provenance  full data lineage for a reading
 app.get('/api/readings/:id/provenance', authenticateToken, async (req, res) => {
   try {
@@ -1147,21 +1436,15 @@ app.get('/api/readings/:id/provenance', authenticateToken, async (req, res) => {
     }).lean();
 
     // Re-verify hash integrity
-    const payloadToHash = {
-      deviceId: reading.deviceId,
-      sessionId: reading.sessionId,
-      timestamp: new Date(reading.timestamp).toISOString(),
-      location: reading.location,
-      environment: reading.environment,
-      air: reading.air,
-      aiFeatures: reading.aiFeatures,
-      emissions: reading.emissions,
-    };
-    const recomputedHash = crypto
-      .createHash('sha256')
-      .update(JSON.stringify(payloadToHash, Object.keys(payloadToHash).sort()))
-      .digest('hex');
-    const intact = reading.dataHash ? recomputedHash === reading.dataHash : null;
+    const { hashVersion, recomputedHash, intact, verdict } = verifyReadingHash(reading);
+
+    // Every correction covering this reading, newest (the applied one) first
+    const corrections = await findCorrections({
+      deviceIds: [reading.deviceId],
+      from: reading.timestamp,
+      to: reading.timestamp,
+    });
+    const effective = correctReading(reading, corrections).location;
 
     return res.json({
       ok: true,
@@ -1174,11 +1457,20 @@ app.get('/api/readings/:id/provenance', authenticateToken, async (req, res) => {
           storedHash: reading.dataHash ?? null,
           recomputedHash,
           intact,
-          verdict: intact === true ? 'INTACT' : intact === false ? 'TAMPERED' : 'NO_HASH',
+          verdict,
+          hashVersion,
+          migration: reading.hashMigration ?? null,
+          // Oldest first; each entry's previousHash is what the reading was
+          // sealed (and possibly anchored) with before that reprocess
+          recalibrations: reading.recalibrations ?? [],
         },
         blockchain: {
           anchorStatus: reading.anchorStatus ?? 'PENDING',
           txHash: reading.txHash ?? null,
+          // Key of the on-chain record: reprocessed readings are re-anchored per revision
+          recordId: reading.anchorStatus === 'ANCHORED'
+            ? anchorRecordId(reading._id.toString(), reading.recalibrations?.length ?? 0)
+            : null,
           network: 'Polygon Amoy',
         },
         carbonCredit: batch ? {
@@ -1191,6 +1483,25 @@ app.get('/api/readings/:id/provenance', authenticateToken, async (req, res) => {
         } : null,
         aiClassification: reading.sourceClassification ?? null,
         emissions: reading.emissions ?? null,
+        location: {
+          stored: { lat: reading.location?.lat ?? null, lng: reading.location?.lng ?? null },
+          effective: { lat: effective?.lat ?? null, lng: effective?.lng ?? null },
+          corrections: corrections.map((c, i) => ({
+            id: c._id,
+            lat: c.lat,
+            lng: c.lng,
+            validFrom: c.validFrom,
+            validTo: c.validTo,
+            source: c.source,
+            accuracyM: c.accuracyM,
+            correctedBy: c.correctedBy,
+            correctedByName: c.correctedByName,
+            createdAt: c.createdAt,
+            signature: c.signature,
+            signatureValid: verifyCorrection(c),
+            applied: i === 0,
+          })),
+        },
       },
     });
   } catch (err) {
@@ -1225,6 +1536,7 @@ app.get('/api/auth/profile', authenticateToken, async (req, res) => {
         needsRoleSelection: user.needsRoleSelection || false,
         createdAt: user.createdAt,
         bio: user.bio ?? '',
+        healthProfile: user.healthProfile ?? 'general',
       },
       stats: {
         totalReadings: readingCount,
@@ -1264,7 +1576,8 @@ app.put('/api/auth/profile', authenticateToken, async (req, res) => {
       ok: true,
       user: {
         id: user._id, name: user.name, email: user.email, role: user.role, emailVerified: user.emailVerified, lastLogin: user.lastLogin,
-        needsRoleSelection: user.needsRoleSelection || false, bio: user.bio ?? ''
+        needsRoleSelection: user.needsRoleSelection || false, bio: user.bio ?? '',
+        healthProfile: user.healthProfile ?? 'general',
       },
       token: newToken,
     });
@@ -1275,6 +1588,41 @@ app.put('/api/auth/profile', authenticateToken, async (req, res) => {
 });
 
 
+// PUT /api/auth/selected-device  remember the user's device picker choice
+app.put('/api/auth/selected-device', authenticateToken, async (req, res) => {
+  try {
+    const { deviceId } = req.body;
+    if (!deviceId || typeof deviceId !== 'string') {
+      return res.status(400).json({ ok: false, error: 'deviceId required' });
+    }
+
+    await User.findByIdAndUpdate(req.user.id, { selectedDeviceId: deviceId.trim() });
+    return res.json({ ok: true, selectedDeviceId: deviceId.trim() });
+  } catch (err) {
+    console.error('Error in PUT /api/auth/selected-device:', err);
+    return res.status(500).json({ ok: false, error: 'Update failed' });
+  }
+});
+
+
+// PUT /api/auth/health-profile  sensitivity profile used by the Health view
+app.put('/api/auth/health-profile', authenticateToken, async (req, res) => {
+  try {
+    const { healthProfile } = req.body;
+    const allowed = User.schema.path('healthProfile').enumValues;
+    if (!allowed.includes(healthProfile)) {
+      return res.status(400).json({ ok: false, error: `healthProfile must be one of ${allowed.join(', ')}` });
+    }
+
+    await User.findByIdAndUpdate(req.user.id, { healthProfile });
+    return res.json({ ok: true, healthProfile });
+  } catch (err) {
+    console.error('Error in PUT /api/auth/health-profile:', err);
+    return res.status(500).json({ ok: false, error: 'Update failed' });
+  }
+});
+
+
 // PUT /api/auth/change-password
 app.put('/api/auth/change-password', authenticateToken, async (req, res) => {
   try {
@@ -1380,7 +1728,7 @@ app.get('/', (req, res) => {
 
 // ------------ Export helpers ------------
 function buildExportFilter(query) {
-  const { from, to, deviceId, context = 'all' } = query;
+  const { from, to, deviceId, zoneId, context = 'all' } = query;
 
 
   if (!from || !to) {
@@ -1408,6 +1756,13 @@ function buildExportFilter(query) {
     filter.deviceId = String(deviceId);
   }
 
+  if (zoneId) {
+    if (!mongoose.Types.ObjectId.isValid(String(zoneId))) {
+      return { error: 'zoneId must be a valid zone id' };
+    }
+    filter.zoneId = new mongoose.Types.ObjectId(String(zoneId));
+  }
+
 
   if (context === 'indoor') {
     filter['location.context'] = 'indoor';
@@ -1420,9 +1775,69 @@ function buildExportFilter(query) {
 }
 
 
+// Location corrections that can apply to the readings an export filter matches
+function exportCorrections(filter) {
+  return findCorrections({
+    deviceIds: filter.deviceId ? [filter.deviceId] : null,
+    from: filter.timestamp.$gte,
+    to: filter.timestamp.$lte,
+  });
+}
+
+
+// ?resolution=minute|hour|day exports rollup buckets instead of raw readings.
+// Rollups are per device, so deviceId is required and context is ignored.
+async function loadRollupExport(query) {
+  const { from, to, deviceId, resolution } = query;
+  if (!deviceId) return { error: 'deviceId is required for aggregated exports' };
+  // Rollups are not split by zone
+  if (query.zoneId) return { error: 'Zone filters apply to raw exports only' };
+
+  const fromDate = new Date(String(from));
+  const toDate = new Date(String(to));
+  if (!from || !to || isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+    return { error: 'from and to must be valid ISO date strings' };
+  }
+  if ((toDate - fromDate) / RESOLUTIONS[resolution] > MAX_BUCKETS) {
+    return { error: `Too many ${resolution} buckets for this range; use a coarser resolution` };
+  }
+
+  const buckets = await aggregateReadings({
+    deviceId: String(deviceId),
+    from: fromDate,
+    to: toDate,
+    resolution,
+  });
+  return { buckets };
+}
+
+const isRollupExport = (query) => Boolean(query.resolution && RESOLUTIONS[query.resolution]);
+
+
 // ------------ Export endpoints (preview + CSV) ------------
 app.get('/api/exports/readings', authenticateToken, requireVerified, async (req, res) => {
   try {
+    if (isRollupExport(req.query)) {
+      const { buckets, error } = await loadRollupExport(req.query);
+      if (error) return res.status(400).json({ ok: false, error });
+
+      // Preview rows use the raw-reading shape, with bucket means as values
+      const previewSample = buckets.slice(-3).reverse().map((b) => ({
+        _id: `${req.query.deviceId}-${req.query.resolution}-${b.ts}`,
+        timestamp: new Date(b.ts).toISOString(),
+        air: { aqi: b.aqi.mean, co2ppm: b.co2.mean },
+        environment: { temperature: b.temp.mean, humidity: b.humidity.mean },
+        rollup: { resolution: req.query.resolution, count: b.count },
+      }));
+
+      return res.json({
+        ok: true,
+        resolution: req.query.resolution,
+        totalMatches: buckets.length,
+        previewSample,
+      });
+    }
+
     const { filter, error } = buildExportFilter(req.query);
     if (error) {
       return res.status(400).json({
@@ -1435,10 +1850,9 @@ app.get('/api/exports/readings', authenticateToken, requireVerified, async (req,
 
 
     const count = await Reading.countDocuments(filter);
-    const sample = await Reading.find(filter)
-      .sort({ timestamp: -1 })
-      .limit(3)
-      .lean();
+    const sample = await applyLocationCorrections(
+      await Reading.find(filter).sort({ timestamp: -1 }).limit(3).lean(),
+    );
 
 
     console.log(' Export filter:', JSON.stringify(filter));
@@ -1460,13 +1874,43 @@ app.get('/api/exports/readings', authenticateToken, requireVerified, async (req,
 
 app.get('/api/exports/readings/csv', authenticateToken, requireVerified, async (req, res) => {
   try {
+    if (isRollupExport(req.query)) {
+      const { buckets, error } = await loadRollupExport(req.query);
+      if (error) return res.status(400).send(error);
+
+      const metrics = Object.keys(ROLLUP_METRICS);
+      const stats = ['mean', 'min', 'max', 'p95'];
+      const header = [
+        'bucketStart',
+        'deviceId',
+        'resolution',
+        'count',
+        ...metrics.flatMap((m) => stats.map((s) => `${m}_${s}`)),
+      ].join(',');
+      const rows = buckets.map((b) => [
+        new Date(b.ts).toISOString(),
+        req.query.deviceId,
+        req.query.resolution,
+        b.count,
+        ...metrics.flatMap((m) => stats.map((s) => b[m][s] ?? '')),
+      ].join(','));
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="atmostrack-${req.query.resolution}-rollups.csv"`,
+      );
+      return res.send([header, ...rows].join('\n') + '\n');
+    }
+
     const { filter, error } = buildExportFilter(req.query);
     if (error) {
       return res.status(400).send(error);
     }
 
 
-    const cursor = Reading.find(filter).sort({ timestamp: 1 }).cursor();
+    const corrections = await exportCorrections(filter);
+    const cursor = Reading.find(filter).sort({ timestamp: 1 }).lean().cursor();
 
 
     res.setHeader('Content-Type', 'text/csv');
@@ -1489,9 +1933,18 @@ app.get('/api/exports/readings/csv', authenticateToken, requireVerified, async (
         'temperature',
         'humidity',
         'aqi',
+        'aqiStandard',
+        'aqiCategory',
+        'dominantPollutant',
         'co2ppm',
         'mq135Raw',
         'mq135Volt',
+        'mq135Corrected',
+        'mq135Ratio',
+        'mq135Ppm',
+        'mq135Compensation',
+        'rawTemperature',
+        'rawHumidity',
         'ai_vocAvg',
         'ai_vocStd',
         'ai_co2Avg',
@@ -1505,13 +1958,17 @@ app.get('/api/exports/readings/csv', authenticateToken, requireVerified, async (
         'em_method',
         'meta_firmwareVersion',
         'meta_gridRegion',
+        // lat/lng above include location corrections; these are as stored
+        'storedLat',
+        'storedLng',
       ].join(',') + '\n';
 
 
     res.write(header);
 
 
-    cursor.on('data', (doc) => {
+    cursor.on('data', (stored) => {
+      const doc = correctReading(stored, corrections);
       const ts = doc.timestamp ? new Date(doc.timestamp).toISOString() : '';
       const deviceId = doc.deviceId ?? '';
       const sessionId = doc.sessionId ?? '';
@@ -1529,9 +1986,19 @@ app.get('/api/exports/readings/csv', authenticateToken, requireVerified, async (
 
 
       const aqi = doc.air?.aqi ?? '';
+      const aqiStandard = doc.air?.aqiStandard ?? '';
+      const aqiCategory = doc.air?.aqiCategory ?? '';
+      const dominantPollutant = doc.air?.dominantPollutant ?? '';
       const co2ppm = doc.air?.co2ppm ?? '';
       const mq135Raw = doc.air?.mq135Raw ?? '';
       const mq135Volt = doc.air?.mq135Volt ?? '';
+      const mq135Corrected = doc.air?.mq135Corrected ?? '';
+      const mq135Ratio = doc.air?.mq135Ratio ?? '';
+      const mq135Ppm = doc.air?.mq135Ppm ?? '';
+      const mq135Compensation = doc.air?.mq135Compensation ?? '';
+      // Pre-calibration DHT values (older readings only have the stored ones)
+      const rawTemp = doc.raw ? doc.raw.temperature ?? '' : temp;
+      const rawHum = doc.raw ? doc.raw.humidity ?? '' : hum;
 
 
       const vocAvg = doc.aiFeatures?.vocAvg ?? '';
@@ -1567,9 +2034,18 @@ app.get('/api/exports/readings/csv', authenticateToken, requireVerified, async (
         temp,
         hum,
         aqi,
+        aqiStandard,
+        aqiCategory,
+        dominantPollutant,
         co2ppm,
         mq135Raw,
         mq135Volt,
+        mq135Corrected,
+        mq135Ratio,
+        mq135Ppm,
+        mq135Compensation,
+        rawTemp,
+        rawHum,
         vocAvg,
         vocStd,
         co2Avg,
@@ -1583,6 +2059,8 @@ app.get('/api/exports/readings/csv', authenticateToken, requireVerified, async (
         emMethod,
         fw,
         grid,
+        stored.location?.lat ?? '',
+        stored.location?.lng ?? '',
       ]
         .map((val) => (val === '' ? '' : String(val)))
         .join(',');
@@ -1623,7 +2101,10 @@ async function generateRecipeCsv(recipe) {
     'location.context', 'location.lat', 'location.lng',
     'location.altitude', 'location.speed',
     'environment.temperature', 'environment.humidity',
-    'air.aqi', 'air.co2ppm', 'air.mq135Raw', 'air.mq135Volt',
+    'air.aqi', 'air.aqiStandard', 'air.aqiCategory', 'air.dominantPollutant',
+    'air.co2ppm', 'air.mq135Raw', 'air.mq135Volt',
+    'air.mq135Corrected', 'air.mq135Ratio', 'air.mq135Ppm', 'air.mq135Compensation',
+    'raw.temperature', 'raw.humidity',
     'aiFeatures.vocAvg', 'aiFeatures.vocStd',
     'aiFeatures.co2Avg', 'aiFeatures.co2Std',
     'aiFeatures.vibrationAmp', 'aiFeatures.vibrationFreq', 'aiFeatures.Hour',
@@ -1641,10 +2122,11 @@ async function generateRecipeCsv(recipe) {
     from: recipe.timeRange.from,
     to: recipe.timeRange.to,
     deviceId: recipe.deviceId,
+    zoneId: recipe.zoneId,
     context: recipe.context,
   });
 
-  const docs = await Reading.find(filter).sort({ timestamp: 1 }).lean();
+  const docs = await applyLocationCorrections(await Reading.find(filter).sort({ timestamp: 1 }).lean());
 
   const rows = [columns.join(',')];
   for (const doc of docs) {
@@ -1846,6 +2328,7 @@ app.post('/api/exports/recipe', authenticateToken,
         name,
         questionText = '',
         deviceId = null,
+        zoneId = null,
         context = 'all',
         timeRange,
         fields = [],
@@ -1861,6 +2344,9 @@ app.post('/api/exports/recipe', authenticateToken,
           error: 'name, timeRange.from, timeRange.to required',
         });
       }
+      if (zoneId && !mongoose.Types.ObjectId.isValid(zoneId)) {
+        return res.status(400).json({ ok: false, error: 'zoneId must be a valid zone id' });
+      }
 
 
       const recipeId =
@@ -1881,6 +2367,7 @@ app.post('/api/exports/recipe', authenticateToken,
           name,
           questionText,
           deviceId,
+          zoneId: zoneId || null,
           context,
           timeRange,
           fields,
@@ -1925,16 +2412,18 @@ app.get('/api/exports/recipe/:id/run', async (req, res) => {
     if (recipe.accessToken !== token) return res.status(403).send('Forbidden: invalid token');
 
 
-    const { timeRange, deviceId, context } = recipe;
+    const { timeRange, deviceId, zoneId, context } = recipe;
     const { filter } = buildExportFilter({
       from: timeRange.from,
       to: timeRange.to,
       deviceId,
+      zoneId,
       context,
     });
 
 
-    const cursor = Reading.find(filter).sort({ timestamp: 1 }).cursor();
+    const corrections = await exportCorrections(filter);
+    const cursor = Reading.find(filter).sort({ timestamp: 1 }).lean().cursor();
 
 
     const defaultColumns = [
@@ -1952,6 +2441,12 @@ app.get('/api/exports/recipe/:id/run', async (req, res) => {
       'air.co2ppm',
       'air.mq135Raw',
       'air.mq135Volt',
+      'air.mq135Corrected',
+      'air.mq135Ratio',
+      'air.mq135Ppm',
+      'air.mq135Compensation',
+      'raw.temperature',
+      'raw.humidity',
       'aiFeatures.vocAvg',
       'aiFeatures.vocStd',
       'aiFeatures.co2Avg',
@@ -1984,7 +2479,8 @@ app.get('/api/exports/recipe/:id/run', async (req, res) => {
     res.write(columns.join(',') + '\n');
 
 
-    cursor.on('data', (doc) => {
+    cursor.on('data', (stored) => {
+      const doc = correctReading(stored, corrections);
       const rowValues = columns.map((col) => {
         if (col === 'timestamp') {
           return doc.timestamp ? new Date(doc.timestamp).toISOString() : '';
@@ -2030,23 +2526,18 @@ app.get('/api/exports/recipe/:id/run', async (req, res) => {
 });
 
 
-// ------------ AQI / emissions helpers ------------
-function estimateAQIFromMQ135(raw) {
-  if (raw == null) return 75;
-  return Math.max(0, Math.min(500, Math.round((raw / 4095) * 300)));
-}
-
-
-function estimateEmissionsKgFromCO2ppm(ppm) {
-  if (!ppm) return 0;
-  return Number((ppm / 1_000_000_000).toFixed(8));
+// ------------ AQI helpers ------------
+// Breakpoint tables chosen for the node's site; nodes without settings use the default
+async function getNodeAqiStandard(deviceId) {
+  const node = await Node.findOne({ deviceId }).select('aqiStandard').lean();
+  return node?.aqiStandard ?? DEFAULT_AQI_STANDARD;
 }
 
 
 // ------------ Sensor ingest ------------
 app.post('/api/sensor-data', async (req, res) => {
   const {
-    deviceId = 'ATMOSTRACK-01',
+    deviceId,
     sessionId = 'default-session',
     environment = {},
     imu = {},
@@ -2054,55 +2545,82 @@ app.post('/api/sensor-data', async (req, res) => {
     purification = {},
     co2Level = null,
     mq135 = {},
+    mg811Raw = null,
+    pollutants = null,
     context = 'indoor',
   } = req.body;
 
 
+  // Every node reports its own id; readings must never be merged under a default
+  if (!deviceId || typeof deviceId !== 'string') {
+    return res
+      .status(400)
+      .json({ success: false, error: 'deviceId is required' });
+  }
+
+
+  // Calibrate before anything is broadcast or stored; without a profile the
+  // raw values pass through unchanged
+  let calibrationProfile = null;
+  try {
+    calibrationProfile = await getActiveProfile(deviceId);
+  } catch (profileErr) {
+    console.warn('  Calibration profile lookup failed (using raw values):', profileErr.message);
+  }
+  const rawInputs = {
+    temperature: environment.temperature ?? null,
+    humidity: environment.humidity ?? null,
+    co2ppm: co2Level !== null ? Number(co2Level) : null,
+    mg811Raw: Number.isFinite(Number(mg811Raw)) && mg811Raw !== null ? Number(mg811Raw) : null,
+    mq135Raw: mq135.raw ?? null,
+  };
+  const calibrated = applyCalibration(calibrationProfile, rawInputs);
+
+
   const processedCO2 =
-    co2Level !== null
+    calibrated.co2ppm !== null
       ? {
-        ppm: parseFloat(Number(co2Level).toFixed(1)),
-        status: getCO2Status(Number(co2Level)),
-        healthAdvice: getCO2HealthAdvice(Number(co2Level)),
+        ppm: parseFloat(calibrated.co2ppm.toFixed(1)),
+        status: co2Status(calibrated.co2ppm),
+        healthAdvice: co2HealthAdvice(calibrated.co2ppm),
       }
       : null;
 
 
   const timestamp = new Date();
+  // Allocated up-front so live payloads and the stored Reading share one id
+  const readingId = new mongoose.Types.ObjectId();
 
 
-  const preservedLat =
-    latestSensorData &&
-      latestSensorData.deviceId === deviceId &&
-      latestSensorData.location &&
-      latestSensorData.location.lat != null
-      ? latestSensorData.location.lat
-      : location.lat ?? null;
+  const previous = latestByDevice.get(deviceId);
 
+  // A node's own GPS fix wins; without one the last known (possibly
+  // phone-set) position is kept so stationary nodes stay on the map
+  const reportedFix = hasFix(location.lat, location.lng);
 
-  const preservedLng =
-    latestSensorData &&
-      latestSensorData.deviceId === deviceId &&
-      latestSensorData.location &&
-      latestSensorData.location.lng != null
-      ? latestSensorData.location.lng
-      : location.lng ?? null;
+  const preservedLat = reportedFix
+    ? location.lat
+    : previous?.location?.lat ?? location.lat ?? null;
+
+
+  const preservedLng = reportedFix
+    ? location.lng
+    : previous?.location?.lng ?? location.lng ?? null;
 
 
   const preservedSpeed =
     location.speed ??
-    (latestSensorData &&
-      latestSensorData.deviceId === deviceId &&
-      latestSensorData.location
-      ? latestSensorData.location.speed ?? null
+    (previous && previous.location
+      ? previous.location.speed ?? null
       : null);
 
 
   const sensorReading = {
+    id: readingId.toString(),
     deviceId,
     environment: {
-      temperature: environment.temperature ?? null,
-      humidity: environment.humidity ?? null,
+      temperature: calibrated.temperature,
+      humidity: calibrated.humidity,
     },
     imu: {
       ax: imu.ax ?? null,
@@ -2124,15 +2642,19 @@ app.post('/api/sensor-data', async (req, res) => {
     mq135: {
       raw: mq135.raw ?? null,
       volt: mq135.volt ?? null,
+      corrected: calibrated.mq135Corrected,
+      ratio: calibrated.mq135Ratio,
+      ppm: calibrated.mq135Ppm,
+      compensation: calibrated.mq135Compensation,
     },
+    pollutants: sanitizePollutants(pollutants),
+    calibrationVersion: calibrated.profileVersion,
     timestamp: timestamp.toISOString(),
   };
 
 
-  aiWindow.push(sensorReading);
-  if (aiWindow.length > WINDOW_SIZE) {
-    aiWindow = aiWindow.slice(-WINDOW_SIZE);
-  }
+  const aiWindow = [...(aiWindows.get(deviceId) ?? []), sensorReading].slice(-AI_WINDOW_SIZE);
+  aiWindows.set(deviceId, aiWindow);
 
 
   let CO2_avg = null;
@@ -2162,10 +2684,11 @@ app.post('/api/sensor-data', async (req, res) => {
   const Hour = now.getHours();
 
 
+  // Compensated counts, so a warm afternoon does not read as a VOC source
   const VOC_values = aiWindow
     .map((r) =>
-      r.mq135 && typeof r.mq135.raw === 'number'
-        ? r.mq135.raw
+      r.mq135 && typeof r.mq135.corrected === 'number'
+        ? r.mq135.corrected
         : null,
     )
     .filter((v) => v !== null);
@@ -2230,14 +2753,22 @@ app.post('/api/sensor-data', async (req, res) => {
   };
 
 
+  if (
+    !previous ||
+    (reportedFix && (previous.location?.lat !== location.lat || previous.location?.lng !== location.lng))
+  ) {
+    rememberNodeLocation(deviceId, preservedLat, preservedLng, timestamp, reportedFix ? 'gps' : 'phone');
+  }
+
   latestSensorData = sensorReading;
+  latestByDevice.set(deviceId, sensorReading);
   sensorHistory.push(sensorReading);
   if (sensorHistory.length > 100) {
     sensorHistory = sensorHistory.slice(-100);
   }
 
 
-  io.emit('sensorUpdate', sensorReading);
+  emitReadingNew(sensorReading);
 
 
   if (
@@ -2263,8 +2794,7 @@ app.post('/api/sensor-data', async (req, res) => {
           rawResult,
         );
         sensorReading.sourceClassification = adjusted;
-        latestSensorData = sensorReading;
-        io.emit('sensorUpdate', sensorReading);
+        emitReadingClassified(sensorReading);
       })
       .catch((err) => {
         console.error('AI server error:', err.message);
@@ -2295,13 +2825,21 @@ app.post('/api/sensor-data', async (req, res) => {
 
 
   try {
-    const aqi = estimateAQIFromMQ135(sensorReading.mq135.raw);
+    const aqiStandard = await getNodeAqiStandard(deviceId);
+    const aqiResult = computeAQI(
+      { ...sensorReading.pollutants, mq135: sensorReading.mq135.corrected },
+      aqiStandard,
+    );
     const co2ppm = processedCO2 ? processedCO2.ppm : 0;
     const estimatedCO2eqKg =
       estimateEmissionsKgFromCO2ppm(co2ppm);
+    const zoneId = hasFix(sensorReading.location.lat, sensorReading.location.lng)
+      ? await zoneIdFor(sensorReading.location.lat, sensorReading.location.lng)
+      : null;
 
 
     const readingDoc = {
+      _id: readingId,
       deviceId,
       sessionId,
       timestamp,
@@ -2309,6 +2847,7 @@ app.post('/api/sensor-data', async (req, res) => {
         lat: sensorReading.location.lat,
         lng: sensorReading.location.lng,
         altitude: null,
+        speed: Number.isFinite(sensorReading.location.speed) ? sensorReading.location.speed : null,
         context,
       },
       environment: {
@@ -2316,10 +2855,18 @@ app.post('/api/sensor-data', async (req, res) => {
         humidity: sensorReading.environment.humidity,
       },
       air: {
-        aqi,
+        aqi: aqiResult?.aqi ?? FALLBACK_AQI,
+        aqiStandard,
+        aqiCategory: aqiResult?.category.label ?? null,
+        dominantPollutant: aqiResult?.dominant ?? null,
         co2ppm,
         mq135Raw: sensorReading.mq135.raw,
         mq135Volt: sensorReading.mq135.volt,
+        mq135Ratio: sensorReading.mq135.ratio,
+        mq135Ppm: sensorReading.mq135.ppm,
+        mq135Compensation: sensorReading.mq135.compensation,
+        mq135Corrected: sensorReading.mq135.corrected,
+        pollutants: sensorReading.pollutants,
       },
       purification: {
         on: true,
@@ -2351,34 +2898,56 @@ app.post('/api/sensor-data', async (req, res) => {
         firmwareVersion: '1.0.0',
         gridRegion: 'IN-SOUTH',
       },
+      raw: {
+        temperature: rawInputs.temperature,
+        humidity: rawInputs.humidity,
+        co2ppm: rawInputs.co2ppm,
+        mg811Raw: rawInputs.mg811Raw,
+      },
+      calibrationVersion: calibrated.profileVersion,
+      zoneId,
     };
 
 
     //  Blockchain integrity: compute SHA-256 fingerprint of the immutable payload 
-    // We hash the canonical JSON of the sensor fields (sorted keys for determinism).
+    // We hash the canonical JSON of the sensor fields (recursively sorted keys).
+    // The hash is taken from the schema-cast document so it matches what is stored.
     // Any post-save alteration to these values will cause verification to fail.
-    const payloadToHash = {
-      deviceId: readingDoc.deviceId,
-      sessionId: readingDoc.sessionId,
-      timestamp: readingDoc.timestamp.toISOString(),
-      location: readingDoc.location,
-      environment: readingDoc.environment,
-      air: readingDoc.air,
-      aiFeatures: readingDoc.aiFeatures,
-      emissions: readingDoc.emissions,
-    };
-    const dataHash = crypto
-      .createHash('sha256')
-      .update(JSON.stringify(payloadToHash, Object.keys(payloadToHash).sort()))
-      .digest('hex');
+    const reading = new Reading(readingDoc);
+    reading.hashVersion = CURRENT_HASH_VERSION;
+    const dataHash = computeReadingHash(reading.toObject(), CURRENT_HASH_VERSION);
 
-    readingDoc.dataHash = dataHash;
-    readingDoc.anchorStatus = 'PENDING';
-    readingDoc.txHash = null;
+    reading.dataHash = dataHash;
+    reading.anchorStatus = 'PENDING';
+    reading.txHash = null;
 
-    const savedReading = await Reading.create(readingDoc);
+    const savedReading = await reading.save();
     console.log(` SAVED READING [${deviceId}] hash=${dataHash.slice(0, 16)} anchorStatus=PENDING`);
 
+    // Minute/hour/day rollups; a miss here is repaired by npm run rollups:rebuild
+    applyReadingToRollups(savedReading).catch((rollupErr) => {
+      console.warn('  Rollup update failed (non-fatal):', rollupErr.message);
+    });
+
+    // Alert rules see the same calibrated values that were stored
+    evaluateAlertRules({
+      deviceId,
+      readingId: readingId.toString(),
+      timestamp,
+      metrics: {
+        co2ppm: processedCO2 ? processedCO2.ppm : null,
+        aqi: aqiResult?.aqi ?? null,
+        aqiLevel: aqiResult?.category.level ?? null,
+        temperature: sensorReading.environment.temperature,
+        humidity: sensorReading.environment.humidity,
+        mq135Ppm: sensorReading.mq135.ppm,
+      },
+    })
+      .then(handleAlertEvents)
+      .catch((alertErr) => {
+        console.warn('  Alert evaluation failed (non-fatal):', alertErr.message);
+      });
+
     //  Blockchain anchoring (async / non-blocking) 
     // Fires after we already responded to the ESP32  never delays sensor ingestion.
     if (anchorReady()) {
@@ -2391,6 +2960,7 @@ app.post('/api/sensor-data', async (req, res) => {
               txHash: result.txHash,
             });
             console.log(`  ANCHORED [${savedReading._id}] txHash=${result.txHash}`);
+            emitReadingAnchored(savedReading, result.txHash);
           }
         } catch (anchorErr) {
           console.warn('  Background anchor failed (non-fatal):', anchorErr.message);
@@ -2419,25 +2989,10 @@ app.get('/api/sensor-data/:id/verify', async (req, res) => {
       return res.status(400).json({ ok: false, error: 'This reading has no integrity hash (ingested before blockchain feature was added)' });
     }
 
-    // Re-compute the same canonical hash
-    const payloadToHash = {
-      deviceId: reading.deviceId,
-      sessionId: reading.sessionId,
-      timestamp: new Date(reading.timestamp).toISOString(),
-      location: reading.location,
-      environment: reading.environment,
-      air: reading.air,
-      aiFeatures: reading.aiFeatures,
-      emissions: reading.emissions,
-    };
-    const recomputedHash = crypto
-      .createHash('sha256')
-      .update(JSON.stringify(payloadToHash, Object.keys(payloadToHash).sort()))
-      .digest('hex');
-
-    const intact = recomputedHash === reading.dataHash;
+    // Re-compute the same canonical hash, using the version it was stored with
+    const { hashVersion, recomputedHash, intact } = verifyReadingHash(reading);
 
-    console.log(` VERIFY [${reading._id}] intact=${intact} stored=${reading.dataHash.slice(0, 16)} recomputed=${recomputedHash.slice(0, 16)}`);
+    console.log(` VERIFY [${reading._id}] v${hashVersion} intact=${intact} stored=${reading.dataHash.slice(0, 16)} recomputed=${recomputedHash.slice(0, 16)}`);
 
     return res.json({
       ok: true,
@@ -2447,6 +3002,9 @@ app.get('/api/sensor-data/:id/verify', async (req, res) => {
       intact,
       storedHash: reading.dataHash,
       recomputedHash,
+      hashVersion,
+      migration: reading.hashMigration ?? null,
+      recalibrations: reading.recalibrations ?? [],
       anchorStatus: reading.anchorStatus ?? 'PENDING',
       txHash: reading.txHash ?? null,
       verdict: intact
@@ -2461,83 +3019,47 @@ app.get('/api/sensor-data/:id/verify', async (req, res) => {
 
 
 // ------------ Phone-based location correction ------------
-app.post('/api/nodes/set-location', async (req, res) => {
-  try {
-    const { deviceId, lat, lng, timestamp } = req.body;
-
-
-    if (!deviceId || typeof lat !== 'number' || typeof lng !== 'number') {
-      return res
-        .status(400)
-        .json({
-          success: false,
-          error: 'deviceId, lat, lng are required',
-        });
-    }
+// Stored readings are never rewritten (that would break their hashes); the
+// fix is recorded as a signed correction and layered over them when read.
 
-
-    const ts = timestamp ? new Date(timestamp) : new Date();
-
-
-    if (!latestSensorData) {
-      latestSensorData = {
-        deviceId,
-        timestamp: ts.toISOString(),
-        location: { lat, lng, speed: 0 },
-        environment: { temperature: 0, humidity: 0 },
-        imu: { ax: 0, ay: 0, az: 0, gx: 0, gy: 0, gz: 0 },
-        co2: { ppm: 400, status: 'UNKNOWN', healthAdvice: 'Hardware Offline' },
-        mq135: { raw: 0, volt: 0 }
-      };
-    }
-
-    if (latestSensorData.deviceId === deviceId || !latestSensorData.deviceId) {
-      latestSensorData.location = {
-        lat,
-        lng,
-        speed: latestSensorData.location?.speed ?? null,
-      };
-      // Important to bump the timestamp so frontend knows it's "live"
-      latestSensorData.timestamp = ts.toISOString();
-      io.emit('sensorUpdate', latestSensorData);
+// POST /api/nodes/set-location  { deviceId, lat, lng, timestamp?, validFrom?, validTo?, source?, accuracyM? }
+app.post('/api/nodes/set-location', authenticateToken, requireRole(['admin', 'operator']), async (req, res) => {
+  try {
+    const { value, error } = validateCorrection(req.body);
+    if (error) return res.status(400).json({ success: false, error });
+    const { deviceId, lat, lng, timestamp: ts } = value;
+
+    const author = await User.findById(req.user.id).select('name').lean();
+    const { correction, duplicate } = await recordCorrection(value, { id: req.user.id, name: author?.name });
+
+
+    // Live state only follows the fix if its window covers the node's latest
+    // reading (or now, for a node that never reported); a fix for last week
+    // must not move the node on the map or touch the cached reading's time
+    const deviceLatest = latestByDevice.get(deviceId);
+    const latestTs = deviceLatest?.timestamp
+      ?? (await Reading.findOne({ deviceId }).sort({ timestamp: -1 }).select('timestamp').lean())?.timestamp
+      ?? new Date();
+    const coversLatest = correction.validFrom <= new Date(latestTs) && correction.validTo >= new Date(latestTs);
+
+    if (coversLatest) {
+      rememberNodeLocation(deviceId, lat, lng, ts, 'phone');
+      if (deviceLatest) {
+        const corrected = correctReading(deviceLatest, [correction]);
+        latestByDevice.set(deviceId, corrected);
+        if (latestSensorData === deviceLatest) latestSensorData = corrected;
+        // Same id as the stored reading, so clients replace rather than append
+        emitReadingNew({ ...corrected, replayed: true });
+      }
     }
 
-
+    // In-memory history only; stored readings pick the fix up via the correction
     sensorHistory = sensorHistory.map((r) =>
-      r.deviceId === deviceId
-        ? {
-          ...r,
-          location: {
-            lat,
-            lng,
-            speed: r.location?.speed ?? null,
-          },
-        }
-        : r,
+      r.deviceId === deviceId ? correctReading(r, [correction]) : r,
     );
 
 
-    const dayStart = new Date(ts);
-    dayStart.setHours(0, 0, 0, 0);
-    const dayEnd = new Date(ts);
-    dayEnd.setHours(23, 59, 59, 999);
-
-
-    await Reading.updateMany(
-      {
-        deviceId,
-        timestamp: { $gte: dayStart, $lte: dayEnd },
-      },
-      {
-        $set: {
-          'location.lat': lat,
-          'location.lng': lng,
-        },
-      },
-    );
-
-
-    return res.json({ success: true });
+    return res.json({ success: true, duplicate, correction });
   } catch (err) {
     console.error('Error in /api/nodes/set-location:', err);
     return res
@@ -2546,79 +3068,906 @@ app.post('/api/nodes/set-location', async (req, res) => {
   }
 });
 
+// GET /api/nodes/:deviceId/location-corrections  the device's correction log with signature checks
+app.get('/api/nodes/:deviceId/location-corrections', authenticateToken, async (req, res) => {
+  try {
+    const corrections = await correctionLog(req.params.deviceId);
+    return res.json({
+      ok: true,
+      deviceId: req.params.deviceId,
+      intact: corrections.every((c) => c.signatureValid && c.chainIntact),
+      corrections,
+    });
+  } catch (err) {
+    console.error('Error in /api/nodes/:deviceId/location-corrections:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to load location corrections' });
+  }
+});
+
 
 // ------------ Latest + health ------------
+// A node counts as online while its last reading is younger than this
+const DEVICE_ONLINE_MS = 30000;
+
 app.get('/api/latest', (req, res) => {
+  const { deviceId } = req.query;
+  const data = deviceId
+    ? latestByDevice.get(String(deviceId)) ?? null
+    : latestSensorData;
   res.json({
     success: true,
-    data: latestSensorData,
-    isOnline: latestSensorData
+    data,
+    isOnline: data
       ? Date.now() -
-      new Date(latestSensorData.timestamp).getTime() <
-      30000
+      new Date(data.timestamp).getTime() <
+      DEVICE_ONLINE_MS
       : false,
   });
 });
 
 
-app.get('/api/health', (req, res) => {
-  res.json({
-    status: 'OK',
-    timestamp: new Date().toISOString(),
-    service: 'AtmosTrack Multi-Sensor Backend',
-    version: '3.2.0',
-    sensors: ['DHT11', 'MG811', 'MQ135', 'MPU6050', 'GPS'],
-    dataPoints: sensorHistory.length,
-    lastReading: latestSensorData
-      ? latestSensorData.timestamp
-      : null,
-  });
-});
+// GET /api/devices  every node that has stored readings or reported live,
+// plus the caller's saved selection for the global device picker
+app.get('/api/devices', authenticateToken, async (req, res) => {
+  try {
+    // Stored devices come from the day rollups, which ingest keeps current
+    const [stored, user, nodes] = await Promise.all([
+      deviceSummaries(),
+      User.findById(req.user.id).select('selectedDeviceId').lean(),
+      Node.find().select('deviceId aqiStandard').lean(),
+    ]);
+    const standards = new Map(nodes.map((n) => [n.deviceId, n.aqiStandard]));
+
+    const byId = new Map(stored.map((d) => [d.deviceId, d]));
+    // Live-only nodes (e.g. a phone location before the first stored reading)
+    latestByDevice.forEach((reading, deviceId) => {
+      const ts = new Date(reading.timestamp);
+      const entry = byId.get(deviceId) ?? { deviceId, firstSeen: ts, lastSeen: ts, readingCount: 0 };
+      if (ts > entry.lastSeen) entry.lastSeen = ts;
+      byId.set(deviceId, entry);
+    });
 
+    const devices = Array.from(byId.values())
+      .map((d) => ({
+        ...d,
+        online: Date.now() - new Date(d.lastSeen).getTime() < DEVICE_ONLINE_MS,
+        aqiStandard: standards.get(d.deviceId) ?? DEFAULT_AQI_STANDARD,
+      }))
+      .sort((a, b) => a.deviceId.localeCompare(b.deviceId));
 
-// ------------ DHI + batches ------------
-async function computeDHIForDay({ deviceId, date }) {
-  const fromTs = new Date(date + 'T00:00:00.000Z');
-  const toTs = new Date(date + 'T23:59:59.999Z');
+    return res.json({
+      ok: true,
+      devices,
+      selectedDeviceId: user?.selectedDeviceId ?? null,
+    });
+  } catch (err) {
+    console.error('Error in /api/devices:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to list devices' });
+  }
+});
+
+// PUT /api/admin/nodes/:deviceId/aqi-standard  choose the AQI tables for a site
+app.put('/api/admin/nodes/:deviceId/aqi-standard', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { aqiStandard } = req.body;
+    if (!isAqiStandard(aqiStandard)) {
+      return res.status(400).json({ ok: false, error: 'aqiStandard must be IN_NAQI or US_EPA' });
+    }
 
+    const node = await Node.findOneAndUpdate(
+      { deviceId: req.params.deviceId },
+      { $set: { aqiStandard } },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    ).lean();
 
-  const SAMPLE_INTERVAL_SECONDS = 30;
-  const TOKENS_PER_DHI_HOUR = 0.1;
+    return res.json({ ok: true, deviceId: node.deviceId, aqiStandard: node.aqiStandard });
+  } catch (err) {
+    console.error('Error in /api/admin/nodes/:deviceId/aqi-standard:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to update AQI standard' });
+  }
+});
 
 
-  const readings = await Reading.find({
-    deviceId,
-    timestamp: { $gte: fromTs, $lte: toTs },
-  })
-    .sort({ timestamp: 1 })
-    .lean();
+// ------------ Node registry ------------
+const NODE_NAME_MAX = 80;
 
+// Persist a node's position for the map. Fire-and-forget: ingest never
+// waits on (or fails because of) the registry.
+function rememberNodeLocation(deviceId, lat, lng, at, source) {
+  if (!hasFix(lat, lng)) return;
+  Node.updateOne(
+    { deviceId },
+    { $set: { lastLocation: { lat, lng, at, source } } },
+    { upsert: true, setDefaultsOnInsert: true },
+  ).catch((err) => console.warn('  Node location update failed:', err.message));
+}
 
-  console.log('DHI DEBUG', {
-    deviceId,
-    date,
-    fromTs,
-    toTs,
-    count: readings.length,
-    first: readings[0]?.timestamp,
-    last: readings[readings.length - 1]?.timestamp,
-  });
+// GET /api/nodes  every registered or reporting node with its last known
+// position and latest reading, for the multi-node map
+app.get('/api/nodes', authenticateToken, async (req, res) => {
+  try {
+    const [nodes, storedIds] = await Promise.all([
+      Node.find().select('deviceId name aqiStandard lastLocation').lean(),
+      Reading.distinct('deviceId'),
+    ]);
+    const byId = new Map(nodes.map((n) => [n.deviceId, n]));
+    const deviceIds = new Set([...byId.keys(), ...storedIds, ...latestByDevice.keys()]);
+
+    const registry = await Promise.all(Array.from(deviceIds).map(async (deviceId) => {
+      const node = byId.get(deviceId);
+      let latest = latestByDevice.get(deviceId) ?? null;
+      if (!latest) {
+        const stored = await Reading.findOne({ deviceId }).sort({ timestamp: -1 }).lean();
+        latest = stored ? toLiveReading((await applyLocationCorrections([stored]))[0]) : null;
+      }
 
+      // A live fix beats the stored one; the stored one beats nothing
+      const live = latest?.location;
+      const saved = node?.lastLocation;
+      const location = live && hasFix(live.lat, live.lng)
+        ? { lat: live.lat, lng: live.lng, at: latest.timestamp, source: saved?.source ?? 'gps' }
+        : saved && hasFix(saved.lat, saved.lng)
+          ? { lat: saved.lat, lng: saved.lng, at: saved.at, source: saved.source }
+          : null;
+      const lastSeen = latest?.timestamp ?? null;
+
+      return {
+        deviceId,
+        name: node?.name || deviceId,
+        aqiStandard: node?.aqiStandard ?? DEFAULT_AQI_STANDARD,
+        location,
+        lastSeen,
+        online: lastSeen ? Date.now() - new Date(lastSeen).getTime() < DEVICE_ONLINE_MS : false,
+        latest,
+      };
+    }));
 
-  if (!readings.length) {
-    return null;
+    registry.sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+    return res.json({ ok: true, nodes: registry });
+  } catch (err) {
+    console.error('Error in /api/nodes:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to load node registry' });
   }
+});
 
+// PUT /api/admin/nodes/:deviceId/name  { name }  label a node on the map
+app.put('/api/admin/nodes/:deviceId/name', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : null;
+    if (name === null || name.length > NODE_NAME_MAX) {
+      return res.status(400).json({ ok: false, error: `name must be a string of at most ${NODE_NAME_MAX} characters` });
+    }
 
-  const count = readings.length;
-  const hoursByCadence =
-    (count * SAMPLE_INTERVAL_SECONDS) / 3600;
+    const node = await Node.findOneAndUpdate(
+      { deviceId: req.params.deviceId },
+      { $set: { name } },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    ).lean();
 
+    return res.json({ ok: true, deviceId: node.deviceId, name: node.name || node.deviceId });
+  } catch (err) {
+    console.error('Error in /api/admin/nodes/:deviceId/name:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to rename node' });
+  }
+});
 
-  const firstTs = new Date(readings[0].timestamp).getTime();
-  const lastTs = new Date(
-    readings[readings.length - 1].timestamp,
-  ).getTime();
+
+// ------------ Push notifications ------------
+// Browsers subscribe from the profile page; alert events fan out through
+// services/pushNotifications.js
+
+// GET /api/push/public-key  VAPID key for PushManager.subscribe (enabled=false without keys)
+app.get('/api/push/public-key', authenticateToken, (req, res) => {
+  return res.json({ ok: true, enabled: pushReady(), publicKey: getPushPublicKey() });
+});
+
+// GET /api/push/preferences  this user's push preferences and subscribed browsers
+app.get('/api/push/preferences', authenticateToken, async (req, res) => {
+  try {
+    // Not lean: legacy users get the schema defaults
+    const [user, subscriptions] = await Promise.all([
+      User.findById(req.user.id).select('notificationPrefs'),
+      PushSubscription.find({ userId: req.user.id }).select('endpoint userAgent createdAt lastSuccessAt').lean(),
+    ]);
+    if (!user) return res.status(404).json({ ok: false, error: 'User not found' });
+    return res.json({ ok: true, preferences: user.toObject().notificationPrefs, subscriptions });
+  } catch (err) {
+    console.error('Error in GET /api/push/preferences:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to load push preferences' });
+  }
+});
+
+// PUT /api/push/preferences  { severities, quietHours }
+app.put('/api/push/preferences', authenticateToken, async (req, res) => {
+  try {
+    const { value, error } = validatePushPreferences(req.body);
+    if (error) return res.status(400).json({ ok: false, error });
+
+    const user = await User.findByIdAndUpdate(req.user.id, { notificationPrefs: value }, { new: true }).select('notificationPrefs');
+    return res.json({ ok: true, preferences: user.toObject().notificationPrefs });
+  } catch (err) {
+    console.error('Error in PUT /api/push/preferences:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to save push preferences' });
+  }
+});
+
+// POST /api/push/subscriptions  { subscription: PushSubscriptionJSON }  register this browser
+app.post('/api/push/subscriptions', authenticateToken, async (req, res) => {
+  try {
+    const { endpoint, keys } = req.body.subscription ?? {};
+    if (typeof endpoint !== 'string' || !/^https:\/\//.test(endpoint) || !keys?.p256dh || !keys?.auth) {
+      return res.status(400).json({ ok: false, error: 'subscription with an https endpoint and keys is required' });
+    }
+
+    // The same browser re-subscribing (or switching accounts) takes over the endpoint
+    await PushSubscription.findOneAndUpdate(
+      { endpoint },
+      {
+        $set: {
+          userId: req.user.id,
+          keys: { p256dh: String(keys.p256dh), auth: String(keys.auth) },
+          userAgent: String(req.get('user-agent') ?? '').slice(0, 300),
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    );
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error('Error in POST /api/push/subscriptions:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to save subscription' });
+  }
+});
+
+// DELETE /api/push/subscriptions  { endpoint }  unregister one of this user's browsers
+app.delete('/api/push/subscriptions', authenticateToken, async (req, res) => {
+  try {
+    const { endpoint } = req.body ?? {};
+    if (typeof endpoint !== 'string') {
+      return res.status(400).json({ ok: false, error: 'endpoint is required' });
+    }
+    await PushSubscription.deleteOne({ endpoint, userId: req.user.id });
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error('Error in DELETE /api/push/subscriptions:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to remove subscription' });
+  }
+});
+
+// POST /api/push/test  send a test notification to this user's browsers
+app.post('/api/push/test', authenticateToken, async (req, res) => {
+  try {
+    if (!pushReady()) {
+      return res.status(503).json({ ok: false, error: 'Web Push is not configured on the server' });
+    }
+    const result = await sendTestNotification(req.user.id);
+    return res.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('Error in POST /api/push/test:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to send test notification' });
+  }
+});
+
+
+// ------------ Exposure ------------
+// Rolling CO₂ TWA (8 h) / STEL (15 min) per UTC day, from minute rollups
+
+const EXPOSURE_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Shared by the JSON and CSV routes; sends the 400 itself on a bad date
+async function loadDailyExposure(req, res) {
+  const date = req.query.date ?? new Date().toISOString().slice(0, 10);
+  if (!EXPOSURE_DATE_RE.test(date) || Number.isNaN(new Date(`${date}T00:00:00.000Z`).getTime())) {
+    res.status(400).json({ ok: false, error: 'date must be YYYY-MM-DD' });
+    return null;
+  }
+  const node = await Node.findOne({ deviceId: req.params.deviceId }).select('exposureLimits').lean();
+  return computeDailyExposure({
+    deviceId: req.params.deviceId,
+    date,
+    limits: resolveExposureLimits(node),
+  });
+}
+
+// GET /api/exposure/:deviceId?date=YYYY-MM-DD  daily TWA / STEL summary and 5-min series
+app.get('/api/exposure/:deviceId', authenticateToken, async (req, res) => {
+  try {
+    const exposure = await loadDailyExposure(req, res);
+    if (!exposure) return;
+    const { minutes, ...summary } = exposure;
+    return res.json({ ok: true, exposure: summary });
+  } catch (err) {
+    console.error('Error in /api/exposure/:deviceId:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to compute exposure' });
+  }
+});
+
+// GET /api/exposure/:deviceId/record?date=YYYY-MM-DD  per-minute exposure record (CSV)
+app.get('/api/exposure/:deviceId/record', authenticateToken, async (req, res) => {
+  try {
+    const exposure = await loadDailyExposure(req, res);
+    if (!exposure) return;
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="atmostrack-exposure-${exposure.deviceId}-${exposure.date}.csv"`,
+    );
+    return res.send(exposureRecordCsv(exposure));
+  } catch (err) {
+    console.error('Error in /api/exposure/:deviceId/record:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to build exposure record' });
+  }
+});
+
+// PUT /api/admin/nodes/:deviceId/exposure-limits  { twa8hPpm, stel15minPpm }
+app.put('/api/admin/nodes/:deviceId/exposure-limits', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { value, error } = validateExposureLimits(req.body);
+    if (error) return res.status(400).json({ ok: false, error });
+
+    const node = await Node.findOneAndUpdate(
+      { deviceId: req.params.deviceId },
+      { $set: { exposureLimits: value } },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    ).lean();
+
+    return res.json({ ok: true, deviceId: node.deviceId, limits: resolveExposureLimits(node) });
+  } catch (err) {
+    console.error('Error in /api/admin/nodes/:deviceId/exposure-limits:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to update exposure limits' });
+  }
+});
+
+
+// ------------ Forecast ------------
+
+// GET /api/forecast/:deviceId?horizon=60  CO₂ / AQI nowcast with ~90 % bands, 5-min steps
+app.get('/api/forecast/:deviceId', authenticateToken, async (req, res) => {
+  try {
+    const horizonMinutes = parseInt(req.query.horizon ?? '60', 10);
+    if (!Number.isFinite(horizonMinutes) || horizonMinutes < 5 || horizonMinutes > MAX_HORIZON_MINUTES) {
+      return res.status(400).json({ ok: false, error: `horizon must be between 5 and ${MAX_HORIZON_MINUTES} minutes` });
+    }
+
+    const forecast = await forecastDevice({ deviceId: req.params.deviceId, horizonMinutes });
+    return res.json({ ok: true, forecast });
+  } catch (err) {
+    console.error('Error in /api/forecast/:deviceId:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to compute forecast' });
+  }
+});
+
+
+// ------------ Track ------------
+const MAX_TRACK_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// GET /api/track/:deviceId?from=&to=&maxPoints=  a mobile node's simplified GPS path
+app.get('/api/track/:deviceId', authenticateToken, async (req, res) => {
+  try {
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from
+      ? new Date(String(req.query.from))
+      : new Date(to.getTime() - 6 * 60 * 60 * 1000);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return res.status(400).json({ ok: false, error: 'from/to must be ISO timestamps with from < to' });
+    }
+    if (to - from > MAX_TRACK_RANGE_MS) {
+      return res.status(400).json({ ok: false, error: 'Range exceeds seven days' });
+    }
+    const maxPoints = parseInt(req.query.maxPoints ?? String(DEFAULT_TRACK_POINTS), 10);
+    if (!Number.isFinite(maxPoints) || maxPoints < 2 || maxPoints > MAX_TRACK_POINTS) {
+      return res.status(400).json({ ok: false, error: `maxPoints must be between 2 and ${MAX_TRACK_POINTS}` });
+    }
+
+    const track = await buildTrack({ deviceId: req.params.deviceId, from, to, maxPoints });
+    return res.json({ ok: true, track });
+  } catch (err) {
+    console.error('Error in /api/track/:deviceId:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to build track' });
+  }
+});
+
+
+// ------------ Surface ------------
+const MAX_SURFACE_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// GET /api/surface/hourly?from=&to=  per-hour node means and positions for the interpolated map layer
+app.get('/api/surface/hourly', authenticateToken, async (req, res) => {
+  try {
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from
+      ? new Date(String(req.query.from))
+      : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return res.status(400).json({ ok: false, error: 'from/to must be ISO timestamps with from < to' });
+    }
+    if (to - from > MAX_SURFACE_RANGE_MS) {
+      return res.status(400).json({ ok: false, error: 'Range exceeds seven days' });
+    }
+
+    const snapshots = await hourlySnapshots({ from, to });
+    return res.json({ ok: true, snapshots });
+  } catch (err) {
+    console.error('Error in /api/surface/hourly:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to build surface snapshots' });
+  }
+});
+
+
+// ------------ Calibration ------------
+
+// Fewer fresh-air samples than this (~1 min at 5 s) give a noisy baseline
+const MIN_BASELINE_SAMPLES = 12;
+
+const parseRange = (body) => {
+  const from = new Date(String(body.from ?? ''));
+  const to = new Date(String(body.to ?? ''));
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) return null;
+  return { from, to };
+};
+
+// GET /api/admin/calibration/:deviceId/profiles  version history, newest first
+app.get('/api/admin/calibration/:deviceId/profiles', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const profiles = await CalibrationProfile.find({ deviceId: req.params.deviceId })
+      .sort({ version: -1 })
+      .populate('createdBy', 'name email')
+      .lean();
+    return res.json({ ok: true, profiles });
+  } catch (err) {
+    console.error('Error in /api/admin/calibration/:deviceId/profiles:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to load calibration profiles' });
+  }
+});
+
+// POST /api/admin/calibration/:deviceId/profiles  save a new version (applied from the next reading)
+app.post('/api/admin/calibration/:deviceId/profiles', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const { value, error } = validateProfileInput(req.body);
+    if (error) return res.status(400).json({ ok: false, error });
+
+    const latest = await CalibrationProfile.findOne({ deviceId }).sort({ version: -1 }).select('version').lean();
+    const profile = await CalibrationProfile.create({
+      ...value,
+      deviceId,
+      version: (latest?.version ?? 0) + 1,
+      createdBy: req.user.id,
+    });
+    invalidateProfile(deviceId);
+
+    console.log(` CALIBRATION [${deviceId}] v${profile.version} saved by ${req.user.id}`);
+    return res.status(201).json({ ok: true, profile });
+  } catch (err) {
+    if (err.code === 11000) {
+      return res.status(409).json({ ok: false, error: 'Another profile version was saved at the same time, please retry' });
+    }
+    console.error('Error in /api/admin/calibration/:deviceId/profiles:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to save calibration profile' });
+  }
+});
+
+// POST /api/admin/calibration/:deviceId/baseline  summarise a fresh-air capture window
+app.post('/api/admin/calibration/:deviceId/baseline', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const range = parseRange(req.body);
+    if (!range) return res.status(400).json({ ok: false, error: 'from and to (ISO, from < to) required' });
+
+    const referenceCo2ppm = Number(req.body.referenceCo2ppm ?? 420);
+    if (!Number.isFinite(referenceCo2ppm) || referenceCo2ppm <= 0) {
+      return res.status(400).json({ ok: false, error: 'referenceCo2ppm must be positive' });
+    }
+    const optionalNumber = (v) => (v === '' || v == null || !Number.isFinite(Number(v)) ? undefined : Number(v));
+
+    const readings = await Reading.find({
+      deviceId: req.params.deviceId,
+      timestamp: { $gte: range.from, $lte: range.to },
+    })
+      .select('environment air raw')
+      .lean();
+
+    if (readings.length < MIN_BASELINE_SAMPLES) {
+      return res.status(422).json({
+        ok: false,
+        error: `Only ${readings.length} readings in that window; at least ${MIN_BASELINE_SAMPLES} are needed`,
+      });
+    }
+
+    const summary = summariseBaseline(readings, {
+      referenceCo2ppm,
+      referenceTemperature: optionalNumber(req.body.referenceTemperature),
+      referenceHumidity: optionalNumber(req.body.referenceHumidity),
+    });
+    return res.json({ ok: true, from: range.from, to: range.to, ...summary });
+  } catch (err) {
+    console.error('Error in /api/admin/calibration/:deviceId/baseline:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to compute baseline' });
+  }
+});
+
+// POST /api/admin/calibration/:deviceId/reprocess  re-run a profile version over stored readings
+app.post('/api/admin/calibration/:deviceId/reprocess', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const range = parseRange(req.body);
+    if (!range) return res.status(400).json({ ok: false, error: 'from and to (ISO, from < to) required' });
+    if (range.to - range.from > REPROCESS_MAX_RANGE_MS) {
+      return res.status(400).json({ ok: false, error: 'Reprocess at most 31 days at a time' });
+    }
+
+    const profile = req.body.version != null
+      ? await CalibrationProfile.findOne({ deviceId, version: Number(req.body.version) }).lean()
+      : await CalibrationProfile.findOne({ deviceId }).sort({ version: -1 }).lean();
+    if (!profile) return res.status(404).json({ ok: false, error: 'Calibration profile not found' });
+
+    const { reanchor, ...result } = await reprocessReadings({
+      deviceId,
+      ...range,
+      profile,
+      aqiStandard: await getNodeAqiStandard(deviceId),
+      userId: req.user.id,
+    });
+    // Charts and exports read the rollups, so they have to follow the new values
+    await rebuildRollups({ deviceId, ...range });
+
+    console.log(` RECALIBRATED [${deviceId}] v${profile.version} ${result.updated}/${result.matched} readings (${result.skippedTampered} tampered skipped, ${result.unanchored} back to PENDING)`);
+
+    // New hashes go on chain in the background, like ingest anchoring
+    if (anchorReady() && reanchor.length) {
+      setImmediate(() => {
+        reanchorReadings(reanchor, anchorReading, emitReadingAnchored)
+          .then((n) => console.log(`  RE-ANCHORED [${deviceId}] ${n}/${reanchor.length} reprocessed readings`))
+          .catch((anchorErr) => console.warn('  Background re-anchor failed (non-fatal):', anchorErr.message));
+      });
+    }
+    return res.json({ ok: true, version: profile.version, ...result });
+  } catch (err) {
+    console.error('Error in /api/admin/calibration/:deviceId/reprocess:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to reprocess readings' });
+  }
+});
+
+
+// ------------ Alert rules ------------
+// Rules are evaluated on every ingest (services/alertEngine.js); changes take
+// effect on the next reading.
+const requireAlertEditor = requireRole(['admin', 'operator']);
+
+// Alerts that were firing before a restart carry on from their open incidents;
+// those whose rule has since gone are closed
+restoreFiringAlerts(unclearedIncidents())
+  .then((events) => {
+    if (!events.length) return null;
+    console.log(` Closing ${events.length} stale incident(s) left open before the restart`);
+    return recordIncidents(events);
+  })
+  .catch((restoreErr) => {
+    console.warn('  Alert state restore failed (non-fatal):', restoreErr.message);
+  });
+
+// GET /api/alerts/rules?deviceId=  rules covering a device (or all rules)
+app.get('/api/alerts/rules', authenticateToken, async (req, res) => {
+  try {
+    const filter = req.query.deviceId
+      ? { deviceId: { $in: [null, String(req.query.deviceId)] } }
+      : {};
+    const rules = await AlertRule.find(filter).sort({ createdAt: -1 }).lean();
+    return res.json({ ok: true, rules });
+  } catch (err) {
+    console.error('Error in /api/alerts/rules:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to load alert rules' });
+  }
+});
+
+// GET /api/alerts/active?deviceId=  alerts currently firing
+app.get('/api/alerts/active', authenticateToken, (req, res) => {
+  const deviceId = req.query.deviceId ? String(req.query.deviceId) : null;
+  return res.json({ ok: true, alerts: getActiveAlerts(deviceId) });
+});
+
+// POST /api/alerts/rules  create a rule (operators and admins)
+app.post('/api/alerts/rules', authenticateToken, requireAlertEditor, async (req, res) => {
+  try {
+    const { value, error } = validateRuleInput(req.body);
+    if (error) return res.status(400).json({ ok: false, error });
+
+    const rule = await AlertRule.create({ ...value, createdBy: req.user.id });
+    invalidateRules();
+    return res.status(201).json({ ok: true, rule });
+  } catch (err) {
+    console.error('Error in POST /api/alerts/rules:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to create alert rule' });
+  }
+});
+
+// PUT /api/alerts/rules/:id  replace a rule's settings
+app.put('/api/alerts/rules/:id', authenticateToken, requireAlertEditor, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ ok: false, error: 'Invalid rule id' });
+    }
+    const { value, error } = validateRuleInput(req.body);
+    if (error) return res.status(400).json({ ok: false, error });
+
+    const rule = await AlertRule.findByIdAndUpdate(req.params.id, { $set: value }, { new: true }).lean();
+    if (!rule) return res.status(404).json({ ok: false, error: 'Alert rule not found' });
+
+    // A changed rule starts from scratch; whatever it had firing is cleared
+    invalidateRules();
+    handleAlertEvents(dropRuleState(rule._id.toString()));
+    return res.json({ ok: true, rule });
+  } catch (err) {
+    console.error('Error in PUT /api/alerts/rules/:id:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to update alert rule' });
+  }
+});
+
+// DELETE /api/alerts/rules/:id
+app.delete('/api/alerts/rules/:id', authenticateToken, requireAlertEditor, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ ok: false, error: 'Invalid rule id' });
+    }
+    const rule = await AlertRule.findByIdAndDelete(req.params.id).lean();
+    if (!rule) return res.status(404).json({ ok: false, error: 'Alert rule not found' });
+
+    invalidateRules();
+    handleAlertEvents(dropRuleState(rule._id.toString()));
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error('Error in DELETE /api/alerts/rules/:id:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to delete alert rule' });
+  }
+});
+
+
+// ------------ Zones ------------
+// Readings are tagged with their zone at ingest (services/zones.js), so a new
+// or reshaped zone only applies to readings from then on.
+const MAX_ZONE_STATS_RANGE_MS = 31 * 24 * 60 * 60 * 1000;
+
+// GET /api/zones
+app.get('/api/zones', authenticateToken, async (req, res) => {
+  try {
+    const zones = await Zone.find().sort({ name: 1 }).lean();
+    return res.json({ ok: true, zones });
+  } catch (err) {
+    console.error('Error in /api/zones:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to load zones' });
+  }
+});
+
+// GET /api/zones/stats?from=&to=  per-zone AQI summary and time in exceedance
+app.get('/api/zones/stats', authenticateToken, async (req, res) => {
+  try {
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from
+      ? new Date(String(req.query.from))
+      : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return res.status(400).json({ ok: false, error: 'from/to must be ISO timestamps with from < to' });
+    }
+    if (to - from > MAX_ZONE_STATS_RANGE_MS) {
+      return res.status(400).json({ ok: false, error: 'Range exceeds 31 days' });
+    }
+
+    const stats = await zoneStats({ from, to });
+    return res.json({ ok: true, from: from.toISOString(), to: to.toISOString(), stats });
+  } catch (err) {
+    console.error('Error in /api/zones/stats:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to compute zone stats' });
+  }
+});
+
+// POST /api/zones  { name, polygon: [[lat, lng], ...], color?, aqiLimit? }
+app.post('/api/zones', authenticateToken, requireAlertEditor, async (req, res) => {
+  try {
+    const { value, error } = validateZone(req.body);
+    if (error) return res.status(400).json({ ok: false, error });
+
+    const zone = await Zone.create({ ...value, createdBy: req.user.id });
+    invalidateZones();
+    return res.status(201).json({ ok: true, zone });
+  } catch (err) {
+    console.error('Error in POST /api/zones:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to create zone' });
+  }
+});
+
+// PUT /api/zones/:id  replace a zone's name, outline, colour or limit
+app.put('/api/zones/:id', authenticateToken, requireAlertEditor, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ ok: false, error: 'Invalid zone id' });
+    }
+    const { value, error } = validateZone(req.body);
+    if (error) return res.status(400).json({ ok: false, error });
+
+    const zone = await Zone.findByIdAndUpdate(req.params.id, { $set: value }, { new: true }).lean();
+    if (!zone) return res.status(404).json({ ok: false, error: 'Zone not found' });
+
+    invalidateZones();
+    return res.json({ ok: true, zone });
+  } catch (err) {
+    console.error('Error in PUT /api/zones/:id:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to update zone' });
+  }
+});
+
+// DELETE /api/zones/:id  readings keep their tag, so old exports still filter by it
+app.delete('/api/zones/:id', authenticateToken, requireAlertEditor, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ ok: false, error: 'Invalid zone id' });
+    }
+    const zone = await Zone.findByIdAndDelete(req.params.id).lean();
+    if (!zone) return res.status(404).json({ ok: false, error: 'Zone not found' });
+
+    invalidateZones();
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error('Error in DELETE /api/zones/:id:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to delete zone' });
+  }
+});
+
+
+// ------------ Incidents ------------
+// Opened and closed by the alert engine (services/incidents.js); operators
+// acknowledge, annotate and resolve them here.
+const INCIDENT_STATUS_FILTERS = {
+  active: { status: { $in: ['OPEN', 'ACKNOWLEDGED'] } },
+  resolved: { status: 'RESOLVED' },
+  all: {},
+};
+
+// GET /api/incidents?deviceId=&status=active|resolved|all&limit=  newest first, with MTTA
+app.get('/api/incidents', authenticateToken, async (req, res) => {
+  try {
+    const deviceMatch = req.query.deviceId ? { deviceId: String(req.query.deviceId) } : {};
+    const statusFilter = INCIDENT_STATUS_FILTERS[req.query.status] ?? INCIDENT_STATUS_FILTERS.all;
+    const limit = Math.min(parseInt(req.query.limit ?? '50', 10) || 50, 200);
+
+    const [incidents, stats] = await Promise.all([
+      Incident.find({ ...deviceMatch, ...statusFilter }).sort({ startedAt: -1 }).limit(limit).lean(),
+      incidentStats(deviceMatch),
+    ]);
+    return res.json({ ok: true, incidents, stats });
+  } catch (err) {
+    console.error('Error in /api/incidents:', err);
+    return res.status(500).json({ ok: false, error: 'Failed to load incidents' });
+  }
+});
+
+// Note body from the request, attributed to the calling user
+async function incidentNote(req) {
+  const text = typeof req.body.note === 'string' ? req.body.note.trim() : '';
+  if (!text) return null;
+  const author = await User.findById(req.user.id).select('name').lean();
+  return { text: text.slice(0, 2000), author: req.user.id, authorName: author?.name ?? '', createdAt: new Date() };
+}
+
+// Shared by acknowledge / resolve / notes: apply `update` if the incident is
+// in one of `fromStatuses`, then broadcast it
+async function transitionIncident(req, res, fromStatuses, update, route) {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ ok: false, error: 'Invalid incident id' });
+    }
+    const note = await incidentNote(req);
+    const fullUpdate = note ? { ...update, $push: { notes: note } } : update;
+    if (!Object.keys(fullUpdate).length) {
+      return res.status(400).json({ ok: false, error: 'note is required' });
+    }
+
+    const incident = await Incident.findOneAndUpdate(
+      { _id: req.params.id, status: { $in: fromStatuses } },
+      fullUpdate,
+      { new: true },
+    ).lean();
+    if (!incident) {
+      const exists = await Incident.exists({ _id: req.params.id });
+      return exists
+        ? res.status(409).json({ ok: false, error: 'Incident is not in a state that allows this' })
+        : res.status(404).json({ ok: false, error: 'Incident not found' });
+    }
+
+    emitIncidentUpdated(incident);
+    return res.json({ ok: true, incident });
+  } catch (err) {
+    console.error(`Error in ${route}:`, err);
+    return res.status(500).json({ ok: false, error: 'Failed to update incident' });
+  }
+}
+
+// POST /api/incidents/:id/acknowledge  { note? }
+app.post('/api/incidents/:id/acknowledge', authenticateToken, requireAlertEditor, (req, res) =>
+  transitionIncident(req, res, ['OPEN'], {
+    $set: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date(), acknowledgedBy: req.user.id },
+  }, '/api/incidents/:id/acknowledge'),
+);
+
+// POST /api/incidents/:id/notes  { note }
+app.post('/api/incidents/:id/notes', authenticateToken, requireAlertEditor, (req, res) =>
+  transitionIncident(req, res, ['OPEN', 'ACKNOWLEDGED', 'RESOLVED'], {}, '/api/incidents/:id/notes'),
+);
+
+// POST /api/incidents/:id/resolve  { note? }  resolving an open incident also acknowledges it
+app.post('/api/incidents/:id/resolve', authenticateToken, requireAlertEditor, async (req, res) => {
+  const now = new Date();
+  if (mongoose.Types.ObjectId.isValid(req.params.id)) {
+    try {
+      await Incident.updateOne(
+        { _id: req.params.id, status: 'OPEN' },
+        { $set: { acknowledgedAt: now, acknowledgedBy: req.user.id } },
+      );
+    } catch (err) {
+      console.error('Error in /api/incidents/:id/resolve:', err);
+      return res.status(500).json({ ok: false, error: 'Failed to update incident' });
+    }
+  }
+  return transitionIncident(req, res, ['OPEN', 'ACKNOWLEDGED'], {
+    $set: { status: 'RESOLVED', resolvedAt: now, resolvedBy: req.user.id },
+  }, '/api/incidents/:id/resolve');
+});
+
+
+app.get('/api/health', (req, res) => {
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    service: 'AtmosTrack Multi-Sensor Backend',
+    version: '3.2.0',
+    sensors: ['DHT11', 'MG811', 'MQ135', 'MPU6050', 'GPS'],
+    dataPoints: sensorHistory.length,
+    lastReading: latestSensorData
+      ? latestSensorData.timestamp
+      : null,
+  });
+});
+
+
+// ------------ DHI + batches ------------
+async function computeDHIForDay({ deviceId, date }) {
+  const fromTs = new Date(date + 'T00:00:00.000Z');
+  const toTs = new Date(date + 'T23:59:59.999Z');
+
+
+  const SAMPLE_INTERVAL_SECONDS = 30;
+  const TOKENS_PER_DHI_HOUR = 0.1;
+
+
+  // The day rollup already carries the reading count and first/last timestamps
+  const [day] = await aggregateReadings({
+    deviceId,
+    from: fromTs,
+    to: toTs,
+    resolution: 'day',
+  });
+
+
+  console.log('DHI DEBUG', {
+    deviceId,
+    date,
+    fromTs,
+    toTs,
+    count: day?.count ?? 0,
+    first: day?.firstTs,
+    last: day?.lastTs,
+  });
+
+
+  if (!day?.count) {
+    return null;
+  }
+
+
+  const count = day.count;
+  const hoursByCadence =
+    (count * SAMPLE_INTERVAL_SECONDS) / 3600;
+
+
+  const firstTs = new Date(day.firstTs).getTime();
+  const lastTs = new Date(day.lastTs).getTime();
   const spanHours =
     (lastTs - firstTs) / (1000 * 60 * 60);
 
@@ -2669,13 +4018,13 @@ app.post(
   requireVerified,
   async (req, res) => {
     try {
-      const { deviceId = 'ATMOSTRACK-01', date } = req.body;
-      if (!date) {
+      const { deviceId, date } = req.body;
+      if (!deviceId || !date) {
         return res
           .status(400)
           .json({
             ok: false,
-            error: 'date (YYYY-MM-DD) required',
+            error: 'deviceId and date (YYYY-MM-DD) required',
           });
       }
 
@@ -2689,6 +4038,7 @@ app.post(
         });
       }
 
+      emitBatchUpdated(batch);
       return res.json({ ok: true, batch });
     } catch (err) {
       console.error('Error in /api/carbon/credit-batch:', err);
@@ -2743,6 +4093,7 @@ app.post(
       batch.status = 'MINTED';
       batch.txHash = fakeTxHash;
       await batch.save();
+      emitBatchUpdated(batch);
 
       return res.json({
         ok: true,
@@ -2785,6 +4136,99 @@ app.get('/api/carbon/batches', authenticateToken, requireVerified, async (req, r
 
 
 // ------------ WebSocket ------------
+// Clients join one room per device they display, or the all-devices room
+// for fleet-wide views. Readings are only pushed to the rooms that want them.
+const ALL_DEVICES_ROOM = 'devices:all';
+const deviceRoom = (deviceId) => `device:${deviceId}`;
+
+// Typed event protocol, mirrored by Frontend/src/types/SocketEvents.ts:
+//   reading:new        full live reading, once per ingest (device rooms); the
+//                      cached latest reading is re-sent with replayed: true on
+//                      subscribe and after a location correction
+//   reading:classified AI source label for an already-sent reading (device rooms)
+//   reading:anchored   on-chain anchor result for a stored reading (everyone)
+//   batch:updated      DHI credit batch computed or minted (everyone)
+//   alert:triggered    an alert rule started firing (device rooms)
+//   alert:resolved     a firing alert cleared or its rule changed (device rooms)
+//   incident:updated   an incident was opened, changed or closed (device rooms)
+// Anchor and batch events are rare and feed ledger views that span all
+// devices, so they are broadcast instead of going through device rooms.
+const SOCKET_EVENTS = {
+  READING_NEW: 'reading:new',
+  READING_CLASSIFIED: 'reading:classified',
+  READING_ANCHORED: 'reading:anchored',
+  BATCH_UPDATED: 'batch:updated',
+  ALERT_TRIGGERED: 'alert:triggered',
+  ALERT_RESOLVED: 'alert:resolved',
+  INCIDENT_UPDATED: 'incident:updated',
+};
+
+const toDeviceRooms = (deviceId) =>
+  io.to(deviceRoom(deviceId)).to(ALL_DEVICES_ROOM);
+
+function emitReadingNew(reading) {
+  toDeviceRooms(reading.deviceId).emit(SOCKET_EVENTS.READING_NEW, reading);
+}
+
+function emitReadingClassified(reading) {
+  toDeviceRooms(reading.deviceId).emit(SOCKET_EVENTS.READING_CLASSIFIED, {
+    id: reading.id,
+    deviceId: reading.deviceId,
+    timestamp: reading.timestamp,
+    sourceClassification: reading.sourceClassification,
+  });
+}
+
+function emitReadingAnchored(reading, txHash) {
+  io.emit(SOCKET_EVENTS.READING_ANCHORED, {
+    id: reading._id.toString(),
+    deviceId: reading.deviceId,
+    timestamp: new Date(reading.timestamp).toISOString(),
+    dataHash: reading.dataHash,
+    anchorStatus: 'ANCHORED',
+    txHash,
+  });
+}
+
+function emitBatchUpdated(batch) {
+  io.emit(SOCKET_EVENTS.BATCH_UPDATED, {
+    batchId: batch.batchId,
+    deviceId: batch.deviceId,
+    date: batch.date,
+    dhiHours: batch.dhiHours,
+    tokens: batch.tokens,
+    status: batch.status,
+    txHash: batch.txHash ?? null,
+  });
+}
+
+function emitAlertEvents(events) {
+  for (const { type, payload } of events) {
+    // Peaks only move the incident's peak value; clients get incident:updated
+    if (type === 'peak') continue;
+    const event = type === 'triggered' ? SOCKET_EVENTS.ALERT_TRIGGERED : SOCKET_EVENTS.ALERT_RESOLVED;
+    toDeviceRooms(payload.deviceId).emit(event, payload);
+  }
+}
+
+function emitIncidentUpdated(incident) {
+  toDeviceRooms(incident.deviceId).emit(SOCKET_EVENTS.INCIDENT_UPDATED, incident);
+}
+
+// Alerts go out on the socket right away; the incident log and Web Push follow
+function handleAlertEvents(events) {
+  if (!events.length) return;
+  emitAlertEvents(events);
+  recordIncidents(events)
+    .then((incidents) => incidents.forEach(emitIncidentUpdated))
+    .catch((incidentErr) => {
+      console.warn('  Incident update failed (non-fatal):', incidentErr.message);
+    });
+  notifyAlertEvents(events).catch((pushErr) => {
+    console.warn('  Push fan-out failed (non-fatal):', pushErr.message);
+  });
+}
+
 io.on('connection', (socket) => {
   console.log(
     ' Frontend connected from:',
@@ -2792,39 +4236,32 @@ io.on('connection', (socket) => {
   );
 
 
-  if (latestSensorData) {
-    socket.emit('sensorUpdate', latestSensorData);
-    console.log(
-      ' Sent latest multi-sensor data to new connection',
-    );
-  }
+  // deviceId '*' subscribes to every node
+  socket.on('device:subscribe', (deviceId) => {
+    if (typeof deviceId !== 'string' || !deviceId) return;
 
+    if (deviceId === '*') {
+      socket.join(ALL_DEVICES_ROOM);
+      latestByDevice.forEach((reading) => socket.emit(SOCKET_EVENTS.READING_NEW, { ...reading, replayed: true }));
+      return;
+    }
 
-  socket.on('disconnect', () => {
-    console.log(' Frontend disconnected');
+    socket.join(deviceRoom(deviceId));
+    const latest = latestByDevice.get(deviceId);
+    if (latest) socket.emit(SOCKET_EVENTS.READING_NEW, { ...latest, replayed: true });
   });
-});
 
 
-// ------------ CO2 helpers ------------
-function getCO2Status(ppm) {
-  if (ppm < 400) return 'OUTDOOR_FRESH';
-  if (ppm < 1000) return 'GOOD';
-  if (ppm < 2000) return 'STUFFY';
-  if (ppm < 5000) return 'POOR';
-  return 'DANGEROUS';
-}
+  socket.on('device:unsubscribe', (deviceId) => {
+    if (typeof deviceId !== 'string' || !deviceId) return;
+    socket.leave(deviceId === '*' ? ALL_DEVICES_ROOM : deviceRoom(deviceId));
+  });
 
 
-function getCO2HealthAdvice(ppm) {
-  if (ppm < 400) return 'Outdoor fresh air quality';
-  if (ppm < 1000) return 'Good indoor air quality';
-  if (ppm < 2000)
-    return 'Acceptable but may cause drowsiness';
-  if (ppm < 5000)
-    return 'Poor air quality - increase ventilation';
-  return 'Dangerous levels - evacuate immediately';
-}
+  socket.on('disconnect', () => {
+    console.log(' Frontend disconnected');
+  });
+});
 
 
 // ------------ Server listen ------------
@@ -2851,6 +4288,43 @@ if (!process.env.VERCEL) {
     console.log('   POST /api/sensor-data');
     console.log('   POST /api/nodes/set-location');
     console.log('   GET  /api/latest');
+    console.log('   GET  /api/devices');
+    console.log('   PUT  /api/admin/nodes/:deviceId/aqi-standard');
+    console.log('   GET  /api/nodes');
+    console.log('   GET  /api/nodes/:deviceId/location-corrections');
+    console.log('   PUT  /api/admin/nodes/:deviceId/name');
+    console.log('   GET  /api/push/public-key');
+    console.log('   GET  /api/push/preferences');
+    console.log('   PUT  /api/push/preferences');
+    console.log('   POST /api/push/subscriptions');
+    console.log('   DELETE /api/push/subscriptions');
+    console.log('   POST /api/push/test');
+    console.log('   GET  /api/exposure/:deviceId');
+    console.log('   GET  /api/exposure/:deviceId/record');
+    console.log('   PUT  /api/admin/nodes/:deviceId/exposure-limits');
+    console.log('   GET  /api/forecast/:deviceId');
+    console.log('   GET  /api/track/:deviceId');
+    console.log('   GET  /api/surface/hourly');
+    console.log('   GET  /api/admin/calibration/:deviceId/profiles');
+    console.log('   POST /api/admin/calibration/:deviceId/profiles');
+    console.log('   POST /api/admin/calibration/:deviceId/baseline');
+    console.log('   POST /api/admin/calibration/:deviceId/reprocess');
+    console.log('   GET  /api/alerts/rules');
+    console.log('   POST /api/alerts/rules');
+    console.log('   PUT  /api/alerts/rules/:id');
+    console.log('   DELETE /api/alerts/rules/:id');
+    console.log('   GET  /api/alerts/active');
+    console.log('   GET  /api/zones');
+    console.log('   GET  /api/zones/stats');
+    console.log('   POST /api/zones');
+    console.log('   PUT  /api/zones/:id');
+    console.log('   DELETE /api/zones/:id');
+    console.log('   GET  /api/incidents');
+    console.log('   POST /api/incidents/:id/acknowledge');
+    console.log('   POST /api/incidents/:id/notes');
+    console.log('   POST /api/incidents/:id/resolve');
+    console.log('   GET  /api/readings/since');
+    console.log('   GET  /api/readings/aggregate');
     console.log('   GET  /api/health');
     console.log('   GET  /api/exports/readings');
     console.log('   GET  /api/exports/readings/csv');
@@ -0,0 +1,306 @@
+/**
+ * alertEngine.js
+ *
+ * Evaluates AlertRule documents against every ingested reading.
+ *
+ * Each (rule, device) pair moves through a small state machine:
+ *   idle    → pending  the condition starts to hold
+ *   pending → firing   it held for durationSec and the cooldown has passed
+ *   pending → idle     it stopped holding before durationSec
+ *   firing  → idle     the value is back past threshold ∓ hysteresis
+ * The edges into and out of `firing` produce `triggered` / `resolved`
+ * events, and a firing alert reports each new worst value as `peak` (used
+ * by the incident log). A breach that outlasts durationSec inside the
+ * cooldown stays pending and fires as soon as the cooldown ends.
+ *
+ * State lives in memory, like the AI feature windows. A restart forgets
+ * pending timers; firing alerts are rebuilt from the incidents that never
+ * cleared (restoreFiringAlerts), so they still resolve into the same
+ * incident instead of opening a second one on the next breach.
+ */
+
+import crypto from 'crypto';
+import { AlertRule } from '../models/AlertRule.js';
+
+// Values a rule can watch, as read from the metrics built at ingest
+export const ALERT_METRICS = {
+  co2ppm: { label: 'CO₂', unit: 'ppm' },
+  aqi: { label: 'AQI', unit: '' },
+  // Category level 0–5 under the site's AQI standard (0 = Good)
+  aqiLevel: { label: 'AQI category', unit: '' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  humidity: { label: 'Humidity', unit: '%' },
+  mq135Ppm: { label: 'MQ135 CO₂-eq', unit: 'ppm' },
+};
+export const ALERT_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'];
+
+const RULE_CACHE_MS = 30 * 1000;
+const MAX_DURATION_SEC = 24 * 60 * 60;
+const MAX_COOLDOWN_SEC = 7 * 24 * 60 * 60;
+
+const isNum = (v) => typeof v === 'number' && Number.isFinite(v);
+
+const breaches = (op, value, threshold) => {
+  switch (op) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    default: return false;
+  }
+};
+
+const isUpperLimit = (op) => op === 'gt' || op === 'gte';
+
+// Back on the safe side of the threshold by at least the hysteresis band
+const clears = (rule, value) =>
+  isUpperLimit(rule.operator)
+    ? value < rule.threshold - rule.hysteresis
+    : value > rule.threshold + rule.hysteresis;
+
+const worse = (op, value, peak) => (isUpperLimit(op) ? value > peak : value < peak);
+
+// ------------ Rules ------------
+
+let ruleCache = { rules: null, at: 0 };
+
+async function getEnabledRules() {
+  if (ruleCache.rules && Date.now() - ruleCache.at < RULE_CACHE_MS) return ruleCache.rules;
+  const rules = await AlertRule.find({ enabled: true }).lean();
+  ruleCache = { rules, at: Date.now() };
+  return rules;
+}
+
+export function invalidateRules() {
+  ruleCache = { rules: null, at: 0 };
+}
+
+/**
+ * Check a rule body from the rule editor.
+ * @returns {{ value?: object, error?: string }}
+ */
+export function validateRuleInput(body = {}) {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return { error: 'name is required' };
+  if (!Object.hasOwn(ALERT_METRICS, body.metric)) return { error: `metric must be one of ${Object.keys(ALERT_METRICS).join(', ')}` };
+  if (!ALERT_OPERATORS.includes(body.operator)) return { error: `operator must be one of ${ALERT_OPERATORS.join(', ')}` };
+
+  const threshold = Number(body.threshold);
+  if (body.threshold === '' || body.threshold == null || !Number.isFinite(threshold)) return { error: 'threshold must be a number' };
+
+  const durationSec = Number(body.durationSec ?? 0);
+  if (!Number.isFinite(durationSec) || durationSec < 0 || durationSec > MAX_DURATION_SEC) return { error: 'durationSec must be between 0 and 86400' };
+  const hysteresis = Number(body.hysteresis ?? 0);
+  if (!Number.isFinite(hysteresis) || hysteresis < 0) return { error: 'hysteresis must be zero or positive' };
+  const cooldownSec = Number(body.cooldownSec ?? 600);
+  if (!Number.isFinite(cooldownSec) || cooldownSec < 0 || cooldownSec > MAX_COOLDOWN_SEC) return { error: 'cooldownSec must be between 0 and 604800' };
+
+  const severity = body.severity ?? 'warning';
+  if (!ALERT_SEVERITIES.includes(severity)) return { error: `severity must be one of ${ALERT_SEVERITIES.join(', ')}` };
+
+  return {
+    value: {
+      name: name.slice(0, 120),
+      deviceId: typeof body.deviceId === 'string' && body.deviceId.trim() ? body.deviceId.trim() : null,
+      metric: body.metric,
+      operator: body.operator,
+      threshold,
+      durationSec,
+      hysteresis,
+      cooldownSec,
+      severity,
+      enabled: body.enabled !== false,
+    },
+  };
+}
+
+// ------------ Evaluation ------------
+
+// `${ruleId}|${deviceId}` → { status, pendingSince, lastFiredAt, alert, peak }
+const states = new Map();
+
+const stateKey = (ruleId, deviceId) => `${ruleId}|${deviceId}`;
+
+// Settles once restoreFiringAlerts() has rebuilt the firing states
+let restoring = Promise.resolve();
+
+function triggeredPayload(rule, deviceId, value, readingId, at, breachStartedAt) {
+  return {
+    alertId: crypto.randomUUID(),
+    ruleId: rule._id.toString(),
+    ruleName: rule.name,
+    deviceId,
+    metric: rule.metric,
+    operator: rule.operator,
+    threshold: rule.threshold,
+    severity: rule.severity,
+    value,
+    durationSec: rule.durationSec,
+    readingId,
+    // When the condition started to hold; earlier than triggeredAt by durationSec or more
+    breachStartedAt: breachStartedAt.toISOString(),
+    triggeredAt: at.toISOString(),
+  };
+}
+
+function resolvedPayload(alert, peak, value, at, reason) {
+  return {
+    alertId: alert.alertId,
+    ruleId: alert.ruleId,
+    ruleName: alert.ruleName,
+    deviceId: alert.deviceId,
+    metric: alert.metric,
+    severity: alert.severity,
+    value,
+    peakValue: peak.value,
+    peakAt: peak.at.toISOString(),
+    triggeredAt: alert.triggeredAt,
+    resolvedAt: at.toISOString(),
+    reason,
+  };
+}
+
+/**
+ * Run every enabled rule that covers `deviceId` against one reading.
+ *
+ * @param {{ deviceId: string, readingId: string, timestamp: Date, metrics: Record<string, number|null> }} reading
+ * @returns {Promise<Array<{ type: 'triggered'|'resolved'|'peak', payload: object }>>}
+ */
+export async function evaluateAlertRules({ deviceId, readingId, timestamp, metrics }) {
+  await restoring;
+  const rules = await getEnabledRules();
+  const at = new Date(timestamp);
+  const events = [];
+
+  for (const rule of rules) {
+    if (rule.deviceId && rule.deviceId !== deviceId) continue;
+    const value = metrics[rule.metric];
+    if (!isNum(value)) continue;
+
+    const key = stateKey(rule._id.toString(), deviceId);
+    const state = states.get(key) ?? { status: 'idle', pendingSince: null, lastFiredAt: null, alert: null, peak: null };
+
+    if (state.status === 'firing') {
+      if (clears(rule, value)) {
+        events.push({ type: 'resolved', payload: resolvedPayload(state.alert, state.peak, value, at, 'cleared') });
+        state.status = 'idle';
+        state.alert = null;
+        state.peak = null;
+      } else if (worse(rule.operator, value, state.peak.value)) {
+        state.peak = { value, at };
+        events.push({
+          type: 'peak',
+          payload: { alertId: state.alert.alertId, deviceId, value, at: at.toISOString() },
+        });
+      }
+    } else if (!breaches(rule.operator, value, rule.threshold)) {
+      state.status = 'idle';
+      state.pendingSince = null;
+    } else {
+      if (state.status === 'idle') {
+        state.status = 'pending';
+        state.pendingSince = at;
+      }
+      const heldMs = at - state.pendingSince;
+      const cooledDown = !state.lastFiredAt || at - state.lastFiredAt >= rule.cooldownSec * 1000;
+      if (heldMs >= rule.durationSec * 1000 && cooledDown) {
+        state.alert = triggeredPayload(rule, deviceId, value, readingId, at, state.pendingSince);
+        state.status = 'firing';
+        state.pendingSince = null;
+        state.lastFiredAt = at;
+        state.peak = { value, at };
+        events.push({ type: 'triggered', payload: state.alert });
+      }
+    }
+    states.set(key, state);
+  }
+
+  return events;
+}
+
+/** Alerts currently firing, newest first. */
+export function getActiveAlerts(deviceId = null) {
+  return Array.from(states.values())
+    .filter((s) => s.status === 'firing' && (!deviceId || s.alert.deviceId === deviceId))
+    .map((s) => s.alert)
+    .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt));
+}
+
+/**
+ * Forget a rule's state after it was edited, disabled or deleted. Alerts it
+ * had firing are returned as resolved so clients can clear them.
+ */
+export function dropRuleState(ruleId) {
+  const events = [];
+  const at = new Date();
+  for (const [key, state] of states) {
+    if (!key.startsWith(`${ruleId}|`)) continue;
+    if (state.status === 'firing') {
+      events.push({ type: 'resolved', payload: resolvedPayload(state.alert, state.peak, null, at, 'rule-changed') });
+    }
+    states.delete(key);
+  }
+  return events;
+}
+
+/**
+ * Put alerts back into `firing` for incidents that were open (no clearedAt)
+ * when the server last stopped. An incident whose rule is gone or disabled,
+ * or that is older than another open one for the same rule and device, is
+ * returned as a `resolved` event so the caller can close it.
+ *
+ * @param {Promise<object[]>|object[]} uncleared incidents with clearedAt null (lean)
+ * @returns {Promise<Array<{ type: 'resolved', payload: object }>>}
+ */
+export function restoreFiringAlerts(uncleared) {
+  const run = async () => {
+    const [incidents, rules] = await Promise.all([uncleared, getEnabledRules()]);
+    const rulesById = new Map(rules.map((r) => [r._id.toString(), r]));
+    const events = [];
+    const at = new Date();
+
+    const newestFirst = [...incidents].sort((a, b) => new Date(b.triggeredAt) - new Date(a.triggeredAt));
+    for (const incident of newestFirst) {
+      const ruleId = incident.ruleId.toString();
+      const rule = rulesById.get(ruleId);
+      const key = stateKey(ruleId, incident.deviceId);
+      const alert = {
+        alertId: incident.alertId,
+        ruleId,
+        ruleName: incident.ruleName,
+        deviceId: incident.deviceId,
+        metric: incident.metric,
+        operator: incident.operator,
+        threshold: incident.threshold,
+        severity: incident.severity,
+        value: incident.peakValue,
+        durationSec: rule?.durationSec ?? null,
+        readingId: null,
+        breachStartedAt: new Date(incident.startedAt).toISOString(),
+        triggeredAt: new Date(incident.triggeredAt).toISOString(),
+      };
+      const peak = { value: incident.peakValue, at: new Date(incident.peakAt) };
+
+      if (!rule || (rule.deviceId && rule.deviceId !== incident.deviceId)) {
+        events.push({ type: 'resolved', payload: resolvedPayload(alert, peak, null, at, 'rule-changed') });
+      } else if (states.get(key)?.status === 'firing') {
+        events.push({ type: 'resolved', payload: resolvedPayload(alert, peak, null, at, 'superseded') });
+      } else {
+        states.set(key, {
+          status: 'firing',
+          pendingSince: null,
+          lastFiredAt: new Date(incident.triggeredAt),
+          alert,
+          peak,
+        });
+      }
+    }
+    return events;
+  };
+
+  const result = run();
+  // Evaluation waits for the restore, but must not fail because of it
+  restoring = result.then(() => undefined, () => undefined);
+  return result;
+}
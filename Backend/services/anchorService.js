@@ -52,20 +52,34 @@ function init() {
 // Run on module load
 init();
 
+/**
+ * On-chain record id for a reading. The registry never overwrites a record,
+ * so a reading re-hashed by recalibration is anchored again under its
+ * revision (the number of recalibrations it has had); the original record
+ * keeps proving the values it was ingested with.
+ *
+ * @param {string} mongoId  - MongoDB ObjectId string of the Reading document
+ * @param {number} revision - 0 for the ingest hash
+ * @returns {string}
+ */
+export const anchorRecordId = (mongoId, revision = 0) =>
+  revision ? `${mongoId}:r${revision}` : mongoId.toString();
+
 /**
  * Anchor a reading's SHA-256 hash on Polygon Amoy.
  *
  * @param {string} mongoId  - MongoDB ObjectId string of the Reading document
  * @param {string} dataHash - 64-char hex SHA-256 hash (no 0x prefix)
+ * @param {number} [revision] - see anchorRecordId
  * @returns {Promise<{txHash: string}|null>}
  */
-export async function anchorReading(mongoId, dataHash) {
+export async function anchorReading(mongoId, dataHash, revision = 0) {
   if (!ready) return null;
 
   try {
-    // Convert mongoId string → bytes32 (left-padded)
+    // Convert the record id string → bytes32 (left-padded)
     const readingIdBytes = ethers.zeroPadBytes(
-      ethers.toUtf8Bytes(mongoId.toString()),
+      ethers.toUtf8Bytes(anchorRecordId(mongoId, revision)),
       32
     );
 
@@ -0,0 +1,143 @@
+/**
+ * aqi.js
+ *
+ * Server copy of the breakpoint AQI engine in Frontend/src/lib/aqi.ts (see
+ * that file for units and golden values). Ingest stores computeAQI()'s
+ * output on Reading.air, so the two tables must change together.
+ */
+
+import { ADC_MAX } from './sensorConversions.js';
+
+export const DEFAULT_AQI_STANDARD = 'IN_NAQI';
+// Stored when a reading carries no pollutant at all (Reading.air.aqi is required)
+export const FALLBACK_AQI = 75;
+
+// µg/m³ → ppb at 25 °C is 24.45 / molecular weight
+const ppb = (molecularWeight) => 24.45 / molecularWeight;
+
+const MQ135_BANDS = [0, 800, 1500, 2500, 3200, 3700, ADC_MAX];
+
+const mq135Table = (indexBands) => ({
+  breakpoints: indexBands.map(([lo, hi], i) => [
+    i === 0 ? MQ135_BANDS[0] : MQ135_BANDS[i] + 1,
+    MQ135_BANDS[i + 1],
+    lo,
+    hi,
+  ]),
+});
+
+const NAQI_BANDS = [[0, 50], [51, 100], [101, 200], [201, 300], [301, 400], [401, 500]];
+const EPA_BANDS = [[0, 50], [51, 100], [101, 150], [151, 200], [201, 300], [301, 500]];
+
+// Breakpoints are [concentration low, concentration high, index low, index high]
+export const AQI_STANDARDS = {
+  IN_NAQI: {
+    label: 'India NAQI (CPCB)',
+    categories: [
+      { level: 0, max: 50, label: 'Good', color: '#00b050' },
+      { level: 1, max: 100, label: 'Satisfactory', color: '#92d050' },
+      { level: 2, max: 200, label: 'Moderate', color: '#e6c700' },
+      { level: 3, max: 300, label: 'Poor', color: '#ff9900' },
+      { level: 4, max: 400, label: 'Very Poor', color: '#ff0000' },
+      { level: 5, max: 500, label: 'Severe', color: '#c00000' },
+    ],
+    pollutants: {
+      pm10: { breakpoints: [[0, 50, 0, 50], [51, 100, 51, 100], [101, 250, 101, 200], [251, 350, 201, 300], [351, 430, 301, 400], [431, 600, 401, 500]] },
+      pm25: { breakpoints: [[0, 30, 0, 50], [31, 60, 51, 100], [61, 90, 101, 200], [91, 120, 201, 300], [121, 250, 301, 400], [251, 380, 401, 500]] },
+      no2: { breakpoints: [[0, 40, 0, 50], [41, 80, 51, 100], [81, 180, 101, 200], [181, 280, 201, 300], [281, 400, 301, 400], [401, 800, 401, 500]] },
+      o3: { breakpoints: [[0, 50, 0, 50], [51, 100, 51, 100], [101, 168, 101, 200], [169, 208, 201, 300], [209, 748, 301, 400], [749, 1000, 401, 500]] },
+      co: { breakpoints: [[0, 1, 0, 50], [1.1, 2, 51, 100], [2.1, 10, 101, 200], [10.1, 17, 201, 300], [17.1, 34, 301, 400], [34.1, 50, 401, 500]] },
+      so2: { breakpoints: [[0, 40, 0, 50], [41, 80, 51, 100], [81, 380, 101, 200], [381, 800, 201, 300], [801, 1600, 301, 400], [1601, 2620, 401, 500]] },
+      nh3: { breakpoints: [[0, 200, 0, 50], [201, 400, 51, 100], [401, 800, 101, 200], [801, 1200, 201, 300], [1201, 1800, 301, 400], [1801, 2620, 401, 500]] },
+      mq135: mq135Table(NAQI_BANDS),
+    },
+  },
+  US_EPA: {
+    label: 'US EPA',
+    categories: [
+      { level: 0, max: 50, label: 'Good', color: '#00e400' },
+      { level: 1, max: 100, label: 'Moderate', color: '#e6c700' },
+      { level: 2, max: 150, label: 'Unhealthy for Sensitive Groups', color: '#ff7e00' },
+      { level: 3, max: 200, label: 'Unhealthy', color: '#ff0000' },
+      { level: 4, max: 300, label: 'Very Unhealthy', color: '#8f3f97' },
+      { level: 5, max: 500, label: 'Hazardous', color: '#7e0023' },
+    ],
+    pollutants: {
+      pm25: { breakpoints: [[0, 9, 0, 50], [9.1, 35.4, 51, 100], [35.5, 55.4, 101, 150], [55.5, 125.4, 151, 200], [125.5, 225.4, 201, 300], [225.5, 325.4, 301, 500]] },
+      pm10: { breakpoints: [[0, 54, 0, 50], [55, 154, 51, 100], [155, 254, 101, 150], [255, 354, 151, 200], [355, 424, 201, 300], [425, 604, 301, 500]] },
+      // 8-hour ppm; the top band uses the 1-hour breakpoints
+      o3: { scale: ppb(48.0) / 1000, breakpoints: [[0, 0.054, 0, 50], [0.055, 0.07, 51, 100], [0.071, 0.085, 101, 150], [0.086, 0.105, 151, 200], [0.106, 0.2, 201, 300], [0.405, 0.604, 301, 500]] },
+      // 8-hour ppm
+      co: { scale: ppb(28.01), breakpoints: [[0, 4.4, 0, 50], [4.5, 9.4, 51, 100], [9.5, 12.4, 101, 150], [12.5, 15.4, 151, 200], [15.5, 30.4, 201, 300], [30.5, 50.4, 301, 500]] },
+      // 1-hour ppb
+      so2: { scale: ppb(64.07), breakpoints: [[0, 35, 0, 50], [36, 75, 51, 100], [76, 185, 101, 150], [186, 304, 151, 200], [305, 604, 201, 300], [605, 1004, 301, 500]] },
+      no2: { scale: ppb(46.01), breakpoints: [[0, 53, 0, 50], [54, 100, 51, 100], [101, 360, 101, 150], [361, 649, 151, 200], [650, 1249, 201, 300], [1250, 2049, 301, 500]] },
+      mq135: mq135Table(EPA_BANDS),
+    },
+  },
+};
+
+// Pollutants a node may report besides the MQ135 (units as in the engine header)
+export const REPORTED_POLLUTANTS = ['pm25', 'pm10', 'no2', 'o3', 'co', 'so2', 'nh3'];
+
+export const isAqiStandard = (value) =>
+  typeof value === 'string' && Object.hasOwn(AQI_STANDARDS, value);
+
+/** Sub-index of one pollutant, or null if the standard has no table for it. */
+export function subIndex(pollutant, concentration, standard) {
+  const table = AQI_STANDARDS[standard].pollutants[pollutant];
+  if (!table || !Number.isFinite(concentration)) return null;
+
+  const c = Math.max(0, concentration * (table.scale ?? 1));
+  const bands = table.breakpoints;
+  let band = bands[0];
+  for (const candidate of bands) {
+    if (c >= candidate[0]) band = candidate;
+  }
+  const [cLo, cHi, iLo, iHi] = band;
+  const clamped = Math.min(c, cHi);
+  return Math.round(((iHi - iLo) / (cHi - cLo)) * (clamped - cLo) + iLo);
+}
+
+export function aqiCategory(aqi, standard) {
+  const categories = AQI_STANDARDS[standard].categories;
+  const match = categories.find((c) => aqi <= c.max) ?? categories[categories.length - 1];
+  return { level: match.level, label: match.label, color: match.color };
+}
+
+/**
+ * AQI, category and dominant pollutant; null when nothing can be indexed.
+ *
+ * @param {Record<string, number|null|undefined>} concentrations
+ * @param {'IN_NAQI'|'US_EPA'} [standard]
+ */
+export function computeAQI(concentrations, standard = DEFAULT_AQI_STANDARD) {
+  const subIndices = {};
+  let dominant = null;
+
+  for (const [pollutant, value] of Object.entries(concentrations)) {
+    if (value == null) continue;
+    const index = subIndex(pollutant, value, standard);
+    if (index == null) continue;
+    subIndices[pollutant] = index;
+    if (dominant === null || index > subIndices[dominant]) dominant = pollutant;
+  }
+
+  if (dominant === null) return null;
+  const aqi = subIndices[dominant];
+  return { standard, aqi, category: aqiCategory(aqi, standard), dominant, subIndices };
+}
+
+/**
+ * Keep only known, finite, non-negative pollutant values from an ingest
+ * payload. Returns null when nothing usable was sent.
+ */
+export function sanitizePollutants(input) {
+  if (!input || typeof input !== 'object') return null;
+  const out = {};
+  for (const key of REPORTED_POLLUTANTS) {
+    const value = Number(input[key]);
+    if (input[key] != null && Number.isFinite(value) && value >= 0) out[key] = value;
+  }
+  return Object.keys(out).length ? out : null;
+}
@@ -0,0 +1,445 @@
+/**
+ * calibration.js
+ *
+ * Per-device sensor calibration. Each device has versioned
+ * CalibrationProfile documents; the newest is applied at ingest and the
+ * version is stored on the Reading (calibrationVersion), together with the
+ * uncalibrated inputs (Reading.raw) so a date range can be reprocessed
+ * later with another version.
+ *
+ * A profile may set:
+ *   mg811   — two-point curve, log10(ppm) linear in the ADC count. Without
+ *             it the firmware's linear 0–4095 → 0–5000 ppm value is kept.
+ *   mq135   — fresh-air resistance R0. Without it a nominal R0 (the
+ *             reference sensor's, fresh air = 500 counts) is used.
+ *   offsets — added to temperature (°C) and humidity (%RH).
+ *
+ * MQ135 readings are always temperature/humidity compensated: Rs is divided
+ * by the datasheet sensitivity factor (1.0 at 20 °C / 33 %RH) for the
+ * reading's own DHT values, then reported as the ratio Rs/R0, a CO₂-
+ * equivalent ppm estimate and a corrected ADC count — what the reference
+ * sensor would read under reference conditions. The AQI engine and the AI
+ * features use the corrected count; mq135Raw is stored untouched.
+ */
+
+import { Reading } from '../models/Reading.js';
+import { CalibrationProfile } from '../models/CalibrationProfile.js';
+import { ADC_MAX, estimateEmissionsKgFromCO2ppm } from './sensorConversions.js';
+import { FALLBACK_AQI, computeAQI } from './aqi.js';
+import { LEGACY_HASH_VERSION, computeReadingHash, verifyReadingHash } from './readingHash.js';
+
+// ESP32 ADC reference and the MQ135 module's divider
+const ADC_REF_V = 3.3;
+const MQ135_SUPPLY_V = 5.0;
+const MQ135_LOAD_KOHM = 10;
+// Fresh air reads this many counts on the reference sensor
+export const MQ135_FRESH_AIR_RAW = 500;
+// CO₂-equivalent curve ppm = FRESH_AIR_PPM · (Rs/R0)^-EXPONENT (datasheet CO₂ line)
+const MQ135_FRESH_AIR_PPM = 420;
+const MQ135_PPM_EXPONENT = 2.769;
+const MQ135_PPM_MAX = 10000;
+// Firmware mgRawToPPM: 0–4095 → 0–5000 ppm
+const FIRMWARE_MG811_FULL_SCALE_PPM = 5000;
+const CO2_MAX_PPM = 10000;
+
+// Active profiles are re-read at most this often per device
+const PROFILE_CACHE_MS = 60 * 1000;
+const REPROCESS_BATCH_SIZE = 500;
+// Readings in the rolling window behind the stored AI features (ingest keeps
+// the same window per device)
+export const AI_WINDOW_SIZE = 12;
+export const REPROCESS_MAX_RANGE_MS = 31 * 24 * 60 * 60 * 1000;
+
+const clamp = (v, min, max) => Math.max(min, Math.min(max, v));
+const isNum = (v) => typeof v === 'number' && Number.isFinite(v);
+
+/** MQ135 sensing resistance (kΩ) for an ADC count; null at 0 V. */
+export function mq135ResistanceKohm(raw) {
+  const volts = (raw / ADC_MAX) * ADC_REF_V;
+  if (volts <= 0) return null;
+  return (MQ135_LOAD_KOHM * (MQ135_SUPPLY_V - volts)) / volts;
+}
+
+function rawFromResistance(rsKohm) {
+  const volts = (MQ135_SUPPLY_V * MQ135_LOAD_KOHM) / (rsKohm + MQ135_LOAD_KOHM);
+  return clamp(Math.round((volts / ADC_REF_V) * ADC_MAX), 0, ADC_MAX);
+}
+
+const REFERENCE_R0_KOHM = mq135ResistanceKohm(MQ135_FRESH_AIR_RAW);
+
+/**
+ * Rs(T, RH) / Rs(20 °C, 33 %RH), fitted to the datasheet sensitivity curves.
+ * Missing DHT values leave the reading uncompensated (factor 1).
+ */
+export function mq135CompensationFactor(temperature, humidity) {
+  if (!isNum(temperature) || !isNum(humidity)) return 1;
+  if (temperature < 20) {
+    return 0.00035 * temperature ** 2 - 0.02718 * temperature + 1.39538 - (humidity - 33) * 0.0018;
+  }
+  return -0.003333333 * temperature - 0.001923077 * humidity + 1.130128205;
+}
+
+// Rs corrected to reference conditions, or null at 0 V
+function compensatedResistanceKohm(raw, temperature, humidity) {
+  const rs = mq135ResistanceKohm(raw);
+  return rs === null ? null : rs / mq135CompensationFactor(temperature, humidity);
+}
+
+/** Undo the firmware's linear ppm mapping for nodes that do not send mg811Raw. */
+export const firmwareCo2ToMg811Raw = (ppm) =>
+  Math.round((ppm / FIRMWARE_MG811_FULL_SCALE_PPM) * ADC_MAX);
+
+function mg811CurvePpm({ point1Raw, point1Ppm, point2Raw, point2Ppm }, raw) {
+  const l1 = Math.log10(point1Ppm);
+  const l2 = Math.log10(point2Ppm);
+  const log = l1 + ((raw - point1Raw) * (l2 - l1)) / (point2Raw - point1Raw);
+  return Number(clamp(10 ** log, 0, CO2_MAX_PPM).toFixed(1));
+}
+
+const withOffset = (value, offset) =>
+  isNum(value) && offset ? Number((value + offset).toFixed(2)) : value ?? null;
+
+/**
+ * Calibrated values for one set of raw inputs. With a null profile only the
+ * MQ135 compensation is applied; everything else passes through unchanged.
+ *
+ * @param {object|null} profile - CalibrationProfile (lean)
+ * @param {{ temperature, humidity, co2ppm, mg811Raw, mq135Raw }} raw
+ */
+export function applyCalibration(profile, raw) {
+  const temperature = withOffset(raw.temperature, profile?.offsets?.temperature);
+  const offsetHumidity = withOffset(raw.humidity, profile?.offsets?.humidity);
+  const humidity = isNum(offsetHumidity) ? clamp(offsetHumidity, 0, 100) : offsetHumidity;
+
+  let co2ppm = raw.co2ppm ?? null;
+  const mg811Raw = raw.mg811Raw ?? (isNum(raw.co2ppm) ? firmwareCo2ToMg811Raw(raw.co2ppm) : null);
+  if (profile?.mg811 && mg811Raw != null) co2ppm = mg811CurvePpm(profile.mg811, mg811Raw);
+
+  let mq135Ratio = null;
+  let mq135Ppm = null;
+  let mq135Compensation = null;
+  let mq135Corrected = raw.mq135Raw ?? null;
+  const rs = isNum(raw.mq135Raw)
+    ? compensatedResistanceKohm(raw.mq135Raw, temperature, humidity)
+    : null;
+  if (rs !== null) {
+    const r0 = profile?.mq135?.r0Kohm ?? REFERENCE_R0_KOHM;
+    mq135Ratio = Number((rs / r0).toFixed(4));
+    mq135Ppm = Number(clamp(MQ135_FRESH_AIR_PPM * mq135Ratio ** -MQ135_PPM_EXPONENT, 0, MQ135_PPM_MAX).toFixed(1));
+    mq135Compensation = Number(mq135CompensationFactor(temperature, humidity).toFixed(4));
+    mq135Corrected = rawFromResistance(mq135Ratio * REFERENCE_R0_KOHM);
+  }
+
+  return {
+    profileVersion: profile?.version ?? null,
+    temperature,
+    humidity,
+    co2ppm,
+    mq135Ratio,
+    mq135Ppm,
+    mq135Compensation,
+    mq135Corrected,
+  };
+}
+
+/** Uncalibrated inputs of a stored reading (older readings hold them in place). */
+export function storedRawInputs(doc) {
+  return {
+    temperature: doc.raw ? doc.raw.temperature : doc.environment?.temperature ?? null,
+    humidity: doc.raw ? doc.raw.humidity : doc.environment?.humidity ?? null,
+    co2ppm: doc.raw ? doc.raw.co2ppm : doc.air?.co2ppm ?? null,
+    mg811Raw: doc.raw?.mg811Raw ?? null,
+    mq135Raw: doc.air?.mq135Raw ?? null,
+  };
+}
+
+// ------------ Profiles ------------
+
+const profileCache = new Map();
+
+/** Newest profile for a device, or null if it was never calibrated. */
+export async function getActiveProfile(deviceId) {
+  const cached = profileCache.get(deviceId);
+  if (cached && Date.now() - cached.at < PROFILE_CACHE_MS) return cached.profile;
+
+  const profile = await CalibrationProfile.findOne({ deviceId }).sort({ version: -1 }).lean();
+  profileCache.set(deviceId, { profile, at: Date.now() });
+  return profile;
+}
+
+export function invalidateProfile(deviceId) {
+  profileCache.delete(deviceId);
+}
+
+/**
+ * Check a profile body from the admin UI.
+ * @returns {{ value?: object, error?: string }}
+ */
+export function validateProfileInput(body = {}) {
+  const value = { mg811: null, mq135: null, offsets: { temperature: 0, humidity: 0 }, notes: '' };
+
+  if (body.mg811) {
+    const { point1Raw, point1Ppm, point2Raw, point2Ppm } = body.mg811;
+    const nums = [point1Raw, point1Ppm, point2Raw, point2Ppm].map(Number);
+    if (!nums.every(Number.isFinite)) return { error: 'mg811 needs point1Raw, point1Ppm, point2Raw and point2Ppm' };
+    if (nums[1] <= 0 || nums[3] <= 0) return { error: 'mg811 reference ppm must be positive' };
+    if (nums[0] === nums[2]) return { error: 'mg811 points must have different raw counts' };
+    value.mg811 = { point1Raw: nums[0], point1Ppm: nums[1], point2Raw: nums[2], point2Ppm: nums[3] };
+  }
+
+  if (body.mq135) {
+    const r0Kohm = Number(body.mq135.r0Kohm);
+    if (!Number.isFinite(r0Kohm) || r0Kohm <= 0) return { error: 'mq135.r0Kohm must be a positive number' };
+    value.mq135 = { r0Kohm };
+  }
+
+  for (const key of ['temperature', 'humidity']) {
+    const offset = Number(body.offsets?.[key] ?? 0);
+    if (!Number.isFinite(offset) || Math.abs(offset) > 50) return { error: `offsets.${key} must be between -50 and 50` };
+    value.offsets[key] = offset;
+  }
+
+  if (body.baselineSession) {
+    const from = new Date(body.baselineSession.from);
+    const to = new Date(body.baselineSession.to);
+    const sampleCount = Number(body.baselineSession.sampleCount);
+    if (!Number.isNaN(from.getTime()) && !Number.isNaN(to.getTime()) && Number.isFinite(sampleCount)) {
+      value.baselineSession = { from, to, sampleCount };
+    }
+  }
+
+  if (typeof body.notes === 'string') value.notes = body.notes.slice(0, 500);
+  return { value };
+}
+
+// ------------ Baseline capture ------------
+
+const median = (values) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mean = (values) =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+/**
+ * Proposed profile values from readings taken in fresh air. MQ135 R0 and
+ * the MG811 point come from medians so a passing vehicle does not skew
+ * them; offsets need the reference instrument's temperature/humidity.
+ *
+ * @param {object[]} readings - lean Readings from the capture window
+ * @param {{ referenceCo2ppm: number, referenceTemperature?: number, referenceHumidity?: number }} refs
+ */
+export function summariseBaseline(readings, { referenceCo2ppm, referenceTemperature, referenceHumidity }) {
+  const inputs = readings.map(storedRawInputs);
+  const pick = (fn) => inputs.map(fn).filter(isNum);
+
+  const mq135Raw = median(pick((r) => r.mq135Raw));
+  // R0 is taken under reference conditions so ingest can compensate against it
+  const r0Kohm = median(
+    inputs
+      .filter((r) => isNum(r.mq135Raw))
+      .map((r) => compensatedResistanceKohm(r.mq135Raw, r.temperature, r.humidity))
+      .filter(isNum),
+  );
+  const mg811Raw = median(pick((r) => r.mg811Raw ?? (isNum(r.co2ppm) ? firmwareCo2ToMg811Raw(r.co2ppm) : null)));
+  const temperature = mean(pick((r) => r.temperature));
+  const humidity = mean(pick((r) => r.humidity));
+
+  const round = (v, digits) => (v == null ? null : Number(v.toFixed(digits)));
+
+  return {
+    sampleCount: readings.length,
+    stats: {
+      mq135Raw: round(mq135Raw, 1),
+      mg811Raw: round(mg811Raw, 1),
+      temperature: round(temperature, 2),
+      humidity: round(humidity, 2),
+    },
+    proposal: {
+      mq135: r0Kohm != null ? { r0Kohm: round(r0Kohm, 3) } : null,
+      mg811Point: mg811Raw != null ? { raw: Math.round(mg811Raw), ppm: referenceCo2ppm } : null,
+      offsets: {
+        temperature: isNum(referenceTemperature) && temperature != null ? round(referenceTemperature - temperature, 2) : 0,
+        humidity: isNum(referenceHumidity) && humidity != null ? round(referenceHumidity - humidity, 2) : 0,
+      },
+    },
+  };
+}
+
+// ------------ Reprocessing ------------
+
+// Mean and population standard deviation, as the ingest AI features use
+function windowStats(values) {
+  const present = values.filter(isNum);
+  if (!present.length) return { avg: null, std: null };
+  const avg = present.reduce((a, b) => a + b, 0) / present.length;
+  const variance = present.reduce((a, v) => a + (v - avg) ** 2, 0) / present.length;
+  return { avg, std: Math.sqrt(variance) };
+}
+
+/**
+ * Re-run calibration over stored readings with `profile`. Derived values
+ * (environment, CO₂, AQI, emissions and the rolling CO₂ / VOC AI features)
+ * are rewritten and the integrity hash recomputed; the previous hash and
+ * anchor are kept in `recalibrations`. An anchored reading goes back to
+ * PENDING with no txHash, since the chain holds the hash of the old values;
+ * every re-hashed reading is listed in `reanchor` for reanchorReadings.
+ * Readings that already fail verification are skipped, so reprocessing can
+ * never re-seal a tampered reading.
+ *
+ * The AI window is seeded with the readings just before `from`, recalibrated
+ * the same way, so the first readings of the range see a full window.
+ *
+ * @param {{ deviceId: string, from: Date, to: Date, profile: object, aqiStandard: string, userId?: string }} opts
+ * @returns {Promise<{ matched: number, updated: number, skippedTampered: number, unanchored: number, reanchor: object[] }>}
+ */
+export async function reprocessReadings({ deviceId, from, to, profile, aqiStandard, userId = null }) {
+  const recalibrated = (doc) => applyCalibration(profile, storedRawInputs(doc));
+  const preceding = await Reading.find({ deviceId, timestamp: { $lt: from } })
+    .sort({ timestamp: -1 })
+    .limit(AI_WINDOW_SIZE - 1)
+    .select('environment air raw')
+    .lean();
+  let window = preceding.reverse().map(recalibrated);
+
+  const cursor = Reading.find({ deviceId, timestamp: { $gte: from, $lte: to } })
+    .sort({ timestamp: 1 })
+    .lean()
+    .cursor();
+
+  let matched = 0;
+  let updated = 0;
+  let skippedTampered = 0;
+  let unanchored = 0;
+  const reanchor = [];
+  let ops = [];
+
+  const flush = async () => {
+    if (!ops.length) return;
+    const batch = ops;
+    ops = [];
+    await Reading.bulkWrite(batch, { ordered: false });
+    updated += batch.length;
+  };
+
+  for await (const doc of cursor) {
+    matched += 1;
+    const raw = storedRawInputs(doc);
+    const cal = applyCalibration(profile, raw);
+    // A skipped reading was still part of the window at ingest
+    window = [...window, cal].slice(-AI_WINDOW_SIZE);
+    if (verifyReadingHash(doc).verdict === 'TAMPERED') {
+      skippedTampered += 1;
+      continue;
+    }
+    const standard = doc.air?.aqiStandard ?? aqiStandard;
+    const aqiResult = computeAQI({ ...doc.air?.pollutants, mq135: cal.mq135Corrected }, standard);
+    const co2ppm = cal.co2ppm ?? 0;
+    const co2Window = windowStats(window.map((c) => c.co2ppm));
+    const vocWindow = windowStats(window.map((c) => c.mq135Corrected));
+    const anchored = doc.anchorStatus === 'ANCHORED';
+
+    // Every schema field is spelled out so the stored document is exactly what was hashed
+    const changes = {
+      environment: { temperature: cal.temperature, humidity: cal.humidity },
+      air: {
+        aqi: aqiResult?.aqi ?? FALLBACK_AQI,
+        aqiStandard: standard,
+        aqiCategory: aqiResult?.category.label ?? null,
+        dominantPollutant: aqiResult?.dominant ?? null,
+        co2ppm,
+        mq135Raw: doc.air?.mq135Raw ?? null,
+        mq135Volt: doc.air?.mq135Volt ?? null,
+        mq135Ratio: cal.mq135Ratio,
+        mq135Ppm: cal.mq135Ppm,
+        mq135Compensation: cal.mq135Compensation,
+        mq135Corrected: cal.mq135Corrected,
+        pollutants: doc.air?.pollutants ?? null,
+      },
+      emissions: {
+        estimatedCO2eqKg: estimateEmissionsKgFromCO2ppm(co2ppm),
+        method: doc.emissions?.method ?? 'model',
+      },
+      // Vibration comes from the IMU, which calibration does not touch
+      aiFeatures: {
+        vocAvg: vocWindow.avg,
+        vocStd: vocWindow.std,
+        co2Avg: co2Window.avg,
+        co2Std: co2Window.std,
+        vibrationAmp: doc.aiFeatures?.vibrationAmp ?? null,
+        vibrationFreq: doc.aiFeatures?.vibrationFreq ?? null,
+        Hour: doc.aiFeatures?.Hour,
+      },
+      raw: {
+        temperature: raw.temperature,
+        humidity: raw.humidity,
+        co2ppm: raw.co2ppm,
+        mg811Raw: raw.mg811Raw,
+      },
+      calibrationVersion: profile.version,
+    };
+    const dataHash = doc.dataHash
+      ? computeReadingHash({ ...doc, ...changes }, doc.hashVersion ?? LEGACY_HASH_VERSION)
+      : null;
+
+    ops.push({
+      updateOne: {
+        filter: { _id: doc._id },
+        update: {
+          $set: {
+            ...changes,
+            ...(dataHash ? { dataHash } : {}),
+            ...(anchored ? { anchorStatus: 'PENDING', txHash: null } : {}),
+          },
+          $push: {
+            recalibrations: {
+              fromVersion: doc.calibrationVersion ?? null,
+              toVersion: profile.version,
+              previousHash: doc.dataHash ?? null,
+              previousTxHash: doc.txHash ?? null,
+              reprocessedAt: new Date(),
+              reprocessedBy: userId,
+            },
+          },
+        },
+      },
+    });
+    if (anchored) unanchored += 1;
+    if (dataHash) reanchor.push({ id: doc._id, dataHash, revision: (doc.recalibrations?.length ?? 0) + 1 });
+    if (ops.length >= REPROCESS_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { matched, updated, skippedTampered, unanchored, reanchor };
+}
+
+/**
+ * Anchor the new hashes of reprocessed readings, one at a time, each under
+ * its recalibration revision (anchorService.anchorRecordId). A reading is
+ * only marked ANCHORED if its hash is still the one that went on chain, so
+ * a later reprocess of the same range wins.
+ *
+ * @param {{ id: *, dataHash: string, revision: number }[]} pending - reprocessReadings().reanchor
+ * @param {(mongoId: string, dataHash: string, revision: number) => Promise<{ txHash: string }|null>} anchor
+ * @param {(reading: object, txHash: string) => void} [onAnchored]
+ * @returns {Promise<number>} readings anchored
+ */
+export async function reanchorReadings(pending, anchor, onAnchored) {
+  let anchored = 0;
+  for (const { id, dataHash, revision } of pending) {
+    const result = await anchor(id.toString(), dataHash, revision);
+    if (!result?.txHash) continue;
+    const reading = await Reading.findOneAndUpdate(
+      { _id: id, dataHash },
+      { $set: { anchorStatus: 'ANCHORED', txHash: result.txHash } },
+      { new: true },
+    ).lean();
+    if (!reading) continue;
+    anchored += 1;
+    onAnchored?.(reading, result.txHash);
+  }
+  return anchored;
+}
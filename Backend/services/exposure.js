@@ -0,0 +1,179 @@
+/**
+ * exposure.js
+ *
+ * Occupational CO₂ exposure for one device and one UTC day, computed from
+ * the minute rollups (services/rollups.js):
+ *   TWA  — rolling 8-hour time-weighted average
+ *   STEL — rolling 15-minute average (short-term exposure level)
+ * Both are evaluated at every minute of the day, looking back into the
+ * previous day so the first windows are complete.
+ *
+ * Minutes without readings are left out of a window rather than counted
+ * as zero exposure, so a window is only reported once enough of it is
+ * covered (MIN_COVERAGE). Limits default to OSHA PEL / ACGIH values and
+ * can be set per site on the Node document.
+ */
+
+import { aggregateReadings, RESOLUTIONS } from './readingAggregates.js';
+
+// OSHA PEL / ACGIH TLV-TWA 5000 ppm; ACGIH TLV-STEL 30000 ppm
+export const DEFAULT_EXPOSURE_LIMITS = { twa8hPpm: 5000, stel15minPpm: 30000 };
+
+const TWA_MINUTES = 8 * 60;
+const STEL_MINUTES = 15;
+// Share of a window's minutes that must hold data before it is reported
+const MIN_COVERAGE = 0.5;
+// Points in the returned series (one per SERIES_STEP_MINUTES)
+const SERIES_STEP_MINUTES = 5;
+
+const round = (v) => (v == null ? null : Math.round(v));
+
+export function resolveExposureLimits(node) {
+  return {
+    twa8hPpm: node?.exposureLimits?.twa8hPpm ?? DEFAULT_EXPOSURE_LIMITS.twa8hPpm,
+    stel15minPpm: node?.exposureLimits?.stel15minPpm ?? DEFAULT_EXPOSURE_LIMITS.stel15minPpm,
+  };
+}
+
+/**
+ * Check limits from the admin form.
+ * @returns {{ value?: object, error?: string }}
+ */
+export function validateExposureLimits(body = {}) {
+  const twa8hPpm = Number(body.twa8hPpm);
+  const stel15minPpm = Number(body.stel15minPpm);
+  if (!Number.isFinite(twa8hPpm) || twa8hPpm <= 0) return { error: 'twa8hPpm must be a positive number' };
+  if (!Number.isFinite(stel15minPpm) || stel15minPpm <= 0) return { error: 'stel15minPpm must be a positive number' };
+  if (stel15minPpm < twa8hPpm) return { error: 'stel15minPpm must not be below twa8hPpm' };
+  return { value: { twa8hPpm, stel15minPpm } };
+}
+
+// Trailing-window mean over a minute grid where missing minutes are null
+function rollingMeans(values, windowSize) {
+  const out = new Array(values.length).fill(null);
+  let sum = 0;
+  let n = 0;
+  for (let i = 0; i < values.length; i += 1) {
+    if (values[i] != null) { sum += values[i]; n += 1; }
+    const dropped = i - windowSize;
+    if (dropped >= 0 && values[dropped] != null) { sum -= values[dropped]; n -= 1; }
+    if (i >= windowSize - 1 && n >= windowSize * MIN_COVERAGE) out[i] = sum / n;
+  }
+  return out;
+}
+
+// Contiguous runs of minutes above `limit`
+function excursions(means, limit, dayStartIndex, minuteTs) {
+  const runs = [];
+  let current = null;
+  for (let i = dayStartIndex; i < means.length; i += 1) {
+    const over = means[i] != null && means[i] > limit;
+    if (over && !current) current = { from: minuteTs(i), to: minuteTs(i), peak: means[i] };
+    else if (over) { current.to = minuteTs(i); current.peak = Math.max(current.peak, means[i]); }
+    else if (current) { runs.push(current); current = null; }
+  }
+  if (current) runs.push(current);
+  return runs.map((r) => ({
+    from: new Date(r.from).toISOString(),
+    to: new Date(r.to + RESOLUTIONS.minute).toISOString(),
+    minutes: Math.round((r.to - r.from) / RESOLUTIONS.minute) + 1,
+    peakPpm: round(r.peak),
+  }));
+}
+
+function maxWithTime(means, dayStartIndex, minuteTs) {
+  let best = null;
+  for (let i = dayStartIndex; i < means.length; i += 1) {
+    if (means[i] != null && (!best || means[i] > best.value)) best = { value: means[i], i };
+  }
+  return best ? { ppm: round(best.value), at: new Date(minuteTs(best.i)).toISOString() } : null;
+}
+
+/**
+ * Rolling TWA / STEL for `date` (YYYY-MM-DD, UTC) against `limits`.
+ *
+ * @returns {Promise<{
+ *   date: string, deviceId: string, limits: object, coverage: number,
+ *   peakPpm: number|null, maxTwa8h: object|null, maxStel15min: object|null,
+ *   twaExceeded: boolean, stelExceeded: boolean,
+ *   stelExcursions: object[], series: Array<{ ts: string, co2: number|null, twa8h: number|null, stel15min: number|null }>,
+ *   minutes: Array<{ ts: number, co2: number|null, twa8h: number|null, stel15min: number|null }>
+ * }>}
+ */
+export async function computeDailyExposure({ deviceId, date, limits }) {
+  const dayStart = new Date(`${date}T00:00:00.000Z`);
+  const gridStart = new Date(dayStart.getTime() - TWA_MINUTES * RESOLUTIONS.minute);
+  const dayEnd = new Date(dayStart.getTime() + RESOLUTIONS.day);
+  const gridEnd = new Date(Math.min(dayEnd.getTime(), Date.now()));
+
+  const buckets = await aggregateReadings({
+    deviceId,
+    from: gridStart,
+    to: new Date(gridEnd.getTime() - 1),
+    resolution: 'minute',
+  });
+
+  const size = Math.max(0, Math.ceil((gridEnd - gridStart) / RESOLUTIONS.minute));
+  const minuteTs = (i) => gridStart.getTime() + i * RESOLUTIONS.minute;
+  const co2 = new Array(size).fill(null);
+  let peak = null;
+  for (const b of buckets) {
+    const i = Math.round((b.ts - gridStart.getTime()) / RESOLUTIONS.minute);
+    if (i < 0 || i >= size || b.co2?.mean == null) continue;
+    co2[i] = b.co2.mean;
+    if (i >= TWA_MINUTES && b.co2.max != null) peak = Math.max(peak ?? b.co2.max, b.co2.max);
+  }
+
+  const twa = rollingMeans(co2, TWA_MINUTES);
+  const stel = rollingMeans(co2, STEL_MINUTES);
+
+  const dayMinutes = Math.max(0, size - TWA_MINUTES);
+  const covered = co2.slice(TWA_MINUTES).filter((v) => v != null).length;
+  const maxTwa8h = maxWithTime(twa, TWA_MINUTES, minuteTs);
+  const maxStel15min = maxWithTime(stel, TWA_MINUTES, minuteTs);
+
+  const minutes = [];
+  for (let i = TWA_MINUTES; i < size; i += 1) {
+    minutes.push({ ts: minuteTs(i), co2: round(co2[i]), twa8h: round(twa[i]), stel15min: round(stel[i]) });
+  }
+
+  return {
+    date,
+    deviceId,
+    limits,
+    // Share of the elapsed day with readings
+    coverage: dayMinutes ? Number((covered / dayMinutes).toFixed(3)) : 0,
+    peakPpm: round(peak),
+    maxTwa8h,
+    maxStel15min,
+    twaExceeded: !!maxTwa8h && maxTwa8h.ppm > limits.twa8hPpm,
+    stelExceeded: !!maxStel15min && maxStel15min.ppm > limits.stel15minPpm,
+    stelExcursions: excursions(stel, limits.stel15minPpm, TWA_MINUTES, minuteTs),
+    series: minutes
+      .filter((_, i) => i % SERIES_STEP_MINUTES === SERIES_STEP_MINUTES - 1)
+      .map((m) => ({ ...m, ts: new Date(m.ts).toISOString() })),
+    minutes,
+  };
+}
+
+/** Per-minute exposure record as CSV, with the limits and summary in a comment header. */
+export function exposureRecordCsv(exposure) {
+  const { deviceId, date, limits } = exposure;
+  const lines = [
+    `# AtmosTrack CO2 exposure record`,
+    `# device,${deviceId}`,
+    `# date (UTC),${date}`,
+    `# limit TWA 8h (ppm),${limits.twa8hPpm}`,
+    `# limit STEL 15min (ppm),${limits.stel15minPpm}`,
+    `# coverage,${exposure.coverage}`,
+    `# max TWA 8h (ppm),${exposure.maxTwa8h?.ppm ?? ''},${exposure.maxTwa8h?.at ?? ''}`,
+    `# max STEL 15min (ppm),${exposure.maxStel15min?.ppm ?? ''},${exposure.maxStel15min?.at ?? ''}`,
+    `# TWA exceeded,${exposure.twaExceeded}`,
+    `# STEL excursions,${exposure.stelExcursions.length}`,
+    'minute,co2ppm,twa8hPpm,stel15minPpm',
+    ...exposure.minutes.map((m) =>
+      [new Date(m.ts).toISOString(), m.co2 ?? '', m.twa8h ?? '', m.stel15min ?? ''].join(','),
+    ),
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,185 @@
+/**
+ * forecast.js
+ *
+ * Short-term (≤ 2 h) nowcast of CO₂ and AQI for one device, from the
+ * rollups only:
+ *   - the last few hours of minute rollups, resampled to 5-minute steps,
+ *     drive a damped-trend Holt exponential smoothing model
+ *   - two weeks of hour rollups give a diurnal profile (hour-of-day offset
+ *     from the mean), removed before smoothing and added back to the
+ *     forecast so the usual morning / evening swings are anticipated
+ *
+ * Intervals come from the spread of the model's one-step-ahead errors on
+ * the recent window, widened with the horizon. They are rough 90 % bands,
+ * not calibrated probabilities.
+ */
+
+import { aggregateReadings, RESOLUTIONS } from './readingAggregates.js';
+
+export const FORECAST_METRICS = ['co2', 'aqi'];
+export const FORECAST_STEP_MINUTES = 5;
+export const MAX_HORIZON_MINUTES = 120;
+
+const STEP_MS = FORECAST_STEP_MINUTES * RESOLUTIONS.minute;
+const HISTORY_MS = 4 * RESOLUTIONS.hour;
+const DIURNAL_MS = 14 * RESOLUTIONS.day;
+// Fewer recent steps than this and there is nothing to extrapolate from
+const MIN_STEPS = 6;
+// A device silent for longer than this gets no forecast
+const MAX_STALENESS_MS = 15 * RESOLUTIONS.minute;
+// Hour-of-day slots need this many days of data before they shift the forecast
+const MIN_DIURNAL_DAYS = 3;
+
+// Smoothing constants per 5-minute step
+const ALPHA = 0.5;
+const BETA = 0.2;
+const PHI = 0.9;
+const Z90 = 1.645;
+
+const CACHE_MS = 60 * 1000;
+// deviceId comes from the URL, so the cache is bounded whatever is asked for
+const CACHE_MAX_ENTRIES = 500;
+const cache = new Map();
+
+// Drop expired entries, then the oldest ones past the cap (Map keeps
+// insertion order and entries are re-inserted on refresh)
+function cacheForecast(key, forecast) {
+  const now = Date.now();
+  for (const [k, entry] of cache) {
+    if (now - entry.at >= CACHE_MS) cache.delete(k);
+  }
+  cache.delete(key);
+  cache.set(key, { at: now, forecast });
+  while (cache.size > CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value);
+}
+
+const round = (v) => Math.round(v * 10) / 10;
+
+// Hour-of-day (UTC) → mean offset from the overall mean, or null when unknown
+function diurnalProfile(hourBuckets, metric) {
+  const slots = Array.from({ length: 24 }, () => ({ sum: 0, n: 0 }));
+  let total = 0;
+  let count = 0;
+  for (const b of hourBuckets) {
+    const mean = b[metric]?.mean;
+    if (mean == null) continue;
+    const slot = slots[new Date(b.ts).getUTCHours()];
+    slot.sum += mean;
+    slot.n += 1;
+    total += mean;
+    count += 1;
+  }
+  if (!count) return null;
+  const overall = total / count;
+  const offsets = slots.map((s) => (s.n >= MIN_DIURNAL_DAYS ? s.sum / s.n - overall : null));
+  return offsets.some((o) => o != null) ? offsets.map((o) => o ?? 0) : null;
+}
+
+// Offset at `ts`, interpolated between hour centres
+function diurnalAt(profile, ts) {
+  if (!profile) return 0;
+  const d = new Date(ts);
+  const hour = d.getUTCHours() + d.getUTCMinutes() / 60 - 0.5;
+  const h0 = Math.floor(hour);
+  const frac = hour - h0;
+  const a = profile[(h0 + 24) % 24];
+  const b = profile[(h0 + 25) % 24];
+  return a + (b - a) * frac;
+}
+
+// Minute buckets → 5-minute step means, oldest first; gaps are skipped
+function resample(minuteBuckets, metric) {
+  const steps = new Map();
+  for (const b of minuteBuckets) {
+    const mean = b[metric]?.mean;
+    if (mean == null) continue;
+    const stepTs = Math.floor(b.ts / STEP_MS) * STEP_MS;
+    const step = steps.get(stepTs) ?? { ts: stepTs, sum: 0, n: 0 };
+    step.sum += mean;
+    step.n += 1;
+    steps.set(stepTs, step);
+  }
+  return Array.from(steps.values())
+    .sort((a, b) => a.ts - b.ts)
+    .map((s) => ({ ts: s.ts, value: s.sum / s.n }));
+}
+
+/**
+ * Damped Holt forecast of one metric. Points are 5-minute step starts,
+ * like the rollup buckets they continue.
+ * @returns {{ last: object, sigma: number, points: Array<{ ts: string, mean: number, lower: number, upper: number }> } | null}
+ */
+export function forecastSeries(series, profile, horizonSteps, now = Date.now()) {
+  if (series.length < MIN_STEPS) return null;
+  if (now - series[series.length - 1].ts > MAX_STALENESS_MS) return null;
+
+  const deseasoned = series.map((p) => p.value - diurnalAt(profile, p.ts + STEP_MS / 2));
+  let level = deseasoned[0];
+  let trend = 0;
+  let sqErr = 0;
+  for (let i = 1; i < deseasoned.length; i += 1) {
+    const predicted = level + PHI * trend;
+    const error = deseasoned[i] - predicted;
+    sqErr += error * error;
+    const prevLevel = level;
+    level = predicted + ALPHA * error;
+    trend = PHI * trend + BETA * (level - prevLevel - PHI * trend);
+  }
+  const sigma = Math.sqrt(sqErr / (deseasoned.length - 1));
+
+  const lastTs = series[series.length - 1].ts;
+  const points = [];
+  let dampSum = 0;
+  for (let h = 1; h <= horizonSteps; h += 1) {
+    dampSum += PHI ** h;
+    const ts = lastTs + h * STEP_MS;
+    const mean = Math.max(0, level + dampSum * trend + diurnalAt(profile, ts + STEP_MS / 2));
+    const spread = Z90 * sigma * Math.sqrt(1 + (h - 1) * ALPHA * ALPHA * (1 + h * BETA) ** 2);
+    points.push({
+      ts: new Date(ts).toISOString(),
+      mean: round(mean),
+      lower: round(Math.max(0, mean - spread)),
+      upper: round(mean + spread),
+    });
+  }
+
+  return {
+    last: { ts: new Date(lastTs).toISOString(), value: round(series[series.length - 1].value) },
+    sigma: round(sigma),
+    points,
+  };
+}
+
+/**
+ * CO₂ and AQI nowcast for `deviceId`, `horizonMinutes` ahead in 5-minute
+ * steps. A metric is null when the recent window is too sparse or stale.
+ */
+export async function forecastDevice({ deviceId, horizonMinutes = 60 }) {
+  const horizonSteps = Math.ceil(Math.min(horizonMinutes, MAX_HORIZON_MINUTES) / FORECAST_STEP_MINUTES);
+  const key = `${deviceId}|${horizonSteps}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.at < CACHE_MS) return cached.forecast;
+
+  const now = new Date();
+  const [minuteBuckets, hourBuckets] = await Promise.all([
+    aggregateReadings({ deviceId, from: new Date(now - HISTORY_MS), to: now, resolution: 'minute' }),
+    aggregateReadings({ deviceId, from: new Date(now - DIURNAL_MS), to: now, resolution: 'hour' }),
+  ]);
+
+  const metrics = {};
+  const diurnalDays = new Set(hourBuckets.map((b) => Math.floor(b.ts / RESOLUTIONS.day))).size;
+  for (const metric of FORECAST_METRICS) {
+    metrics[metric] = forecastSeries(resample(minuteBuckets, metric), diurnalProfile(hourBuckets, metric), horizonSteps, now.getTime());
+  }
+
+  const forecast = {
+    deviceId,
+    generatedAt: now.toISOString(),
+    stepMinutes: FORECAST_STEP_MINUTES,
+    horizonMinutes: horizonSteps * FORECAST_STEP_MINUTES,
+    diurnalDays,
+    metrics,
+  };
+  cacheForecast(key, forecast);
+  return forecast;
+}
@@ -0,0 +1,98 @@
+/**
+ * incidents.js
+ *
+ * Persists alert engine events as Incident documents and computes the
+ * incident figures shown in Health and the admin stats. A `triggered`
+ * event opens an incident, `peak` raises its peak value and `resolved`
+ * closes the exceedance window (clearedAt / durationSec). Acknowledge and
+ * resolve are done by operators through the API.
+ */
+
+import { Incident } from '../models/Incident.js';
+
+// MTTA looks at incidents that started within this window
+export const MTTA_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Apply alert engine events in order.
+ * @returns {Promise<object[]>} incidents that changed (lean)
+ */
+export async function recordIncidents(events) {
+  const changed = [];
+
+  for (const { type, payload } of events) {
+    let incident = null;
+
+    if (type === 'triggered') {
+      incident = (await Incident.create({
+        alertId: payload.alertId,
+        ruleId: payload.ruleId,
+        ruleName: payload.ruleName,
+        deviceId: payload.deviceId,
+        metric: payload.metric,
+        operator: payload.operator,
+        threshold: payload.threshold,
+        severity: payload.severity,
+        startedAt: payload.breachStartedAt,
+        triggeredAt: payload.triggeredAt,
+        peakValue: payload.value,
+        peakAt: payload.triggeredAt,
+      })).toObject();
+    } else if (type === 'peak') {
+      incident = await Incident.findOneAndUpdate(
+        { alertId: payload.alertId },
+        { $set: { peakValue: payload.value, peakAt: payload.at } },
+        { new: true },
+      ).lean();
+    } else if (type === 'resolved') {
+      const existing = await Incident.findOne({ alertId: payload.alertId, clearedAt: null }).select('startedAt').lean();
+      if (existing) {
+        const clearedAt = new Date(payload.resolvedAt);
+        incident = await Incident.findByIdAndUpdate(
+          existing._id,
+          {
+            $set: {
+              clearedAt,
+              durationSec: Math.round((clearedAt - existing.startedAt) / 1000),
+              peakValue: payload.peakValue,
+              peakAt: payload.peakAt,
+            },
+          },
+          { new: true },
+        ).lean();
+      }
+    }
+
+    if (incident) changed.push(incident);
+  }
+
+  return changed;
+}
+
+/** Incidents whose exceedance never cleared, for alertEngine.restoreFiringAlerts. */
+export function unclearedIncidents() {
+  return Incident.find({ clearedAt: null }).lean();
+}
+
+/**
+ * Open / acknowledged counts and mean time to acknowledge (seconds, from
+ * the start of the exceedance) for incidents matching `match`.
+ */
+export async function incidentStats(match = {}) {
+  const since = new Date(Date.now() - MTTA_WINDOW_MS);
+  const [open, acknowledged, mtta] = await Promise.all([
+    Incident.countDocuments({ ...match, status: 'OPEN' }),
+    Incident.countDocuments({ ...match, status: 'ACKNOWLEDGED' }),
+    Incident.aggregate([
+      { $match: { ...match, acknowledgedAt: { $ne: null }, startedAt: { $gte: since } } },
+      { $group: { _id: null, avgMs: { $avg: { $subtract: ['$acknowledgedAt', '$startedAt'] } }, count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  return {
+    open,
+    acknowledged,
+    mttaSec: mtta[0] ? Math.round(mtta[0].avgMs / 1000) : null,
+    mttaSampleSize: mtta[0]?.count ?? 0,
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * locationCorrections.js
+ *
+ * Operator location fixes as signed, append-only records layered over stored
+ * readings at read time. The readings themselves, and so their integrity
+ * hashes, are never touched; a corrected reading carries its original
+ * position alongside the corrected one.
+ *
+ * Each record is signed with HMAC-SHA256 over its canonical JSON (the same
+ * serialisation as the reading hash) and chained to the device's previous
+ * record through prevSignature, so an edited or removed record shows up when
+ * the chain is checked. The key is LOCATION_CORRECTION_SECRET (server.js
+ * refuses to start without it).
+ *
+ * Corrections are applied to the readings API, the node registry, exports,
+ * tracks and the provenance view. Hourly surface snapshots still average
+ * the stored positions.
+ */
+
+import crypto from 'crypto';
+import { LocationCorrection } from '../models/LocationCorrection.js';
+import { canonicalize } from './readingHash.js';
+
+export const CORRECTION_SIGNATURE_VERSION = 1;
+
+// A repeat of the device's newest fix within this many degrees (~10 m) is
+// not recorded again, so a double-submitted fix leaves a single record
+const DUPLICATE_DEG = 0.0001;
+const MAX_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+const SOURCES = ['phone', 'manual'];
+// Concurrent corrections for one device race for the same predecessor; the
+// loser re-reads the chain and tries again
+const RECORD_ATTEMPTS = 5;
+
+function signingKey() {
+  const key = process.env.LOCATION_CORRECTION_SECRET;
+  if (!key) throw new Error('LOCATION_CORRECTION_SECRET is not set');
+  return key;
+}
+
+const iso = (d) => new Date(d).toISOString();
+
+// Every stored field except the signature itself
+function signedPayload(c) {
+  return {
+    deviceId: c.deviceId,
+    lat: c.lat,
+    lng: c.lng,
+    validFrom: iso(c.validFrom),
+    validTo: iso(c.validTo),
+    source: c.source,
+    accuracyM: c.accuracyM ?? null,
+    correctedBy: String(c.correctedBy),
+    correctedByName: c.correctedByName ?? '',
+    createdAt: iso(c.createdAt),
+    prevSignature: c.prevSignature ?? null,
+    signatureVersion: c.signatureVersion,
+  };
+}
+
+export function signCorrection(c) {
+  return crypto.createHmac('sha256', signingKey()).update(canonicalize(signedPayload(c))).digest('hex');
+}
+
+export function verifyCorrection(c) {
+  const expected = Buffer.from(signCorrection(c), 'hex');
+  const actual = Buffer.from(String(c.signature ?? ''), 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check a set-location body. Without an explicit window the fix covers the
+ * (server-local) day of `timestamp`, as the old in-place rewrite did.
+ * @returns {{ value?: object, error?: string }}
+ */
+export function validateCorrection(body = {}) {
+  const { deviceId, lat, lng } = body;
+  if (!deviceId || typeof deviceId !== 'string') return { error: 'deviceId is required' };
+  if (typeof lat !== 'number' || typeof lng !== 'number' ||
+    !Number.isFinite(lat) || !Number.isFinite(lng) ||
+    Math.abs(lat) > 90 || Math.abs(lng) > 180 || (lat === 0 && lng === 0)) {
+    return { error: 'lat and lng must be a valid position' };
+  }
+
+  const ts = body.timestamp ? new Date(body.timestamp) : new Date();
+  if (Number.isNaN(ts.getTime())) return { error: 'timestamp must be an ISO date' };
+
+  let validFrom;
+  let validTo;
+  if (body.validFrom || body.validTo) {
+    validFrom = new Date(body.validFrom);
+    validTo = new Date(body.validTo);
+    if (Number.isNaN(validFrom.getTime()) || Number.isNaN(validTo.getTime()) || validTo <= validFrom) {
+      return { error: 'validFrom and validTo must be ISO dates with validFrom < validTo' };
+    }
+    if (validTo - validFrom > MAX_WINDOW_MS) return { error: 'A correction can cover at most 31 days' };
+  } else {
+    validFrom = new Date(ts);
+    validFrom.setHours(0, 0, 0, 0);
+    validTo = new Date(ts);
+    validTo.setHours(23, 59, 59, 999);
+  }
+
+  const source = body.source ?? 'phone';
+  if (!SOURCES.includes(source)) return { error: `source must be one of ${SOURCES.join(', ')}` };
+
+  let accuracyM = null;
+  if (body.accuracyM !== undefined && body.accuracyM !== null) {
+    accuracyM = Number(body.accuracyM);
+    if (!Number.isFinite(accuracyM) || accuracyM < 0) return { error: 'accuracyM must be a non-negative number' };
+  }
+
+  return { value: { deviceId, lat, lng, timestamp: ts, validFrom, validTo, source, accuracyM } };
+}
+
+/**
+ * Append a correction for `value` (from validateCorrection), attributed to
+ * `user`. A repeat of the device's newest correction is returned as-is.
+ * The unique { deviceId, prevSignature } index rejects a second record on
+ * the same predecessor, so the chain never forks.
+ * @returns {Promise<{ correction: object, duplicate: boolean }>}
+ */
+export async function recordCorrection(value, user) {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await appendCorrection(value, user);
+    } catch (err) {
+      if (err?.code !== 11000 || attempt >= RECORD_ATTEMPTS) throw err;
+    }
+  }
+}
+
+async function appendCorrection(value, user) {
+  const prev = await LocationCorrection.findOne({ deviceId: value.deviceId }).sort({ createdAt: -1 }).lean();
+  if (
+    prev &&
+    prev.source === value.source &&
+    prev.validFrom.getTime() === value.validFrom.getTime() &&
+    prev.validTo.getTime() === value.validTo.getTime() &&
+    Math.abs(prev.lat - value.lat) < DUPLICATE_DEG &&
+    Math.abs(prev.lng - value.lng) < DUPLICATE_DEG
+  ) {
+    return { correction: prev, duplicate: true };
+  }
+
+  const doc = {
+    deviceId: value.deviceId,
+    lat: value.lat,
+    lng: value.lng,
+    validFrom: value.validFrom,
+    validTo: value.validTo,
+    source: value.source,
+    accuracyM: value.accuracyM,
+    correctedBy: user.id,
+    correctedByName: user.name ?? '',
+    createdAt: new Date(),
+    prevSignature: prev?.signature ?? null,
+    signatureVersion: CORRECTION_SIGNATURE_VERSION,
+  };
+  doc.signature = signCorrection(doc);
+  const created = await LocationCorrection.create(doc);
+  return { correction: created.toObject(), duplicate: false };
+}
+
+/**
+ * Corrections overlapping [from, to] for the given devices (all devices when
+ * `deviceIds` is null), newest first.
+ */
+export function findCorrections({ deviceIds = null, from, to }) {
+  const filter = { validFrom: { $lte: to }, validTo: { $gte: from } };
+  if (deviceIds) filter.deviceId = { $in: deviceIds };
+  return LocationCorrection.find(filter).sort({ createdAt: -1 }).lean();
+}
+
+/**
+ * `reading` with the newest applicable correction layered over its
+ * location, or the reading unchanged. `corrections` must be newest first.
+ */
+export function correctReading(reading, corrections) {
+  const ts = new Date(reading.timestamp).getTime();
+  const fix = corrections.find(
+    (c) => c.deviceId === reading.deviceId && c.validFrom.getTime() <= ts && c.validTo.getTime() >= ts,
+  );
+  if (!fix) return reading;
+  return {
+    ...reading,
+    location: { ...reading.location, lat: fix.lat, lng: fix.lng },
+    locationCorrection: {
+      correctionId: fix._id,
+      source: fix.source,
+      correctedAt: fix.createdAt,
+      original: { lat: reading.location?.lat ?? null, lng: reading.location?.lng ?? null },
+    },
+  };
+}
+
+/** Layer corrections over a batch of stored readings. */
+export async function applyLocationCorrections(readings) {
+  if (readings.length === 0) return readings;
+  let from = Infinity;
+  let to = -Infinity;
+  const deviceIds = new Set();
+  for (const r of readings) {
+    const ts = new Date(r.timestamp).getTime();
+    from = Math.min(from, ts);
+    to = Math.max(to, ts);
+    deviceIds.add(r.deviceId);
+  }
+  const corrections = await findCorrections({
+    deviceIds: Array.from(deviceIds),
+    from: new Date(from),
+    to: new Date(to),
+  });
+  return corrections.length ? readings.map((r) => correctReading(r, corrections)) : readings;
+}
+
+/**
+ * A device's corrections oldest first, each with `signatureValid` and
+ * `chainIntact` (its prevSignature matches the record before it).
+ */
+export async function correctionLog(deviceId) {
+  const corrections = await LocationCorrection.find({ deviceId }).sort({ createdAt: 1 }).lean();
+  return corrections.map((c, i) => ({
+    ...c,
+    signatureValid: verifyCorrection(c),
+    chainIntact: (c.prevSignature ?? null) === (i === 0 ? null : corrections[i - 1].signature),
+  }));
+}
@@ -0,0 +1,194 @@
+/**
+ * pushNotifications.js
+ *
+ * Web Push fan-out for alert events. Every `triggered` event from the alert
+ * engine is sent to each subscribed browser whose owner opted in to that
+ * severity and is not inside their quiet hours (critical alerts may be let
+ * through). Subscriptions the push service reports as gone are deleted.
+ *
+ * Needs VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (generate once with
+ * `npx web-push generate-vapid-keys`) and optionally VAPID_SUBJECT. Without
+ * them push is disabled with a warning, like on-chain anchoring.
+ */
+
+import webpush from 'web-push';
+import { PushSubscription } from '../models/PushSubscription.js';
+import User from '../models/User.js';
+import { ALERT_METRICS } from './alertEngine.js';
+
+const SEVERITIES = ['info', 'warning', 'critical'];
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Seconds the push service keeps an undelivered alert
+const ALERT_TTL_SEC = 60 * 60;
+
+const OPERATOR_SYMBOLS = { gt: '>', gte: '≥', lt: '<', lte: '≤' };
+
+let ready = false;
+let publicKey = null;
+
+function init() {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT, EMAIL_USER } = process.env;
+
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    console.warn('⚠️  [push] Missing VAPID keys — Web Push DISABLED. Run: npx web-push generate-vapid-keys, then set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY in .env');
+    return;
+  }
+
+  try {
+    const subject = VAPID_SUBJECT || `mailto:${EMAIL_USER || 'admin@atmostrack.local'}`;
+    webpush.setVapidDetails(subject, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+    publicKey = VAPID_PUBLIC_KEY;
+    ready = true;
+    console.log('🔔 [push] Web Push enabled');
+  } catch (err) {
+    console.warn('⚠️  [push] Init failed:', err.message);
+  }
+}
+
+// Run on module load
+init();
+
+export const isReady = () => ready;
+export const getPublicKey = () => publicKey;
+
+/**
+ * Check a preferences body from the profile page.
+ * @returns {{ value?: object, error?: string }}
+ */
+export function validatePreferences(body = {}) {
+  const severities = {};
+  for (const severity of SEVERITIES) {
+    if (typeof body.severities?.[severity] !== 'boolean') return { error: `severities.${severity} must be true or false` };
+    severities[severity] = body.severities[severity];
+  }
+
+  const q = body.quietHours ?? {};
+  if (typeof q.enabled !== 'boolean') return { error: 'quietHours.enabled must be true or false' };
+  if (!TIME_RE.test(q.start ?? '') || !TIME_RE.test(q.end ?? '')) return { error: 'quietHours start and end must be HH:MM' };
+  const timezone = q.timezone || 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+  } catch {
+    return { error: 'quietHours.timezone is not a valid IANA time zone' };
+  }
+
+  return {
+    value: {
+      severities,
+      quietHours: {
+        enabled: q.enabled,
+        start: q.start,
+        end: q.end,
+        timezone,
+        allowCritical: q.allowCritical !== false,
+      },
+    },
+  };
+}
+
+const toMinutes = (hhmm) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/** True when `at` falls inside the quiet hours; a window may wrap past midnight. */
+export function inQuietHours(quietHours, at = new Date()) {
+  if (!quietHours?.enabled) return false;
+  const local = new Intl.DateTimeFormat('en-GB', {
+    timeZone: quietHours.timezone || 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(at);
+  const now = toMinutes(local);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+function shouldNotify(prefs, severity, at) {
+  if (!prefs?.severities?.[severity]) return false;
+  if (!inQuietHours(prefs.quietHours, at)) return true;
+  return severity === 'critical' && prefs.quietHours.allowCritical !== false;
+}
+
+async function send(subscription, payload, urgency = 'normal') {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: subscription.keys },
+      JSON.stringify(payload),
+      { TTL: ALERT_TTL_SEC, urgency },
+    );
+    await PushSubscription.updateOne({ _id: subscription._id }, { $set: { lastSuccessAt: new Date() } });
+    return true;
+  } catch (err) {
+    // 404 / 410: the browser unsubscribed or the subscription expired
+    if (err.statusCode === 404 || err.statusCode === 410) {
+      await PushSubscription.deleteOne({ _id: subscription._id });
+    } else {
+      console.warn('⚠️  [push] Send failed:', err.statusCode ?? '', err.message);
+    }
+    return false;
+  }
+}
+
+// Sensor values are raw floats; one decimal is plenty on a lock screen
+const withUnit = (value, unit) =>
+  `${typeof value === 'number' ? Number(value.toFixed(1)) : value}${unit ? ` ${unit}` : ''}`;
+
+function alertPayload(alert) {
+  const { label = alert.metric, unit = '' } = ALERT_METRICS[alert.metric] ?? {};
+  return {
+    title: `${alert.severity === 'critical' ? '🚨' : '⚠️'} ${alert.ruleName}`,
+    body: `${alert.deviceId}: ${label} ${withUnit(alert.value, unit)} (${OPERATOR_SYMBOLS[alert.operator] ?? ''} ${withUnit(alert.threshold, unit)})`,
+    tag: alert.alertId,
+    severity: alert.severity,
+    deviceId: alert.deviceId,
+    view: 'health',
+  };
+}
+
+/**
+ * Push every `triggered` event to the subscribers that want it.
+ * @returns {Promise<number>} notifications delivered
+ */
+export async function notifyAlertEvents(events) {
+  if (!ready) return 0;
+  const alerts = events.filter((e) => e.type === 'triggered').map((e) => e.payload);
+  if (!alerts.length) return 0;
+
+  const subscriptions = await PushSubscription.find().lean();
+  if (!subscriptions.length) return 0;
+  const users = await User.find({
+    _id: { $in: [...new Set(subscriptions.map((s) => s.userId.toString()))] },
+    isActive: true,
+  }).select('notificationPrefs').lean();
+  const prefsByUser = new Map(users.map((u) => [u._id.toString(), u.notificationPrefs]));
+
+  const now = new Date();
+  const sends = [];
+  for (const alert of alerts) {
+    const payload = alertPayload(alert);
+    const urgency = alert.severity === 'critical' ? 'high' : 'normal';
+    for (const subscription of subscriptions) {
+      const prefs = prefsByUser.get(subscription.userId.toString());
+      if (prefs && shouldNotify(prefs, alert.severity, now)) sends.push(send(subscription, payload, urgency));
+    }
+  }
+
+  const results = await Promise.all(sends);
+  return results.filter(Boolean).length;
+}
+
+/** Send a test notification to all of one user's browsers, ignoring preferences. */
+export async function sendTestNotification(userId) {
+  const subscriptions = await PushSubscription.find({ userId }).lean();
+  const results = await Promise.all(subscriptions.map((s) => send(s, {
+    title: 'AtmosTrack test notification',
+    body: 'Push notifications are working on this device.',
+    tag: 'atmostrack-test',
+    severity: 'info',
+    view: 'health',
+  })));
+  return { subscriptions: subscriptions.length, delivered: results.filter(Boolean).length };
+}
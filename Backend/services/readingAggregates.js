@@ -0,0 +1,104 @@
+/**
+ * readingAggregates.js
+ *
+ * Read side of the rollup subsystem: downsampled series for long-range
+ * charts, exports and DHI, served from pre-computed ReadingRollup buckets
+ * (see services/rollups.js) instead of scanning raw readings. A year of
+ * 5 s readings becomes a few hundred documents.
+ *
+ * Each metric is summarised as mean / min / max / p95.
+ */
+
+import { ReadingRollup } from '../models/ReadingRollup.js';
+import {
+  RESOLUTIONS,
+  ROLLUP_METRICS,
+  bucketStartFor,
+  histogramPercentile,
+} from './rollups.js';
+
+export { RESOLUTIONS };
+
+export const MAX_RANGE_MS = 366 * RESOLUTIONS.day;
+// Upper bound on points per response, whatever the resolution
+export const MAX_BUCKETS = 5000;
+
+/**
+ * Coarsest-first choice that still gives a useful number of points:
+ * up to 6 h per minute, up to 14 days per hour, beyond that per day.
+ */
+export function pickResolution(rangeMs) {
+  if (rangeMs <= 6 * RESOLUTIONS.hour) return 'minute';
+  if (rangeMs <= 14 * RESOLUTIONS.day) return 'hour';
+  return 'day';
+}
+
+const round = (v, digits = 2) =>
+  v == null || Number.isNaN(v) ? null : Number(v.toFixed(digits));
+
+function summarise(metric, m) {
+  if (!m?.n) return { mean: null, min: null, max: null, p95: null };
+  return {
+    mean: round(m.sum / m.n),
+    min: round(m.min),
+    max: round(m.max),
+    p95: round(histogramPercentile(metric, m, 0.95)),
+  };
+}
+
+/**
+ * Bucketed summaries for one device over [from, to]. The bucket holding
+ * `from` is included even if it starts earlier.
+ *
+ * @param {{ deviceId: string, from: Date, to: Date, resolution: 'minute'|'hour'|'day' }} opts
+ * @returns {Promise<Array<{ ts: number, count: number, firstTs: Date, lastTs: Date } & Record<string, { mean, min, max, p95 }>>>}
+ */
+export async function aggregateReadings({ deviceId, from, to, resolution }) {
+  const rollups = await ReadingRollup.find({
+    deviceId,
+    resolution,
+    bucketStart: { $gte: bucketStartFor(from, resolution), $lte: to },
+  })
+    .sort({ bucketStart: 1 })
+    .lean();
+
+  return rollups.map((r) => {
+    const bucket = {
+      ts: new Date(r.bucketStart).getTime(),
+      count: r.count,
+      firstTs: r.firstTs,
+      lastTs: r.lastTs,
+    };
+    for (const metric of Object.keys(ROLLUP_METRICS)) {
+      bucket[metric] = summarise(metric, r.metrics?.[metric]);
+    }
+    return bucket;
+  });
+}
+
+/**
+ * First / last reading time and reading count per device, summed from the
+ * day buckets (a few hundred documents per device-year) rather than grouped
+ * over every stored reading.
+ *
+ * @returns {Promise<Array<{ deviceId: string, firstSeen: Date, lastSeen: Date, readingCount: number }>>}
+ */
+export async function deviceSummaries() {
+  const rows = await ReadingRollup.aggregate([
+    { $match: { resolution: 'day' } },
+    {
+      $group: {
+        _id: '$deviceId',
+        firstSeen: { $min: '$firstTs' },
+        lastSeen: { $max: '$lastTs' },
+        readingCount: { $sum: '$count' },
+      },
+    },
+  ]);
+  return rows.map((r) => ({
+    deviceId: r._id,
+    firstSeen: r.firstSeen,
+    lastSeen: r.lastSeen,
+    readingCount: r.readingCount,
+  }));
+}
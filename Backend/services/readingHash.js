@@ -0,0 +1,125 @@
+/**
+ * readingHash.js
+ *
+ * Single source of truth for the SHA-256 fingerprint stored on every Reading.
+ * Ingest, /verify and /provenance all go through computeReadingHash() so the
+ * three code paths can never drift apart again.
+ *
+ * Hash versions:
+ *   1 — legacy. JSON.stringify with an array replacer of the top-level keys.
+ *       The replacer also whitelists keys inside nested objects, so values
+ *       such as air.co2ppm or location.lat were silently left out.
+ *   2 — RFC 8785 style canonical JSON: keys sorted recursively, no
+ *       whitespace, ES number serialisation. Every nested value is covered.
+ */
+
+import crypto from 'crypto';
+
+export const LEGACY_HASH_VERSION = 1;
+export const CURRENT_HASH_VERSION = 2;
+
+/**
+ * Serialise a JSON-compatible value into its canonical form.
+ * Object keys are sorted by UTF-16 code units (as RFC 8785 requires),
+ * undefined members are dropped and Dates become ISO strings.
+ *
+ * @param {*} value
+ * @returns {string}
+ */
+export function canonicalize(value) {
+  if (value === null || value === undefined) return 'null';
+
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`Cannot canonicalize non-finite number: ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+
+  // ObjectIds and other BSON wrappers expose toJSON()
+  if (typeof value.toJSON === 'function' && !Array.isArray(value)) {
+    return canonicalize(value.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  const members = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+  return `{${members.join(',')}}`;
+}
+
+/**
+ * Pick the immutable sensor fields that are covered by the integrity hash.
+ * Accepts either a lean document or a plain object built at ingest.
+ */
+export function buildHashPayload(reading) {
+  return {
+    deviceId: reading.deviceId,
+    sessionId: reading.sessionId,
+    timestamp: new Date(reading.timestamp).toISOString(),
+    location: reading.location,
+    environment: reading.environment,
+    air: reading.air,
+    aiFeatures: reading.aiFeatures,
+    emissions: reading.emissions,
+    // Absent on readings stored before calibration profiles existed
+    raw: reading.raw,
+    calibrationVersion: reading.calibrationVersion,
+  };
+}
+
+function serialize(payload, version) {
+  switch (version) {
+    case LEGACY_HASH_VERSION:
+      return JSON.stringify(payload, Object.keys(payload).sort());
+    case CURRENT_HASH_VERSION:
+      return canonicalize(payload);
+    default:
+      throw new Error(`Unknown hash version: ${version}`);
+  }
+}
+
+/**
+ * Compute the hex SHA-256 fingerprint of a reading.
+ * Documents stored before hashVersion existed are treated as version 1.
+ *
+ * @param {object} reading
+ * @param {number} [version] - defaults to the version recorded on the reading
+ * @returns {string}
+ */
+export function computeReadingHash(reading, version = reading.hashVersion ?? LEGACY_HASH_VERSION) {
+  return crypto
+    .createHash('sha256')
+    .update(serialize(buildHashPayload(reading), version))
+    .digest('hex');
+}
+
+/**
+ * Re-hash a stored reading and compare against its dataHash.
+ * A TAMPERED verdict recorded when the reading was migrated from the legacy
+ * scheme is carried forward, so re-hashing can never launder an old mismatch.
+ *
+ * @returns {{ hashVersion: number, recomputedHash: string, intact: boolean|null, verdict: 'INTACT'|'TAMPERED'|'NO_HASH' }}
+ */
+export function verifyReadingHash(reading) {
+  const hashVersion = reading.hashVersion ?? LEGACY_HASH_VERSION;
+  const recomputedHash = computeReadingHash(reading, hashVersion);
+
+  if (!reading.dataHash) {
+    return { hashVersion, recomputedHash, intact: null, verdict: 'NO_HASH' };
+  }
+
+  const legacyTampered = reading.hashMigration?.legacyVerdict === 'TAMPERED';
+  const intact = recomputedHash === reading.dataHash && !legacyTampered;
+  return { hashVersion, recomputedHash, intact, verdict: intact ? 'INTACT' : 'TAMPERED' };
+}
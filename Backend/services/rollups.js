@@ -0,0 +1,246 @@
+/**
+ * rollups.js
+ *
+ * Write side of the ReadingRollup collection: per-device minute, hour and
+ * day aggregates of CO₂, AQI, temperature, humidity and MQ135 raw.
+ *
+ * Every update is expressed as $inc / $min / $max, so partial deltas for the
+ * same bucket can be applied in any order and any number of times. Ingest
+ * applies a one-reading delta; the rebuild merges many readings per bucket
+ * before writing.
+ *
+ * A rebuild deletes buckets that ingest keeps incrementing, so while one
+ * runs, live writes for its device(s) are held back and replayed afterwards
+ * for readings the rebuild did not count itself. This only covers ingest in
+ * the same process; scripts/rebuild-rollups.js still wants a quiet range.
+ *
+ * p95 comes from a fixed-width histogram per metric, so it is accurate to
+ * one bin width (e.g. 25 ppm for CO₂).
+ */
+
+import { Reading } from '../models/Reading.js';
+import { ReadingRollup } from '../models/ReadingRollup.js';
+
+// Rollup metric → stored Reading field and histogram bin layout
+export const ROLLUP_METRICS = {
+  co2: { field: 'air.co2ppm', binMin: 0, binWidth: 25 },
+  aqi: { field: 'air.aqi', binMin: 0, binWidth: 5 },
+  temp: { field: 'environment.temperature', binMin: -40, binWidth: 0.5 },
+  humidity: { field: 'environment.humidity', binMin: 0, binWidth: 1 },
+  mq135Raw: { field: 'air.mq135Raw', binMin: 0, binWidth: 16 },
+};
+
+export const RESOLUTIONS = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+// Deltas are flushed to MongoDB once this many buckets are pending
+const REBUILD_FLUSH_SIZE = 2000;
+
+/** UTC start of the bucket containing `ts`. */
+export function bucketStartFor(ts, resolution) {
+  const ms = new Date(ts).getTime();
+  return new Date(Math.floor(ms / RESOLUTIONS[resolution]) * RESOLUTIONS[resolution]);
+}
+
+const readField = (doc, path) =>
+  path.split('.').reduce((acc, key) => (acc == null ? undefined : acc[key]), doc);
+
+const binIndex = (value, { binMin, binWidth }) =>
+  Math.max(0, Math.floor((value - binMin) / binWidth));
+
+function emptyDelta(deviceId, resolution, bucketStart) {
+  return { deviceId, resolution, bucketStart, count: 0, firstTs: null, lastTs: null, metrics: {} };
+}
+
+// Fold one reading into a pending bucket delta
+function addReading(delta, reading) {
+  const ts = new Date(reading.timestamp);
+  delta.count += 1;
+  if (!delta.firstTs || ts < delta.firstTs) delta.firstTs = ts;
+  if (!delta.lastTs || ts > delta.lastTs) delta.lastTs = ts;
+
+  for (const [metric, spec] of Object.entries(ROLLUP_METRICS)) {
+    const value = readField(reading, spec.field);
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    const m = delta.metrics[metric] ?? { n: 0, sum: 0, min: value, max: value, hist: {} };
+    m.n += 1;
+    m.sum += value;
+    m.min = Math.min(m.min, value);
+    m.max = Math.max(m.max, value);
+    const bin = binIndex(value, spec);
+    m.hist[bin] = (m.hist[bin] ?? 0) + 1;
+    delta.metrics[metric] = m;
+  }
+}
+
+function toUpsert(delta) {
+  const $inc = { count: delta.count };
+  const $min = { firstTs: delta.firstTs };
+  const $max = { lastTs: delta.lastTs };
+
+  for (const [metric, m] of Object.entries(delta.metrics)) {
+    $inc[`metrics.${metric}.n`] = m.n;
+    $inc[`metrics.${metric}.sum`] = m.sum;
+    $min[`metrics.${metric}.min`] = m.min;
+    $max[`metrics.${metric}.max`] = m.max;
+    for (const [bin, n] of Object.entries(m.hist)) {
+      $inc[`metrics.${metric}.hist.${bin}`] = n;
+    }
+  }
+
+  return {
+    updateOne: {
+      filter: { deviceId: delta.deviceId, resolution: delta.resolution, bucketStart: delta.bucketStart },
+      update: { $inc, $min, $max },
+      upsert: true,
+    },
+  };
+}
+
+// The running rebuild, if any: its device (undefined = every device) and
+// the live readings held back from it, by _id
+let activeRebuild = null;
+// Rebuilds run one at a time so a held reading has exactly one owner
+let rebuildQueue = Promise.resolve();
+// Live bucket writes not yet acknowledged, awaited before a rebuild deletes
+const inFlight = new Set();
+
+const holdsDevice = (rebuild, deviceId) =>
+  rebuild !== null && (rebuild.deviceId === undefined || rebuild.deviceId === deviceId);
+
+async function writeReading(reading) {
+  const ops = Object.keys(RESOLUTIONS).map((resolution) => {
+    const delta = emptyDelta(reading.deviceId, resolution, bucketStartFor(reading.timestamp, resolution));
+    addReading(delta, reading);
+    return toUpsert(delta);
+  });
+  const write = ReadingRollup.bulkWrite(ops, { ordered: false });
+  inFlight.add(write);
+  try {
+    await write;
+  } finally {
+    inFlight.delete(write);
+  }
+}
+
+/**
+ * Add a freshly stored reading to its minute, hour and day buckets.
+ * Called once per ingest; safe to run without awaiting. During a rebuild of
+ * the reading's device the write is deferred until the rebuild ends.
+ */
+export async function applyReadingToRollups(reading) {
+  if (holdsDevice(activeRebuild, reading.deviceId)) {
+    activeRebuild.held.set(String(reading._id), reading);
+    return;
+  }
+  await writeReading(reading);
+}
+
+/**
+ * Recompute rollups from raw readings. The range is widened to whole UTC
+ * days so no hour or day bucket is left half-built. Live readings for the
+ * device(s) that arrive meanwhile are counted once: by the rebuild if its
+ * cursor sees them, otherwise when they are replayed at the end.
+ *
+ * @param {{ deviceId?: string, from?: Date, to?: Date, onProgress?: (n: number) => void }} opts
+ * @returns {Promise<{ readings: number, buckets: number, from: Date|null, to: Date|null }>}
+ */
+export function rebuildRollups(opts = {}) {
+  const run = rebuildQueue.then(() => rebuildHoldingLiveWrites(opts));
+  rebuildQueue = run.catch(() => {});
+  return run;
+}
+
+async function rebuildHoldingLiveWrites(opts) {
+  const rebuild = { deviceId: opts.deviceId, held: new Map() };
+  activeRebuild = rebuild;
+  try {
+    // A write that started before the hold could land after the delete
+    await Promise.allSettled(Array.from(inFlight));
+    return await rebuildBuckets(opts, rebuild.held);
+  } finally {
+    activeRebuild = null;
+    await Promise.all(Array.from(rebuild.held.values()).map(writeReading));
+  }
+}
+
+async function rebuildBuckets({ deviceId, from, to, onProgress }, held) {
+  const dayFrom = from ? bucketStartFor(from, 'day') : null;
+  const dayTo = to ? new Date(bucketStartFor(to, 'day').getTime() + RESOLUTIONS.day - 1) : null;
+
+  const timeFilter = {};
+  if (dayFrom) timeFilter.$gte = dayFrom;
+  if (dayTo) timeFilter.$lte = dayTo;
+
+  const readingFilter = {};
+  const rollupFilter = {};
+  if (deviceId) {
+    readingFilter.deviceId = deviceId;
+    rollupFilter.deviceId = deviceId;
+  }
+  if (dayFrom || dayTo) {
+    readingFilter.timestamp = timeFilter;
+    rollupFilter.bucketStart = timeFilter;
+  }
+
+  await ReadingRollup.deleteMany(rollupFilter);
+
+  const pending = new Map();
+  let readings = 0;
+  let buckets = 0;
+
+  const flush = async () => {
+    if (!pending.size) return;
+    const ops = Array.from(pending.values()).map(toUpsert);
+    pending.clear();
+    await ReadingRollup.bulkWrite(ops, { ordered: false });
+    buckets += ops.length;
+  };
+
+  const projection = ['deviceId', 'timestamp', ...Object.values(ROLLUP_METRICS).map((m) => m.field)].join(' ');
+  const cursor = Reading.find(readingFilter).select(projection).lean().cursor();
+
+  for await (const reading of cursor) {
+    readings += 1;
+    // Counted here, so it must not be replayed
+    held.delete(String(reading._id));
+    for (const resolution of Object.keys(RESOLUTIONS)) {
+      const bucketStart = bucketStartFor(reading.timestamp, resolution);
+      const key = `${reading.deviceId}|${resolution}|${bucketStart.getTime()}`;
+      if (!pending.has(key)) pending.set(key, emptyDelta(reading.deviceId, resolution, bucketStart));
+      addReading(pending.get(key), reading);
+    }
+    if (pending.size >= REBUILD_FLUSH_SIZE) {
+      await flush();
+      onProgress?.(readings);
+    }
+  }
+  await flush();
+
+  return { readings, buckets, from: dayFrom, to: dayTo };
+}
+
+/**
+ * Approximate percentile from a rollup histogram: the midpoint of the bin
+ * holding the p-th sample, clamped to the observed min/max.
+ */
+export function histogramPercentile(metric, summary, p) {
+  if (!summary?.n || !summary.hist) return null;
+  const spec = ROLLUP_METRICS[metric];
+  const target = Math.ceil(p * summary.n);
+  const bins = Object.keys(summary.hist).map(Number).sort((a, b) => a - b);
+
+  let seen = 0;
+  for (const bin of bins) {
+    seen += summary.hist[bin];
+    if (seen >= target) {
+      const mid = spec.binMin + (bin + 0.5) * spec.binWidth;
+      return Math.min(summary.max, Math.max(summary.min, mid));
+    }
+  }
+  return summary.max;
+}
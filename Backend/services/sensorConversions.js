@@ -0,0 +1,33 @@
+/**
+ * sensorConversions.js
+ *
+ * Server copy of Frontend/src/lib/sensorConversions.ts. Ingest stores these
+ * values on Reading, so the two files must change together;
+ * Frontend/test/conversions.test.ts runs both against the same golden
+ * values. The emissions estimate at the bottom is server-only.
+ */
+
+// ESP32 ADC is 12-bit
+export const ADC_MAX = 4095;
+
+/** CO₂ band for an MG811 reading in ppm. */
+export function co2Status(ppm) {
+  if (ppm < 400) return 'OUTDOOR_FRESH';
+  if (ppm < 1000) return 'GOOD';
+  if (ppm < 2000) return 'STUFFY';
+  if (ppm < 5000) return 'POOR';
+  return 'DANGEROUS';
+}
+
+export function co2HealthAdvice(ppm) {
+  if (ppm < 400) return 'Outdoor fresh air quality';
+  if (ppm < 1000) return 'Good indoor air quality';
+  if (ppm < 2000) return 'Acceptable but may cause drowsiness';
+  if (ppm < 5000) return 'Poor air quality - increase ventilation';
+  return 'Dangerous levels - evacuate immediately';
+}
+
+export function estimateEmissionsKgFromCO2ppm(ppm) {
+  if (!ppm) return 0;
+  return Number((ppm / 1_000_000_000).toFixed(8));
+}
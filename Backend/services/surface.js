@@ -0,0 +1,78 @@
+/**
+ * surface.js
+ *
+ * Hourly snapshots of every node for the map's interpolated surface: per
+ * device and UTC hour, the mean AQI, CO₂ and MQ135 raw value and the mean
+ * position of the GPS fixes taken in that hour.
+ *
+ * Positions come from the readings rather than the registry so a mobile node
+ * is placed where it actually was; a device with no fix in an hour is left
+ * out of that snapshot. Interpolation itself runs in the browser, over
+ * whatever part of the map is visible.
+ */
+
+import { Reading } from '../models/Reading.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round1 = (v) => (v == null ? null : Math.round(v * 10) / 10);
+
+/**
+ * Snapshots for every UTC hour overlapping [from, to), oldest first; the
+ * last one is partial when `to` is now. Hours where no node reported with a
+ * fix are returned with an empty node list.
+ */
+export async function hourlySnapshots({ from, to }) {
+  const start = Math.floor(from.getTime() / HOUR_MS) * HOUR_MS;
+  const deviceIds = await Reading.distinct('deviceId');
+  const epochMs = { $toLong: '$timestamp' };
+  const rows = await Reading.aggregate([
+    {
+      $match: {
+        // $in on the leading key keeps this on the deviceId/timestamp index
+        deviceId: { $in: deviceIds },
+        timestamp: { $gte: new Date(start), $lt: to },
+        'location.lat': { $ne: null },
+        'location.lng': { $ne: null },
+        // (0, 0) is the firmware's "no fix"
+        $nor: [{ 'location.lat': 0, 'location.lng': 0 }],
+      },
+    },
+    {
+      $group: {
+        _id: {
+          deviceId: '$deviceId',
+          hour: { $subtract: [epochMs, { $mod: [epochMs, HOUR_MS] }] },
+        },
+        lat: { $avg: '$location.lat' },
+        lng: { $avg: '$location.lng' },
+        aqi: { $avg: '$air.aqi' },
+        co2: { $avg: '$air.co2ppm' },
+        mq135Raw: { $avg: '$air.mq135Raw' },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const byHour = new Map();
+  for (const row of rows) {
+    const key = Number(row._id.hour);
+    if (!byHour.has(key)) byHour.set(key, []);
+    byHour.get(key).push({
+      deviceId: row._id.deviceId,
+      lat: row.lat,
+      lng: row.lng,
+      aqi: round1(row.aqi),
+      co2: round1(row.co2),
+      mq135Raw: round1(row.mq135Raw),
+      count: row.count,
+    });
+  }
+
+  const snapshots = [];
+  for (let t = start; t < to.getTime(); t += HOUR_MS) {
+    const nodes = (byHour.get(t) ?? []).sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+    snapshots.push({ hour: new Date(t).toISOString(), nodes });
+  }
+  return snapshots;
+}
@@ -0,0 +1,280 @@
+/**
+ * track.js
+ *
+ * The path a mobile node took over a time window, from the stored
+ * readings' GPS fixes:
+ *   - readings further apart in time than MAX_GAP_MS start a new segment,
+ *     so the map never draws a straight line across an outage
+ *   - long ranges are simplified with Ramer–Douglas–Peucker plus evenly
+ *     spaced samples so the track fits in `maxPoints`. Each kept point
+ *     carries the mean CO₂ / AQI of the raw points it stands for, so
+ *     colouring still reflects what was measured along the dropped stretch
+ *   - dwells are stretches where the node stayed within DWELL_RADIUS_M for
+ *     at least DWELL_MIN_MS
+ *
+ * Speed is the firmware's reported speed (km/h) when present, otherwise
+ * derived from consecutive fixes. Positions include location corrections,
+ * so a reading without a fix of its own can still place the node when a
+ * correction covers it.
+ */
+
+import { Reading } from '../models/Reading.js';
+import { correctReading, findCorrections } from './locationCorrections.js';
+
+export const DEFAULT_TRACK_POINTS = 1000;
+export const MAX_TRACK_POINTS = 5000;
+// Never scan more raw readings than this for one request
+export const MAX_TRACK_READINGS = 50000;
+
+const MAX_GAP_MS = 5 * 60 * 1000;
+const DWELL_RADIUS_M = 30;
+const DWELL_MIN_MS = 5 * 60 * 1000;
+// Below this a node counts as stationary when totalling moving time
+const MOVING_KMH = 1;
+const EARTH_RADIUS_M = 6371000;
+
+const round1 = (v) => (v == null ? null : Math.round(v * 10) / 10);
+const toRad = (deg) => (deg * Math.PI) / 180;
+
+export const hasFix = (lat, lng) =>
+  Number.isFinite(lat) && Number.isFinite(lng) &&
+  Math.abs(lat) <= 90 && Math.abs(lng) <= 180 &&
+  !(lat === 0 && lng === 0);
+
+/** Great-circle distance in metres. */
+export function haversineM(a, b) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+// Local equirectangular metres around `origin`; fine at track scale
+function projector(origin) {
+  const kx = EARTH_RADIUS_M * Math.cos(toRad(origin.lat));
+  return (p) => ({ x: toRad(p.lng - origin.lng) * kx, y: toRad(p.lat - origin.lat) * EARTH_RADIUS_M });
+}
+
+function perpendicularM(p, a, b) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  if (!len2) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Indices kept by Ramer–Douglas–Peucker at `toleranceM`. Iterative so a
+ * week-long track cannot overflow the stack.
+ */
+export function simplifyIndices(xy, toleranceM) {
+  if (xy.length <= 2) return xy.map((_, i) => i);
+  const keep = new Uint8Array(xy.length);
+  keep[0] = 1;
+  keep[xy.length - 1] = 1;
+  const stack = [[0, xy.length - 1]];
+  while (stack.length) {
+    const [start, end] = stack.pop();
+    let maxDist = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i += 1) {
+      const d = perpendicularM(xy[i], xy[start], xy[end]);
+      if (d > maxDist) { maxDist = d; index = i; }
+    }
+    if (index !== -1 && maxDist > toleranceM) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+  const kept = [];
+  keep.forEach((k, i) => { if (k) kept.push(i); });
+  return kept;
+}
+
+// Split raw fixes into time-contiguous segments
+function splitSegments(points) {
+  const segments = [];
+  let current = [];
+  for (const p of points) {
+    const prev = current[current.length - 1];
+    if (prev && p.ts - prev.ts > MAX_GAP_MS) {
+      segments.push(current);
+      current = [];
+    }
+    current.push(p);
+  }
+  if (current.length) segments.push(current);
+  return segments;
+}
+
+function withSpeeds(segment) {
+  return segment.map((p, i) => {
+    if (p.speed != null) return p;
+    const prev = segment[i - 1];
+    if (!prev || p.ts === prev.ts) return { ...p, speed: 0 };
+    return { ...p, speed: (haversineM(prev, p) / ((p.ts - prev.ts) / 1000)) * 3.6 };
+  });
+}
+
+function findDwells(segment) {
+  const dwells = [];
+  let start = 0;
+  while (start < segment.length) {
+    let end = start;
+    while (end + 1 < segment.length && haversineM(segment[start], segment[end + 1]) <= DWELL_RADIUS_M) end += 1;
+    const span = segment[end].ts - segment[start].ts;
+    if (span >= DWELL_MIN_MS) {
+      const members = segment.slice(start, end + 1);
+      dwells.push({
+        lat: members.reduce((s, p) => s + p.lat, 0) / members.length,
+        lng: members.reduce((s, p) => s + p.lng, 0) / members.length,
+        from: new Date(segment[start].ts).toISOString(),
+        to: new Date(segment[end].ts).toISOString(),
+        minutes: Math.round(span / 60000),
+      });
+      start = end + 1;
+    } else {
+      start += 1;
+    }
+  }
+  return dwells;
+}
+
+const mean = (values) => {
+  const present = values.filter((v) => v != null);
+  return present.length ? present.reduce((a, b) => a + b, 0) / present.length : null;
+};
+
+/**
+ * Simplify every segment with one shared tolerance, doubling it until the
+ * shape takes at most half of `maxPoints`. The rest of the budget goes to
+ * evenly spaced samples, so straight stretches still change colour where
+ * the air did. The result never exceeds `maxPoints`.
+ */
+function simplifySegments(segments, maxPoints) {
+  const total = segments.reduce((n, s) => n + s.length, 0);
+  let toleranceM = 0;
+  let kept = segments.map((s) => s.map((_, i) => i));
+  if (total > maxPoints) {
+    const projected = segments.map((s) => s.map(projector(s[0])));
+    const shapeBudget = Math.max(2 * segments.length, Math.floor(maxPoints / 2));
+    toleranceM = 1;
+    for (;;) {
+      kept = projected.map((xy) => simplifyIndices(xy, toleranceM));
+      if (kept.reduce((n, k) => n + k.length, 0) <= shapeBudget) break;
+      toleranceM *= 2;
+    }
+    const shapeCount = kept.reduce((n, k) => n + k.length, 0);
+    const stride = Math.ceil(total / Math.max(1, maxPoints - shapeCount));
+    kept = kept.map((indices, s) => {
+      const all = new Set(indices);
+      for (let i = 0; i < segments[s].length; i += stride) all.add(i);
+      return Array.from(all).sort((a, b) => a - b);
+    });
+  }
+
+  // Many short segments can still overshoot (each keeps its end points):
+  // thin the whole track evenly down to the budget
+  const keptCount = kept.reduce((n, k) => n + k.length, 0);
+  if (keptCount > maxPoints) {
+    const flat = kept.flatMap((indices, s) => indices.map((i) => [s, i]));
+    const step = flat.length / maxPoints;
+    const thinned = kept.map(() => []);
+    for (let k = 0; k < maxPoints; k += 1) {
+      const [s, i] = flat[Math.floor(k * step)];
+      thinned[s].push(i);
+    }
+    kept = thinned;
+  }
+
+  const out = [];
+  segments.forEach((segment, s) => {
+    const indices = kept[s];
+    indices.forEach((index, k) => {
+      // A kept point stands for the raw points up to the next kept one
+      const span = segment.slice(index, k + 1 < indices.length ? indices[k + 1] : segment.length);
+      const p = segment[index];
+      out.push({
+        ts: new Date(p.ts).toISOString(),
+        lat: p.lat,
+        lng: p.lng,
+        speed: round1(p.speed),
+        co2: round1(mean(span.map((q) => q.co2))),
+        aqi: round1(mean(span.map((q) => q.aqi))),
+        segment: s,
+      });
+    });
+  });
+  return { points: out, toleranceM };
+}
+
+/**
+ * Track of `deviceId` between `from` and `to`.
+ * @returns {Promise<object>} points (simplified), dwells and summary stats
+ */
+export async function buildTrack({ deviceId, from, to, maxPoints = DEFAULT_TRACK_POINTS }) {
+  // Readings with a stored position, plus any a correction places
+  const corrections = await findCorrections({ deviceIds: [deviceId], from, to });
+  const docs = await Reading.find({
+    deviceId,
+    timestamp: { $gte: from, $lte: to },
+    $or: [
+      { 'location.lat': { $ne: null }, 'location.lng': { $ne: null } },
+      ...corrections.map((c) => ({ timestamp: { $gte: c.validFrom, $lte: c.validTo } })),
+    ],
+  })
+    .select('deviceId timestamp location air.co2ppm air.aqi')
+    .sort({ timestamp: 1 })
+    .limit(MAX_TRACK_READINGS)
+    .lean();
+
+  const fixes = docs
+    .map((d) => correctReading(d, corrections))
+    .filter((d) => hasFix(d.location?.lat, d.location?.lng))
+    .map((d) => ({
+      ts: new Date(d.timestamp).getTime(),
+      lat: d.location.lat,
+      lng: d.location.lng,
+      speed: Number.isFinite(d.location.speed) ? d.location.speed : null,
+      co2: d.air?.co2ppm ?? null,
+      aqi: d.air?.aqi ?? null,
+    }));
+
+  const segments = splitSegments(fixes).map(withSpeeds);
+  const { points, toleranceM } = simplifySegments(segments, maxPoints);
+
+  let distanceM = 0;
+  let movingMs = 0;
+  let maxSpeed = null;
+  for (const segment of segments) {
+    for (let i = 1; i < segment.length; i += 1) {
+      distanceM += haversineM(segment[i - 1], segment[i]);
+      if (segment[i].speed >= MOVING_KMH) movingMs += segment[i].ts - segment[i - 1].ts;
+    }
+    for (const p of segment) {
+      if (maxSpeed === null || p.speed > maxSpeed.speed) maxSpeed = p;
+    }
+  }
+
+  return {
+    deviceId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    rawPoints: fixes.length,
+    truncated: docs.length === MAX_TRACK_READINGS,
+    toleranceM,
+    segments: segments.length,
+    points,
+    dwells: segments.flatMap(findDwells),
+    stats: {
+      distanceKm: Math.round(distanceM / 100) / 10,
+      movingMinutes: Math.round(movingMs / 60000),
+      avgMovingKmh: movingMs ? round1((distanceM / 1000) / (movingMs / 3600000)) : null,
+      maxSpeed: maxSpeed
+        ? { kmh: round1(maxSpeed.speed), at: new Date(maxSpeed.ts).toISOString(), lat: maxSpeed.lat, lng: maxSpeed.lng }
+        : null,
+    },
+  };
+}
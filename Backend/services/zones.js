@@ -0,0 +1,166 @@
+/**
+ * zones.js
+ *
+ * Geofenced zones: polygon validation, point-in-zone lookup for ingest and
+ * per-zone summaries.
+ *
+ * Zones are few and change rarely, so they are cached in memory and the
+ * cache is dropped whenever one is created, edited or deleted. A reading
+ * inside several zones gets the smallest one (the kiln floor, not the
+ * campus around it).
+ *
+ * Time in exceedance adds up, per device, the intervals that start at a
+ * reading above the zone's AQI limit. An interval is capped at
+ * MAX_SAMPLE_GAP_MS so an outage is not counted as exceedance.
+ */
+
+import { Zone } from '../models/Zone.js';
+import { Reading } from '../models/Reading.js';
+
+const NAME_MAX = 80;
+const MAX_VERTICES = 200;
+const COLOR_RE = /^#[0-9a-f]{6}$/i;
+const MAX_SAMPLE_GAP_MS = 60 * 1000;
+
+let cache = null;
+
+async function loadZones() {
+  if (!cache) {
+    const zones = await Zone.find().lean();
+    cache = zones.map((z) => ({ ...z, area: polygonArea(z.polygon) }));
+  }
+  return cache;
+}
+
+export function invalidateZones() {
+  cache = null;
+}
+
+// Shoelace area in square degrees; only used to rank overlapping zones
+function polygonArea(polygon) {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i += 1) {
+    const [lat1, lng1] = polygon[i];
+    const [lat2, lng2] = polygon[(i + 1) % polygon.length];
+    sum += lng1 * lat2 - lng2 * lat1;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/** Ray casting; points exactly on an edge may fall either side. */
+export function pointInPolygon(lat, lng, polygon) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** _id of the smallest zone containing the point, or null. */
+export async function zoneIdFor(lat, lng) {
+  const zones = await loadZones();
+  let best = null;
+  for (const zone of zones) {
+    if (pointInPolygon(lat, lng, zone.polygon) && (!best || zone.area < best.area)) best = zone;
+  }
+  return best?._id ?? null;
+}
+
+/**
+ * Check a zone body from the map editor.
+ * @returns {{ value?: object, error?: string }}
+ */
+export function validateZone(body = {}) {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > NAME_MAX) return { error: `name is required (at most ${NAME_MAX} characters)` };
+
+  const { polygon } = body;
+  if (!Array.isArray(polygon) || polygon.length < 3 || polygon.length > MAX_VERTICES) {
+    return { error: `polygon must have between 3 and ${MAX_VERTICES} vertices` };
+  }
+  const vertices = [];
+  for (const vertex of polygon) {
+    const [lat, lng] = Array.isArray(vertex) ? vertex.map(Number) : [];
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return { error: 'polygon vertices must be [lat, lng] pairs' };
+    }
+    vertices.push([lat, lng]);
+  }
+  if (polygonArea(vertices) === 0) return { error: 'polygon has no area' };
+
+  const value = { name, polygon: vertices };
+  if (body.color !== undefined) {
+    if (!COLOR_RE.test(body.color)) return { error: 'color must be a #rrggbb hex colour' };
+    value.color = body.color;
+  }
+  if (body.aqiLimit !== undefined) {
+    const aqiLimit = Number(body.aqiLimit);
+    if (!Number.isFinite(aqiLimit) || aqiLimit <= 0 || aqiLimit > 500) return { error: 'aqiLimit must be between 1 and 500' };
+    value.aqiLimit = aqiLimit;
+  }
+  return { value };
+}
+
+/**
+ * Per-zone summary of the readings tagged between `from` and `to`: counts,
+ * mean / max AQI, devices seen and minutes above the zone's AQI limit.
+ */
+export async function zoneStats({ from, to }) {
+  const zones = await loadZones();
+  const byId = new Map(zones.map((z) => [z._id.toString(), {
+    zoneId: z._id.toString(),
+    aqiLimit: z.aqiLimit,
+    readings: 0,
+    aqiSum: 0,
+    aqiCount: 0,
+    maxAqi: null,
+    exceedanceMs: 0,
+    devices: new Set(),
+    lastReadingAt: null,
+  }]));
+
+  const cursor = Reading.find({
+    zoneId: { $in: zones.map((z) => z._id) },
+    timestamp: { $gte: from, $lte: to },
+  })
+    .select('zoneId deviceId timestamp air.aqi')
+    .sort({ zoneId: 1, deviceId: 1, timestamp: 1 })
+    .lean()
+    .cursor();
+
+  let prev = null;
+  for await (const r of cursor) {
+    const stats = byId.get(r.zoneId.toString());
+    const aqi = r.air?.aqi ?? null;
+    const ts = new Date(r.timestamp).getTime();
+    stats.readings += 1;
+    stats.devices.add(r.deviceId);
+    if (aqi != null) {
+      stats.aqiSum += aqi;
+      stats.aqiCount += 1;
+      if (stats.maxAqi === null || aqi > stats.maxAqi) stats.maxAqi = aqi;
+    }
+    if (!stats.lastReadingAt || ts > stats.lastReadingAt) stats.lastReadingAt = ts;
+
+    const sameRun = prev && prev.zoneId === r.zoneId.toString() && prev.deviceId === r.deviceId;
+    if (sameRun && prev.aqi != null && prev.aqi > stats.aqiLimit) {
+      stats.exceedanceMs += Math.min(ts - prev.ts, MAX_SAMPLE_GAP_MS);
+    }
+    prev = { zoneId: r.zoneId.toString(), deviceId: r.deviceId, aqi, ts };
+  }
+
+  return Array.from(byId.values()).map((s) => ({
+    zoneId: s.zoneId,
+    aqiLimit: s.aqiLimit,
+    readings: s.readings,
+    devices: Array.from(s.devices).sort(),
+    meanAqi: s.aqiCount ? Math.round(s.aqiSum / s.aqiCount) : null,
+    maxAqi: s.maxAqi,
+    exceedanceMinutes: Math.round(s.exceedanceMs / 60000),
+    lastReadingAt: s.lastReadingAt ? new Date(s.lastReadingAt).toISOString() : null,
+  }));
+}
@@ -0,0 +1,215 @@
+// The alert state machine: duration, cooldown, hysteresis, peaks and the
+// restore of firing alerts after a restart. Runs without a database: the
+// enabled rules come from a stubbed AlertRule.find.
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+
+const { AlertRule } = await import('../models/AlertRule.js');
+const {
+  evaluateAlertRules,
+  getActiveAlerts,
+  invalidateRules,
+  restoreFiringAlerts,
+} = await import('../services/alertEngine.js');
+
+let rules = [];
+const originalFind = AlertRule.find;
+
+beforeEach(() => {
+  rules = [];
+  AlertRule.find = () => ({ lean: async () => rules });
+  invalidateRules();
+});
+
+after(() => {
+  AlertRule.find = originalFind;
+  invalidateRules();
+});
+
+// Every test gets its own rule id, so the engine's per-rule state never leaks
+const addRule = (overrides = {}) => {
+  const rule = {
+    _id: new mongoose.Types.ObjectId(),
+    name: 'High CO₂',
+    deviceId: null,
+    metric: 'co2ppm',
+    operator: 'gt',
+    threshold: 1000,
+    durationSec: 0,
+    hysteresis: 0,
+    cooldownSec: 0,
+    severity: 'warning',
+    enabled: true,
+    ...overrides,
+  };
+  rules.push(rule);
+  return rule;
+};
+
+const t0 = Date.parse('2026-06-01T08:00:00Z');
+let readingSeq = 0;
+const at = (sec, co2ppm, deviceId = 'node-1') =>
+  evaluateAlertRules({
+    deviceId,
+    readingId: `r${(readingSeq += 1)}`,
+    timestamp: new Date(t0 + sec * 1000),
+    metrics: { co2ppm },
+  });
+
+const types = (events) => events.map((e) => e.type);
+
+describe('evaluateAlertRules', () => {
+  it('fires once the breach has held for durationSec', async () => {
+    addRule({ durationSec: 60 });
+
+    assert.deepEqual(await at(0, 1200), []);
+    assert.deepEqual(await at(30, 1300), []);
+    const events = await at(60, 1250);
+
+    assert.deepEqual(types(events), ['triggered']);
+    const [{ payload }] = events;
+    assert.equal(payload.value, 1250);
+    assert.equal(payload.breachStartedAt, new Date(t0).toISOString());
+    assert.equal(payload.triggeredAt, new Date(t0 + 60e3).toISOString());
+  });
+
+  it('drops back to idle when the breach ends before durationSec', async () => {
+    addRule({ durationSec: 60 });
+
+    await at(0, 1200);
+    assert.deepEqual(await at(30, 900), []);
+    // The clock restarts with the next breach
+    assert.deepEqual(await at(40, 1200), []);
+    assert.deepEqual(await at(90, 1200), []);
+    assert.deepEqual(types(await at(100, 1200)), ['triggered']);
+  });
+
+  it('fires a breach that outlasted durationSec inside the cooldown once the cooldown ends', async () => {
+    addRule({ durationSec: 60, cooldownSec: 600 });
+
+    await at(0, 1200);
+    assert.deepEqual(types(await at(60, 1200)), ['triggered']);
+    assert.deepEqual(types(await at(70, 900)), ['resolved']);
+
+    // Breaches again at 100 s and holds well past durationSec
+    assert.deepEqual(await at(100, 1200), []);
+    assert.deepEqual(await at(200, 1200), []);
+    assert.deepEqual(await at(659, 1200), []);
+    const events = await at(660, 1200);
+
+    assert.deepEqual(types(events), ['triggered']);
+    assert.equal(events[0].payload.breachStartedAt, new Date(t0 + 100e3).toISOString());
+    assert.deepEqual(await at(670, 1200), []);
+  });
+
+  it('clears only once the value is past the hysteresis band', async () => {
+    addRule({ hysteresis: 50 });
+
+    const [triggered] = await at(0, 1100);
+    assert.equal(triggered.type, 'triggered');
+    // Below the threshold but inside the band: still firing
+    assert.deepEqual(await at(10, 990), []);
+    assert.deepEqual(await at(20, 950), []);
+    const events = await at(30, 949);
+
+    assert.deepEqual(types(events), ['resolved']);
+    assert.equal(events[0].payload.alertId, triggered.payload.alertId);
+    assert.equal(events[0].payload.reason, 'cleared');
+    assert.equal(events[0].payload.peakValue, 1100);
+  });
+
+  it('mirrors the hysteresis band for lower limits', async () => {
+    addRule({ metric: 'co2ppm', operator: 'lt', threshold: 400, hysteresis: 20 });
+
+    assert.deepEqual(types(await at(0, 380)), ['triggered']);
+    assert.deepEqual(await at(10, 415), []);
+    assert.deepEqual(types(await at(20, 421)), ['resolved']);
+  });
+
+  it('reports each new worst value as a peak', async () => {
+    addRule();
+
+    const [{ payload: alert }] = await at(0, 1100);
+    assert.deepEqual(types(await at(10, 1300)), ['peak']);
+    assert.deepEqual(await at(20, 1200), []);
+    const [resolved] = await at(30, 800);
+
+    assert.equal(resolved.payload.alertId, alert.alertId);
+    assert.equal(resolved.payload.peakValue, 1300);
+    assert.equal(resolved.payload.peakAt, new Date(t0 + 10e3).toISOString());
+  });
+
+  it('keeps per-device state for a fleet-wide rule', async () => {
+    addRule();
+
+    assert.deepEqual(types(await at(0, 1200, 'node-1')), ['triggered']);
+    assert.deepEqual(await at(0, 900, 'node-2'), []);
+    assert.deepEqual(types(await at(10, 1200, 'node-2')), ['triggered']);
+  });
+});
+
+describe('restoreFiringAlerts', () => {
+  const incident = (rule, overrides = {}) => ({
+    alertId: crypto.randomUUID(),
+    ruleId: rule._id,
+    ruleName: rule.name,
+    deviceId: 'node-1',
+    metric: rule.metric,
+    operator: rule.operator,
+    threshold: rule.threshold,
+    severity: rule.severity,
+    startedAt: new Date(t0 - 120e3),
+    triggeredAt: new Date(t0 - 60e3),
+    peakValue: 1400,
+    peakAt: new Date(t0 - 30e3),
+    ...overrides,
+  });
+
+  it('supersedes older duplicate open incidents and keeps the newest firing', async () => {
+    const rule = addRule();
+    const older = incident(rule, { triggeredAt: new Date(t0 - 3600e3) });
+    const newest = incident(rule);
+
+    const events = await restoreFiringAlerts([older, newest]);
+
+    assert.deepEqual(events.map((e) => [e.type, e.payload.alertId, e.payload.reason]), [
+      ['resolved', older.alertId, 'superseded'],
+    ]);
+    const active = getActiveAlerts('node-1').filter((a) => a.ruleId === rule._id.toString());
+    assert.deepEqual(active.map((a) => a.alertId), [newest.alertId]);
+
+    // The restored alert resolves into the same incident instead of firing again
+    assert.deepEqual(await at(0, 1200), []);
+    const [resolved] = await at(10, 900);
+    assert.equal(resolved.type, 'resolved');
+    assert.equal(resolved.payload.alertId, newest.alertId);
+    assert.equal(resolved.payload.peakValue, 1400);
+  });
+
+  it('resolves open incidents whose rule is gone', async () => {
+    const removed = { _id: new mongoose.Types.ObjectId(), name: 'Removed', metric: 'co2ppm', operator: 'gt', threshold: 1000, severity: 'info' };
+    const open = incident(removed);
+
+    const events = await restoreFiringAlerts(Promise.resolve([open]));
+
+    assert.deepEqual(events.map((e) => [e.type, e.payload.alertId, e.payload.reason]), [
+      ['resolved', open.alertId, 'rule-changed'],
+    ]);
+  });
+
+  it('holds evaluation until the restore has finished', async () => {
+    const rule = addRule();
+    let release;
+    const uncleared = new Promise((resolve) => { release = resolve; });
+    const open = incident(rule);
+
+    const restored = restoreFiringAlerts(uncleared);
+    const evaluated = at(0, 1200);
+    release([open]);
+    await restored;
+
+    // Had evaluation run first it would have opened a second alert
+    assert.deepEqual(await evaluated, []);
+  });
+});
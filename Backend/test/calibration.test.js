@@ -0,0 +1,149 @@
+// Reprocessing re-seals readings with a new hash, and that hash has to go
+// back on chain. Runs without a database: the Reading model's query methods
+// are stubbed over an in-memory array.
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+
+const { Reading } = await import('../models/Reading.js');
+const { reanchorReadings, reprocessReadings } = await import('../services/calibration.js');
+const { CURRENT_HASH_VERSION, computeReadingHash, verifyReadingHash } = await import('../services/readingHash.js');
+const { anchorRecordId } = await import('../services/anchorService.js');
+
+const from = new Date('2026-03-01T00:00:00Z');
+const to = new Date('2026-03-01T01:00:00Z');
+
+const storedReading = (overrides = {}) => {
+  const doc = {
+    _id: new mongoose.Types.ObjectId(),
+    deviceId: 'node-1',
+    sessionId: 's-1',
+    timestamp: new Date('2026-03-01T00:30:00Z'),
+    location: { lat: 12.97, lng: 77.59, speed: 0 },
+    environment: { temperature: 25, humidity: 50 },
+    air: { aqi: 40, aqiStandard: 'IN_NAQI', co2ppm: 600, mq135Raw: 520, mq135Volt: 0.42 },
+    aiFeatures: { vocAvg: 520, vocStd: 0, co2Avg: 600, co2Std: 0, Hour: 0 },
+    emissions: { estimatedCO2eqKg: 0.1, method: 'model' },
+    raw: { temperature: 25, humidity: 50, co2ppm: 600, mg811Raw: null },
+    calibrationVersion: 1,
+    hashVersion: CURRENT_HASH_VERSION,
+    anchorStatus: 'ANCHORED',
+    txHash: '0xoriginal',
+    ...overrides,
+  };
+  doc.dataHash = computeReadingHash(doc);
+  return doc;
+};
+
+let stored = [];
+const originals = { find: Reading.find, bulkWrite: Reading.bulkWrite, findOneAndUpdate: Reading.findOneAndUpdate };
+
+const inRange = (doc, range) =>
+  (!range.$gte || doc.timestamp >= range.$gte) && (!range.$lte || doc.timestamp <= range.$lte) && (!range.$lt || doc.timestamp < range.$lt);
+
+beforeEach(() => {
+  stored = [];
+  Reading.find = (filter) => {
+    const rows = stored.filter((d) => d.deviceId === filter.deviceId && inRange(d, filter.timestamp));
+    const q = {
+      sort: () => q,
+      limit: () => q,
+      select: () => q,
+      lean: () => q,
+      cursor: () => rows.map((d) => ({ ...d })),
+      then: (resolve, reject) => Promise.resolve(rows).then(resolve, reject),
+    };
+    return q;
+  };
+  Reading.bulkWrite = async (ops) => {
+    for (const { updateOne: { filter, update } } of ops) {
+      const doc = stored.find((d) => d._id.equals(filter._id));
+      Object.assign(doc, update.$set);
+      doc.recalibrations = [...(doc.recalibrations ?? []), update.$push.recalibrations];
+    }
+  };
+  Reading.findOneAndUpdate = (filter, update) => ({
+    lean: async () => {
+      const doc = stored.find((d) => d._id.equals(filter._id) && d.dataHash === filter.dataHash);
+      if (!doc) return null;
+      Object.assign(doc, update.$set);
+      return { ...doc };
+    },
+  });
+});
+
+after(() => {
+  Object.assign(Reading, originals);
+});
+
+const reprocess = () =>
+  reprocessReadings({ deviceId: 'node-1', from, to, profile: { version: 2, offsets: { temperature: -1.5 } }, aqiStandard: 'IN_NAQI' });
+
+describe('reprocessReadings', () => {
+  it('re-seals an anchored reading and sends it back to pending', async () => {
+    const doc = storedReading();
+    stored.push(doc);
+    const originalHash = doc.dataHash;
+
+    const result = await reprocess();
+
+    assert.equal(result.updated, 1);
+    assert.equal(result.unanchored, 1);
+    assert.equal(doc.anchorStatus, 'PENDING');
+    assert.equal(doc.txHash, null);
+    assert.notEqual(doc.dataHash, originalHash);
+    assert.equal(verifyReadingHash(doc).verdict, 'INTACT');
+    assert.deepEqual(result.reanchor, [{ id: doc._id, dataHash: doc.dataHash, revision: 1 }]);
+
+    const [entry] = doc.recalibrations;
+    assert.equal(entry.previousHash, originalHash);
+    assert.equal(entry.previousTxHash, '0xoriginal');
+  });
+
+  it('gives a reprocessed reading a new anchor under its revision', async () => {
+    const doc = storedReading();
+    stored.push(doc);
+    const { reanchor } = await reprocess();
+
+    const calls = [];
+    const events = [];
+    const anchor = async (mongoId, dataHash, revision) => {
+      calls.push({ recordId: anchorRecordId(mongoId, revision), dataHash });
+      return { txHash: '0xreanchored' };
+    };
+    const anchored = await reanchorReadings(reanchor, anchor, (reading, txHash) => events.push({ id: reading._id, txHash }));
+
+    assert.equal(anchored, 1);
+    assert.deepEqual(calls, [{ recordId: `${doc._id}:r1`, dataHash: doc.dataHash }]);
+    assert.equal(doc.anchorStatus, 'ANCHORED');
+    assert.equal(doc.txHash, '0xreanchored');
+    assert.deepEqual(events, [{ id: doc._id, txHash: '0xreanchored' }]);
+    // The ingest anchor is still on record
+    assert.equal(doc.recalibrations[0].previousTxHash, '0xoriginal');
+  });
+
+  it('does not mark a reading anchored once a later reprocess changed its hash', async () => {
+    const doc = storedReading();
+    stored.push(doc);
+    const { reanchor: first } = await reprocess();
+    await reprocessReadings({ deviceId: 'node-1', from, to, profile: { version: 3 }, aqiStandard: 'IN_NAQI' });
+
+    const anchored = await reanchorReadings(first, async () => ({ txHash: '0xstale' }));
+
+    assert.equal(anchored, 0);
+    assert.equal(doc.anchorStatus, 'PENDING');
+    assert.equal(doc.txHash, null);
+  });
+
+  it('skips a tampered reading', async () => {
+    const doc = storedReading();
+    doc.air.co2ppm = 450;
+    stored.push(doc);
+
+    const result = await reprocess();
+
+    assert.equal(result.skippedTampered, 1);
+    assert.deepEqual(result.reanchor, []);
+    assert.equal(doc.anchorStatus, 'ANCHORED');
+  });
+});
@@ -0,0 +1,155 @@
+// Location corrections are append-only and hash-chained per device. Runs
+// without a database: the model's driver collection is stubbed, so the
+// mongoose middleware and the service logic are what is under test.
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+
+process.env.LOCATION_CORRECTION_SECRET = 'test-secret';
+
+const { LocationCorrection } = await import('../models/LocationCorrection.js');
+const {
+  correctReading,
+  correctionLog,
+  recordCorrection,
+  signCorrection,
+  validateCorrection,
+  verifyCorrection,
+} = await import('../services/locationCorrections.js');
+
+const user = { id: new mongoose.Types.ObjectId(), name: 'Operator' };
+const fix = (overrides = {}) => {
+  const { value, error } = validateCorrection({
+    deviceId: 'node-1',
+    lat: 12.9716,
+    lng: 77.5946,
+    validFrom: '2026-01-01T00:00:00Z',
+    validTo: '2026-01-02T00:00:00Z',
+    ...overrides,
+  });
+  assert.equal(error, undefined);
+  return value;
+};
+
+// In-memory stand-in for the MongoDB collection behind the model, enforcing
+// the unique { deviceId, prevSignature } index
+let stored = [];
+const collection = LocationCorrection.collection;
+const originals = { insertOne: collection.insertOne, find: LocationCorrection.find, findOne: LocationCorrection.findOne };
+
+const query = (rows) => ({
+  sort(spec) {
+    const [[field, dir]] = Object.entries(spec);
+    rows = [...rows].sort((a, b) => (a[field] - b[field]) * dir);
+    return this;
+  },
+  lean() {
+    return this;
+  },
+  then(resolve, reject) {
+    return Promise.resolve(rows).then(resolve, reject);
+  },
+});
+
+beforeEach(() => {
+  stored = [];
+  collection.insertOne = async (doc) => {
+    if (stored.some((s) => s.deviceId === doc.deviceId && s.prevSignature === doc.prevSignature)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    stored.push({ ...doc });
+    return { acknowledged: true, insertedId: doc._id };
+  };
+  LocationCorrection.find = (filter) => query(stored.filter((s) => s.deviceId === filter.deviceId));
+  LocationCorrection.findOne = (filter) => {
+    const q = query(stored.filter((s) => s.deviceId === filter.deviceId));
+    return { sort: (spec) => ({ lean: () => q.sort(spec).then((rows) => rows[0] ?? null) }) };
+  };
+});
+
+after(() => {
+  Object.assign(collection, { insertOne: originals.insertOne });
+  Object.assign(LocationCorrection, { find: originals.find, findOne: originals.findOne });
+});
+
+describe('LocationCorrection model', () => {
+  it('saves a new correction and refuses to change it afterwards', async () => {
+    const { correction } = await recordCorrection(fix(), user);
+    assert.equal(stored.length, 1);
+
+    const doc = LocationCorrection.hydrate(correction);
+    doc.lat = 0;
+    await assert.rejects(doc.save(), /append-only/);
+    await assert.rejects(doc.deleteOne(), /append-only/);
+    await assert.rejects(
+      LocationCorrection.updateOne({ _id: correction._id }, { $set: { lat: 0 } }),
+      /append-only/,
+    );
+    await assert.rejects(
+      LocationCorrection.findOneAndUpdate({ _id: correction._id }, { $set: { lng: 0 } }),
+      /append-only/,
+    );
+    await assert.rejects(LocationCorrection.deleteMany({ deviceId: 'node-1' }), /append-only/);
+  });
+});
+
+describe('recordCorrection', () => {
+  it('signs each record and chains it to the previous one', async () => {
+    const first = (await recordCorrection(fix(), user)).correction;
+    const second = (await recordCorrection(fix({ lat: 13.0827, lng: 80.2707 }), user)).correction;
+
+    assert.equal(first.prevSignature, null);
+    assert.equal(second.prevSignature, first.signature);
+    assert.ok(verifyCorrection(first));
+    assert.equal(verifyCorrection({ ...second, lat: 13.09 }), false);
+
+    const log = await correctionLog('node-1');
+    assert.deepEqual(log.map((c) => [c.signatureValid, c.chainIntact]), [[true, true], [true, true]]);
+  });
+
+  it('returns a repeat of the newest fix instead of recording it again', async () => {
+    await recordCorrection(fix(), user);
+    const repeat = await recordCorrection(fix({ lat: 12.97161 }), user);
+    assert.equal(repeat.duplicate, true);
+    assert.equal(stored.length, 1);
+  });
+
+  it('retries on the predecessor another writer just took', async () => {
+    const first = (await recordCorrection(fix(), user)).correction;
+    // A concurrent writer appends between our read of the chain and our insert
+    const findOne = LocationCorrection.findOne;
+    let raced = false;
+    LocationCorrection.findOne = (filter) => {
+      if (!raced) {
+        raced = true;
+        const rival = { ...first, _id: new mongoose.Types.ObjectId(), lat: 1, prevSignature: first.signature, createdAt: new Date() };
+        rival.signature = signCorrection(rival);
+        const staleTip = Promise.resolve(first);
+        stored.push(rival);
+        return { sort: () => ({ lean: () => staleTip }) };
+      }
+      return findOne(filter);
+    };
+
+    const { correction } = await recordCorrection(fix({ lat: 13.0827, lng: 80.2707 }), user);
+    assert.equal(stored.length, 3);
+    assert.equal(correction.prevSignature, stored[1].signature);
+    const log = await correctionLog('node-1');
+    assert.ok(log.every((c) => c.chainIntact));
+  });
+});
+
+describe('correctReading', () => {
+  it('layers the newest covering fix over the stored position and keeps the original', () => {
+    const reading = { deviceId: 'node-1', timestamp: new Date('2026-01-01T12:00:00Z'), location: { lat: 0, lng: 0, speed: 3 } };
+    const older = { _id: 'a', deviceId: 'node-1', lat: 1, lng: 1, validFrom: new Date('2026-01-01T00:00:00Z'), validTo: new Date('2026-01-02T00:00:00Z'), source: 'manual', createdAt: new Date(1) };
+    const newer = { ...older, _id: 'b', lat: 2, lng: 2, createdAt: new Date(2) };
+
+    const corrected = correctReading(reading, [newer, older]);
+    assert.deepEqual(corrected.location, { lat: 2, lng: 2, speed: 3 });
+    assert.deepEqual(corrected.locationCorrection.original, { lat: 0, lng: 0 });
+
+    const outside = { ...reading, timestamp: new Date('2026-01-03T00:00:00Z') };
+    assert.equal(correctReading(outside, [newer, older]), outside);
+  });
+});
@@ -0,0 +1,125 @@
+// Golden values for the reading integrity hash. Every stored dataHash (and
+// every anchor on chain) depends on these exact bytes: if one of these
+// tests fails, existing readings would stop verifying. Add a new hash
+// version instead of changing an existing one.
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+const {
+  CURRENT_HASH_VERSION,
+  LEGACY_HASH_VERSION,
+  canonicalize,
+  computeReadingHash,
+  verifyReadingHash,
+} = await import('../services/readingHash.js');
+
+const reading = {
+  deviceId: 'ATMOSTRACK-01',
+  sessionId: 'sess-42',
+  timestamp: '2026-01-15T06:30:00.000Z',
+  location: { lat: 12.9716, lng: 77.5946, speed: 0.5 },
+  environment: { temperature: 27.5, humidity: 61 },
+  air: { aqi: 87, co2ppm: 742, mq135Raw: 1310, mq135Volt: 1.056, aqiCategory: 'Satisfactory' },
+  aiFeatures: { VOC_avg: 1290.5, VOC_std: 14.2, CO2_avg: 738.1, CO2_std: 6.4, Hour: 6 },
+  emissions: { estimatedCO2eqKg: 0.000123, method: 'model' },
+  raw: { temperature: 27.1, humidity: 60, co2ppm: 742, mg811Raw: 1900 },
+  calibrationVersion: 3,
+};
+const withCo2 = (co2ppm) => ({ ...reading, air: { ...reading.air, co2ppm } });
+
+const V1_HASH = '238d04c6e1386b8c05207d25d2b7f3b1e3432ca0df36e07a981ef075dd82ebb6';
+const V2_HASH = '6f9d7e81f37337fa7355889c594288ab0e91a314de679224019e846c1350baa1';
+
+describe('computeReadingHash', () => {
+  it('matches the golden v1 hash', () => {
+    assert.equal(LEGACY_HASH_VERSION, 1);
+    assert.equal(computeReadingHash(reading, 1), V1_HASH);
+  });
+
+  it('matches the golden v2 hash', () => {
+    assert.equal(CURRENT_HASH_VERSION, 2);
+    assert.equal(computeReadingHash(reading, 2), V2_HASH);
+  });
+
+  it('v1 is blind to nested fields, v2 is not', () => {
+    // The v1 array replacer whitelists top-level keys at every depth, so
+    // nested objects serialise as {}
+    assert.equal(computeReadingHash(withCo2(400), 1), V1_HASH);
+    assert.equal(
+      computeReadingHash(withCo2(400), 2),
+      '089641600f39c6ef967c2538e0251ca9e1c4c6e77f58db581f0c0f16ea8ff438',
+    );
+  });
+
+  it('covers readings stored before calibration profiles existed', () => {
+    const { raw: _raw, calibrationVersion: _version, ...legacy } = reading;
+    assert.equal(
+      computeReadingHash(legacy, 2),
+      '760c74d1e22c70d8248be750c71dea5d3eea7726fe46a56d04e0cc1b2f9cd557',
+    );
+  });
+
+  it('uses the version recorded on the reading, defaulting to v1', () => {
+    assert.equal(computeReadingHash(reading), V1_HASH);
+    assert.equal(computeReadingHash({ ...reading, hashVersion: 2 }), V2_HASH);
+  });
+
+  it('hashes a Date timestamp like its ISO string', () => {
+    assert.equal(computeReadingHash({ ...reading, timestamp: new Date(reading.timestamp) }, 2), V2_HASH);
+  });
+
+  it('rejects an unknown version', () => {
+    assert.throws(() => computeReadingHash(reading, 3), /Unknown hash version: 3/);
+  });
+});
+
+describe('canonicalize', () => {
+  it('sorts keys, drops undefined members and uses ES number form', () => {
+    assert.equal(
+      canonicalize({
+        b: [1, 'x', null, undefined],
+        a: { d: new Date('2026-01-01T00:00:00Z'), c: -0.5e-7 },
+        u: undefined,
+        é: true,
+        Z: 1e21,
+      }),
+      '{"Z":1e+21,"a":{"c":-5e-8,"d":"2026-01-01T00:00:00.000Z"},"b":[1,"x",null,null],"é":true}',
+    );
+  });
+
+  it('refuses non-finite numbers', () => {
+    assert.throws(() => canonicalize({ co2: Number.NaN }), TypeError);
+  });
+});
+
+describe('verifyReadingHash', () => {
+  it('is INTACT when the stored hash matches', () => {
+    const result = verifyReadingHash({ ...reading, hashVersion: 2, dataHash: V2_HASH });
+    assert.deepEqual(result, { hashVersion: 2, recomputedHash: V2_HASH, intact: true, verdict: 'INTACT' });
+  });
+
+  it('is TAMPERED when a v2 nested field changed', () => {
+    const result = verifyReadingHash({ ...withCo2(400), hashVersion: 2, dataHash: V2_HASH });
+    assert.equal(result.verdict, 'TAMPERED');
+    assert.equal(result.intact, false);
+  });
+
+  it('is NO_HASH without a stored hash', () => {
+    const result = verifyReadingHash(reading);
+    assert.deepEqual(result, { hashVersion: 1, recomputedHash: V1_HASH, intact: null, verdict: 'NO_HASH' });
+  });
+
+  it('carries a TAMPERED legacy verdict forward through a migration', () => {
+    const migrated = {
+      ...reading,
+      hashVersion: 2,
+      dataHash: V2_HASH,
+      hashMigration: { fromVersion: 1, legacyHash: 'f'.repeat(64), legacyVerdict: 'TAMPERED' },
+    };
+    assert.equal(verifyReadingHash(migrated).verdict, 'TAMPERED');
+    assert.equal(
+      verifyReadingHash({ ...migrated, hashMigration: { ...migrated.hashMigration, legacyVerdict: 'INTACT' } }).verdict,
+      'INTACT',
+    );
+  });
+});
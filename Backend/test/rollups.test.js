@@ -0,0 +1,298 @@
+// Rollup buckets are only ever $inc / $min / $max'd, by ingest one reading
+// at a time and by rebuilds in bulk. Runs without a database: both models
+// are stubbed over in-memory stores that apply those operators.
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+
+const { Reading } = await import('../models/Reading.js');
+const { ReadingRollup } = await import('../models/ReadingRollup.js');
+const { applyReadingToRollups, bucketStartFor, histogramPercentile, rebuildRollups } = await import('../services/rollups.js');
+const { aggregateReadings } = await import('../services/readingAggregates.js');
+
+const getPath = (doc, path) => path.split('.').reduce((acc, key) => (acc == null ? undefined : acc[key]), doc);
+function setPath(doc, path, value) {
+  const keys = path.split('.');
+  const last = keys.pop();
+  const parent = keys.reduce((acc, key) => (acc[key] ??= {}), doc);
+  parent[last] = value;
+}
+
+let rollups = new Map();
+let readings = [];
+// Resolves pending live writes when a test wants them to land late
+let writeGate = null;
+// Called after the rebuild cursor yields each reading
+let onCursorStep = null;
+
+const originals = {
+  find: Reading.find,
+  bulkWrite: ReadingRollup.bulkWrite,
+  deleteMany: ReadingRollup.deleteMany,
+  rollupFind: ReadingRollup.find,
+};
+
+function applyUpsert({ filter, update }) {
+  const key = `${filter.deviceId}|${filter.resolution}|${filter.bucketStart.getTime()}`;
+  if (!rollups.has(key)) rollups.set(key, { ...filter });
+  const doc = rollups.get(key);
+  for (const [path, n] of Object.entries(update.$inc)) setPath(doc, path, (getPath(doc, path) ?? 0) + n);
+  for (const [path, v] of Object.entries(update.$min)) {
+    const cur = getPath(doc, path);
+    if (cur == null || v < cur) setPath(doc, path, v);
+  }
+  for (const [path, v] of Object.entries(update.$max)) {
+    const cur = getPath(doc, path);
+    if (cur == null || v > cur) setPath(doc, path, v);
+  }
+}
+
+const inRange = (value, range) =>
+  !range || ((!range.$gte || value >= range.$gte) && (!range.$lte || value <= range.$lte));
+
+beforeEach(() => {
+  rollups = new Map();
+  readings = [];
+  writeGate = null;
+  onCursorStep = null;
+  ReadingRollup.bulkWrite = async (ops) => {
+    // Live writes are single-reading, three-resolution batches
+    if (writeGate && ops.length === 3) await writeGate;
+    ops.forEach((op) => applyUpsert(op.updateOne));
+  };
+  ReadingRollup.deleteMany = async (filter) => {
+    for (const [key, doc] of rollups) {
+      if ((!filter.deviceId || doc.deviceId === filter.deviceId) && inRange(doc.bucketStart, filter.bucketStart)) {
+        rollups.delete(key);
+      }
+    }
+  };
+  ReadingRollup.find = (filter) => {
+    const rows = [...rollups.values()].filter(
+      (r) => r.deviceId === filter.deviceId && r.resolution === filter.resolution && inRange(r.bucketStart, filter.bucketStart),
+    );
+    return { sort: () => ({ lean: async () => rows.sort((a, b) => a.bucketStart - b.bucketStart) }) };
+  };
+  Reading.find = (filter) => ({
+    select() {
+      return this;
+    },
+    lean() {
+      return this;
+    },
+    // Reads the live array, so a reading stored mid-rebuild may be seen
+    async *cursor() {
+      for (let i = 0; i < readings.length; i += 1) {
+        const r = readings[i];
+        if ((filter.deviceId && r.deviceId !== filter.deviceId) || !inRange(r.timestamp, filter.timestamp)) continue;
+        yield { ...r };
+        await onCursorStep?.(r);
+      }
+    },
+  });
+});
+
+after(() => {
+  Object.assign(Reading, { find: originals.find });
+  Object.assign(ReadingRollup, { bulkWrite: originals.bulkWrite, deleteMany: originals.deleteMany, find: originals.rollupFind });
+});
+
+const t0 = Date.parse('2026-05-01T10:00:00Z');
+let seq = 0;
+const reading = (deviceId, offsetSec, co2ppm) => ({
+  _id: new mongoose.Types.ObjectId(),
+  deviceId,
+  timestamp: new Date(t0 + offsetSec * 1000),
+  air: { co2ppm, aqi: 40 + (seq++ % 5), mq135Raw: 500 },
+  environment: { temperature: 24.5, humidity: 55 },
+});
+
+// Store a reading and fold it in, as ingest does
+async function ingest(r) {
+  readings.push(r);
+  await applyReadingToRollups(r);
+}
+
+// What the buckets hold when every stored reading was folded in exactly once
+async function expectedRollups() {
+  const saved = rollups;
+  rollups = new Map();
+  for (const r of readings) await applyReadingToRollups(r);
+  const expected = rollups;
+  rollups = saved;
+  return expected;
+}
+
+const sorted = (map) => Object.fromEntries([...map.entries()].sort(([a], [b]) => a.localeCompare(b)));
+
+describe('rebuildRollups', () => {
+  it('counts a reading ingested while the rebuild runs exactly once', async () => {
+    for (let i = 0; i < 5; i += 1) await ingest(reading('node-1', i * 30, 600 + i * 10));
+    const late = [reading('node-1', 400, 900), reading('node-2', 10, 700)];
+    onCursorStep = async (r) => {
+      if (r === readings[1]) await Promise.all(late.map(ingest));
+    };
+
+    await rebuildRollups({ deviceId: 'node-1', from: new Date(t0), to: new Date(t0 + 3600e3) });
+
+    assert.deepEqual(sorted(rollups), sorted(await expectedRollups()));
+    const day = rollups.get(`node-1|day|${Date.parse('2026-05-01T00:00:00Z')}`);
+    assert.equal(day.count, 6);
+  });
+
+  it('counts a reading the rebuild cursor never reaches', async () => {
+    await ingest(reading('node-1', 0, 600));
+    // Stored in a later day, outside the rebuilt range
+    const outside = { ...reading('node-1', 0, 650), timestamp: new Date(t0 + 2 * 86400e3) };
+    onCursorStep = async () => ingest(outside);
+
+    await rebuildRollups({ deviceId: 'node-1', from: new Date(t0), to: new Date(t0 + 3600e3) });
+
+    assert.deepEqual(sorted(rollups), sorted(await expectedRollups()));
+  });
+
+  it('waits for a live write that started before the rebuild', async () => {
+    await ingest(reading('node-1', 0, 600));
+    let release;
+    writeGate = new Promise((resolve) => { release = resolve; });
+    const pending = ingest(reading('node-1', 30, 610));
+
+    const rebuilt = rebuildRollups({ deviceId: 'node-1' });
+    writeGate = null;
+    release();
+    await Promise.all([pending, rebuilt]);
+
+    assert.deepEqual(sorted(rollups), sorted(await expectedRollups()));
+  });
+
+  it('runs overlapping rebuilds one after the other', async () => {
+    for (let i = 0; i < 3; i += 1) await ingest(reading('node-1', i * 30, 600));
+    onCursorStep = async (r) => {
+      if (r === readings[0]) await ingest(reading('node-1', 200, 800));
+    };
+
+    await Promise.all([rebuildRollups({ deviceId: 'node-1' }), rebuildRollups()]);
+
+    assert.deepEqual(sorted(rollups), sorted(await expectedRollups()));
+  });
+});
+
+describe('bucket folding', () => {
+  it('folds readings into minute, hour and day buckets', async () => {
+    const a = { ...reading('node-1', 5, 600), environment: { temperature: 20, humidity: 40 } };
+    const b = { ...reading('node-1', 50, 640), environment: { temperature: 22, humidity: 42 } };
+    const c = { ...reading('node-1', 70, 900), environment: { temperature: 21, humidity: 41 } };
+    for (const r of [c, a, b]) await ingest(r);
+
+    assert.equal(rollups.size, 4);
+    const minute = rollups.get(`node-1|minute|${t0}`);
+    assert.equal(minute.count, 2);
+    assert.deepEqual(minute.firstTs, a.timestamp);
+    assert.deepEqual(minute.lastTs, b.timestamp);
+    // co2 bins are 25 ppm wide from 0
+    assert.deepEqual(minute.metrics.co2, { n: 2, sum: 1240, min: 600, max: 640, hist: { 24: 1, 25: 1 } });
+    assert.deepEqual(minute.metrics.temp, { n: 2, sum: 42, min: 20, max: 22, hist: { 120: 1, 124: 1 } });
+    assert.equal(rollups.get(`node-1|minute|${t0 + 60e3}`).count, 1);
+
+    const hour = rollups.get(`node-1|hour|${t0}`);
+    const day = rollups.get(`node-1|day|${bucketStartFor(t0, 'day').getTime()}`);
+    for (const bucket of [hour, day]) {
+      assert.equal(bucket.count, 3);
+      assert.deepEqual(bucket.firstTs, a.timestamp);
+      assert.deepEqual(bucket.lastTs, c.timestamp);
+      assert.deepEqual(bucket.metrics.co2, { n: 3, sum: 2140, min: 600, max: 900, hist: { 24: 1, 25: 1, 36: 1 } });
+    }
+  });
+
+  it('skips missing and non-finite values but still counts the reading', async () => {
+    await ingest({ ...reading('node-1', 0, null), environment: { temperature: Number.NaN, humidity: 50 } });
+
+    const minute = rollups.get(`node-1|minute|${t0}`);
+    assert.equal(minute.count, 1);
+    assert.equal(minute.metrics.co2, undefined);
+    assert.equal(minute.metrics.temp, undefined);
+    assert.equal(minute.metrics.humidity.n, 1);
+  });
+
+  it('clamps values below the first bin into bin 0', async () => {
+    await ingest({ ...reading('node-1', 0, 600), environment: { temperature: -55, humidity: 50 } });
+
+    assert.deepEqual(rollups.get(`node-1|minute|${t0}`).metrics.temp.hist, { 0: 1 });
+  });
+
+  it('buckets on UTC boundaries', () => {
+    assert.equal(bucketStartFor('2026-05-01T10:59:59.999Z', 'hour').toISOString(), '2026-05-01T10:00:00.000Z');
+    assert.equal(bucketStartFor('2026-05-01T23:30:00+05:30', 'day').toISOString(), '2026-05-01T00:00:00.000Z');
+  });
+});
+
+describe('histogramPercentile', () => {
+  const summary = (values, metric = 'co2') => {
+    const delta = { n: 0, sum: 0, min: Infinity, max: -Infinity, hist: {} };
+    const width = { co2: 25, aqi: 5 }[metric];
+    for (const v of values) {
+      delta.n += 1;
+      delta.sum += v;
+      delta.min = Math.min(delta.min, v);
+      delta.max = Math.max(delta.max, v);
+      const bin = Math.floor(v / width);
+      delta.hist[bin] = (delta.hist[bin] ?? 0) + 1;
+    }
+    return delta;
+  };
+
+  it('returns the midpoint of the bin holding the p-th sample', () => {
+    // 100 samples: 95 in the 400–425 bin, 5 in the 1000–1025 bin
+    const values = [...Array(95).fill(410), ...Array(5).fill(1010)];
+    assert.equal(histogramPercentile('co2', summary(values), 0.95), 412.5);
+    assert.equal(histogramPercentile('co2', summary(values), 0.96), 1010);
+  });
+
+  it('stays within the observed min and max', () => {
+    assert.equal(histogramPercentile('co2', summary([401, 402, 403]), 0.95), 403);
+    assert.equal(histogramPercentile('aqi', summary([48, 49]), 0.5), 48);
+  });
+
+  it('orders bins numerically, not as strings', () => {
+    // Bins 4, 5 and 40 (aqi 20, 25 and 200) sort wrongly as strings ('40' < '5')
+    assert.equal(histogramPercentile('aqi', summary([20, 20, 20, 25, 200], 'aqi'), 0.8), 27.5);
+  });
+
+  it('is null for an empty summary', () => {
+    assert.equal(histogramPercentile('co2', { n: 0, hist: {} }, 0.95), null);
+    assert.equal(histogramPercentile('co2', undefined, 0.95), null);
+  });
+});
+
+describe('aggregateReadings', () => {
+  it('summarises each bucket as mean / min / max / p95', async () => {
+    const co2 = [600, 610, 620, 630, 1200];
+    for (let i = 0; i < co2.length; i += 1) await ingest(reading('node-1', i * 600, co2[i]));
+
+    const [bucket] = await aggregateReadings({
+      deviceId: 'node-1',
+      from: new Date(t0),
+      to: new Date(t0 + 3600e3 - 1),
+      resolution: 'hour',
+    });
+
+    assert.equal(bucket.ts, t0);
+    assert.equal(bucket.count, 5);
+    assert.deepEqual(bucket.co2, { mean: 732, min: 600, max: 1200, p95: 1200 });
+    assert.deepEqual(bucket.temp, { mean: 24.5, min: 24.5, max: 24.5, p95: 24.5 });
+  });
+
+  it('includes the bucket holding `from` and reports empty metrics as null', async () => {
+    await ingest({ ...reading('node-1', 0, null), environment: {} });
+
+    const buckets = await aggregateReadings({
+      deviceId: 'node-1',
+      from: new Date(t0 + 30e3),
+      to: new Date(t0 + 60e3),
+      resolution: 'minute',
+    });
+
+    assert.equal(buckets.length, 1);
+    assert.deepEqual(buckets[0].co2, { mean: null, min: null, max: null, p95: null });
+  });
+});
@@ -156,6 +156,8 @@ void loop() {
 
     // MG811 CO2 as before
     doc["co2Level"] = co2PPM;
+    // Raw MG811 count so the backend can apply a calibrated curve
+    doc["mg811Raw"] = mgRaw;
 
     // MQ135 nested object
     JsonObject mq = doc.createNestedObject("mq135");
@@ -0,0 +1,42 @@
+/* AtmosTrack service worker: shows Web Push alerts (Backend/services/pushNotifications.js)
+   and hazardous-condition notices posted by the Health view. */
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { title: 'AtmosTrack', body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'AtmosTrack alert', {
+      body: data.body || '',
+      tag: data.tag,
+      renotify: !!data.tag,
+      // Critical alerts stay on screen until dismissed
+      requireInteraction: data.severity === 'critical',
+      data: { view: data.view || 'health', deviceId: data.deviceId || null },
+    }),
+  );
+});
+
+// Focus an open AtmosTrack tab (or open one) when a notification is clicked
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { view } = event.notification.data || {};
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        client.postMessage({ type: 'atmostrack:open-view', view });
+        return client.focus();
+      }
+      return self.clients.openWindow('/');
+    }),
+  );
+});
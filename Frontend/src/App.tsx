@@ -1,4 +1,4 @@
-import { useState, lazy, Suspense } from 'react';
+import { useState, useEffect, lazy, Suspense } from 'react';
 import Navbar from './components/Navbar';
 import Home from './components/Home';
 import Dashboard from './components/Dashboard';
@@ -6,12 +6,14 @@ import HealthAlerts from './components/HealthAlerts';
 import DataExport from './components/DataExport';
 import MapView from './components/MapView';
 import Toast from './components/Toast';
+import ConnectionBanner from './components/ConnectionBanner';
 import { ToastProvider } from './contexts/ToastContext';
 import ImpactHub from './components/ImpactHub';
 import AtmosTrackAuthCard from './components/AtmosTrackLogin';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import AdminDashboard from './components/AdminDashboard';
 import { RealtimeProvider } from './contexts/RealtimeContext';
+import { PlaybackProvider } from './contexts/PlaybackContext';
 import ErrorBoundary from './components/ErrorBoundary';
 import RootRitual from './components/RootRitual';
 import UserProfile from './components/UserProfile';
@@ -23,6 +25,7 @@ import { View, AuthUser, Role } from './types';
 const UserRoleCommandSurface = lazy(() => import('./pages/admin/UserRoleCommandSurface'));
 const DataProvenance = lazy(() => import('./components/DataProvenance'));
 const ExportRecipeCommandSurface = lazy(() => import('./pages/admin/ExportRecipeCommandSurface'));
+const CalibrationCommandSurface = lazy(() => import('./pages/admin/CalibrationCommandSurface'));
 // @ts-ignore
 const CDRFleetDashboard = lazy(() => import('./components/CDRFleetDashboard'));
 
@@ -99,6 +102,11 @@ const AppViewSwitcher = ({ activeView, user, adminModeUnlocked, setActiveView, h
         return <ExportRecipeCommandSurface setActiveView={setActiveView} />;
       }
       return <NoAuthView section="Export Recipes" />;
+    case 'calibration':
+      if (user?.role === 'admin' || adminModeUnlocked) {
+        return <CalibrationCommandSurface setActiveView={setActiveView} />;
+      }
+      return <NoAuthView section="Sensor Calibration" />;
     case 'fleet':
       if (user?.role === 'viewer') {
         return <NoAuthView section="Fleet Console" />;
@@ -120,6 +128,18 @@ function AppInner() {
   const [activeView, setActiveView] = useState<View>('home');
   const { isAuthenticated, login, user, setAdminModeUnlocked, adminModeUnlocked } = useAuth();
 
+  // Clicking a push notification focuses this tab and opens its view (public/sw.js)
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'atmostrack:open-view' && event.data.view) {
+        setActiveView(event.data.view as View);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
+
   const handleGrantAdminAccess = () => {
     setAdminModeUnlocked(true);
     localStorage.setItem('atmos_admin_mode', 'true');
@@ -235,6 +255,7 @@ function AppInner() {
   return (
     <div className="min-h-screen bg-cream-50">
       <Navbar activeView={activeView} setActiveView={(v: string) => setActiveView(v as View)} />
+      <ConnectionBanner />
       <main className="transition-all duration-500 ease-in-out">
         {renderView()}
       </main>
@@ -250,7 +271,9 @@ function App() {
       <ToastProvider>
         <ErrorBoundary>
           <RealtimeProvider>
-            <AppInner />
+            <PlaybackProvider>
+              <AppInner />
+            </PlaybackProvider>
           </RealtimeProvider>
         </ErrorBoundary>
       </ToastProvider>
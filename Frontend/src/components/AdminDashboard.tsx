@@ -18,8 +18,10 @@ import {
   FileDown,
   Clock,
   TrendingUp,
+  Gauge,
 } from 'lucide-react';
 import { API_BASE } from '../config';
+import type { IncidentStats } from '../types/Incident';
 
 type AdminDashboardProps = {
   setActiveView: (view: any) => void;
@@ -34,6 +36,7 @@ type AdminStats = {
   };
   readings: { total: number; anchored: number };
   carbon: { pendingBatches: number };
+  incidents: IncidentStats;
 };
 
 // const API_BASE = 'http://localhost:5000'; // Removed local override - it's imported now
@@ -445,10 +448,54 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ setActiveView }) => {
                 </span>
                 <span className="font-bold text-sky-600">{anchorPct}%</span>
               </div>
+              <div className="flex items-center justify-between text-xs mt-1.5">
+                <span className="text-gray-500 flex items-center gap-1.5">
+                  <AlertTriangle className="w-3.5 h-3.5" /> Open incidents
+                </span>
+                <span className={`font-bold ${stats?.incidents.open ? 'text-rose-600' : 'text-emerald-600'}`}>
+                  {loading ? '—' : (stats?.incidents.open ?? 0)}
+                </span>
+              </div>
             </div>
           </div>
 
         </div>
+
+        {/* Row 3: Sensor calibration */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+          <div className="bg-white/80 backdrop-blur-md rounded-2xl p-6 shadow-lg border border-teal-100 flex flex-col gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-11 h-11 rounded-2xl bg-gradient-to-br from-teal-500 to-cyan-500 flex items-center justify-center text-white shadow-lg shrink-0">
+                <Gauge className="w-5 h-5" />
+              </div>
+              <div>
+                <h2 className="text-base font-bold text-gray-900">Sensor Calibration</h2>
+                <p className="text-xs text-gray-500 mt-0.5">Versioned per-device profiles applied at ingest.</p>
+              </div>
+            </div>
+
+            <div className="space-y-2.5">
+              {[
+                'Capture a fresh-air baseline for MQ135 R0 and MG811',
+                'Correct DHT11 temperature and humidity drift',
+                'Reprocess a date range with any profile version',
+              ].map(text => (
+                <div key={text} className="flex items-start gap-2.5">
+                  <ChevronRight className="w-3.5 h-3.5 text-teal-400 shrink-0 mt-0.5" />
+                  <span className="text-xs text-gray-600">{text}</span>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => setActiveView('calibration')}
+              className="mt-auto w-full inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-gradient-to-r from-teal-500 to-cyan-500 text-white text-xs font-bold shadow-md hover:shadow-lg hover:scale-[1.02] transition-all"
+            >
+              Open Calibration Bench
+              <ArrowRightCircle className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   );
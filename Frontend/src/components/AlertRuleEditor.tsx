@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, BellOff, Plus, Trash2, Edit, Save, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useSocketEvent } from '../contexts/RealtimeContext';
+import { AQI_STANDARDS } from '../lib/aqi';
+import type { AqiStandard } from '../types/Aqi';
+import type {
+  AlertMetric,
+  AlertOperator,
+  AlertRule,
+  AlertSeverity,
+  AlertTriggeredEvent,
+} from '../types/Alert';
+import { API_BASE } from '../config';
+
+interface AlertRuleEditorProps {
+  deviceId: string | null;
+  aqiStandard: AqiStandard;
+}
+
+const METRICS: Record<AlertMetric, { label: string; unit: string }> = {
+  co2ppm: { label: 'CO₂', unit: 'ppm' },
+  aqi: { label: 'AQI', unit: '' },
+  aqiLevel: { label: 'AQI category', unit: '' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  humidity: { label: 'Humidity', unit: '%' },
+  mq135Ppm: { label: 'MQ135 CO₂-eq', unit: 'ppm' },
+};
+
+const OPERATORS: Record<AlertOperator, string> = { gt: '>', gte: '≥', lt: '<', lte: '≤' };
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'bg-sky-50 text-sky-700 border-sky-200',
+  warning: 'bg-amber-50 text-amber-700 border-amber-200',
+  critical: 'bg-red-50 text-red-700 border-red-200',
+};
+
+// Minutes in the form, seconds on the wire
+type Draft = {
+  _id?: string;
+  name: string;
+  allDevices: boolean;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: string;
+  durationMin: string;
+  hysteresis: string;
+  cooldownMin: string;
+  severity: AlertSeverity;
+  enabled: boolean;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  allDevices: false,
+  metric: 'co2ppm',
+  operator: 'gt',
+  threshold: '1500',
+  durationMin: '10',
+  hysteresis: '100',
+  cooldownMin: '30',
+  severity: 'warning',
+  enabled: true,
+};
+
+const toDraft = (rule: AlertRule): Draft => ({
+  _id: rule._id,
+  name: rule.name,
+  allDevices: rule.deviceId === null,
+  metric: rule.metric,
+  operator: rule.operator,
+  threshold: String(rule.threshold),
+  durationMin: String(rule.durationSec / 60),
+  hysteresis: String(rule.hysteresis),
+  cooldownMin: String(rule.cooldownSec / 60),
+  severity: rule.severity,
+  enabled: rule.enabled,
+});
+
+const formatMinutes = (sec: number) =>
+  sec >= 3600 && sec % 3600 === 0 ? `${sec / 3600} h` : `${Math.round(sec / 60)} min`;
+
+// Persisted alert rules, evaluated by the backend on every reading. Anyone
+// can see them and what is firing; operators and admins can edit.
+const AlertRuleEditor: React.FC<AlertRuleEditorProps> = ({ deviceId, aqiStandard }) => {
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [active, setActive] = useState<AlertTriggeredEvent[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const canEdit = user?.role === 'admin' || user?.role === 'operator';
+  const categories = AQI_STANDARDS[aqiStandard].categories;
+
+  const describeValue = (metric: AlertMetric, value: number) =>
+    metric === 'aqiLevel'
+      ? categories[Math.round(value)]?.label ?? String(value)
+      : `${value}${METRICS[metric].unit ? ` ${METRICS[metric].unit}` : ''}`;
+
+  const describeRule = (rule: AlertRule) =>
+    `${METRICS[rule.metric].label} ${OPERATORS[rule.operator]} ${describeValue(rule.metric, rule.threshold)}` +
+    (rule.durationSec ? ` for ${formatMinutes(rule.durationSec)}` : '');
+
+  const fetchRules = async () => {
+    if (!token || !deviceId) return;
+    try {
+      const query = `deviceId=${encodeURIComponent(deviceId)}`;
+      const [rulesRes, activeRes] = await Promise.all([
+        fetch(`${API_BASE}/api/alerts/rules?${query}`, { headers: { Authorization: `Bearer ${token}` } }),
+        fetch(`${API_BASE}/api/alerts/active?${query}`, { headers: { Authorization: `Bearer ${token}` } }),
+      ]);
+      const rulesData = await rulesRes.json();
+      const activeData = await activeRes.json();
+      if (rulesRes.ok && rulesData.ok) setRules(rulesData.rules);
+      if (activeRes.ok && activeData.ok) setActive(activeData.alerts);
+    } catch (err) {
+      console.error('Alert rules load failed:', err);
+    }
+  };
+
+  useEffect(() => {
+    setDraft(null);
+    fetchRules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, deviceId]);
+
+  useSocketEvent('alert:triggered', (alert) => {
+    if (alert.deviceId !== deviceId) return;
+    setActive((prev) => [alert, ...prev.filter((a) => a.alertId !== alert.alertId)]);
+    showToast(`${alert.ruleName}: ${describeValue(alert.metric, alert.value)}`, alert.severity === 'info' ? 'info' : 'error');
+  });
+
+  useSocketEvent('alert:resolved', (resolved) => {
+    setActive((prev) => prev.filter((a) => a.alertId !== resolved.alertId));
+  });
+
+  const save = async (next: Draft) => {
+    const body = {
+      name: next.name,
+      deviceId: next.allDevices ? null : deviceId,
+      metric: next.metric,
+      operator: next.operator,
+      threshold: Number(next.threshold),
+      durationSec: Math.round(Number(next.durationMin || 0) * 60),
+      hysteresis: Number(next.hysteresis || 0),
+      cooldownSec: Math.round(Number(next.cooldownMin || 0) * 60),
+      severity: next.severity,
+      enabled: next.enabled,
+    };
+
+    setSaving(true);
+    try {
+      const res = await fetch(
+        next._id ? `${API_BASE}/api/alerts/rules/${next._id}` : `${API_BASE}/api/alerts/rules`,
+        {
+          method: next._id ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(body),
+        },
+      );
+      const data = await res.json();
+      if (!res.ok || !data.ok) {
+        showToast(data.error || 'Failed to save alert rule', 'error');
+        return;
+      }
+      setDraft(null);
+      fetchRules();
+    } catch {
+      showToast('Failed to save alert rule', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (rule: AlertRule) => {
+    if (!window.confirm(`Delete the alert rule "${rule.name}"?`)) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/alerts/rules/${rule._id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (res.ok) fetchRules();
+    } catch {
+      showToast('Failed to delete alert rule', 'error');
+    }
+  };
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) =>
+    setDraft((d) => (d ? { ...d, [key]: value } : d));
+
+  const inputClass = 'mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-orange-300';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-2xl p-6 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <div className="w-12 h-12 rounded-xl flex items-center justify-center bg-gradient-to-r from-orange-500 to-red-500">
+            <Bell className="h-6 w-6 text-white" />
+          </div>
+          <div className="ml-4">
+            <h3 className="text-xl font-semibold text-gray-800">Alert Rules</h3>
+            <p className="text-xs text-gray-500">Checked on the server for every reading, even with this page closed.</p>
+          </div>
+        </div>
+        {canEdit && !draft && deviceId && (
+          <button
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-900 text-white text-xs font-semibold hover:bg-gray-800"
+          >
+            <Plus className="h-4 w-4" /> New rule
+          </button>
+        )}
+      </div>
+
+      {active.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {active.map((alert) => (
+            <div key={alert.alertId} className={`flex items-center justify-between rounded-lg border px-3 py-2 text-sm ${SEVERITY_STYLES[alert.severity]}`}>
+              <span className="font-semibold">{alert.ruleName}</span>
+              <span className="text-xs">
+                {describeValue(alert.metric, alert.value)} · since {new Date(alert.triggeredAt).toLocaleTimeString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); save(draft); }}
+          className="mb-4 p-4 rounded-xl bg-orange-50/60 border border-orange-100 grid grid-cols-2 md:grid-cols-4 gap-3"
+        >
+          <label className="col-span-2">
+            <span className="text-xs text-gray-500">Name</span>
+            <input required value={draft.name} onChange={(e) => set('name', e.target.value)} className={inputClass} placeholder="Stuffy room" />
+          </label>
+          <label>
+            <span className="text-xs text-gray-500">Metric</span>
+            <select
+              value={draft.metric}
+              onChange={(e) => {
+                const metric = e.target.value as AlertMetric;
+                setDraft((d) => d && { ...d, metric, threshold: metric === 'aqiLevel' ? '4' : d.threshold, operator: metric === 'aqiLevel' ? 'gte' : d.operator });
+              }}
+              className={inputClass}
+            >
+              {(Object.keys(METRICS) as AlertMetric[]).map((m) => <option key={m} value={m}>{METRICS[m].label}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className="text-xs text-gray-500">Condition</span>
+            <div className="flex gap-2">
+              <select value={draft.operator} onChange={(e) => set('operator', e.target.value as AlertOperator)} className={`${inputClass} w-16`}>
+                {(Object.keys(OPERATORS) as AlertOperator[]).map((op) => <option key={op} value={op}>{OPERATORS[op]}</option>)}
+              </select>
+              {draft.metric === 'aqiLevel' ? (
+                <select value={draft.threshold} onChange={(e) => set('threshold', e.target.value)} className={inputClass}>
+                  {categories.map((c) => <option key={c.level} value={c.level}>{c.label}</option>)}
+                </select>
+              ) : (
+                <input required inputMode="decimal" value={draft.threshold} onChange={(e) => set('threshold', e.target.value)} className={inputClass} />
+              )}
+            </div>
+          </label>
+          <label>
+            <span className="text-xs text-gray-500">For at least (min)</span>
+            <input inputMode="decimal" value={draft.durationMin} onChange={(e) => set('durationMin', e.target.value)} className={inputClass} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-500">Hysteresis{METRICS[draft.metric].unit ? ` (${METRICS[draft.metric].unit})` : ''}</span>
+            <input inputMode="decimal" value={draft.hysteresis} onChange={(e) => set('hysteresis', e.target.value)} className={inputClass} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-500">Cooldown (min)</span>
+            <input inputMode="decimal" value={draft.cooldownMin} onChange={(e) => set('cooldownMin', e.target.value)} className={inputClass} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-500">Severity</span>
+            <select value={draft.severity} onChange={(e) => set('severity', e.target.value as AlertSeverity)} className={inputClass}>
+              <option value="info">Info</option>
+              <option value="warning">Warning</option>
+              <option value="critical">Critical</option>
+            </select>
+          </label>
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={draft.allDevices} onChange={(e) => set('allDevices', e.target.checked)} />
+            Apply to every device (otherwise only {deviceId})
+          </label>
+          <div className="col-span-2 flex justify-end gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="inline-flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 text-xs font-semibold text-gray-600">
+              <X className="h-3.5 w-3.5" /> Cancel
+            </button>
+            <button type="submit" disabled={saving} className="inline-flex items-center gap-1 px-3 py-2 rounded-lg bg-orange-500 text-white text-xs font-semibold disabled:opacity-50">
+              <Save className="h-3.5 w-3.5" /> Save rule
+            </button>
+          </div>
+        </form>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">No alert rules for this device yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {rules.map((rule) => (
+            <li key={rule._id} className={`py-3 flex items-center justify-between gap-3 ${rule.enabled ? '' : 'opacity-50'}`}>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-800 text-sm truncate">{rule.name}</span>
+                  <span className={`px-2 py-0.5 rounded-full border text-[10px] font-semibold ${SEVERITY_STYLES[rule.severity]}`}>{rule.severity}</span>
+                  {rule.deviceId === null && <span className="text-[10px] text-gray-400">all devices</span>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {describeRule(rule)} · hysteresis {rule.hysteresis} · cooldown {formatMinutes(rule.cooldownSec)}
+                </div>
+              </div>
+              {canEdit && (
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    title={rule.enabled ? 'Disable' : 'Enable'}
+                    onClick={() => save({ ...toDraft(rule), enabled: !rule.enabled })}
+                    className="p-2 rounded-lg border border-gray-100 text-gray-400 hover:text-orange-600"
+                  >
+                    {rule.enabled ? <BellOff className="h-3.5 w-3.5" /> : <Bell className="h-3.5 w-3.5" />}
+                  </button>
+                  <button title="Edit" onClick={() => setDraft(toDraft(rule))} className="p-2 rounded-lg border border-gray-100 text-gray-400 hover:text-sky-600">
+                    <Edit className="h-3.5 w-3.5" />
+                  </button>
+                  <button title="Delete" onClick={() => remove(rule)} className="p-2 rounded-lg border border-gray-100 text-gray-400 hover:text-rose-600">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AlertRuleEditor;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Scale } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useAqiStandard, useRealtime } from '../contexts/RealtimeContext';
+import { AQI_STANDARDS, isAqiStandard } from '../lib/aqi';
+import type { AqiStandard } from '../types/Aqi';
+import { API_BASE } from '../config';
+
+interface AqiStandardPickerProps {
+  deviceId: string | null;
+  className?: string;
+}
+
+// AQI tables used for a node's site. Admins can switch them; everyone else
+// just sees which standard the numbers follow.
+const AqiStandardPicker: React.FC<AqiStandardPickerProps> = ({ deviceId, className = '' }) => {
+  const { user, token } = useAuth();
+  const { refreshDevices } = useRealtime();
+  const standard = useAqiStandard(deviceId);
+  const [saving, setSaving] = useState(false);
+
+  const canEdit = user?.role === 'admin' && !!deviceId;
+
+  const change = async (next: AqiStandard) => {
+    if (!deviceId || next === standard) return;
+    setSaving(true);
+    try {
+      const res = await fetch(
+        `${API_BASE}/api/admin/nodes/${encodeURIComponent(deviceId)}/aqi-standard`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ aqiStandard: next }),
+        },
+      );
+      const data = await res.json();
+      if (!res.ok || !data.ok) throw new Error(data.error || 'Failed to update AQI standard');
+      await refreshDevices();
+    } catch (err) {
+      console.error('AQI standard update failed:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <label className={`inline-flex items-center gap-1.5 text-[11px] text-gray-500 ${className}`}>
+      <Scale className="h-3.5 w-3.5" />
+      {canEdit ? (
+        <select
+          value={standard}
+          disabled={saving}
+          onChange={(e) => isAqiStandard(e.target.value) && change(e.target.value)}
+          className="bg-transparent font-semibold text-gray-700 focus:outline-none cursor-pointer disabled:cursor-wait"
+        >
+          {(Object.keys(AQI_STANDARDS) as AqiStandard[]).map((id) => (
+            <option key={id} value={id}>{AQI_STANDARDS[id].label}</option>
+          ))}
+        </select>
+      ) : (
+        <span className="font-semibold text-gray-700">{AQI_STANDARDS[standard].label}</span>
+      )}
+    </label>
+  );
+};
+
+export default AqiStandardPicker;
@@ -13,9 +13,11 @@ import {
   Activity,
   Box
 } from 'lucide-react';
+import { useRealtime } from '../contexts/RealtimeContext';
 
 const CDRFleetDashboard: React.FC = () => {
   const [skidCount, setSkidCount] = useState(1);
+  const { selectedDeviceId, deviceList } = useRealtime();
   
   // Operational Metrics
   const tonsPerSkid = 250;
@@ -57,7 +59,9 @@ const CDRFleetDashboard: React.FC = () => {
               <div className="flex flex-wrap gap-4 justify-center md:justify-start">
                 <div className="flex items-center gap-3 px-5 py-3 rounded-2xl bg-white/5 border border-white/10">
                   <Box className="w-5 h-5 text-emerald-400" />
-                  <span className="text-sm text-white font-bold tracking-tight">Active Deployment: LIET Node 01</span>
+                  <span className="text-sm text-white font-bold tracking-tight">Active Deployment: {selectedDeviceId ?? 'No node selected'}
+                    {deviceList.length > 1 && <span className="text-slate-400 font-medium"> · {deviceList.length} nodes</span>}
+                  </span>
                 </div>
                 <div className="flex items-center gap-3 px-5 py-3 rounded-2xl bg-white/5 border border-white/10">
                   <ShieldCheck className="w-5 h-5 text-orange-400" />
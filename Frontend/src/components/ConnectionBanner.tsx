@@ -0,0 +1,29 @@
+import React from 'react';
+import { WifiOff, RefreshCw } from 'lucide-react';
+import { useRealtime } from '../contexts/RealtimeContext';
+
+// Shown once the realtime socket has given up retrying on its own
+const ConnectionBanner: React.FC = () => {
+  const { status, reconnect } = useRealtime();
+
+  if (status !== 'failed') return null;
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[9998] animate-slide-up">
+      <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3 shadow-lg backdrop-blur-md flex items-center gap-3">
+        <WifiOff className="h-5 w-5 text-red-600 shrink-0" />
+        <p className="text-sm font-medium text-gray-800">
+          Live connection lost. Automatic retries are exhausted.
+        </p>
+        <button
+          onClick={reconnect}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-600 text-white text-xs font-bold hover:bg-red-700 transition-colors"
+        >
+          <RefreshCw className="h-3.5 w-3.5" /> Reconnect
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionBanner;
@@ -1,12 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Activity,
   Wind,
   MapPin,
   Clock,
   Shield,
-  Wifi,
-  WifiOff,
   Thermometer,
   Gauge,
   Navigation,
@@ -14,11 +12,28 @@ import {
 } from 'lucide-react';
 import CountUp from './CountUp';
 import { useAuth } from '../contexts/AuthContext';
-import { useRealtime } from '../contexts/RealtimeContext';
+import {
+  useRealtime,
+  useDeviceReading,
+  useReadingWindow,
+  useRollingStats,
+  useDeviceLiveness,
+  useAqiStandard,
+} from '../contexts/RealtimeContext';
+import { useForecast } from '../hooks/useForecast';
+import type { RollingStat } from '../types/RollingStats';
+import type { AggregateBucket, AggregateResolution } from '../types/HistoryAggregate';
+import Sparkline from './Sparkline';
 import VerifyEmailModal from './VerifyEmailModal';
+import LivenessBadge, { livenessLabel } from './LivenessBadge';
+import PlaybackLauncher from './PlaybackLauncher';
+import ReplayBanner from './ReplayBanner';
+import AqiStandardPicker from './AqiStandardPicker';
+import { POLLUTANT_LABELS, readingAQI } from '../lib/aqi';
 import {
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+  ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Brush,
 } from 'recharts';
+import type { DeviceForecast } from '../types/Forecast';
 
 interface SensorData {
   deviceId: string;
@@ -50,6 +65,8 @@ interface SensorData {
   mq135: {
     raw: number | null;
     volt: number | null;
+    corrected: number | null;
+    ppm: number | null;
   };
   timestamp: string;
 }
@@ -57,11 +74,103 @@ interface SensorData {
 
 import { API_BASE } from '../config';
 
-type HistoryPoint = { ts: number; co2: number | null; aqi: number | null; temp: number | null };
+// Card colours per AQI category level (0 = best … 5 = worst, either standard)
+const AQI_LEVEL_STYLES = [
+  { text: 'text-green-600', bg: 'bg-green-100' },
+  { text: 'text-lime-600', bg: 'bg-lime-100' },
+  { text: 'text-yellow-600', bg: 'bg-yellow-100' },
+  { text: 'text-orange-600', bg: 'bg-orange-100' },
+  { text: 'text-red-600', bg: 'bg-red-100' },
+  { text: 'text-purple-700', bg: 'bg-purple-100' },
+];
+const AQI_NO_DATA_STYLE = { text: 'text-gray-500', bg: 'bg-gray-100' };
+
+type HistoryPoint = {
+  ts: number;
+  co2: number | null;
+  co2P95: number | null;
+  aqi: number | null;
+  temp: number | null;
+  humidity: number | null;
+  // Nowcast steps only: central value and [lower, upper] band
+  co2Forecast?: number;
+  co2Band?: [number, number];
+  aqiForecast?: number;
+  aqiBand?: [number, number];
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const HISTORY_PRESETS = [
+  { id: '1h', label: '1h', ms: HOUR_MS },
+  { id: '6h', label: '6h', ms: 6 * HOUR_MS },
+  { id: '24h', label: '24h', ms: DAY_MS },
+  { id: '7d', label: '7d', ms: 7 * DAY_MS },
+  { id: '30d', label: '30d', ms: 30 * DAY_MS },
+  { id: '90d', label: '90d', ms: 90 * DAY_MS },
+  { id: '1y', label: '1y', ms: 365 * DAY_MS },
+] as const;
+type HistoryPresetId = typeof HISTORY_PRESETS[number]['id'];
+
+const RESOLUTION_MS: Record<AggregateResolution, number> = {
+  minute: 60 * 1000,
+  hour: HOUR_MS,
+  day: DAY_MS,
+};
+// Wait for the brush to settle before re-querying
+const BRUSH_DEBOUNCE_MS = 600;
+
+const toHistoryPoint = (b: AggregateBucket): HistoryPoint => ({
+  ts: b.ts,
+  co2: b.co2.mean,
+  co2P95: b.co2.p95,
+  aqi: b.aqi.mean,
+  temp: b.temp.mean,
+  humidity: b.humidity.mean,
+});
+
+// Nowcast steps appended after the last bucket of a range that ends now
+const toForecastPoints = (forecast: DeviceForecast): HistoryPoint[] => {
+  const co2 = forecast.metrics.co2?.points ?? [];
+  const aqi = forecast.metrics.aqi?.points ?? [];
+  const steps = co2.length ? co2 : aqi;
+  return steps.map((p, i) => ({
+    ts: new Date(p.ts).getTime(),
+    co2: null,
+    co2P95: null,
+    aqi: null,
+    temp: null,
+    humidity: null,
+    co2Forecast: co2[i]?.mean,
+    co2Band: co2[i] ? [co2[i].lower, co2[i].upper] : undefined,
+    aqiForecast: aqi[i]?.mean,
+    aqiBand: aqi[i] ? [aqi[i].lower, aqi[i].upper] : undefined,
+  }));
+};
+const FORECAST_HORIZON_MIN = 60;
+
+// Live window shown in the sensor tile sparklines
+const SPARK_WINDOW_MIN = 15;
+
+interface PendingLocationFix {
+  deviceId: string;
+  lat: number;
+  lng: number;
+  accuracyM: number | null;
+  takenAt: Date;
+  validFrom: Date;
+  validTo: Date;
+}
 
 const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiveView }) => {
   const { user, token } = useAuth();
-  const { latestReading, status } = useRealtime();
+  const { selectedDeviceId, replay } = useRealtime();
+  const latestReading = useDeviceReading(selectedDeviceId);
+  const liveWindow = useReadingWindow(selectedDeviceId, SPARK_WINDOW_MIN);
+  const liveStats = useRollingStats(selectedDeviceId, SPARK_WINDOW_MIN);
+  const liveness = useDeviceLiveness(selectedDeviceId);
+  const forecast = useForecast(selectedDeviceId, FORECAST_HORIZON_MIN);
+  const aqiStandard = useAqiStandard(selectedDeviceId);
 
   // Map LiveReading → SensorData so the rest of the component stays unchanged
   const liveData: SensorData | null = latestReading
@@ -98,6 +207,8 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
       mq135: {
         raw: latestReading.mq135?.raw ?? null,
         volt: latestReading.mq135?.volt ?? null,
+        corrected: latestReading.mq135?.corrected ?? null,
+        ppm: latestReading.mq135?.ppm ?? null,
       },
       timestamp: latestReading.timestamp,
     }
@@ -106,108 +217,211 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
   const [aqiValue, setAqiValue] = useState(0);
   const [co2Value, setCo2Value] = useState(0);
   const [isTransitioning, setIsTransitioning] = useState(false);
-  const [isOnline, setIsOnline] = useState(false);
   const [latestPhoneLocation, setLatestPhoneLocation] = useState<{ lat: number; lng: number } | null>(null);
+  // A phone fix an operator is about to record for the node, awaiting confirmation
+  const [pendingFix, setPendingFix] = useState<PendingLocationFix | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [fixStatus, setFixStatus] = useState<string | null>(null);
 
   // Email verification modal
   const [showVerifyModal, setShowVerifyModal] = useState(false);
   const [hideVerifyBanner, setHideVerifyBanner] = useState(false);
 
-  // 24-hour history chart
+  // History chart: a preset range, optionally narrowed by brush zoom
   const [historyData, setHistoryData] = useState<HistoryPoint[]>([]);
-  const [historyHours, setHistoryHours] = useState(24);
+  const [historyPreset, setHistoryPreset] = useState<HistoryPresetId>('24h');
+  const [historyZoom, setHistoryZoom] = useState<{ from: number; to: number } | null>(null);
+  const [historyRange, setHistoryRange] = useState<{ from: number; to: number } | null>(null);
+  const [historyResolution, setHistoryResolution] = useState<AggregateResolution>('minute');
   const [historyLoading, setHistoryLoading] = useState(false);
+  const brushTimerRef = useRef<number | null>(null);
 
-  const convertRawToAQI = (rawValue: number): number => {
-    const aqi = Math.floor((rawValue / 4095) * 500);
-    return Math.max(0, Math.min(500, aqi));
-  };
-
-  const getMQ135Status = (raw: number): string => {
-    if (raw <= 800) return 'Excellent';
-    if (raw <= 1500) return 'Good';
-    if (raw <= 2500) return 'Moderate';
-    return 'Poor';
+  const formatTrend = (stat: RollingStat | null, unit: string, decimals = 0): string => {
+    if (!stat || stat.count < 2) return 'Collecting live window…';
+    const arrow = stat.slopePerMin > 0 ? '↑' : stat.slopePerMin < 0 ? '↓' : '→';
+    return `${SPARK_WINDOW_MIN}m avg ${stat.mean.toFixed(decimals)}${unit} · ${stat.min.toFixed(decimals)}–${stat.max.toFixed(decimals)} · ${arrow} ${Math.abs(stat.slopePerMin).toFixed(1)}/min`;
   };
 
   const getTimeAgo = (timestamp: string): string => {
-    const now = new Date();
+    // During replay "now" is the replay clock
+    const now = replay?.clock ?? Date.now();
     const past = new Date(timestamp);
-    const diffInSeconds = Math.floor((now.getTime() - past.getTime()) / 1000);
+    const diffInSeconds = Math.floor((now - past.getTime()) / 1000);
 
     if (diffInSeconds < 60) return `${diffInSeconds} seconds ago`;
     if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)} minutes ago`;
     return `${Math.floor(diffInSeconds / 3600)} hours ago`;
   };
 
-  // Fetch historical readings for the chart
+  // Fetch server-side aggregates for the chart; the server picks a
+  // resolution that fits the range, so zooming in gets finer buckets
   useEffect(() => {
-    if (!token) return;
+    if (!token || !selectedDeviceId) return;
+    const preset = HISTORY_PRESETS.find(p => p.id === historyPreset)!;
+    const to = historyZoom?.to ?? Date.now();
+    const from = historyZoom?.from ?? to - preset.ms;
+    const params = new URLSearchParams({
+      deviceId: selectedDeviceId,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      resolution: 'auto',
+    });
+
     setHistoryLoading(true);
-    fetch(`${API_BASE}/api/readings/history?hours=${historyHours}&deviceId=ATMOSTRACK-01`, {
+    fetch(`${API_BASE}/api/readings/aggregate?${params}`, {
       headers: { Authorization: `Bearer ${token}` },
     })
       .then(r => r.json())
       .then(d => {
-        if (d.ok) setHistoryData(d.data);
+        if (!d.ok) return;
+        setHistoryData((d.data as AggregateBucket[]).map(toHistoryPoint));
+        setHistoryResolution(d.resolution);
+        setHistoryRange({ from, to });
       })
       .catch(() => { })
       .finally(() => setHistoryLoading(false));
-  }, [historyHours, token]);
+  }, [historyPreset, historyZoom, token, selectedDeviceId]);
 
-  // Drive online status from shared connection status
-  useEffect(() => {
-    setIsOnline(status === 'connected');
-  }, [status]);
+  useEffect(() => () => {
+    if (brushTimerRef.current !== null) window.clearTimeout(brushTimerRef.current);
+  }, []);
+
+  const selectHistoryPreset = (id: HistoryPresetId) => {
+    setHistoryPreset(id);
+    setHistoryZoom(null);
+  };
 
-  // Auto-request browser geolocation on mount (no button needed).
+  // The forecast band continues the chart only when the range ends now
+  const showForecast = !historyZoom && !!forecast && historyData.length > 0;
+  const chartData = showForecast ? [...historyData, ...toForecastPoints(forecast!)] : historyData;
+
+  // Brush selection → zoomed range, re-queried at a finer resolution
+  const handleHistoryBrush = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex == null || endIndex == null) return;
+    if (startIndex === 0 && endIndex === chartData.length - 1) return;
+    if (brushTimerRef.current !== null) window.clearTimeout(brushTimerRef.current);
+    brushTimerRef.current = window.setTimeout(() => {
+      // Forecast steps are not stored data: clamp the zoom to the last bucket
+      const start = historyData[Math.min(startIndex, historyData.length - 1)];
+      const end = historyData[Math.min(endIndex, historyData.length - 1)];
+      if (!start || !end) return;
+      setHistoryZoom({ from: start.ts, to: end.ts + RESOLUTION_MS[historyResolution] });
+    }, BRUSH_DEBOUNCE_MS);
+  };
+
+  const historySpan = historyRange ? historyRange.to - historyRange.from : DAY_MS;
+  const formatHistoryTick = (v: number) =>
+    historySpan > 2 * DAY_MS
+      ? new Date(v).toLocaleDateString([], { month: 'short', day: 'numeric' })
+      : new Date(v).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  // A connected socket is not enough: the node itself must still be reporting
+  const isOnline = liveness.state === 'online' || liveness.state === 'degraded';
+
+  // Show this browser's own position next to the node's.
   // First load: browser prompts for permission once.
   // Subsequent loads: uses cached localStorage coords immediately,
   // then re-fetches fresh coords in the background.
+  // Nothing is sent to the server from here.
   useEffect(() => {
-    const pushLocation = (lat: number, lng: number, deviceId: string) => {
+    const showLocation = (lat: number, lng: number) => {
       setLatestPhoneLocation({ lat, lng });
-      localStorage.setItem(
-        'atmostrack-phone-location',
-        JSON.stringify({ lat, lng, deviceId }),
-      );
-      fetch(`${API_BASE}/api/nodes/set-location`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          deviceId,
-          lat,
-          lng,
-          timestamp: new Date().toISOString(),
-        }),
-      }).catch(() => { });
+      localStorage.setItem('atmostrack-phone-location', JSON.stringify({ lat, lng }));
     };
 
-    const deviceId = 'ATMOSTRACK-01';
-
-    // Immediately restore cached location so the UI isn't empty
     const saved = localStorage.getItem('atmostrack-phone-location');
     if (saved) {
       try {
         const { lat, lng } = JSON.parse(saved);
-        pushLocation(lat, lng, deviceId);
+        if (typeof lat === 'number' && typeof lng === 'number') setLatestPhoneLocation({ lat, lng });
       } catch { /* ignore corrupt cache */ }
     }
 
-    // Then get a fresh GPS fix in the background
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
-        (pos) => pushLocation(pos.coords.latitude, pos.coords.longitude, deviceId),
+        (pos) => showLocation(pos.coords.latitude, pos.coords.longitude),
         (err) => console.warn('Geolocation unavailable:', err.message),
         { enableHighAccuracy: true, timeout: 15000 },
       );
     }
   }, []);
 
+  // Recording the phone fix as the node's location is an explicit operator
+  // action: take a fresh fix, show it with the range it will cover, then POST
+  // only once confirmed. The correction covers the local day of the fix.
+  const replaying = replay !== null;
+  const canCorrectLocation = user?.role === 'admin' || user?.role === 'operator';
+
+  // A different node (or replay) invalidates a fix waiting for confirmation
+  useEffect(() => {
+    setPendingFix(null);
+    setFixStatus(null);
+  }, [selectedDeviceId, replaying]);
+
+  const locateForCorrection = () => {
+    if (!selectedDeviceId || !navigator.geolocation) return;
+    const deviceId = selectedDeviceId;
+    setLocating(true);
+    setFixStatus(null);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setLocating(false);
+        const takenAt = new Date(pos.timestamp || Date.now());
+        const validFrom = new Date(takenAt);
+        validFrom.setHours(0, 0, 0, 0);
+        const validTo = new Date(takenAt);
+        validTo.setHours(23, 59, 59, 999);
+        setLatestPhoneLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+        setPendingFix({
+          deviceId,
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracyM: pos.coords.accuracy ?? null,
+          takenAt,
+          validFrom,
+          validTo,
+        });
+      },
+      (err) => {
+        setLocating(false);
+        setFixStatus(`Could not get a position: ${err.message}`);
+      },
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 },
+    );
+  };
+
+  const recordPendingFix = async () => {
+    if (!pendingFix || !token) return;
+    const fix = pendingFix;
+    setPendingFix(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/nodes/set-location`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          deviceId: fix.deviceId,
+          lat: fix.lat,
+          lng: fix.lng,
+          accuracyM: fix.accuracyM,
+          source: 'phone',
+          timestamp: fix.takenAt.toISOString(),
+          validFrom: fix.validFrom.toISOString(),
+          validTo: fix.validTo.toISOString(),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok || !body.success) throw new Error(body.error || 'Failed to record location');
+      setFixStatus(body.duplicate ? 'Same fix already recorded for this range' : `Location recorded for ${fix.deviceId}`);
+    } catch (err) {
+      setFixStatus(err instanceof Error ? err.message : 'Failed to record location');
+    }
+  };
+
   // Derived values from liveData
   // Treat co2 as absent when status is UNKNOWN (stale/test data)
   const validCo2 = liveData?.co2?.status && liveData.co2.status !== 'UNKNOWN' ? liveData.co2 : null;
-  const aqi = liveData?.mq135?.raw ? convertRawToAQI(liveData.mq135.raw) : 0;
+  const aqiResult = readingAQI(liveData, aqiStandard);
+  const aqi = aqiResult?.aqi ?? 0;
   const co2Ppm = validCo2?.ppm ?? 0;
   const lastUpdated = liveData ? getTimeAgo(liveData.timestamp) : 'No data';
   const healthAdvice =
@@ -227,26 +441,7 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
   }, [aqi, co2Ppm, liveData]);
 
   // Helper functions
-  const getAQIColor = (value: number) => {
-    if (value <= 50) return 'text-green-600';
-    if (value <= 100) return 'text-orange-600';
-    if (value <= 150) return 'text-red-600';
-    return 'text-purple-600';
-  };
-
-  const getAQIBg = (value: number) => {
-    if (value <= 50) return 'bg-green-100';
-    if (value <= 100) return 'bg-orange-100';
-    if (value <= 150) return 'bg-red-100';
-    return 'bg-purple-100';
-  };
-
-  const getAQILabel = (value: number) => {
-    if (value <= 50) return 'Good';
-    if (value <= 100) return 'Moderate';
-    if (value <= 150) return 'Unhealthy for Sensitive Groups';
-    return 'Unhealthy';
-  };
+  const aqiStyle = aqiResult ? AQI_LEVEL_STYLES[aqiResult.category.level] : AQI_NO_DATA_STYLE;
 
   const getCO2Color = (value: number) => {
     if (value <= 500) return 'text-green-600';
@@ -263,10 +458,6 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
   };
 
 
-
-  // Use liveData.deviceId as selected node
-  const selectedDeviceId = liveData?.deviceId ?? null;
-
   return (
     <div className="pt-16 min-h-screen bg-gradient-to-br from-cream-50 via-orange-50/40 to-amber-50 animate-fade-in">
 
@@ -283,24 +474,20 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
               </span>
             </h1>
             <p className="text-sm text-gray-500 mt-1">
-              Real-time multi-sensor monitoring · {selectedDeviceId ?? 'ATMOSTRACK-01'}
+              Real-time multi-sensor monitoring · {selectedDeviceId ?? 'No node selected'}
             </p>
           </div>
           <div className="flex items-center gap-3 flex-wrap">
-            <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-semibold border ${
-              isOnline
-                ? 'bg-emerald-50 border-emerald-200 text-emerald-700'
-                : 'bg-red-50 border-red-200 text-red-700'
-            }`}>
-              {isOnline ? <Wifi className="h-3.5 w-3.5" /> : <WifiOff className="h-3.5 w-3.5" />}
-              {isOnline ? 'Live · ESP32 Connected' : 'Offline'}
-            </div>
+            <PlaybackLauncher />
+            <LivenessBadge liveness={liveness} />
             <div className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white border border-cream-200 text-xs text-gray-500">
               <Clock className="h-3.5 w-3.5" /> Updated {lastUpdated}
             </div>
           </div>
         </div>
 
+        <ReplayBanner />
+
         {/* ── Email Verification Banner ───────────────────────────────── */}
         {!hideVerifyBanner && user && user.emailVerified === false && (
           <div className="bg-gradient-to-r from-amber-500 via-orange-500 to-rose-500 text-white px-5 py-3 rounded-2xl shadow-md flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -380,6 +567,35 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
                 <span className="font-mono">{latestPhoneLocation.lat.toFixed(5)}, {latestPhoneLocation.lng.toFixed(5)}</span>
               </div>
             )}
+            {canCorrectLocation && selectedDeviceId && !replaying && (
+              pendingFix ? (
+                <div className="text-[11px] text-gray-700 bg-amber-50 rounded-xl px-3 py-2 border border-amber-200 space-y-2">
+                  <p>
+                    Record <span className="font-mono">{pendingFix.lat.toFixed(5)}, {pendingFix.lng.toFixed(5)}</span>
+                    {pendingFix.accuracyM != null && <> (±{Math.round(pendingFix.accuracyM)} m)</>} as the location of{' '}
+                    <span className="font-semibold">{pendingFix.deviceId}</span> from{' '}
+                    {pendingFix.validFrom.toLocaleString()} to {pendingFix.validTo.toLocaleString()}?
+                  </p>
+                  <div className="flex gap-2">
+                    <button onClick={recordPendingFix} className="px-3 py-1 rounded-lg bg-orange-500 text-white font-bold hover:bg-orange-600 transition">
+                      Record
+                    </button>
+                    <button onClick={() => setPendingFix(null)} className="px-3 py-1 rounded-lg bg-white border border-cream-200 text-gray-600 hover:bg-cream-50 transition">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={locateForCorrection}
+                  disabled={locating}
+                  className="self-start px-3 py-1.5 rounded-xl bg-white border border-orange-200 text-orange-600 text-xs font-bold hover:bg-orange-50 transition disabled:opacity-50"
+                >
+                  {locating ? 'Getting position…' : 'Set node location from this device'}
+                </button>
+              )
+            )}
+            {fixStatus && <p className="text-[11px] text-gray-500">{fixStatus}</p>}
           </div>
         </div>
 
@@ -411,13 +627,17 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
                 <div className="text-[11px] text-gray-500 mt-1">Humidity</div>
               </div>
             </div>
+            <div className="mt-3">
+              <Sparkline values={liveWindow.map(r => r.environment?.temperature ?? null)} color="#06b6d4" />
+              <p className="text-[10px] text-gray-500 text-center">{formatTrend(liveStats.temperature, '°C', 1)}</p>
+            </div>
             <div className="mt-3 pt-3 border-t border-blue-100/60 text-[11px] text-gray-500 text-center">
               {isOnline ? '● Live environmental monitoring' : '○ Waiting for data...'}
             </div>
           </div>
 
           {/* MQ135 AQI */}
-          <div className={`${getAQIBg(aqi)} rounded-2xl p-6 border border-white/50 shadow-sm flex flex-col hover:shadow-md transition-shadow ${isTransitioning ? 'opacity-75' : ''}`}>
+          <div className={`${aqiStyle.bg} rounded-2xl p-6 border border-white/50 shadow-sm flex flex-col hover:shadow-md transition-shadow ${isTransitioning ? 'opacity-75' : ''}`}>
             <div className="flex items-center gap-2 mb-4">
               <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-orange-400 to-amber-500 flex items-center justify-center shadow">
                 <Wind className="h-5 w-5 text-white" />
@@ -428,13 +648,20 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
               </div>
             </div>
             <div className="flex-1 flex flex-col items-center justify-center py-2">
-              <div className={`text-5xl font-black transition-all duration-500 ${isOnline ? 'animate-pulse' : ''} ${getAQIColor(aqi)}`}>
+              <div className={`text-5xl font-black transition-all duration-500 ${isOnline ? 'animate-pulse' : ''} ${aqiStyle.text}`}>
                 <CountUp end={aqiValue} duration={1000} />
               </div>
-              <div className={`text-base font-semibold mt-2 ${getAQIColor(aqi)}`}>
-                {liveData?.mq135?.raw ? getMQ135Status(liveData.mq135.raw) : getAQILabel(aqi)}
+              <div className={`text-base font-semibold mt-2 ${aqiStyle.text}`}>
+                {aqiResult ? aqiResult.category.label : 'No data'}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                AQI{aqiResult ? ` · dominant ${POLLUTANT_LABELS[aqiResult.dominant]}` : ''}
               </div>
-              <div className="text-xs text-gray-500 mt-1">AQI</div>
+              <AqiStandardPicker deviceId={selectedDeviceId} className="mt-1" />
+            </div>
+            <div>
+              <Sparkline values={liveWindow.map(r => readingAQI(r, aqiStandard)?.aqi ?? null)} color="#f97316" />
+              <p className="text-[10px] text-gray-500 text-center">{formatTrend(liveStats.mq135Raw, ' raw')}</p>
             </div>
             {liveData?.mq135 && (
               <div className="mt-3 pt-3 border-t border-white/50 grid grid-cols-2 gap-2 text-[11px]">
@@ -446,6 +673,18 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
                   <span className="text-gray-500">Volt:</span>{' '}
                   <span className="font-bold text-orange-700">{liveData.mq135.volt?.toFixed(3)}V</span>
                 </div>
+                {liveData.mq135.corrected != null && (
+                  <div className="text-center" title="Temperature/humidity compensated count used for AQI">
+                    <span className="text-gray-500">Comp:</span>{' '}
+                    <span className="font-bold text-orange-700">{liveData.mq135.corrected}</span>
+                  </div>
+                )}
+                {liveData.mq135.ppm != null && (
+                  <div className="text-center" title="CO₂-equivalent estimate from the compensated Rs/R0">
+                    <span className="text-gray-500">≈</span>{' '}
+                    <span className="font-bold text-orange-700">{Math.round(liveData.mq135.ppm)} ppm</span>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -470,6 +709,10 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
               </div>
               <div className="text-xs text-gray-500 mt-1">ppm CO₂</div>
             </div>
+            <div>
+              <Sparkline values={liveWindow.map(r => r.co2?.ppm ?? null)} color="#3b82f6" />
+              <p className="text-[10px] text-gray-500 text-center">{formatTrend(liveStats.co2, ' ppm')}</p>
+            </div>
             {validCo2 && (
               <div className="mt-3 pt-3 border-t border-blue-100 text-[11px] text-gray-600 text-center leading-relaxed">
                 {validCo2.healthAdvice}
@@ -573,7 +816,7 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
             {liveData?.mq135 && (
               <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-orange-50 border border-orange-100 text-xs text-orange-800 font-medium">
                 <span className="w-2 h-2 rounded-full bg-orange-400 animate-pulse" />
-                MQ135: {getMQ135Status(liveData.mq135.raw ?? 0)} · AQI {convertRawToAQI(liveData.mq135.raw ?? 0)}
+                MQ135: {liveData.mq135.raw ?? '—'} raw · AQI {aqiResult ? `${aqiResult.aqi} (${aqiResult.category.label})` : '—'}
               </div>
             )}
             {liveData?.co2 && (
@@ -594,7 +837,7 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
                 : 'bg-gray-50 border-gray-200 text-gray-600'
             }`}>
               <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-400 animate-pulse' : 'bg-gray-300'}`} />
-              {isOnline ? 'ESP32 Active · All sensors online' : 'ESP32 Offline'}
+              {liveness.state === 'online' ? 'ESP32 Active · All sensors online' : livenessLabel(liveness)}
             </div>
           </div>
           <p className="text-[11px] text-gray-400 mt-2">{lastUpdated}</p>
@@ -605,22 +848,34 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-5">
             <div>
               <h2 className="text-lg font-bold text-gray-900">Historical Sensor Data</h2>
-              <p className="text-xs text-gray-500 mt-0.5">CO₂ · AQI · Temperature over time</p>
+              <p className="text-xs text-gray-500 mt-0.5">
+                CO₂ · AQI · Temperature · Humidity · {historyResolution} averages
+                {historyZoom && ' · zoomed'}
+                {showForecast && ` · shaded: next ${forecast!.horizonMinutes} min forecast`} · drag the brush to zoom
+              </p>
             </div>
-            <div className="flex gap-1.5">
-              {[1, 6, 24].map(h => (
+            <div className="flex gap-1.5 flex-wrap">
+              {HISTORY_PRESETS.map(p => (
                 <button
-                  key={h}
-                  onClick={() => setHistoryHours(h)}
+                  key={p.id}
+                  onClick={() => selectHistoryPreset(p.id)}
                   className={`px-3 py-1.5 rounded-xl text-xs font-semibold transition-all ${
-                    historyHours === h
+                    historyPreset === p.id && !historyZoom
                       ? 'bg-orange-500 text-white shadow-md'
                       : 'bg-white text-gray-600 border border-gray-200 hover:bg-orange-50'
                   }`}
                 >
-                  {h === 1 ? '1h' : h === 6 ? '6h' : '24h'}
+                  {p.label}
                 </button>
               ))}
+              {historyZoom && (
+                <button
+                  onClick={() => setHistoryZoom(null)}
+                  className="px-3 py-1.5 rounded-xl text-xs font-semibold bg-orange-100 text-orange-700 border border-orange-200 hover:bg-orange-200 transition-all"
+                >
+                  Reset zoom
+                </button>
+              )}
             </div>
           </div>
 
@@ -632,19 +887,24 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
           ) : historyData.length === 0 ? (
             <div className="h-56 flex flex-col items-center justify-center text-gray-400 gap-2">
               <Activity className="w-9 h-9 opacity-25" />
-              <p className="text-sm font-medium">No readings in the last {historyHours === 1 ? '1 hour' : `${historyHours} hours`}</p>
+              <p className="text-sm font-medium">No readings in this range</p>
               <p className="text-xs opacity-60">Connect your ESP32 sensor to start seeing data here.</p>
             </div>
           ) : (
             <ResponsiveContainer width="100%" height={280}>
-              <LineChart data={historyData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              {/* Remounted per range so the brush resets to the full new range */}
+              <ComposedChart
+                key={historyRange ? `${historyRange.from}-${historyRange.to}` : 'empty'}
+                data={chartData}
+                margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+              >
                 <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
                 <XAxis
                   dataKey="ts"
                   type="number"
                   domain={['dataMin', 'dataMax']}
                   scale="time"
-                  tickFormatter={(v) => new Date(v).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  tickFormatter={formatHistoryTick}
                   tick={{ fontSize: 11, fill: '#9ca3af' }}
                   minTickGap={40}
                 />
@@ -657,8 +917,27 @@ const Dashboard: React.FC<{ setActiveView?: (v: string) => void }> = ({ setActiv
                 <Legend wrapperStyle={{ fontSize: 12 }} />
                 <Line yAxisId="left" type="monotone" dataKey="co2" stroke="#3b82f6" strokeWidth={2} dot={false} name="CO₂ (ppm)" connectNulls />
                 <Line yAxisId="left" type="monotone" dataKey="aqi" stroke="#f97316" strokeWidth={2} dot={false} name="AQI" connectNulls />
+                <Line yAxisId="left" type="monotone" dataKey="co2P95" stroke="#93c5fd" strokeWidth={1} strokeDasharray="4 3" dot={false} name="CO₂ p95" connectNulls />
                 <Line yAxisId="right" type="monotone" dataKey="temp" stroke="#06b6d4" strokeWidth={2} dot={false} name="Temp (°C)" connectNulls />
-              </LineChart>
+                <Line yAxisId="right" type="monotone" dataKey="humidity" stroke="#8b5cf6" strokeWidth={2} dot={false} name="Humidity (%)" connectNulls />
+                {showForecast && (
+                  <>
+                    <Area yAxisId="left" type="monotone" dataKey="co2Band" stroke="none" fill="#3b82f6" fillOpacity={0.12} name="CO₂ forecast band" legendType="none" isAnimationActive={false} />
+                    <Line yAxisId="left" type="monotone" dataKey="co2Forecast" stroke="#3b82f6" strokeWidth={1.5} strokeDasharray="5 4" dot={false} name="CO₂ forecast" />
+                    <Area yAxisId="left" type="monotone" dataKey="aqiBand" stroke="none" fill="#f97316" fillOpacity={0.12} name="AQI forecast band" legendType="none" isAnimationActive={false} />
+                    <Line yAxisId="left" type="monotone" dataKey="aqiForecast" stroke="#f97316" strokeWidth={1.5} strokeDasharray="5 4" dot={false} name="AQI forecast" />
+                  </>
+                )}
+                {historyData.length > 2 && (
+                  <Brush
+                    dataKey="ts"
+                    height={22}
+                    stroke="#f97316"
+                    tickFormatter={formatHistoryTick}
+                    onChange={handleHistoryBrush}
+                  />
+                )}
+              </ComposedChart>
             </ResponsiveContainer>
           )}
         </div>
@@ -18,6 +18,8 @@ import {
 } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtime, useSocketEvent } from '../contexts/RealtimeContext';
+import { useZones } from '../hooks/useZones';
 import VerifyEmailModal from '../components/VerifyEmailModal';
 import { API_BASE } from '../config';
 
@@ -30,10 +32,16 @@ interface PreviewRow {
   dataHash?: string;
   anchorStatus?: 'PENDING' | 'ANCHORED';
   txHash?: string | null;
+  // Set on aggregated exports: values are bucket means
+  rollup?: { resolution: string; count: number };
 }
 
+type Granularity = 'raw' | 'minute' | 'hour' | 'day';
+
 const DataExport: React.FC = () => {
   const [dateRange, setDateRange] = useState('7days');
+  const [granularity, setGranularity] = useState<Granularity>('raw');
+  const [zoneId, setZoneId] = useState('');
   const [selectedMetrics, setSelectedMetrics] = useState(['aqi', 'voc', 'co2', 'location']);
   const [isExporting, setIsExporting] = useState(false);
   const [totalMatches, setTotalMatches] = useState<number | null>(null);
@@ -43,6 +51,8 @@ const DataExport: React.FC = () => {
   const [runUrl, setRunUrl] = useState<string | null>(null);
   const { showToast } = useToast();
   const { token, user } = useAuth();
+  const { selectedDeviceId } = useRealtime();
+  const { zones } = useZones();
 
   const [showVerifyModal, setShowVerifyModal] = useState(false);
   const [hasActiveSubscription, setHasActiveSubscription] = useState(false);
@@ -78,6 +88,20 @@ const DataExport: React.FC = () => {
     }
   };
 
+  // Preview rows and the verify modal pick up anchor results as they land
+  useSocketEvent('reading:anchored', (event) => {
+    setPreviewRows((rows) =>
+      rows.map((row) =>
+        row._id === event.id ? { ...row, anchorStatus: event.anchorStatus, txHash: event.txHash } : row,
+      ),
+    );
+    setVerifyResult((prev) =>
+      prev && prev.readingId === event.id
+        ? { ...prev, anchorStatus: event.anchorStatus, txHash: event.txHash }
+        : prev,
+    );
+  });
+
   useEffect(() => {
     if (user && token && user.emailVerified) {
       fetch(`${API_BASE}/api/exports/subscription`, {
@@ -113,6 +137,13 @@ const DataExport: React.FC = () => {
     { id: 'location', label: 'Location Data', icon: MapPin, color: 'text-blue-500' },
   ];
 
+  const granularityOptions: { value: Granularity; label: string }[] = [
+    { value: 'raw', label: 'Raw' },
+    { value: 'minute', label: 'Minute' },
+    { value: 'hour', label: 'Hour' },
+    { value: 'day', label: 'Day' },
+  ];
+
   const dateOptions = [
     { value: '24hours', label: 'Last 24 Hours', icon: '🕐' },
     { value: '7days', label: 'Last 7 Days', icon: '📅' },
@@ -147,6 +178,22 @@ const DataExport: React.FC = () => {
       setIsExporting(true);
       const { from, to } = getRange();
       const params = new URLSearchParams({ from, to, context: 'indoor' });
+      if (selectedDeviceId) params.set('deviceId', selectedDeviceId);
+      if (zoneId) params.set('zoneId', zoneId);
+      // Aggregated exports come from the per-device rollups
+      if (granularity !== 'raw') {
+        if (!selectedDeviceId) {
+          showToast('Select a node to export aggregated data.', 'error');
+          setIsExporting(false);
+          return;
+        }
+        if (zoneId) {
+          showToast('Zone filters apply to raw exports only.', 'error');
+          setIsExporting(false);
+          return;
+        }
+        params.set('resolution', granularity);
+      }
 
       // Step 1: Fetch the preview/count (JSON) with auth header
       const previewRes = await fetch(`${API_BASE}/api/exports/readings?${params.toString()}`, {
@@ -223,7 +270,8 @@ const DataExport: React.FC = () => {
       const body = {
         name: recipeName.trim(),
         questionText: '',
-        deviceId: 'ATMOSTRACK-01',
+        deviceId: selectedDeviceId,
+        zoneId: zoneId || null,
         context: 'indoor',
         timeRange: { from, to },
         fields: selectedFields(),
@@ -324,6 +372,9 @@ const DataExport: React.FC = () => {
             <p className="text-sm text-gray-500 mt-1 max-w-xl">
               Download sensor readings or schedule automated CSV reports delivered to your inbox.
             </p>
+            <p className="text-xs text-gray-400 mt-1">
+              Node: <span className="font-mono font-semibold text-gray-600">{selectedDeviceId ?? 'all nodes'}</span>
+            </p>
           </div>
         </div>
 
@@ -364,6 +415,37 @@ const DataExport: React.FC = () => {
                   </button>
                 ))}
               </div>
+              <div className="mt-4 flex items-center gap-2 flex-wrap">
+                <span className="text-xs font-semibold text-gray-500">Granularity</span>
+                {granularityOptions.map(opt => (
+                  <button
+                    key={opt.value}
+                    onClick={() => setGranularity(opt.value)}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all ${
+                      granularity === opt.value
+                        ? 'bg-orange-500 text-white border-orange-500 shadow-sm'
+                        : 'bg-white text-gray-600 border-gray-200 hover:bg-orange-50'
+                    }`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+              {zones.length > 0 && (
+                <div className="mt-3 flex items-center gap-2">
+                  <span className="text-xs font-semibold text-gray-500">Zone</span>
+                  <select
+                    value={zoneId}
+                    onChange={(e) => setZoneId(e.target.value)}
+                    className="flex-1 px-3 py-1 rounded-full text-xs font-semibold border border-gray-200 bg-white text-gray-600"
+                  >
+                    <option value="">All zones</option>
+                    {zones.map((zone) => (
+                      <option key={zone._id} value={zone._id}>{zone.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
             {/* Data Metrics */}
@@ -599,7 +681,9 @@ const DataExport: React.FC = () => {
                 <p className="text-sm text-gray-500">
                   {totalMatches === null
                     ? 'Run an export to see matching readings'
-                    : `${totalMatches} total readings matched · showing latest ${previewRows.length}`}
+                    : previewRows[0]?.rollup
+                      ? `${totalMatches} ${previewRows[0].rollup.resolution} buckets matched · showing latest ${previewRows.length}`
+                      : `${totalMatches} total readings matched · showing latest ${previewRows.length}`}
                 </p>
               </div>
             </div>
@@ -627,7 +711,11 @@ const DataExport: React.FC = () => {
                         <td className="py-2.5 px-3 text-gray-600">{row.environment?.temperature ?? '—'}</td>
                         <td className="py-2.5 px-3 text-gray-600">{row.environment?.humidity ?? '—'}</td>
                         <td className="py-2.5 px-3">
-                          {row.dataHash ? (
+                          {row.rollup ? (
+                            <span className="text-[10px] font-semibold text-gray-400">
+                              Mean of {row.rollup.count} readings
+                            </span>
+                          ) : row.dataHash ? (
                             <div className="flex flex-col gap-0.5">
                               <div className="flex items-center gap-1">
                                 {row.anchorStatus === 'ANCHORED' ? (
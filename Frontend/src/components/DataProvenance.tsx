@@ -15,9 +15,11 @@ import {
   ChevronDown,
   ChevronUp,
   Activity,
+  MapPin,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
+import { useSocketEvent } from '../contexts/RealtimeContext';
 import { API_BASE } from '../config';
 import { View } from '../types';
 
@@ -34,6 +36,21 @@ type Provenance = {
     recomputedHash: string;
     intact: boolean | null;
     verdict: 'INTACT' | 'TAMPERED' | 'NO_HASH';
+    hashVersion: number;
+    migration: {
+      fromVersion: number;
+      legacyHash: string | null;
+      legacyVerdict: 'INTACT' | 'TAMPERED' | 'NO_HASH';
+      migratedAt: string;
+    } | null;
+    // Oldest first
+    recalibrations: {
+      fromVersion: number | null;
+      toVersion: number;
+      previousHash: string | null;
+      previousTxHash: string | null;
+      reprocessedAt: string;
+    }[];
   };
   blockchain: {
     anchorStatus: string;
@@ -50,6 +67,30 @@ type Provenance = {
   } | null;
   aiClassification: { label: string; confidence: number; overriddenByHeuristic?: boolean } | null;
   emissions: { estimatedCO2eqKg: number; method: string } | null;
+  location: {
+    stored: LatLng;
+    effective: LatLng;
+    // Newest first; the first one is applied
+    corrections: LocationCorrectionEntry[];
+  };
+};
+
+type LatLng = { lat: number | null; lng: number | null };
+
+type LocationCorrectionEntry = {
+  id: string;
+  lat: number;
+  lng: number;
+  validFrom: string;
+  validTo: string;
+  source: 'phone' | 'manual';
+  accuracyM: number | null;
+  correctedBy: string;
+  correctedByName: string;
+  createdAt: string;
+  signature: string;
+  signatureValid: boolean;
+  applied: boolean;
 };
 
 type LedgerEntry = {
@@ -57,6 +98,7 @@ type LedgerEntry = {
   deviceId: string;
   timestamp: string;
   dataHash: string | null;
+  hashVersion?: number;
   anchorStatus: string;
   sourceClassification: { label: string; confidence: number } | null;
 };
@@ -68,6 +110,17 @@ function shortHash(h: string | null) {
   return h.slice(0, 10) + '…' + h.slice(-10);
 }
 
+function formatLatLng({ lat, lng }: LatLng) {
+  if (lat === null || lng === null) return '—';
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+// Readings stored before hash versioning have no hashVersion and use v1
+function hashVersionLabel(v?: number) {
+  const version = v ?? 1;
+  return version === 1 ? 'v1 (legacy)' : `v${version} (canonical)`;
+}
+
 // ------------------------------------------------------------------
 // Sub-components
 // ------------------------------------------------------------------
@@ -163,6 +216,36 @@ const ProvenanceDashboard = ({ setActiveView }: { setActiveView: (v: View) => vo
     return () => clearInterval(interval);
   }, [token]);
 
+  // Anchor and mint results are pushed live — no re-verify needed
+  useSocketEvent('reading:anchored', (event) => {
+    setLedger((rows) =>
+      rows.map((row) => (row._id === event.id ? { ...row, anchorStatus: event.anchorStatus } : row)),
+    );
+    setStats((prev) => ({ ...prev, activeAnchors: prev.activeAnchors + 1 }));
+    setTraceResult((prev) =>
+      prev && prev.readingId === event.id
+        ? { ...prev, blockchain: { ...prev.blockchain, anchorStatus: event.anchorStatus, txHash: event.txHash } }
+        : prev,
+    );
+  });
+
+  useSocketEvent('batch:updated', (event) => {
+    setTraceResult((prev) =>
+      prev?.carbonCredit && prev.carbonCredit.batchId === event.batchId
+        ? {
+            ...prev,
+            carbonCredit: {
+              ...prev.carbonCredit,
+              dhiHours: event.dhiHours,
+              tokens: event.tokens,
+              status: event.status,
+              mintTxHash: event.txHash,
+            },
+          }
+        : prev,
+    );
+  });
+
   const loadTrace = async (id: string) => {
     if (!id.trim()) return;
     setTraceLoading(true);
@@ -279,6 +362,11 @@ const ProvenanceDashboard = ({ setActiveView }: { setActiveView: (v: View) => vo
                           </td>
                           <td className="px-5 py-3 text-xs font-mono text-slate-500">
                              {shortHash(row.dataHash)}
+                             {row.dataHash && (
+                               <span className={`ml-2 px-1.5 py-0.5 rounded text-[9px] font-bold ${(row.hashVersion ?? 1) === 1 ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-600'}`}>
+                                 v{row.hashVersion ?? 1}
+                               </span>
+                             )}
                           </td>
                           <td className="px-5 py-3 whitespace-nowrap">
                              {row.sourceClassification ? (
@@ -354,8 +442,62 @@ const ProvenanceDashboard = ({ setActiveView }: { setActiveView: (v: View) => vo
                              {traceResult.integrity.recomputedHash && <Copy onClick={() => copy(traceResult.integrity.recomputedHash!)} className="w-3.5 h-3.5 text-slate-400 hover:text-slate-700 cursor-pointer"/>}
                           </span>
                       } />
+                      <Row label="Hash Version" value={hashVersionLabel(traceResult.integrity.hashVersion)} />
+                      {traceResult.integrity.migration && (
+                        <>
+                          <Row label="Legacy Hash" mono value={shortHash(traceResult.integrity.migration.legacyHash)} />
+                          <Row label="Legacy Verdict" value={
+                            <StatusPill ok={traceResult.integrity.migration.legacyVerdict === 'INTACT'} label={traceResult.integrity.migration.legacyVerdict} />
+                          } />
+                          <Row label="Re-hashed" value={new Date(traceResult.integrity.migration.migratedAt).toLocaleString()} />
+                        </>
+                      )}
+                      {traceResult.integrity.recalibrations?.map((r, i) => (
+                        <Row
+                          key={i}
+                          label={`Recalibrated v${r.fromVersion ?? '—'} → v${r.toVersion}`}
+                          mono
+                          value={
+                            <span title={new Date(r.reprocessedAt).toLocaleString()}>
+                              was {shortHash(r.previousHash)}
+                              {r.previousTxHash && (
+                                <a href={`${POLY_AMOY_EXPLORER}${r.previousTxHash}`} target="_blank" rel="noreferrer" className="ml-2 text-violet-600 hover:underline">
+                                  anchored
+                                </a>
+                              )}
+                            </span>
+                          }
+                        />
+                      ))}
                    </Section>
 
+                   {traceResult.location && (
+                     <Section icon={MapPin} title="Location Corrections" color="bg-sky-500" defaultOpen={traceResult.location.corrections.length > 0}>
+                       <Row label="Stored Position" mono value={formatLatLng(traceResult.location.stored)} />
+                       <Row label="Effective Position" mono value={formatLatLng(traceResult.location.effective)} />
+                       {traceResult.location.corrections.length === 0 ? (
+                         <p className="text-xs text-gray-400 italic">No corrections cover this reading.</p>
+                       ) : traceResult.location.corrections.map((c) => (
+                         <div key={c.id} className={`rounded-xl border p-3 space-y-2 ${c.applied ? 'border-sky-200 bg-sky-50/40' : 'border-slate-100'}`}>
+                           <div className="flex items-center justify-between gap-2">
+                             <span className="text-xs font-mono text-slate-700">
+                               {formatLatLng(c)}
+                               {c.accuracyM !== null && <span className="text-slate-400"> ±{Math.round(c.accuracyM)} m</span>}
+                             </span>
+                             {c.applied
+                               ? <span className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-sky-100 text-sky-700">APPLIED</span>
+                               : <span className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-slate-100 text-slate-500">SUPERSEDED</span>}
+                           </div>
+                           <Row label="Window" value={`${new Date(c.validFrom).toLocaleString()} – ${new Date(c.validTo).toLocaleString()}`} />
+                           <Row label="Source" value={c.source === 'phone' ? 'Phone GPS' : 'Manual'} />
+                           <Row label="Corrected By" value={`${c.correctedByName || c.correctedBy} · ${new Date(c.createdAt).toLocaleString()}`} />
+                           <Row label="Signature" mono value={shortHash(c.signature)} />
+                           <Row label="Verified" value={<StatusPill ok={c.signatureValid} label={c.signatureValid ? 'SIGNED' : 'INVALID'} />} />
+                         </div>
+                       ))}
+                     </Section>
+                   )}
+
                    <Section icon={Link} title="Blockchain Anchor" color="bg-violet-500" defaultOpen={false}>
                      <Row label="Network" value={traceResult.blockchain.network} />
                      <Row label="Tx Hash" mono value={traceResult.blockchain.txHash ? (
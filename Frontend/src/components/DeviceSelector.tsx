@@ -0,0 +1,47 @@
+import React from 'react';
+import { Radio } from 'lucide-react';
+import { useRealtime } from '../contexts/RealtimeContext';
+
+interface DeviceSelectorProps {
+  className?: string;
+}
+
+// Global node switcher. Lists the devices from /api/devices (refreshed when
+// the picker is focused) plus any the page already streams, and drives the
+// context's selectedDeviceId. It joins no socket rooms itself: only the
+// devices actually on screen are streamed.
+const DeviceSelector: React.FC<DeviceSelectorProps> = ({ className = '' }) => {
+  const { devices, deviceList, refreshDevices, selectedDeviceId, selectDevice, replay } = useRealtime();
+
+  const offline = new Set(deviceList.filter((d) => !d.online).map((d) => d.deviceId));
+  const options = Array.from(
+    new Set([...deviceList.map((d) => d.deviceId), ...devices.keys()]),
+  ).sort();
+  if (selectedDeviceId && !options.includes(selectedDeviceId)) {
+    options.unshift(selectedDeviceId);
+  }
+
+  // The replayed node is fixed until the replay ends
+  const locked = replay !== null;
+
+  return (
+    <label className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/90 border border-orange-200 text-xs font-semibold text-gray-700 shadow-sm ${className}`}>
+      <Radio className="h-3.5 w-3.5 text-orange-500" />
+      <span className="text-gray-500">Node</span>
+      <select
+        value={selectedDeviceId ?? ''}
+        onChange={(e) => selectDevice(e.target.value)}
+        onFocus={() => refreshDevices()}
+        disabled={options.length === 0 || locked}
+        className="bg-transparent font-mono text-orange-700 focus:outline-none cursor-pointer disabled:cursor-default"
+      >
+        {options.length === 0 && <option value="">Waiting for nodes…</option>}
+        {options.map((id) => (
+          <option key={id} value={id}>{offline.has(id) ? `${id} (offline)` : id}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default DeviceSelector;
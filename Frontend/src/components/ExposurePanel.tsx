@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { HardHat, Download, Settings, Save, X } from 'lucide-react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import type { DailyExposure } from '../types/Exposure';
+import { API_BASE } from '../config';
+
+interface ExposurePanelProps {
+  deviceId: string | null;
+}
+
+const todayUtc = () => new Date().toISOString().slice(0, 10);
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Occupational CO₂ dose for one device and UTC day: rolling 8 h TWA and
+// 15 min STEL against the site's limits, with a per-minute CSV record.
+const ExposurePanel: React.FC<ExposurePanelProps> = ({ deviceId }) => {
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const [date, setDate] = useState(todayUtc);
+  const [exposure, setExposure] = useState<DailyExposure | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [limitsDraft, setLimitsDraft] = useState<{ twa8hPpm: string; stel15minPpm: string } | null>(null);
+
+  const isAdmin = user?.role === 'admin';
+
+  const fetchExposure = async () => {
+    if (!token || !deviceId) return;
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `${API_BASE}/api/exposure/${encodeURIComponent(deviceId)}?date=${date}`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      const data = await res.json();
+      if (res.ok && data.ok) setExposure(data.exposure);
+      else setExposure(null);
+    } catch (err) {
+      console.error('Exposure load failed:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExposure();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, deviceId, date]);
+
+  const downloadRecord = async () => {
+    if (!deviceId) return;
+    try {
+      const res = await fetch(
+        `${API_BASE}/api/exposure/${encodeURIComponent(deviceId)}/record?date=${date}`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      if (!res.ok) {
+        showToast('Exposure record download failed', 'error');
+        return;
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `atmostrack-exposure-${deviceId}-${date}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      showToast('Exposure record download failed', 'error');
+    }
+  };
+
+  const saveLimits = async () => {
+    if (!deviceId || !limitsDraft) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/admin/nodes/${encodeURIComponent(deviceId)}/exposure-limits`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          twa8hPpm: Number(limitsDraft.twa8hPpm),
+          stel15minPpm: Number(limitsDraft.stel15minPpm),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) {
+        showToast(data.error || 'Failed to save exposure limits', 'error');
+        return;
+      }
+      setLimitsDraft(null);
+      fetchExposure();
+    } catch {
+      showToast('Failed to save exposure limits', 'error');
+    }
+  };
+
+  const limits = exposure?.limits;
+  const tiles = exposure && limits
+    ? [
+      {
+        label: 'Max 8 h TWA',
+        value: exposure.maxTwa8h ? `${exposure.maxTwa8h.ppm} ppm` : '—',
+        detail: `limit ${limits.twa8hPpm} ppm${exposure.maxTwa8h ? ` · ${formatTime(exposure.maxTwa8h.at)}` : ''}`,
+        over: exposure.twaExceeded,
+      },
+      {
+        label: 'Max 15 min STEL',
+        value: exposure.maxStel15min ? `${exposure.maxStel15min.ppm} ppm` : '—',
+        detail: `limit ${limits.stel15minPpm} ppm${exposure.maxStel15min ? ` · ${formatTime(exposure.maxStel15min.at)}` : ''}`,
+        over: exposure.stelExceeded,
+      },
+      {
+        label: 'Peak reading',
+        value: exposure.peakPpm != null ? `${exposure.peakPpm} ppm` : '—',
+        detail: `${exposure.stelExcursions.length} STEL excursion${exposure.stelExcursions.length === 1 ? '' : 's'}`,
+        over: false,
+      },
+      {
+        label: 'Coverage',
+        value: `${Math.round(exposure.coverage * 100)}%`,
+        detail: 'of the day with readings',
+        over: false,
+      },
+    ]
+    : [];
+
+  const inputClass = 'mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-orange-300';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-2xl p-6 shadow-lg border border-gray-200">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center">
+          <div className="w-12 h-12 rounded-xl flex items-center justify-center bg-gradient-to-r from-amber-500 to-orange-600">
+            <HardHat className="h-6 w-6 text-white" />
+          </div>
+          <div className="ml-4">
+            <h3 className="text-xl font-semibold text-gray-800">Daily CO₂ Exposure</h3>
+            <p className="text-xs text-gray-500">Rolling 8 h time-weighted average and 15 min short-term level (UTC day).</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={date}
+            max={todayUtc()}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="rounded-lg border border-gray-200 px-3 py-1.5 text-xs"
+          />
+          {isAdmin && limits && !limitsDraft && (
+            <button
+              title="Exposure limits"
+              onClick={() => setLimitsDraft({ twa8hPpm: String(limits.twa8hPpm), stel15minPpm: String(limits.stel15minPpm) })}
+              className="p-2 rounded-lg border border-gray-200 text-gray-500 hover:text-orange-600"
+            >
+              <Settings className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={downloadRecord}
+            disabled={!exposure}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-900 text-white text-xs font-semibold hover:bg-gray-800 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" /> Exposure record
+          </button>
+        </div>
+      </div>
+
+      {limitsDraft && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); saveLimits(); }}
+          className="mb-4 p-4 rounded-xl bg-orange-50/60 border border-orange-100 grid grid-cols-2 md:grid-cols-4 gap-3 items-end"
+        >
+          <label>
+            <span className="text-xs text-gray-500">8 h TWA limit (ppm)</span>
+            <input required inputMode="numeric" value={limitsDraft.twa8hPpm} onChange={(e) => setLimitsDraft({ ...limitsDraft, twa8hPpm: e.target.value })} className={inputClass} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-500">15 min STEL limit (ppm)</span>
+            <input required inputMode="numeric" value={limitsDraft.stel15minPpm} onChange={(e) => setLimitsDraft({ ...limitsDraft, stel15minPpm: e.target.value })} className={inputClass} />
+          </label>
+          <div className="col-span-2 flex justify-end gap-2">
+            <button type="button" onClick={() => setLimitsDraft(null)} className="inline-flex items-center gap-1 px-3 py-2 rounded-lg border border-gray-200 text-xs font-semibold text-gray-600">
+              <X className="h-3.5 w-3.5" /> Cancel
+            </button>
+            <button type="submit" className="inline-flex items-center gap-1 px-3 py-2 rounded-lg bg-orange-500 text-white text-xs font-semibold">
+              <Save className="h-3.5 w-3.5" /> Save limits
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!exposure ? (
+        <p className="text-sm text-gray-500">{loading ? 'Computing exposure…' : 'No exposure data for this day.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            {tiles.map((tile) => (
+              <div
+                key={tile.label}
+                className={`p-3 rounded-xl border ${tile.over ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-100'}`}
+              >
+                <div className="text-xs text-gray-500">{tile.label}</div>
+                <div className={`text-lg font-bold ${tile.over ? 'text-red-700' : 'text-gray-800'}`}>{tile.value}</div>
+                <div className="text-[11px] text-gray-400">{tile.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={exposure.series} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+              <XAxis dataKey="ts" tickFormatter={formatTime} tick={{ fontSize: 11, fill: '#9ca3af' }} minTickGap={40} />
+              <YAxis tick={{ fontSize: 11, fill: '#9ca3af' }} />
+              <Tooltip
+                labelFormatter={(v) => new Date(v as string).toLocaleString()}
+                contentStyle={{ borderRadius: '12px', border: '1px solid #e5e7eb', fontSize: 12, boxShadow: '0 4px 20px rgba(0,0,0,0.08)' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <ReferenceLine y={exposure.limits.twa8hPpm} stroke="#ef4444" strokeDasharray="4 3" label={{ value: 'TWA limit', fontSize: 10, fill: '#ef4444' }} />
+              <Line type="monotone" dataKey="stel15min" stroke="#f97316" strokeWidth={1.5} dot={false} name="15 min STEL (ppm)" connectNulls />
+              <Line type="monotone" dataKey="twa8h" stroke="#3b82f6" strokeWidth={2} dot={false} name="8 h TWA (ppm)" connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+
+          {exposure.stelExcursions.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {exposure.stelExcursions.map((ex) => (
+                <li key={ex.from} className="text-xs text-red-700">
+                  STEL above {exposure.limits.stel15minPpm} ppm {formatTime(ex.from)}–{formatTime(ex.to)} ({ex.minutes} min, peak {ex.peakPpm} ppm)
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExposurePanel;
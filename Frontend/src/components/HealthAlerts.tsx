@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   AlertTriangle,
   Shield,
@@ -12,8 +12,32 @@ import {
   Home,
   Wifi,
   WifiOff,
+  TrendingUp,
 } from 'lucide-react';
-import { useRealtime } from '../contexts/RealtimeContext';
+import {
+  useRealtime,
+  useDeviceReading,
+  useReadingWindow,
+  useAqiStandard,
+} from '../contexts/RealtimeContext';
+import { useForecast } from '../hooks/useForecast';
+import ReplayBanner from './ReplayBanner';
+import AlertRuleEditor from './AlertRuleEditor';
+import IncidentLog from './IncidentLog';
+import ExposurePanel from './ExposurePanel';
+import {
+  AQI_STANDARDS,
+  FALLBACK_AQI,
+  POLLUTANT_LABELS,
+  aqiCategory,
+  readingAQI,
+} from '../lib/aqi';
+import { HEALTH_PROFILES, healthProfileFor, healthRiskLevel } from '../lib/healthProfiles';
+import { firstExceedance } from '../lib/forecast';
+import { showLocalNotification } from '../lib/push';
+import { useAuth } from '../contexts/AuthContext';
+import type { AqiCategory } from '../types/Aqi';
+import type { HealthRiskLevel } from '../types/HealthProfile';
 
 // 🔥 Backend sensor data interface (matches Node backend)
 interface SensorData {
@@ -69,7 +93,9 @@ interface LocationHealthData {
   name: string;
   aqi: number;
   co2: number;
-  riskLevel: 'safe' | 'moderate' | 'high' | 'very_unhealthy' | 'hazardous';
+  riskLevel: HealthRiskLevel;
+  // Risk the same readings carry for the general population
+  generalRiskLevel?: HealthRiskLevel;
   description: string;
   recommendations: string[];
   activityAdvice: string;
@@ -82,159 +108,198 @@ interface LocationHealthData {
   medicalBasis: string;
 }
 
+// General-population advice per risk level; sensitivity profiles
+// (lib/healthProfiles.ts) replace the recommendations and activity text
+const GENERAL_ADVICE: Record<
+  HealthRiskLevel,
+  Pick<LocationHealthData, 'medicalBasis' | 'recommendations' | 'activityAdvice' | 'gradient'>
+> = {
+  hazardous: {
+    medicalBasis: 'WHO Emergency Protocol - Immediate evacuation required',
+    recommendations: [
+      '🚨 EVACUATE IMMEDIATELY - Life-threatening conditions',
+      'Seek immediate medical attention if experiencing symptoms',
+      'Stay indoors with air purification systems',
+      'Emergency services should be contacted',
+    ],
+    activityAdvice:
+      '❌ NO OUTDOOR ACTIVITIES - Emergency evacuation recommended',
+    gradient: 'from-purple-600 to-red-600',
+  },
+  very_unhealthy: {
+    medicalBasis:
+      'EPA Air Quality Guidelines - Serious health effects for everyone',
+    recommendations: [
+      '⚠️ STAY INDOORS - Serious health effects for everyone',
+      'Use air purifiers and keep windows closed',
+      'Avoid all outdoor physical activities',
+      'Sensitive individuals should consider medical consultation',
+    ],
+    activityAdvice:
+      '🚫 AVOID ALL OUTDOOR ACTIVITIES - Indoor air filtration recommended',
+    gradient: 'from-red-600 to-orange-600',
+  },
+  high: {
+    medicalBasis:
+      'WHO 15-minute guideline - Short-term exposure health effects',
+    recommendations: [
+      'AVOID OUTDOOR ACTIVITIES - Health effects for everyone',
+      'Use protective masks if must go outside',
+      'Indoor activities strongly recommended',
+      'Children and elderly should stay indoors',
+    ],
+    activityAdvice:
+      '⛔ INDOOR ACTIVITIES ONLY - No outdoor exercise recommended',
+    gradient: 'from-red-400 to-orange-500',
+  },
+  moderate: {
+    medicalBasis:
+      'EPA 30-minute standard - Sensitive population effects',
+    recommendations: [
+      'Sensitive Groups Limit Exposure - Children, elderly, respiratory conditions',
+      'Reduce prolonged outdoor activities',
+      'Consider indoor alternatives for exercise',
+      'Monitor symptoms and seek medical advice if needed',
+    ],
+    activityAdvice:
+      '⚡ LIMITED OUTDOOR ACTIVITIES - Short exposure acceptable with precautions',
+    gradient: 'from-orange-400 to-yellow-500',
+  },
+  safe: {
+    medicalBasis: 'WHO/EPA standards - No health concerns',
+    recommendations: [
+      'Excellent Condition - Ideal for all outdoor activities',
+      'Perfect for sports, exercise, and recreation',
+      'Safe for sensitive individuals including children',
+      'Optimal conditions for cardiovascular activities',
+    ],
+    activityAdvice:
+      '✅ ALL ACTIVITIES RECOMMENDED - Perfect conditions for exercise and outdoor recreation',
+    gradient: 'from-green-400 to-green-500',
+  },
+};
+
+const RISK_ORDER: HealthRiskLevel[] = ['safe', 'moderate', 'high', 'very_unhealthy', 'hazardous'];
+const FORECAST_HORIZON_MIN = 60;
+
 const HealthAlerts: React.FC = () => {
   // pinned for now – logic uses GPS to decide UI text
   const [selectedLocation] = useState('vizianagaram-live');
   const [isTransitioning, setIsTransitioning] = useState(false);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
-  const [secondsUntilNext, setSecondsUntilNext] = useState<number>(5);
+  const [now, setNow] = useState(() => Date.now());
 
   // ── Use shared app-level WebSocket — no separate socket created here ──
-  const { latestReading, status } = useRealtime();
+  const { status, selectedDeviceId, replay } = useRealtime();
+  const latestReading = useDeviceReading(selectedDeviceId);
   const isOnline = status === 'connected';
 
+  // Thresholds and advice follow the signed-in user's sensitivity profile
+  const { user } = useAuth();
+  const healthProfile = healthProfileFor(user?.healthProfile);
+
   // Map shared LiveReading → local SensorData shape
   const liveData: SensorData | null = latestReading
     ? (latestReading as unknown as SensorData)
     : null;
 
-  // Update lastUpdate timestamp whenever a new reading arrives
-  useEffect(() => {
-    if (latestReading) {
-      setLastUpdate(new Date());
-      setSecondsUntilNext(5);
-    }
-  }, [latestReading]);
-
-  const convertRawToAQI = (rawValue: number): number => {
-    try {
-      const aqi = Math.floor((rawValue / 4095) * 500);
-      return Math.max(0, Math.min(500, aqi));
-    } catch {
-      return 75;
-    }
-  };
-
-  const convertRawToCO2 = (rawValue: number): number => {
-    try {
-      let baseCO2: number;
-      if (rawValue <= 800) {
-        baseCO2 = 400 + ((rawValue - 300) / 500) * 100;
-      } else if (rawValue <= 2000) {
-        baseCO2 = 500 + ((rawValue - 800) / 1200) * 300;
-      } else {
-        baseCO2 = 800 + ((rawValue - 2000) / 2000) * 400;
-      }
-      return Math.max(350, Math.min(1200, Math.floor(baseCO2)));
-    } catch {
-      return 420;
-    }
-  };
+  // Breakpoint AQI under the site's standard; risk levels follow its category
+  const aqiStandard = useAqiStandard(selectedDeviceId);
+  const liveAqi = readingAQI(latestReading, aqiStandard);
+  const liveAqiValue = liveAqi?.aqi ?? FALLBACK_AQI;
+  const liveCategory = liveAqi?.category ?? aqiCategory(FALLBACK_AQI, aqiStandard);
+
+  // Observed cadence from the live window drives the "next update" countdown
+  const recentReadings = useReadingWindow(selectedDeviceId, 5);
+  const cadenceSeconds =
+    recentReadings.length >= 2
+      ? (new Date(recentReadings[recentReadings.length - 1].timestamp).getTime() -
+        new Date(recentReadings[0].timestamp).getTime()) /
+      1000 /
+      (recentReadings.length - 1)
+      : 5;
+  // During replay the countdown follows the replay clock
+  const clockNow = replay?.clock ?? now;
+  const lastUpdate = latestReading ? new Date(latestReading.timestamp) : new Date(clockNow);
+  const secondsUntilNext = Math.max(
+    0,
+    Math.ceil(cadenceSeconds - (clockNow - lastUpdate.getTime()) / 1000),
+  );
 
   // 🔥 5-SECOND UPDATES: Smart health alert timing
   const getHealthProfile = (
-    aqi: number,
+    category: AqiCategory,
     co2: number,
     isLive: boolean = false
   ): Partial<LocationHealthData> => {
-    if (aqi > 300 || co2 > 5000) {
-      return {
-        riskLevel: 'hazardous',
-        updateInterval: 5 * 1000,
-        medicalBasis: 'WHO Emergency Protocol - Immediate evacuation required',
-        recommendations: [
-          '🚨 EVACUATE IMMEDIATELY - Life-threatening conditions',
-          'Seek immediate medical attention if experiencing symptoms',
-          'Stay indoors with air purification systems',
-          'Emergency services should be contacted',
-        ],
-        activityAdvice:
-          '❌ NO OUTDOOR ACTIVITIES - Emergency evacuation recommended',
-        gradient: 'from-purple-600 to-red-600',
-      };
-    } else if (aqi > 200 || co2 > 3000) {
-      return {
-        riskLevel: 'very_unhealthy',
-        updateInterval: 5 * 1000,
-        medicalBasis:
-          'EPA Air Quality Guidelines - Serious health effects for everyone',
-        recommendations: [
-          '⚠️ STAY INDOORS - Serious health effects for everyone',
-          'Use air purifiers and keep windows closed',
-          'Avoid all outdoor physical activities',
-          'Sensitive individuals should consider medical consultation',
-        ],
-        activityAdvice:
-          '🚫 AVOID ALL OUTDOOR ACTIVITIES - Indoor air filtration recommended',
-        gradient: 'from-red-600 to-orange-600',
-      };
-    } else if (aqi > 150 || co2 > 1500) {
-      return {
-        riskLevel: 'high',
-        updateInterval: 5 * 1000,
-        medicalBasis:
-          'WHO 15-minute guideline - Short-term exposure health effects',
-        recommendations: [
-          'AVOID OUTDOOR ACTIVITIES - Health effects for everyone',
-          'Use protective masks if must go outside',
-          'Indoor activities strongly recommended',
-          'Children and elderly should stay indoors',
-        ],
-        activityAdvice:
-          '⛔ INDOOR ACTIVITIES ONLY - No outdoor exercise recommended',
-        gradient: 'from-red-400 to-orange-500',
-      };
-    } else if (aqi > 100 || co2 > 800) {
-      return {
-        riskLevel: 'moderate',
-        updateInterval: 5 * 1000,
-        medicalBasis:
-          'EPA 30-minute standard - Sensitive population effects',
-        recommendations: [
-          'Sensitive Groups Limit Exposure - Children, elderly, respiratory conditions',
-          'Reduce prolonged outdoor activities',
-          'Consider indoor alternatives for exercise',
-          'Monitor symptoms and seek medical advice if needed',
-        ],
-        activityAdvice:
-          '⚡ LIMITED OUTDOOR ACTIVITIES - Short exposure acceptable with precautions',
-        gradient: 'from-orange-400 to-yellow-500',
-      };
-    } else {
-      return {
-        riskLevel: 'safe',
-        updateInterval: 5 * 1000,
-        medicalBasis: 'WHO/EPA standards - No health concerns',
-        recommendations: [
-          'Excellent Condition - Ideal for all outdoor activities',
-          'Perfect for sports, exercise, and recreation',
-          'Safe for sensitive individuals including children',
-          'Optimal conditions for cardiovascular activities',
-        ],
-        activityAdvice:
-          '✅ ALL ACTIVITIES RECOMMENDED - Perfect conditions for exercise and outdoor recreation',
-        gradient: 'from-green-400 to-green-500',
-      };
-    }
+    const riskLevel = healthRiskLevel(category, co2, healthProfile);
+    return {
+      ...GENERAL_ADVICE[riskLevel],
+      ...healthProfile.advice[riskLevel],
+      riskLevel,
+      updateInterval: 5 * 1000,
+      generalRiskLevel: healthRiskLevel(category, co2, HEALTH_PROFILES.general),
+    };
   };
 
-  // ⏳ Countdown to next expected update (cosmetic only — real updates come from WebSocket)
+  // Predicted exceedance: the first nowcast step whose risk, under the
+  // user's profile, is worse than the risk right now
+  const forecast = useForecast(selectedDeviceId, FORECAST_HORIZON_MIN);
+  const liveCo2 = liveData?.co2?.ppm ?? 420;
+  const currentRisk = healthRiskLevel(liveCategory, liveCo2, healthProfile);
+  const predicted = firstExceedance(forecast, (co2, aqi) =>
+    RISK_ORDER.indexOf(
+      healthRiskLevel(
+        aqi != null ? aqiCategory(aqi, aqiStandard) : liveCategory,
+        co2 ?? liveCo2,
+        healthProfile,
+      ),
+    ) > RISK_ORDER.indexOf(currentRisk),
+  );
+  const predictedRisk = predicted
+    ? healthRiskLevel(
+      predicted.aqi != null ? aqiCategory(predicted.aqi, aqiStandard) : liveCategory,
+      predicted.co2 ?? liveCo2,
+      healthProfile,
+    )
+    : null;
+  const forecastAvailable = !!forecast && (!!forecast.metrics.co2 || !!forecast.metrics.aqi);
+
+  // 🔔 Hazardous for this profile while the tab is in the background:
+  // notify once on the transition, not on every reading
+  const previousRisk = useRef<HealthRiskLevel | null>(null);
   useEffect(() => {
-    const timer = setInterval(() => {
-      setSecondsUntilNext((prev) => (prev <= 1 ? 5 : prev - 1));
-    }, 1000);
+    if (replay || !liveData) return;
+    const wasHazardous = previousRisk.current === 'hazardous';
+    previousRisk.current = currentRisk;
+    if (currentRisk !== 'hazardous' || wasHazardous || !document.hidden) return;
+    showLocalNotification('Hazardous air quality', {
+      body: `${liveData.deviceId}: AQI ${liveAqiValue}, CO₂ ${liveCo2} ppm. ${healthProfile.label} profile — stay indoors and limit exertion.`,
+      tag: `hazardous-${liveData.deviceId}`,
+      requireInteraction: true,
+    }).catch((err) => console.warn('Local notification failed:', err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentRisk, replay, liveData?.deviceId]);
+
+  // ⏳ Tick once a second so the countdown follows the device's real cadence
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(timer);
   }, []);
 
+  // Jonnada is modelled from the main station with local variation
+  const jonnadaAqi = liveAqi
+    ? Math.max(20, liveAqi.aqi + Math.floor(Math.random() * 20 - 10))
+    : 68;
+  const jonnadaCo2 = liveData && liveData.co2
+    ? liveData.co2.ppm + Math.floor(Math.random() * 50 - 25)
+    : 395;
+
   // 🔥 LIVE UPDATING: Location data with Vizianagaram and Jonnada
   const locationHealthData: Record<string, LocationHealthData> = {
     'vizianagaram-live': {
       id: 'vizianagaram-live',
       name: 'Vizianagaram Live Station',
-      aqi:
-        liveData && liveData.mq135.raw != null
-          ? convertRawToAQI(liveData.mq135.raw)
-          : 75,
+      aqi: liveAqiValue,
       co2:
         liveData && liveData.co2
           ? liveData.co2.ppm
@@ -245,7 +310,7 @@ const HealthAlerts: React.FC = () => {
         liveData &&
           liveData.mq135.raw != null &&
           liveData.mq135.volt != null
-          ? `Live readings: Raw ADC ${liveData.mq135.raw}, Voltage: ${liveData.mq135.volt}V. Real-time MQ135 + MG811 sensor data with WHO/EPA compliant analysis.`
+          ? `Live readings: Raw ADC ${liveData.mq135.raw}, Voltage: ${liveData.mq135.volt}V. ${AQI_STANDARDS[aqiStandard].label} AQI ${liveAqiValue} (${liveCategory.label})${liveAqi ? `, dominant ${POLLUTANT_LABELS[liveAqi.dominant]}` : ''}.`
           : 'Waiting for live sensor data from ESP32 hardware...',
       icon: Activity,
       isLive: true,
@@ -253,9 +318,7 @@ const HealthAlerts: React.FC = () => {
         ? `Current live data available 24/7. Device: ${liveData.deviceId}`
         : 'Live monitoring system initializing...',
       ...getHealthProfile(
-        liveData && liveData.mq135.raw != null
-          ? convertRawToAQI(liveData.mq135.raw)
-          : 75,
+        liveCategory,
         liveData && liveData.co2 ? liveData.co2.ppm : 420,
         true
       ),
@@ -264,19 +327,8 @@ const HealthAlerts: React.FC = () => {
     'jonnada-live': {
       id: 'jonnada-live',
       name: 'Jonnada Area - Vizianagaram',
-      aqi:
-        liveData && liveData.mq135.raw != null
-          ? Math.max(
-            20,
-            convertRawToAQI(liveData.mq135.raw) +
-            Math.floor(Math.random() * 20 - 10)
-          )
-          : 68,
-      co2:
-        liveData && liveData.mq135.raw != null
-          ? convertRawToCO2(liveData.mq135.raw) +
-          Math.floor(Math.random() * 50 - 25)
-          : 395,
+      aqi: jonnadaAqi,
+      co2: jonnadaCo2,
       description:
         '🔴 LIVE area monitoring - Correlated readings from main Vizianagaram sensor with local variations',
       pollutantInfo: liveData
@@ -287,17 +339,8 @@ const HealthAlerts: React.FC = () => {
       bestTimes:
         'Local area conditions updated based on main station with environmental modeling',
       ...getHealthProfile(
-        liveData && liveData.mq135.raw != null
-          ? Math.max(
-            20,
-            convertRawToAQI(liveData.mq135.raw) +
-            Math.floor(Math.random() * 20 - 10)
-          )
-          : 68,
-        liveData && liveData.mq135.raw != null
-          ? convertRawToCO2(liveData.mq135.raw) +
-          Math.floor(Math.random() * 50 - 25)
-          : 395,
+        aqiCategory(jonnadaAqi, aqiStandard),
+        jonnadaCo2,
         true
       ),
     } as LocationHealthData,
@@ -500,6 +543,7 @@ const HealthAlerts: React.FC = () => {
     <div className="pt-28 p-6 space-y-8 animate-fade-in min-h-screen bg-gradient-to-br from-gray-50 to-orange-50">
       {/* Header */}
       <div className="max-w-6xl mx-auto">
+        <ReplayBanner className="mb-6" />
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-800 mb-4">
             Health Advisory Dashboard
@@ -616,6 +660,49 @@ const HealthAlerts: React.FC = () => {
         </div>
       </div>
 
+      {/* Predicted exceedance (nowcast) */}
+      {!replay && selectedDeviceId && (
+        <div className="max-w-6xl mx-auto">
+          <div
+            className={`rounded-2xl p-5 border shadow-sm flex items-start gap-4 ${predicted
+              ? predicted.confidence === 'likely'
+                ? 'bg-red-50 border-red-200'
+                : 'bg-amber-50 border-amber-200'
+              : 'bg-white/80 border-gray-200'
+              }`}
+          >
+            <div className="w-10 h-10 rounded-xl flex items-center justify-center bg-gradient-to-r from-sky-500 to-indigo-500 shrink-0">
+              <TrendingUp className="h-5 w-5 text-white" />
+            </div>
+            <div className="text-sm">
+              <div className="font-semibold text-gray-800">Next {FORECAST_HORIZON_MIN} minutes</div>
+              {!forecastAvailable ? (
+                <p className="text-gray-500">Not enough recent readings to forecast this device yet.</p>
+              ) : predicted && predictedRisk ? (
+                <p className={predicted.confidence === 'likely' ? 'text-red-700' : 'text-amber-700'}>
+                  {predicted.confidence === 'likely' ? 'Predicted exceedance' : 'Possible exceedance'}:{' '}
+                  conditions may reach <span className="font-semibold">{getRiskLevelText(predictedRisk)}</span>{' '}
+                  for your profile in about {predicted.inMinutes} min
+                  {predicted.co2 != null && ` (CO₂ ≈ ${Math.round(predicted.co2)} ppm`}
+                  {predicted.aqi != null && `${predicted.co2 != null ? ', ' : ' ('}AQI ≈ ${Math.round(predicted.aqi)}`}
+                  {(predicted.co2 != null || predicted.aqi != null) && ')'}.
+                  {predicted.confidence === 'possible' && ' Only the upper end of the forecast band crosses.'}
+                </p>
+              ) : (
+                <p className="text-gray-600">
+                  No change from {getRiskLevelText(currentRisk).toLowerCase()} expected for your profile.
+                </p>
+              )}
+              {forecastAvailable && (
+                <p className="text-xs text-gray-400 mt-1">
+                  Exponential smoothing of recent readings
+                  {forecast!.diurnalDays >= 3 ? ` plus a ${forecast!.diurnalDays}-day daily profile` : ''}; updated every minute.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* Source Classifier Card */}
       <div className="max-w-6xl mx-auto">
@@ -808,6 +895,16 @@ const HealthAlerts: React.FC = () => {
               <div className="text-sm text-gray-600">
                 {currentLocation.medicalBasis}
               </div>
+              {currentLocation.generalRiskLevel && (
+                <div className="mt-3 p-3 rounded-lg bg-sky-50 border border-sky-100 text-xs text-sky-800">
+                  <span className="font-semibold">Advice profile: {healthProfile.label}.</span>{' '}
+                  {healthProfile.basis}
+                  {currentLocation.generalRiskLevel !== currentLocation.riskLevel && (
+                    <> For the general population these readings are {getRiskLevelText(currentLocation.generalRiskLevel).toLowerCase()}.</>
+                  )}
+                  {healthProfile.id === 'general' && ' Set a sensitivity profile in your user profile for tailored advice.'}
+                </div>
+              )}
               {currentLocation.isLive && (
                 <div className="text-xs text-green-600 mt-2 font-medium flex items-center">
                   ⚡ Real-time updates every 5 seconds
@@ -880,6 +977,21 @@ const HealthAlerts: React.FC = () => {
         </div>
       </div>
 
+      {/* Occupational CO₂ exposure (TWA / STEL) */}
+      <div className="max-w-6xl mx-auto mt-8">
+        <ExposurePanel deviceId={selectedDeviceId} />
+      </div>
+
+      {/* Server-side alert rules */}
+      <div className="max-w-6xl mx-auto mt-8">
+        <AlertRuleEditor deviceId={selectedDeviceId} aqiStandard={aqiStandard} />
+      </div>
+
+      {/* Incidents opened by those rules */}
+      <div className="max-w-6xl mx-auto mt-8">
+        <IncidentLog deviceId={selectedDeviceId} aqiStandard={aqiStandard} />
+      </div>
+
       {/* Location-Specific Alert */}
 
     </div>
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, Check, CheckCheck, MessageSquarePlus, Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useSocketEvent } from '../contexts/RealtimeContext';
+import { AQI_STANDARDS } from '../lib/aqi';
+import type { AqiStandard } from '../types/Aqi';
+import type { AlertMetric, AlertSeverity } from '../types/Alert';
+import type { Incident, IncidentStats, IncidentStatus } from '../types/Incident';
+import { API_BASE } from '../config';
+
+interface IncidentLogProps {
+  deviceId: string | null;
+  aqiStandard: AqiStandard;
+}
+
+type Filter = 'active' | 'all';
+
+const METRIC_UNITS: Record<AlertMetric, string> = {
+  co2ppm: 'ppm',
+  aqi: '',
+  aqiLevel: '',
+  temperature: '°C',
+  humidity: '%',
+  mq135Ppm: 'ppm',
+};
+
+const STATUS_STYLES: Record<IncidentStatus, string> = {
+  OPEN: 'bg-red-50 text-red-700 border-red-200',
+  ACKNOWLEDGED: 'bg-amber-50 text-amber-700 border-amber-200',
+  RESOLVED: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+};
+
+const SEVERITY_DOT: Record<AlertSeverity, string> = {
+  info: 'bg-sky-400',
+  warning: 'bg-amber-400',
+  critical: 'bg-red-500',
+};
+
+const formatDuration = (sec: number) => {
+  if (sec < 60) return `${Math.max(0, Math.round(sec))} s`;
+  if (sec < 3600) return `${Math.round(sec / 60)} min`;
+  const h = Math.floor(sec / 3600);
+  const m = Math.round((sec % 3600) / 60);
+  return m ? `${h} h ${m} min` : `${h} h`;
+};
+
+// Exceedances recorded from the alert rules. Operators and admins
+// acknowledge, annotate and resolve them; everyone sees the log and MTTA.
+const IncidentLog: React.FC<IncidentLogProps> = ({ deviceId, aqiStandard }) => {
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [stats, setStats] = useState<IncidentStats | null>(null);
+  const [filter, setFilter] = useState<Filter>('active');
+  const [noteFor, setNoteFor] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const canAct = user?.role === 'admin' || user?.role === 'operator';
+  const categories = AQI_STANDARDS[aqiStandard].categories;
+
+  const describeValue = (metric: AlertMetric, value: number) =>
+    metric === 'aqiLevel'
+      ? categories[Math.round(value)]?.label ?? String(value)
+      : `${Math.round(value * 10) / 10}${METRIC_UNITS[metric] ? ` ${METRIC_UNITS[metric]}` : ''}`;
+
+  const fetchIncidents = async () => {
+    if (!token || !deviceId) return;
+    try {
+      const res = await fetch(
+        `${API_BASE}/api/incidents?deviceId=${encodeURIComponent(deviceId)}&status=${filter}`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      const data = await res.json();
+      if (res.ok && data.ok) {
+        setIncidents(data.incidents);
+        setStats(data.stats);
+      }
+    } catch (err) {
+      console.error('Incident log load failed:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchIncidents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, deviceId, filter]);
+
+  // Keeps the running duration of uncleared incidents current
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  useSocketEvent('incident:updated', (incident) => {
+    if (incident.deviceId !== deviceId) return;
+    const isNew = !incidents.some((i) => i._id === incident._id);
+    setIncidents((prev) => {
+      const rest = prev.filter((i) => i._id !== incident._id);
+      if (filter === 'active' && incident.status === 'RESOLVED') return rest;
+      return [incident, ...rest].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    });
+    // Counts and MTTA move with status changes, not peak updates
+    if (isNew || incident.status !== incidents.find((i) => i._id === incident._id)?.status) {
+      fetchIncidents();
+    }
+  });
+
+  const act = async (incident: Incident, action: 'acknowledge' | 'notes' | 'resolve', note?: string) => {
+    setBusyId(incident._id);
+    try {
+      const res = await fetch(`${API_BASE}/api/incidents/${incident._id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ note }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) {
+        showToast(data.error || 'Failed to update incident', 'error');
+        return;
+      }
+      if (action === 'notes') {
+        setNoteFor(null);
+        setNoteText('');
+      }
+      fetchIncidents();
+    } catch {
+      showToast('Failed to update incident', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const durationOf = (incident: Incident) =>
+    incident.durationSec ?? (now - new Date(incident.startedAt).getTime()) / 1000;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-2xl p-6 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <div className="w-12 h-12 rounded-xl flex items-center justify-center bg-gradient-to-r from-rose-500 to-orange-500">
+            <ClipboardList className="h-6 w-6 text-white" />
+          </div>
+          <div className="ml-4">
+            <h3 className="text-xl font-semibold text-gray-800">Incident Log</h3>
+            <p className="text-xs text-gray-500">
+              {stats
+                ? `${stats.open} open · ${stats.acknowledged} acknowledged · MTTA ${
+                    stats.mttaSec === null ? '—' : formatDuration(stats.mttaSec)
+                  }${stats.mttaSampleSize ? ` (${stats.mttaSampleSize} in 30 days)` : ''}`
+                : 'Every alert firing is recorded here.'}
+            </p>
+          </div>
+        </div>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs font-semibold">
+          {(['active', 'all'] as Filter[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1.5 ${filter === f ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              {f === 'active' ? 'Open' : 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {incidents.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {filter === 'active' ? 'No open incidents for this device.' : 'No incidents recorded for this device.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {incidents.map((incident) => (
+            <li key={incident._id} className="py-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${SEVERITY_DOT[incident.severity]}`} />
+                    <span className="font-semibold text-gray-800 text-sm truncate">{incident.ruleName}</span>
+                    <span className={`px-2 py-0.5 rounded-full border text-[10px] font-semibold ${STATUS_STYLES[incident.status]}`}>
+                      {incident.status.toLowerCase()}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    {new Date(incident.startedAt).toLocaleString()} · peak {describeValue(incident.metric, incident.peakValue)}
+                    {' · '}
+                    <span className="inline-flex items-center gap-0.5">
+                      <Clock className="h-3 w-3" />
+                      {formatDuration(durationOf(incident))}
+                      {incident.clearedAt ? '' : ' and ongoing'}
+                    </span>
+                  </div>
+                </div>
+                {canAct && (
+                  <div className="flex gap-1 shrink-0">
+                    {incident.status === 'OPEN' && (
+                      <button
+                        title="Acknowledge"
+                        disabled={busyId === incident._id}
+                        onClick={() => act(incident, 'acknowledge')}
+                        className="p-2 rounded-lg border border-gray-100 text-gray-400 hover:text-amber-600 disabled:opacity-50"
+                      >
+                        <Check className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                    <button
+                      title="Add note"
+                      onClick={() => { setNoteFor(noteFor === incident._id ? null : incident._id); setNoteText(''); }}
+                      className="p-2 rounded-lg border border-gray-100 text-gray-400 hover:text-sky-600"
+                    >
+                      <MessageSquarePlus className="h-3.5 w-3.5" />
+                    </button>
+                    {incident.status !== 'RESOLVED' && (
+                      <button
+                        title="Resolve"
+                        disabled={busyId === incident._id}
+                        onClick={() => act(incident, 'resolve')}
+                        className="p-2 rounded-lg border border-gray-100 text-gray-400 hover:text-emerald-600 disabled:opacity-50"
+                      >
+                        <CheckCheck className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {incident.notes.length > 0 && (
+                <ul className="mt-2 ml-4 space-y-1">
+                  {incident.notes.map((note, i) => (
+                    <li key={i} className="text-xs text-gray-600">
+                      <span className="font-semibold text-gray-700">{note.authorName || 'Operator'}</span>
+                      <span className="text-gray-400"> · {new Date(note.createdAt).toLocaleString()}</span>
+                      <div>{note.text}</div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {noteFor === incident._id && (
+                <form
+                  onSubmit={(e) => { e.preventDefault(); if (noteText.trim()) act(incident, 'notes', noteText.trim()); }}
+                  className="mt-2 ml-4 flex gap-2"
+                >
+                  <input
+                    autoFocus
+                    value={noteText}
+                    onChange={(e) => setNoteText(e.target.value)}
+                    placeholder="Window opened, ventilation fixed…"
+                    className="flex-1 rounded-lg border border-gray-200 px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-orange-300"
+                  />
+                  <button type="submit" disabled={busyId === incident._id} className="px-3 py-1.5 rounded-lg bg-gray-900 text-white text-xs font-semibold disabled:opacity-50">
+                    Add
+                  </button>
+                </form>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default IncidentLog;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Wifi, WifiOff, ServerOff, AlertTriangle, Loader } from 'lucide-react';
+import type { DeviceLiveness, LivenessState } from '../types/DeviceLiveness';
+
+interface LivenessBadgeProps {
+  liveness: DeviceLiveness;
+  compact?: boolean;
+  className?: string;
+}
+
+const STYLES: Record<LivenessState, { cls: string; icon: React.ElementType }> = {
+  backend_offline: { cls: 'bg-slate-100 border-slate-300 text-slate-700', icon: ServerOff },
+  waiting: { cls: 'bg-gray-50 border-gray-200 text-gray-600', icon: Loader },
+  online: { cls: 'bg-emerald-50 border-emerald-200 text-emerald-700', icon: Wifi },
+  degraded: { cls: 'bg-amber-50 border-amber-200 text-amber-700', icon: AlertTriangle },
+  offline: { cls: 'bg-red-50 border-red-200 text-red-700', icon: WifiOff },
+};
+
+const formatAge = (ms: number) => {
+  const s = Math.max(0, Math.round(ms / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m`;
+  return `${Math.floor(s / 3600)}h`;
+};
+
+export const livenessLabel = (l: DeviceLiveness, compact = false): string => {
+  const age = l.lastReceivedAt !== null ? formatAge(Date.now() - l.lastReceivedAt) : null;
+  switch (l.state) {
+    case 'backend_offline':
+      return 'Backend Offline';
+    case 'waiting':
+      return compact ? 'Waiting' : 'Waiting for node data';
+    case 'online':
+      return compact ? 'Live' : 'Live · ESP32 Connected';
+    case 'degraded':
+      return compact
+        ? `Degraded · ${l.missedSamples} missed`
+        : `Degraded · ${l.missedSamples} sample${l.missedSamples === 1 ? '' : 's'} missed`;
+    case 'offline':
+      return compact ? 'Device Offline' : `Device Offline · last seen ${age} ago`;
+  }
+};
+
+// Three-way status pill: backend down vs device silent vs device gappy
+const LivenessBadge: React.FC<LivenessBadgeProps> = ({ liveness, compact = false, className = '' }) => {
+  const { cls, icon: Icon } = STYLES[liveness.state];
+  return (
+    <div
+      className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-semibold border ${cls} ${className}`}
+      title={`Cadence ${(liveness.expectedCadenceMs / 1000).toFixed(1)}s · ${liveness.totalMissedSamples} samples lost this session · clock skew ${Math.round(liveness.clockSkewMs)}ms`}
+    >
+      <Icon className="h-3.5 w-3.5" />
+      {livenessLabel(liveness, compact)}
+    </div>
+  );
+};
+
+export default LivenessBadge;
@@ -1,9 +1,34 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import { ZoomIn, ZoomOut, RotateCcw, Layers, X } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import { ZoomIn, ZoomOut, RotateCcw, Layers, Route, Hexagon } from 'lucide-react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { useRealtime } from '../contexts/RealtimeContext';
+import {
+  useRealtime,
+  useDeviceLiveness,
+  useNodeRegistry,
+} from '../contexts/RealtimeContext';
+import { useDeviceTrack } from '../hooks/useDeviceTrack';
+import { useZones } from '../hooks/useZones';
+import { useSurfaceSnapshots } from '../hooks/useSurfaceSnapshots';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { livenessLabel } from './LivenessBadge';
+import ReplayBanner from './ReplayBanner';
+import NodeSidebar from './NodeSidebar';
+import TrackPanel, { TrackLayer } from './TrackPlayback';
+import ZoneDrawPanel, { ZoneLayer } from './ZoneEditor';
+import SurfacePanel, { InterpolationLayer } from './SurfaceLayer';
+import { readingAQI, aqiCategory, DEFAULT_AQI_STANDARD, FALLBACK_AQI } from '../lib/aqi';
+import { clusterPoints, isStacked, type MarkerCluster } from '../lib/mapClusters';
+import { surfaceBands } from '../lib/interpolation';
+import type { AqiCategory, AqiStandard } from '../types/Aqi';
+import type { LivenessState } from '../types/DeviceLiveness';
+import type { MapNode, NodeMarker } from '../types/NodeRegistry';
+import type { TrackMetric } from '../types/Track';
+import type { LatLngTuple, Zone } from '../types/Zone';
+import type { InterpolationMethod, SurfaceMetric, SurfaceNode, SurfacePoint } from '../types/Surface';
+import { API_BASE } from '../config';
 
 // Fix for default markers
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
@@ -16,357 +41,424 @@ L.Icon.Default.mergeOptions({
     'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-// Backend data shape
-interface SensorData {
-  deviceId: string;
-  environment: {
-    temperature: number | null;
-    humidity: number | null;
-  };
-  imu: {
-    ax: number | null;
-    ay: number | null;
-    az: number | null;
-    gx: number | null;
-    gy: number | null;
-    gz: number | null;
-  };
-  location: {
-    lat: number | null;
-    lng: number | null;
-    speed: number | null;
-  };
-  purification: {
-    on: boolean;
-  };
-  co2: {
-    ppm: number;
-    status: string;
-    healthAdvice: string;
-  } | null;
-  mq135: {
-    raw: number | null;
-    volt: number | null;
-  };
-  timestamp: string;
-}
-
-interface Location {
-  id: number;
-  name: string;
-  lat: number;
-  lng: number;
-  aqi: number;
-  voc: number;
-  co2: number;
-  health: number;
-  isLive?: boolean;
-  isFallback?: boolean; // NEW: true when we’re just showing LIET because backend is offline
-}
-
-// LIET coords
+type PositionedMarker = NodeMarker & { lat: number; lng: number };
+
+const isPositioned = (m: NodeMarker): m is PositionedMarker => m.lat !== null && m.lng !== null;
+const isOffline = (m: NodeMarker) => m.liveness === 'offline' || m.liveness === 'backend_offline';
+
+// Offline nodes keep their last position but lose their colour
+const OFFLINE_COLOR = '#9ca3af';
+
+// Default view before any node has a position
 const LIET_COORDS = { lat: 18.0953, lng: 83.4308 };
 
-// Recenter helper
-const RecenterOnLiveLocation: React.FC<{ lat: number; lng: number }> = ({ lat, lng }) => {
+// Monitor pill colours per device liveness state
+const PILL_STYLES: Record<LivenessState, { pill: string; dot: string }> = {
+  backend_offline: { pill: 'bg-red-100/80 text-red-700', dot: 'bg-red-500' },
+  waiting: { pill: 'bg-gray-100/80 text-gray-700', dot: 'bg-gray-400' },
+  online: { pill: 'bg-green-100/80 text-green-700', dot: 'bg-green-500' },
+  degraded: { pill: 'bg-amber-100/80 text-amber-700', dot: 'bg-amber-500' },
+  offline: { pill: 'bg-amber-100/80 text-amber-700', dot: 'bg-amber-500' },
+};
+
+// Fit the view to every positioned node once, when they first load
+const FitToNodes: React.FC<{ markers: PositionedMarker[] }> = ({ markers }) => {
   const map = useMap();
+  const fitted = useRef(false);
 
   useEffect(() => {
-    if (!lat || !lng) return;
-    if (lat === 0 && lng === 0) return;
-    map.setView([lat, lng], 17, { animate: true });
-  }, [lat, lng, map]);
+    if (fitted.current || markers.length === 0) return;
+    fitted.current = true;
+    if (markers.length === 1) {
+      map.setView([markers[0].lat, markers[0].lng], 16);
+    } else {
+      map.fitBounds(L.latLngBounds(markers.map((m) => [m.lat, m.lng])), { padding: [60, 60], maxZoom: 16 });
+    }
+  }, [markers, map]);
 
   return null;
 };
 
-// Heat layer
-const HeatMapLayer: React.FC<{ locations: Location[]; activeFilter: string }> = ({
-  locations,
-  activeFilter,
-}) => {
+// Fly to a node picked from the sidebar
+const FlyToNode: React.FC<{ target: { lat: number; lng: number; nonce: number } | null }> = ({ target }) => {
   const map = useMap();
 
   useEffect(() => {
-    try {
-      map.eachLayer((layer: L.Layer & { options?: any }) => {
-        if (layer.options && layer.options.isHeatLayer) {
-          map.removeLayer(layer);
-        }
-      });
-
-      locations.forEach((location) => {
-        let intensity = 0;
-        let color = '#10b981';
-
-        switch (activeFilter) {
-          case 'aqi':
-            intensity = location.aqi;
-            color =
-              location.aqi <= 50
-                ? '#10b981'
-                : location.aqi <= 100
-                ? '#f59e0b'
-                : '#ef4444';
-            break;
-          case 'voc':
-            intensity = location.voc;
-            color =
-              location.voc <= 30
-                ? '#10b981'
-                : location.voc <= 50
-                ? '#f59e0b'
-                : '#ef4444';
-            break;
-          case 'co2':
-            intensity = location.co2;
-            color =
-              location.co2 <= 400
-                ? '#10b981'
-                : location.co2 <= 700
-                ? '#f59e0b'
-                : '#ef4444';
-            break;
-          case 'health':
-            intensity = location.health;
-            color =
-              location.health >= 80
-                ? '#10b981'
-                : location.health >= 60
-                ? '#f59e0b'
-                : '#ef4444';
-            break;
-        }
-
-        const circle = L.circle([location.lat, location.lng], {
-          color,
-          fillColor: color,
-          fillOpacity: location.isFallback ? 0.15 : 0.3, // dimmer if just fallback
-          radius: Math.max(intensity * 50, 800),
-          isHeatLayer: true,
-        } as L.CircleOptions & { isHeatLayer: boolean });
-
-        circle.addTo(map);
-      });
-    } catch (error) {
-      console.error('Heat map error:', error);
-    }
-  }, [map, locations, activeFilter]);
+    if (!target) return;
+    map.flyTo([target.lat, target.lng], Math.max(map.getZoom(), 16), { duration: 0.8 });
+  }, [target, map]);
 
   return null;
 };
 
-// Marker
-const CustomMarker: React.FC<{ location: Location; onClick: (l: Location) => void }> = ({
-  location,
-  onClick,
-}) => {
-  const getMarkerColor = (aqi: number) => {
-    if (aqi <= 50) return '#10b981';
-    if (aqi <= 100) return '#f59e0b';
-    return '#ef4444';
-  };
+const markerColor = (marker: NodeMarker) =>
+  isOffline(marker) || marker.noData ? OFFLINE_COLOR : marker.aqiCategory.color;
 
-  const customIcon = new L.DivIcon({
+const nodeIcon = (marker: NodeMarker, selected: boolean) => {
+  const size = selected ? 32 : 28;
+  const live = marker.liveness === 'online' || marker.liveness === 'degraded';
+  return new L.DivIcon({
     html: `
       <div style="
-        width: ${location.isLive ? '30px' : '26px'};
-        height: ${location.isLive ? '30px' : '26px'};
-        background-color: ${getMarkerColor(location.aqi)};
-        border: 3px solid ${
-          location.isLive
-            ? location.isFallback
-              ? '#60a5fa'  // blue ring when fallback LIET
-              : '#fbbf24' // yellow ring when true live node
-            : 'white'
-        };
+        width: ${size}px;
+        height: ${size}px;
+        background-color: ${markerColor(marker)};
+        border: 3px ${isOffline(marker) ? 'dashed' : 'solid'} ${selected ? '#fbbf24' : 'white'};
         border-radius: 50%;
         box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+        opacity: ${isOffline(marker) ? 0.75 : 1};
         display: flex;
         align-items: center;
         justify-content: center;
-        font-size: ${location.isLive ? '11px' : '10px'};
+        font-size: 11px;
         font-weight: bold;
         color: white;
       ">
-        ${Math.round(location.aqi)}
+        ${marker.noData ? '–' : Math.round(marker.aqi)}
       </div>
       ${
-        location.isLive
-          ? '<div style="position: absolute; top: -6px; right: -6px; width: 9px; height: 9px; background: #22c55e; border-radius: 50%; border: 1px solid white;"></div>'
+        live
+          ? `<div style="position: absolute; top: -4px; right: -4px; width: 9px; height: 9px; background: ${marker.liveness === 'online' ? '#22c55e' : '#f59e0b'}; border-radius: 50%; border: 1px solid white;"></div>`
           : ''
       }
     `,
     className: 'custom-div-icon',
-    iconSize: [location.isLive ? 30 : 26, location.isLive ? 30 : 26],
-    iconAnchor: [location.isLive ? 15 : 13, location.isLive ? 15 : 13],
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+// Worst live AQI colours the bubble; an all-offline cluster is grey
+const clusterIcon = (cluster: MarkerCluster<PositionedMarker>) => {
+  const live = cluster.members.filter((m) => !isOffline(m) && !m.noData);
+  const worst = live.reduce<PositionedMarker | null>((w, m) => (!w || m.aqi > w.aqi ? m : w), null);
+  const size = 34 + Math.min(cluster.members.length, 10) * 2;
+  return new L.DivIcon({
+    html: `
+      <div style="
+        width: ${size}px;
+        height: ${size}px;
+        background-color: ${worst ? worst.aqiCategory.color : OFFLINE_COLOR};
+        border: 4px solid rgba(255,255,255,0.85);
+        border-radius: 50%;
+        box-shadow: 0 0 0 4px ${worst ? worst.aqiCategory.color : OFFLINE_COLOR}55, 0 2px 8px rgba(0,0,0,0.3);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-size: 13px;
+        font-weight: 800;
+        color: white;
+      ">
+        ${cluster.members.length}
+      </div>
+    `,
+    className: 'custom-div-icon',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
   });
+};
+
+const NodePopupBody: React.FC<{
+  marker: NodeMarker;
+  isActive: boolean;
+  onMakeActive: (deviceId: string) => void;
+}> = ({ marker, isActive, onMakeActive }) => (
+  <div className="p-2 min-w-[12rem]">
+    <h3 className="font-bold text-lg mb-1">{marker.name}</h3>
+    <p className="text-xs text-gray-500 mb-2">
+      {marker.name !== marker.deviceId && `${marker.deviceId} · `}
+      {isOffline(marker)
+        ? `last known position${marker.lastSeen ? `, ${new Date(marker.lastSeen).toLocaleString()}` : ''}`
+        : 'live'}
+    </p>
+    {marker.noData ? (
+      <p className="text-sm text-gray-500">No readings yet.</p>
+    ) : (
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span>AQI:</span>
+          <span className="font-semibold" style={{ color: marker.aqiCategory.color }}>
+            {Math.round(marker.aqi)} · {marker.aqiCategory.label}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>VOC:</span>
+          <span>{marker.voc} ppb</span>
+        </div>
+        <div className="flex justify-between">
+          <span>CO₂:</span>
+          <span>{Math.round(marker.co2)} ppm</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Health:</span>
+          <span>{Math.round(marker.health)}</span>
+        </div>
+      </div>
+    )}
+    {!isActive && (
+      <button
+        onClick={() => onMakeActive(marker.deviceId)}
+        className="mt-3 w-full text-xs font-semibold px-3 py-1.5 rounded-lg bg-orange-500 text-white hover:bg-orange-600"
+      >
+        Make active node
+      </button>
+    )}
+  </div>
+);
+
+// Clustered node markers, re-clustered on every zoom. A cluster that
+// zooming cannot split (nodes on the same spot) lists its members instead.
+const NodeMarkersLayer: React.FC<{
+  markers: PositionedMarker[];
+  selectedId: string | null;
+  activeId: string | null;
+  onSelect: (marker: NodeMarker) => void;
+  onMakeActive: (deviceId: string) => void;
+}> = ({ markers, selectedId, activeId, onSelect, onMakeActive }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const clusters = useMemo(
+    () => clusterPoints(markers, (lat, lng) => map.project([lat, lng], zoom), (m) => m.deviceId),
+    [markers, map, zoom],
+  );
 
   return (
-    <Marker
-      position={[location.lat, location.lng]}
-      icon={customIcon}
-      eventHandlers={{ click: () => onClick(location) }}
-    >
-      <Popup>
-        <div className="p-2">
-          <h3 className="font-bold text-lg mb-2">
-            {location.name}
-            {location.isLive && (
-              <span className="ml-2 text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full">
-                🔴 LIVE
-              </span>
-            )}
-          </h3>
-          <div className="space-y-1 text-sm">
-            <div className="flex justify-between">
-              <span>AQI:</span>
-              <span
-                className={`font-semibold ${
-                  location.aqi <= 50
-                    ? 'text-green-600'
-                    : location.aqi <= 100
-                    ? 'text-orange-600'
-                    : 'text-red-600'
-                }`}
-              >
-                {Math.round(location.aqi)}
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span>VOC:</span>
-              <span>{location.voc} ppb</span>
-            </div>
-            <div className="flex justify-between">
-              <span>CO₂:</span>
-              <span>{Math.round(location.co2)} ppm</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Health:</span>
-              <span>{Math.round(location.health)}</span>
-            </div>
-            {location.isLive && (
-              <div className="mt-2 pt-2 border-t">
-                <div className="text-xs text-green-600 font-medium">
-                  📡 Real-time AtmosTrack node
-                  {location.isFallback ? ' (LIET fallback while offline)' : ''}
+    <>
+      {clusters.map((cluster) => {
+        if (cluster.members.length === 1) {
+          const marker = cluster.members[0];
+          return (
+            <Marker
+              key={cluster.id}
+              position={[marker.lat, marker.lng]}
+              icon={nodeIcon(marker, marker.deviceId === selectedId)}
+              eventHandlers={{ click: () => onSelect(marker) }}
+            >
+              <Popup>
+                <NodePopupBody marker={marker} isActive={marker.deviceId === activeId} onMakeActive={onMakeActive} />
+              </Popup>
+            </Marker>
+          );
+        }
+
+        const splittable = !isStacked(cluster.members) && zoom < map.getMaxZoom();
+        return (
+          <Marker
+            key={cluster.id}
+            position={[cluster.lat, cluster.lng]}
+            icon={clusterIcon(cluster)}
+            eventHandlers={{
+              click: () => {
+                if (!splittable) return;
+                map.fitBounds(
+                  L.latLngBounds(cluster.members.map((m) => [m.lat, m.lng])),
+                  { padding: [80, 80] },
+                );
+              },
+            }}
+          >
+            {!splittable && (
+              <Popup>
+                <div className="p-1 min-w-[12rem]">
+                  <h3 className="font-bold mb-2">{cluster.members.length} nodes here</h3>
+                  <ul className="space-y-1">
+                    {cluster.members.map((m) => (
+                      <li key={m.deviceId}>
+                        <button
+                          onClick={() => onSelect(m)}
+                          className="w-full flex items-center justify-between gap-3 text-left text-sm hover:text-orange-600"
+                        >
+                          <span className="truncate">{m.name}</span>
+                          <span className="font-semibold" style={{ color: markerColor(m) }}>
+                            {m.noData ? '–' : Math.round(m.aqi)}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-              </div>
+              </Popup>
             )}
-          </div>
-        </div>
-      </Popup>
-    </Marker>
+          </Marker>
+        );
+      })}
+    </>
   );
 };
 
-const convertRawToAQI = (rawValue: number | null): number => {
-  if (!rawValue && rawValue !== 0) return 75;
-  const aqi = Math.floor((rawValue / 4095) * 500);
-  return Math.max(0, Math.min(500, aqi));
+const convertToHealthScore = (category: AqiCategory): number => {
+  if (category.level === 0) return 90;
+  if (category.level === 1) return 75;
+  if (category.level === 2) return 60;
+  return 45;
 };
 
-const convertToHealthScore = (aqi: number): number => {
-  if (aqi <= 50) return 90;
-  if (aqi <= 100) return 75;
-  if (aqi <= 150) return 60;
-  return 45;
+const toMarker = (node: MapNode): NodeMarker => {
+  const reading = node.latest;
+  const aqiResult = readingAQI(reading, node.aqiStandard);
+  const aqi = aqiResult?.aqi ?? FALLBACK_AQI;
+  const category = aqiResult?.category ?? aqiCategory(aqi, node.aqiStandard);
+  const mqRaw = reading?.mq135?.raw ?? null;
+  return {
+    deviceId: node.deviceId,
+    name: node.name,
+    lat: node.location?.lat ?? null,
+    lng: node.location?.lng ?? null,
+    aqi,
+    aqiCategory: category,
+    voc: mqRaw ? Math.floor(mqRaw / 10) : 0,
+    co2: reading?.co2 ? Math.round(reading.co2.ppm) : 420,
+    health: convertToHealthScore(category),
+    liveness: node.liveness,
+    lastSeen: node.lastSeen,
+    noData: !reading,
+  };
 };
 
-const getCO2FromData = (data: SensorData | null): number => {
-  if (!data || !data.co2) return 420;
-  return Math.round(data.co2.ppm);
+// What an hourly snapshot node contributes to the surface; mirrors toMarker
+const snapshotValue = (node: SurfaceNode, metric: SurfaceMetric, standard: AqiStandard): number | null => {
+  switch (metric) {
+    case 'aqi':
+      return node.aqi;
+    case 'co2':
+      return node.co2;
+    case 'voc':
+      return node.mq135Raw === null ? null : Math.floor(node.mq135Raw / 10);
+    case 'health':
+      return node.aqi === null ? null : convertToHealthScore(aqiCategory(node.aqi, standard));
+  }
+};
+
+// The standard most nodes use keys the surface legend
+const commonStandard = (nodes: MapNode[]): AqiStandard => {
+  const counts = new Map<AqiStandard, number>();
+  nodes.forEach((n) => counts.set(n.aqiStandard, (counts.get(n.aqiStandard) ?? 0) + 1));
+  let best: AqiStandard = DEFAULT_AQI_STANDARD;
+  counts.forEach((count, standard) => {
+    if (count > (counts.get(best) ?? 0)) best = standard;
+  });
+  return best;
 };
 
 const MapView: React.FC = () => {
-  const [activeFilter, setActiveFilter] = useState('aqi');
-  const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
-  const [showHeatMap, setShowHeatMap] = useState(true);
+  const [activeFilter, setActiveFilter] = useState<SurfaceMetric>('aqi');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [flyTarget, setFlyTarget] = useState<{ lat: number; lng: number; nonce: number } | null>(null);
+  const [showSurface, setShowSurface] = useState(true);
   const mapRef = useRef<L.Map | null>(null);
 
   // ── Use the shared app-level WebSocket — NO separate socket created here ──
-  const { latestReading, status } = useRealtime();
-  const isOnline = status === 'connected';
-
-  // Map the shared LiveReading type to the local SensorData shape
-  const liveData: SensorData | null = latestReading
-    ? {
-        deviceId: latestReading.deviceId,
-        environment: {
-          temperature: (latestReading as any).environment?.temperature ?? null,
-          humidity: (latestReading as any).environment?.humidity ?? null,
-        },
-        imu: {
-          ax: (latestReading as any).imu?.ax ?? null,
-          ay: (latestReading as any).imu?.ay ?? null,
-          az: (latestReading as any).imu?.az ?? null,
-          gx: (latestReading as any).imu?.gx ?? null,
-          gy: (latestReading as any).imu?.gy ?? null,
-          gz: (latestReading as any).imu?.gz ?? null,
-        },
-        location: {
-          lat: (latestReading as any).location?.lat ?? null,
-          lng: (latestReading as any).location?.lng ?? null,
-          speed: (latestReading as any).location?.speed ?? null,
-        },
-        purification: { on: (latestReading as any).purification?.on ?? false },
-        co2: (latestReading as any).co2 ?? null,
-        mq135: {
-          raw: (latestReading as any).mq135?.raw ?? null,
-          volt: (latestReading as any).mq135?.volt ?? null,
-        },
-        timestamp: latestReading.timestamp,
-      }
-    : null;
-
-  const filters = [
+  const { selectedDeviceId, selectDevice } = useRealtime();
+  const liveness = useDeviceLiveness(selectedDeviceId);
+  const { nodes, loading } = useNodeRegistry();
+
+  const markers = useMemo(() => nodes.map(toMarker), [nodes]);
+  const positioned = useMemo(() => markers.filter(isPositioned), [markers]);
+
+  // Track playback for one node at a time
+  const [showTrack, setShowTrack] = useState(false);
+  const [trackDeviceId, setTrackDeviceId] = useState<string | null>(null);
+  const [trackWindowH, setTrackWindowH] = useState(6);
+  const [trackMetric, setTrackMetric] = useState<TrackMetric>('co2');
+  const [cursorTs, setCursorTs] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const trackTarget = showTrack ? trackDeviceId ?? selectedId ?? selectedDeviceId : null;
+  const { track, loading: trackLoading, error: trackError } = useDeviceTrack(trackTarget, trackWindowH);
+  const trackStandard = nodes.find((n) => n.deviceId === trackTarget)?.aqiStandard ?? DEFAULT_AQI_STANDARD;
+
+  // Zones: operators and admins outline them by clicking vertices on the map
+  const { user, token } = useAuth();
+  const { showToast } = useToast();
+  const canEditZones = user?.role === 'admin' || user?.role === 'operator';
+  const { zones, stats: zoneStats, reload: reloadZones } = useZones();
+  const [draft, setDraft] = useState<LatLngTuple[] | null>(null);
+
+  // A freshly loaded track starts fully drawn, cursor at its end
+  useEffect(() => {
+    setPlaying(false);
+    if (track?.points.length) setCursorTs(new Date(track.points[track.points.length - 1].ts).getTime());
+  }, [track]);
+
+  // Interpolated surface: live readings, or one of the last 24 hourly snapshots
+  const [surfaceMethod, setSurfaceMethod] = useState<InterpolationMethod>('idw');
+  // Held as the hour itself so a refresh that shifts the list keeps the selection
+  const [snapshotHour, setSnapshotHour] = useState<string | null>(null);
+  const { snapshots, loading: snapshotsLoading } = useSurfaceSnapshots(showSurface);
+  const snapshotPos = snapshotHour === null ? -1 : snapshots.findIndex((snap) => snap.hour === snapshotHour);
+  const snapshotIndex = snapshotPos === -1 ? null : snapshotPos;
+  const surfaceStandard = useMemo(() => commonStandard(nodes), [nodes]);
+  const bands = useMemo(() => surfaceBands(activeFilter, surfaceStandard), [activeFilter, surfaceStandard]);
+  const surfacePoints = useMemo<SurfacePoint[]>(() => {
+    const snapshot = snapshotIndex === null ? null : snapshots[snapshotIndex];
+    if (!snapshot) {
+      // Offline nodes' values are stale; leave them out of the live surface
+      return positioned
+        .filter((m) => !isOffline(m) && !m.noData)
+        .map((m) => ({ lat: m.lat, lng: m.lng, value: m[activeFilter] }));
+    }
+    return snapshot.nodes.flatMap((n) => {
+      const standard = nodes.find((node) => node.deviceId === n.deviceId)?.aqiStandard ?? surfaceStandard;
+      const value = snapshotValue(n, activeFilter, standard);
+      return value === null ? [] : [{ lat: n.lat, lng: n.lng, value }];
+    });
+  }, [snapshotIndex, snapshots, positioned, nodes, activeFilter, surfaceStandard]);
+
+  const filters: { id: SurfaceMetric; label: string; color: string }[] = [
     { id: 'aqi', label: 'AQI', color: 'bg-orange-500' },
     { id: 'voc', label: 'VOC', color: 'bg-blue-500' },
     { id: 'co2', label: 'CO₂', color: 'bg-green-500' },
     { id: 'health', label: 'Health Score', color: 'bg-red-500' },
   ];
 
-  const mqRaw = liveData?.mq135?.raw ?? null;
-  const liveAQI = convertRawToAQI(mqRaw);
-  const liveCO2 = getCO2FromData(liveData);
-  const liveHealth = convertToHealthScore(liveAQI);
-
-  const hasGpsFix =
-    isOnline &&
-    liveData?.location &&
-    liveData.location.lat != null &&
-    liveData.location.lng != null &&
-    !(liveData.location.lat === 0 && liveData.location.lng === 0);
-
-  // When backend OFFLINE → show LIET fallback
-  // When backend ONLINE + GPS valid → show current node location
-  const mainLocation: Location = {
-    id: 1,
-    name: hasGpsFix
-      ? 'AtmosTrack Mobile Node (Current Location)'
-      : 'LIET – Lendi Institute of Engineering & Technology',
-    lat: hasGpsFix ? (liveData!.location.lat as number) : LIET_COORDS.lat,
-    lng: hasGpsFix ? (liveData!.location.lng as number) : LIET_COORDS.lng,
-    aqi: liveAQI,
-    voc: mqRaw ? Math.floor(mqRaw / 10) : 0,
-    co2: liveCO2,
-    health: liveHealth,
-    isLive: true,
-    isFallback: !hasGpsFix, // only “fallback” when we literally have no GPS
+  const handleSelect = (marker: NodeMarker) => {
+    setSelectedId(marker.deviceId);
+    if (isPositioned(marker)) setFlyTarget({ lat: marker.lat, lng: marker.lng, nonce: Date.now() });
   };
-
-  const locations: Location[] = [mainLocation];
-
-  const handleLocationClick = (location: Location) => setSelectedLocation(location);
   const handleZoomIn = () => mapRef.current?.zoomIn();
   const handleZoomOut = () => mapRef.current?.zoomOut();
-  const handleReset = () =>
-    mapRef.current?.setView([LIET_COORDS.lat, LIET_COORDS.lng], 15);
-  const toggleHeatMap = () => setShowHeatMap(!showHeatMap);
+  const handleReset = () => {
+    if (positioned.length === 0) {
+      mapRef.current?.setView([LIET_COORDS.lat, LIET_COORDS.lng], 15);
+      return;
+    }
+    mapRef.current?.fitBounds(
+      L.latLngBounds(positioned.map((m) => [m.lat, m.lng])),
+      { padding: [60, 60], maxZoom: 16 },
+    );
+  };
+  const toggleSurface = () => setShowSurface(!showSurface);
+
+  const toggleDrawing = () => {
+    setDraft(draft ? null : []);
+    setShowTrack(false);
+  };
+  const handleSelectZone = (zone: Zone) =>
+    mapRef.current?.fitBounds(L.latLngBounds(zone.polygon), { padding: [60, 60] });
+  const handleDeleteZone = async (zone: Zone) => {
+    if (!window.confirm(`Delete zone "${zone.name}"? Readings already tagged with it keep the tag.`)) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/zones/${zone._id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (data.ok) {
+        showToast(`Zone "${zone.name}" deleted`, 'info');
+        reloadZones();
+      } else {
+        showToast(data.error || 'Failed to delete zone', 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    }
+  };
 
   return (
     <div className="min-h-screen pt-16 relative bg-gradient-to-br from-gray-50 to-orange-50">
       <div className="relative h-[calc(100vh-64px)]">
+        <ReplayBanner className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] w-[min(48rem,calc(100%-2rem))]" />
         <MapContainer
           center={[LIET_COORDS.lat, LIET_COORDS.lng]}
           zoom={15}
@@ -379,24 +471,31 @@ const MapView: React.FC = () => {
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
 
-          {hasGpsFix && (
-            <RecenterOnLiveLocation
-              lat={liveData!.location.lat as number}
-              lng={liveData!.location.lng as number}
-            />
+          <FitToNodes markers={positioned} />
+          <FlyToNode target={flyTarget} />
+
+          <ZoneLayer
+            zones={zones}
+            stats={zoneStats}
+            draft={draft}
+            onAddVertex={(vertex) => setDraft((d) => (d ? [...d, vertex] : d))}
+          />
+
+          {showSurface && (
+            <InterpolationLayer points={surfacePoints} method={surfaceMethod} bands={bands} />
           )}
 
-          {showHeatMap && (
-            <HeatMapLayer locations={locations} activeFilter={activeFilter} />
+          {showTrack && track && (
+            <TrackLayer track={track} metric={trackMetric} aqiStandard={trackStandard} cursorTs={cursorTs} />
           )}
 
-          {locations.map((location) => (
-            <CustomMarker
-              key={location.id}
-              location={location}
-              onClick={handleLocationClick}
-            />
-          ))}
+          <NodeMarkersLayer
+            markers={positioned}
+            selectedId={selectedId}
+            activeId={selectedDeviceId}
+            onSelect={handleSelect}
+            onMakeActive={selectDevice}
+          />
         </MapContainer>
 
         {/* Filter pills */}
@@ -419,32 +518,27 @@ const MapView: React.FC = () => {
           ))}
         </div>
 
-        {/* Online / Offline pill */}
-        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-[1000]">
+        <NodeSidebar
+          markers={markers}
+          selectedId={selectedId}
+          onSelect={handleSelect}
+          loading={loading}
+          zones={zones}
+          zoneStats={zoneStats}
+          onSelectZone={handleSelectZone}
+          onDeleteZone={canEditZones ? handleDeleteZone : undefined}
+        />
+
+        {/* Online / Offline pill for the active node */}
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-[1000] flex flex-col items-center gap-2">
           <div
-            className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-medium backdrop-blur-md border border-white/30 ${
-              !isOnline
-                ? 'bg-red-100/80 text-red-700'
-                : !latestReading || (Date.now() - new Date(latestReading.timestamp).getTime() > 60000)
-                ? 'bg-amber-100/80 text-amber-700'
-                : 'bg-green-100/80 text-green-700'
-            }`}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-medium backdrop-blur-md border border-white/30 ${PILL_STYLES[liveness.state].pill}`}
           >
-            <div
-              className={`w-2 h-2 rounded-full ${
-                !isOnline
-                  ? 'bg-red-500'
-                  : !latestReading || (Date.now() - new Date(latestReading.timestamp).getTime() > 60000)
-                  ? 'bg-amber-500'
-                  : 'bg-green-500'
-              } animate-pulse`}
-            ></div>
+            <div className={`w-2 h-2 rounded-full ${PILL_STYLES[liveness.state].dot} animate-pulse`}></div>
             <span>
-              {!isOnline
-                ? 'Monitor: Offline (showing LIET)'
-                : !latestReading || (Date.now() - new Date(latestReading.timestamp).getTime() > 60000)
-                ? 'Monitor: Sensor Offline / Stale'
-                : 'Monitor: Live (Active)'}
+              {liveness.state === 'backend_offline'
+                ? 'Monitor: Offline (showing last known positions)'
+                : `Monitor: ${livenessLabel(liveness)}`}
             </span>
           </div>
         </div>
@@ -465,14 +559,43 @@ const MapView: React.FC = () => {
           </button>
           <button
             onClick={handleReset}
+            title="Show all nodes"
             className="w-10 h-10 bg-white/90 backdrop-blur-md rounded-lg shadow-lg flex items-center justify-center hover:bg-white transition-all duration-200 transform hover:scale-105"
           >
             <RotateCcw className="h-5 w-5 text-gray-600" />
           </button>
+          {canEditZones && (
+            <button
+              onClick={toggleDrawing}
+              title={draft ? 'Cancel zone drawing' : 'Draw a zone'}
+              className={`w-12 h-12 backdrop-blur-md rounded-xl shadow-lg flex items-center justify-center transition-all duration-200 transform hover:scale-105 border border-gray-200 ${
+                draft
+                  ? 'bg-orange-500 text-white'
+                  : 'bg-white/90 text-gray-600 hover:bg-white'
+              }`}
+            >
+              <Hexagon className="h-5 w-5" />
+            </button>
+          )}
           <button
-            onClick={toggleHeatMap}
+            onClick={() => {
+              setShowTrack(!showTrack);
+              setDraft(null);
+            }}
+            title="Track playback"
             className={`w-12 h-12 backdrop-blur-md rounded-xl shadow-lg flex items-center justify-center transition-all duration-200 transform hover:scale-105 border border-gray-200 ${
-              showHeatMap
+              showTrack
+                ? 'bg-orange-500 text-white'
+                : 'bg-white/90 text-gray-600 hover:bg-white'
+            }`}
+          >
+            <Route className="h-5 w-5" />
+          </button>
+          <button
+            onClick={toggleSurface}
+            title="Interpolated surface"
+            className={`w-12 h-12 backdrop-blur-md rounded-xl shadow-lg flex items-center justify-center transition-all duration-200 transform hover:scale-105 border border-gray-200 ${
+              showSurface
                 ? 'bg-orange-500 text-white'
                 : 'bg-white/90 text-gray-600 hover:bg-white'
             }`}
@@ -481,11 +604,51 @@ const MapView: React.FC = () => {
           </button>
         </div>
 
-        {/* Info panel (unchanged logic, but now reflects mainLocation) */}
-        {selectedLocation && (
-          <div className="absolute bottom-4 left-4 bg-white/80 backdrop-blur-xl rounded-3xl p-6 shadow-2xl max-w-sm z-[1000] border border-white/40">
-            {/* ...keep your existing panel body... */}
-          </div>
+        {showSurface && !showTrack && !draft && (
+          <SurfacePanel
+            method={surfaceMethod}
+            onMethodChange={setSurfaceMethod}
+            metricLabel={filters.find((f) => f.id === activeFilter)?.label ?? 'AQI'}
+            bands={bands}
+            snapshots={snapshots}
+            snapshotIndex={snapshotIndex}
+            onSnapshotChange={(index) => setSnapshotHour(index === null ? null : snapshots[index].hour)}
+            nodeCount={surfacePoints.length}
+            loading={snapshotsLoading}
+          />
+        )}
+
+        {draft && (
+          <ZoneDrawPanel
+            draft={draft}
+            onUndo={() => setDraft(draft.slice(0, -1))}
+            onCancel={() => setDraft(null)}
+            onSaved={() => {
+              setDraft(null);
+              reloadZones();
+            }}
+          />
+        )}
+
+        {showTrack && (
+          <TrackPanel
+            nodes={markers}
+            deviceId={trackTarget}
+            onDeviceChange={setTrackDeviceId}
+            windowHours={trackWindowH}
+            onWindowChange={setTrackWindowH}
+            metric={trackMetric}
+            onMetricChange={setTrackMetric}
+            aqiStandard={trackStandard}
+            track={track}
+            loading={trackLoading}
+            error={trackError}
+            cursorTs={cursorTs}
+            onCursorChange={setCursorTs}
+            playing={playing}
+            onPlayingChange={setPlaying}
+            onClose={() => setShowTrack(false)}
+          />
         )}
       </div>
     </div>
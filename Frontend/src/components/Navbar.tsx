@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { Menu, X } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtime, useDeviceLiveness } from '../contexts/RealtimeContext';
+import LivenessBadge from './LivenessBadge';
+import DeviceSelector from './DeviceSelector';
 import logo from '../assets/logo.png'; // adjust if Navbar is in a subfolder
 
 interface NavbarProps {
@@ -11,6 +14,8 @@ interface NavbarProps {
 const Navbar: React.FC<NavbarProps> = ({ activeView, setActiveView }) => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { user, logout, adminModeUnlocked } = useAuth();
+  const { selectedDeviceId } = useRealtime();
+  const liveness = useDeviceLiveness(selectedDeviceId);
 
   // Role-based navigation — viewers have read-only access (no export)
   const baseViewerItems = [
@@ -100,6 +105,9 @@ const Navbar: React.FC<NavbarProps> = ({ activeView, setActiveView }) => {
               </button>
             ))}
 
+            <DeviceSelector className="ml-3" />
+            <LivenessBadge liveness={liveness} compact className="ml-2" />
+
             {/* Logout */}
             <button
               onClick={handleLogout}
@@ -129,6 +137,10 @@ const Navbar: React.FC<NavbarProps> = ({ activeView, setActiveView }) => {
         {mobileMenuOpen && (
           <div className="md:hidden border-t border-cream-200 bg-white/95 backdrop-blur-md animate-slide-up">
             <div className="px-2 pt-2 pb-3 space-y-1">
+              <div className="flex items-center gap-2 px-3 py-2">
+                <DeviceSelector />
+                <LivenessBadge liveness={liveness} compact />
+              </div>
               {navItems.map((item) => (
                 <button
                   key={item.id}
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, MapPinOff, Radio, Trash2 } from 'lucide-react';
+import type { NodeMarker } from '../types/NodeRegistry';
+import type { LivenessState } from '../types/DeviceLiveness';
+import type { Zone, ZoneStats } from '../types/Zone';
+
+interface NodeSidebarProps {
+  markers: NodeMarker[];
+  selectedId: string | null;
+  onSelect: (marker: NodeMarker) => void;
+  loading: boolean;
+  zones: Zone[];
+  zoneStats: Record<string, ZoneStats>;
+  onSelectZone: (zone: Zone) => void;
+  // Only passed to operators and admins
+  onDeleteZone?: (zone: Zone) => void;
+}
+
+type SidebarTab = 'nodes' | 'zones';
+
+const DOT: Record<LivenessState, string> = {
+  backend_offline: 'bg-slate-400',
+  waiting: 'bg-gray-400',
+  online: 'bg-green-500',
+  degraded: 'bg-amber-500',
+  offline: 'bg-red-500',
+};
+
+const formatSeen = (iso: string | null) => {
+  if (!iso) return 'never reported';
+  const s = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 1000));
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h ago`;
+  return `${Math.floor(s / 86400)}d ago`;
+};
+
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+// Last-24-hour summary per zone; picking one fits the map to it
+const ZoneList: React.FC<{
+  zones: Zone[];
+  stats: Record<string, ZoneStats>;
+  onSelect: (zone: Zone) => void;
+  onDelete?: (zone: Zone) => void;
+}> = ({ zones, stats, onSelect, onDelete }) => (
+  <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+    {zones.length === 0 && (
+      <li className="px-3 py-2 text-sm text-gray-500">
+        No zones yet.{onDelete && ' Use the draw button to outline one.'}
+      </li>
+    )}
+    {zones.map((zone) => {
+      const s = stats[zone._id];
+      return (
+        <li key={zone._id} className="group flex items-start gap-1">
+          <button onClick={() => onSelect(zone)} className="flex-1 min-w-0 text-left px-3 py-2.5 rounded-xl hover:bg-gray-50">
+            <div className="flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: zone.color }} />
+              <span className="font-medium text-sm text-gray-800 truncate flex-1">{zone.name}</span>
+              {s && s.exceedanceMinutes > 0 && (
+                <span className="text-[10px] font-bold text-white bg-red-500 px-2 py-0.5 rounded-full" title={`Time above AQI ${zone.aqiLimit}`}>
+                  {formatMinutes(s.exceedanceMinutes)}
+                </span>
+              )}
+            </div>
+            <div className="mt-1 pl-4 text-[11px] text-gray-500">
+              {!s || s.readings === 0 ? (
+                'No readings in the last 24 h'
+              ) : (
+                <>
+                  AQI {s.meanAqi ?? '–'} mean · {s.maxAqi ?? '–'} max · limit {zone.aqiLimit}
+                  <br />
+                  {s.readings} readings from {s.devices.length} node{s.devices.length === 1 ? '' : 's'}
+                </>
+              )}
+            </div>
+          </button>
+          {onDelete && (
+            <button
+              onClick={() => onDelete(zone)}
+              className="mt-2 p-1.5 rounded-lg text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600 hover:bg-red-50"
+              title="Delete zone"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+// Every node in the registry, live first; picking one flies the map to it.
+// A second tab summarises the geofenced zones.
+const NodeSidebar: React.FC<NodeSidebarProps> = ({
+  markers, selectedId, onSelect, loading, zones, zoneStats, onSelectZone, onDeleteZone,
+}) => {
+  const [open, setOpen] = useState(true);
+  const [tab, setTab] = useState<SidebarTab>('nodes');
+  const liveCount = markers.filter((m) => m.liveness === 'online' || m.liveness === 'degraded').length;
+  const sorted = [...markers].sort((a, b) => {
+    const aLive = a.liveness === 'online' || a.liveness === 'degraded';
+    const bLive = b.liveness === 'online' || b.liveness === 'degraded';
+    return aLive === bLive ? a.name.localeCompare(b.name) : aLive ? -1 : 1;
+  });
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="absolute top-20 left-4 z-[1000] flex items-center gap-2 px-3 py-2 rounded-xl bg-white/90 backdrop-blur-md shadow-lg border border-white/40 text-sm font-medium text-gray-700"
+      >
+        <Radio className="h-4 w-4 text-orange-500" /> {markers.length} nodes
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute top-20 left-4 bottom-4 w-72 z-[1000] flex flex-col bg-white/85 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/40 overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100">
+        <div>
+          <div className="flex gap-3">
+            {(['nodes', 'zones'] as SidebarTab[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`font-bold ${tab === t ? 'text-gray-800' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                {t === 'nodes' ? 'Nodes' : 'Zones'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {tab === 'nodes'
+              ? `${liveCount} live · ${markers.length} registered`
+              : `${zones.length} zone${zones.length === 1 ? '' : 's'} · last 24 h`}
+          </p>
+        </div>
+        <button onClick={() => setOpen(false)} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100" title="Hide list">
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+      </div>
+
+      {tab === 'zones' ? (
+        <ZoneList zones={zones} stats={zoneStats} onSelect={onSelectZone} onDelete={onDeleteZone} />
+      ) : (
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {loading && markers.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">Loading nodes…</li>
+          )}
+          {!loading && markers.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">No nodes have reported yet.</li>
+          )}
+          {sorted.map((marker) => {
+            const offline = marker.liveness === 'offline' || marker.liveness === 'backend_offline';
+            return (
+              <li key={marker.deviceId}>
+                <button
+                  onClick={() => onSelect(marker)}
+                  className={`w-full text-left px-3 py-2.5 rounded-xl transition-colors ${
+                    marker.deviceId === selectedId ? 'bg-orange-50 ring-1 ring-orange-300' : 'hover:bg-gray-50'
+                  } ${offline ? 'opacity-70' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${DOT[marker.liveness]}`} />
+                    <span className="font-medium text-sm text-gray-800 truncate flex-1">{marker.name}</span>
+                    {!marker.noData && (
+                      <span
+                        className="text-xs font-bold text-white px-2 py-0.5 rounded-full"
+                        style={{ backgroundColor: offline ? '#9ca3af' : marker.aqiCategory.color }}
+                      >
+                        {Math.round(marker.aqi)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1.5 mt-1 pl-4 text-[11px] text-gray-500">
+                    {marker.name !== marker.deviceId && <span className="truncate">{marker.deviceId} ·</span>}
+                    {!marker.noData && <span>CO₂ {Math.round(marker.co2)} ppm ·</span>}
+                    <span>{formatSeen(marker.lastSeen)}</span>
+                    {marker.lat === null && (
+                      <span title="No position reported yet"><MapPinOff className="h-3 w-3 text-gray-400" /></span>
+                    )}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NodeSidebar;
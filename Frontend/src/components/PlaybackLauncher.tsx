@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { usePlayback } from '../contexts/PlaybackContext';
+import { useRealtime } from '../contexts/RealtimeContext';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD of yesterday in local time, the usual incident-review target
+const yesterday = () => {
+  const d = new Date(Date.now() - DAY_MS);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Picks a past day for the selected node and starts a replay of it
+const PlaybackLauncher: React.FC = () => {
+  const { session, start } = usePlayback();
+  const { selectedDeviceId } = useRealtime();
+  const [open, setOpen] = useState(false);
+  const [day, setDay] = useState(yesterday);
+
+  if (session) return null;
+
+  const handleStart = () => {
+    if (!selectedDeviceId || !day) return;
+    // Local midnight to local midnight
+    const from = new Date(`${day}T00:00:00`).getTime();
+    start(selectedDeviceId, from, from + DAY_MS);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        disabled={!selectedDeviceId}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/90 border border-violet-200 text-xs font-semibold text-violet-700 shadow-sm hover:bg-violet-50 transition-colors disabled:opacity-50"
+      >
+        <History className="h-3.5 w-3.5" />
+        Replay
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 z-50 bg-white border border-violet-200 rounded-xl shadow-xl p-4 space-y-3">
+          <p className="text-xs text-gray-600">
+            Replay a stored day of <span className="font-mono font-semibold">{selectedDeviceId}</span> through the live views.
+          </p>
+          <input
+            type="date"
+            value={day}
+            max={new Date().toISOString().slice(0, 10)}
+            onChange={(e) => setDay(e.target.value)}
+            className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-violet-300"
+          />
+          <button
+            onClick={handleStart}
+            disabled={!day}
+            className="w-full px-3 py-2 rounded-lg bg-violet-600 text-white text-sm font-bold hover:bg-violet-700 transition-colors disabled:opacity-50"
+          >
+            Start replay
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackLauncher;
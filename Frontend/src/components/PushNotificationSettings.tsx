@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing, BellOff, Moon, Send, Save } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { currentSubscription, pushSupported, subscribeBrowser } from '../lib/push';
+import type { AlertSeverity } from '../types/Alert';
+import type { NotificationPrefs, PushSubscriptionSummary } from '../types/Push';
+import { API_BASE as API } from '../config';
+
+const SEVERITY_OPTIONS: { id: AlertSeverity; label: string; hint: string }[] = [
+  { id: 'critical', label: 'Critical', hint: 'Hazardous conditions' },
+  { id: 'warning', label: 'Warning', hint: 'Unhealthy levels' },
+  { id: 'info', label: 'Info', hint: 'Early heads-ups' },
+];
+
+// Web Push for alert rules: this browser's subscription, which severities
+// to receive, and quiet hours. Lives on the profile page.
+const PushNotificationSettings: React.FC = () => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [serverEnabled, setServerEnabled] = useState<boolean | null>(null);
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+  const [prefs, setPrefs] = useState<NotificationPrefs | null>(null);
+  const [subscriptions, setSubscriptions] = useState<PushSubscriptionSummary[]>([]);
+  const [thisEndpoint, setThisEndpoint] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const supported = pushSupported();
+  const authHeaders = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+  const load = async () => {
+    try {
+      const [keyRes, prefsRes, sub] = await Promise.all([
+        fetch(`${API}/api/push/public-key`, { headers: authHeaders }),
+        fetch(`${API}/api/push/preferences`, { headers: authHeaders }),
+        currentSubscription(),
+      ]);
+      const keyData = await keyRes.json();
+      const prefsData = await prefsRes.json();
+      if (keyData.ok) {
+        setServerEnabled(keyData.enabled);
+        setPublicKey(keyData.publicKey);
+      }
+      if (prefsData.ok) {
+        setPrefs(prefsData.preferences);
+        setSubscriptions(prefsData.subscriptions);
+      }
+      setThisEndpoint(sub?.endpoint ?? null);
+    } catch {
+      showToast('Could not load notification settings', 'error');
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const thisBrowserRegistered = !!thisEndpoint && subscriptions.some((s) => s.endpoint === thisEndpoint);
+
+  const enableThisBrowser = async () => {
+    if (!publicKey) return;
+    setBusy(true);
+    try {
+      const subscription = await subscribeBrowser(publicKey);
+      const res = await fetch(`${API}/api/push/subscriptions`, {
+        method: 'POST',
+        headers: authHeaders,
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || 'Failed to register this browser');
+      showToast('Push notifications enabled on this browser', 'success');
+      await load();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to enable notifications', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const disableThisBrowser = async () => {
+    setBusy(true);
+    try {
+      const subscription = await currentSubscription();
+      if (subscription) {
+        await fetch(`${API}/api/push/subscriptions`, {
+          method: 'DELETE',
+          headers: authHeaders,
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      showToast('Push notifications disabled on this browser', 'info');
+      await load();
+    } catch {
+      showToast('Failed to disable notifications', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const savePrefs = async () => {
+    if (!prefs) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`${API}/api/push/preferences`, {
+        method: 'PUT',
+        headers: authHeaders,
+        body: JSON.stringify(prefs),
+      });
+      const data = await res.json();
+      if (data.ok) {
+        setPrefs(data.preferences);
+        showToast('Notification preferences saved', 'success');
+      } else {
+        showToast(data.error || 'Failed to save preferences', 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendTest = async () => {
+    try {
+      const res = await fetch(`${API}/api/push/test`, { method: 'POST', headers: authHeaders });
+      const data = await res.json();
+      if (data.ok) showToast(`Test sent to ${data.delivered} of ${data.subscriptions} browser(s)`, 'info');
+      else showToast(data.error || 'Test failed', 'error');
+    } catch {
+      showToast('Network error', 'error');
+    }
+  };
+
+  const setQuiet = <K extends keyof NotificationPrefs['quietHours']>(key: K, value: NotificationPrefs['quietHours'][K]) =>
+    setPrefs((p) => (p ? { ...p, quietHours: { ...p.quietHours, [key]: value } } : p));
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-[2.5rem] border border-cream-200 p-8 shadow-lg">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-2xl bg-orange-500/10 flex items-center justify-center text-orange-600 shadow-inner">
+            <BellRing className="w-6 h-6" />
+          </div>
+          <div>
+            <h3 className="text-xl font-black text-gray-900 tracking-tight">Push Notifications</h3>
+            <p className="text-xs text-gray-400 font-medium">Alert rule notifications, even with AtmosTrack in the background</p>
+          </div>
+        </div>
+        {supported && serverEnabled && (
+          thisBrowserRegistered ? (
+            <div className="flex gap-2">
+              <button onClick={sendTest} className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl border border-cream-200 text-xs font-black text-gray-600 hover:border-orange-400">
+                <Send className="w-4 h-4" /> Test
+              </button>
+              <button disabled={busy} onClick={disableThisBrowser} className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl border border-rose-200 text-xs font-black text-rose-600 hover:bg-rose-50 disabled:opacity-50">
+                <BellOff className="w-4 h-4" /> Disable on this browser
+              </button>
+            </div>
+          ) : (
+            <button disabled={busy || !publicKey} onClick={enableThisBrowser} className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-slate-900 text-white text-xs font-black hover:bg-slate-800 disabled:opacity-50">
+              <BellRing className="w-4 h-4" /> Enable on this browser
+            </button>
+          )
+        )}
+      </div>
+
+      {!supported ? (
+        <p className="text-sm text-gray-500">This browser does not support push notifications.</p>
+      ) : serverEnabled === false ? (
+        <p className="text-sm text-gray-500">Push notifications are not configured on the server yet.</p>
+      ) : prefs && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3">Notify me about</p>
+            <div className="space-y-2">
+              {SEVERITY_OPTIONS.map((option) => (
+                <label key={option.id} className="flex items-center justify-between p-3 bg-orange-50/40 rounded-xl border border-cream-100 cursor-pointer">
+                  <span>
+                    <span className="text-sm font-bold text-gray-700">{option.label}</span>
+                    <span className="text-xs text-gray-400 ml-2">{option.hint}</span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={prefs.severities[option.id]}
+                    onChange={(e) => setPrefs({ ...prefs, severities: { ...prefs.severities, [option.id]: e.target.checked } })}
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-3">
+              {subscriptions.length} browser{subscriptions.length === 1 ? '' : 's'} registered
+              {thisBrowserRegistered && ', including this one'}.
+            </p>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-1.5">
+              <Moon className="w-3.5 h-3.5" /> Quiet hours
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+              <input
+                type="checkbox"
+                checked={prefs.quietHours.enabled}
+                onChange={(e) => {
+                  setQuiet('enabled', e.target.checked);
+                  // Quiet hours follow the clock of the browser that set them
+                  setQuiet('timezone', Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+                }}
+              />
+              Silence notifications between
+            </label>
+            <div className="flex items-center gap-2 mb-3">
+              <input type="time" value={prefs.quietHours.start} disabled={!prefs.quietHours.enabled} onChange={(e) => setQuiet('start', e.target.value)} className="bg-orange-50/30 border border-cream-200 rounded-xl px-3 py-2 text-sm font-bold disabled:opacity-50" />
+              <span className="text-xs text-gray-400">and</span>
+              <input type="time" value={prefs.quietHours.end} disabled={!prefs.quietHours.enabled} onChange={(e) => setQuiet('end', e.target.value)} className="bg-orange-50/30 border border-cream-200 rounded-xl px-3 py-2 text-sm font-bold disabled:opacity-50" />
+              <span className="text-xs text-gray-400">{prefs.quietHours.timezone}</span>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={prefs.quietHours.allowCritical}
+                disabled={!prefs.quietHours.enabled}
+                onChange={(e) => setQuiet('allowCritical', e.target.checked)}
+              />
+              Always let critical alerts through
+            </label>
+          </div>
+
+          <div className="lg:col-span-2 flex justify-end">
+            <button disabled={busy} onClick={savePrefs} className="inline-flex items-center gap-2 px-6 py-3 rounded-2xl bg-orange-500 text-white text-sm font-black hover:bg-orange-600 disabled:opacity-50">
+              <Save className="w-4 h-4" /> Save preferences
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PushNotificationSettings;
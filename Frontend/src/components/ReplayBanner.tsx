@@ -0,0 +1,107 @@
+import React from 'react';
+import { History, Pause, Play, X, Loader } from 'lucide-react';
+import { usePlayback, PLAYBACK_SPEEDS } from '../contexts/PlaybackContext';
+import type { PlaybackSpeed } from '../types/Playback';
+
+interface ReplayBannerProps {
+  className?: string;
+}
+
+const formatClock = (ms: number) =>
+  new Date(ms).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+// Transport bar shown on every live view while stored readings are replayed,
+// so nobody mistakes the replay for the live feed.
+const ReplayBanner: React.FC<ReplayBannerProps> = ({ className = '' }) => {
+  const {
+    session,
+    playing,
+    speed,
+    position,
+    loadedUntil,
+    loadedCount,
+    loading,
+    error,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    stop,
+  } = usePlayback();
+
+  if (!session) return null;
+
+  const span = session.to - session.from;
+  const clock = position ?? session.from;
+  const loadedPct = loadedUntil !== null ? ((loadedUntil - session.from) / span) * 100 : 0;
+
+  return (
+    <div className={`rounded-2xl border-2 border-violet-300 bg-violet-50/95 backdrop-blur-md shadow-lg px-4 py-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-violet-600 text-white text-[11px] font-black uppercase tracking-wider">
+          <History className="h-3.5 w-3.5" />
+          Replay
+        </span>
+        <span className="text-sm font-semibold text-violet-900">
+          Not live · <span className="font-mono">{session.deviceId}</span> · {formatClock(clock)}
+        </span>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={playing ? pause : play}
+            className="w-8 h-8 rounded-full bg-violet-600 text-white flex items-center justify-center hover:bg-violet-700 transition-colors"
+            title={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value) as PlaybackSpeed)}
+            className="text-xs font-bold text-violet-800 bg-white border border-violet-200 rounded-lg px-2 py-1.5 focus:outline-none"
+          >
+            {PLAYBACK_SPEEDS.map((s) => (
+              <option key={s} value={s}>{s}x</option>
+            ))}
+          </select>
+          <button
+            onClick={stop}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border border-violet-300 text-xs font-bold text-violet-800 hover:bg-violet-100 transition-colors"
+          >
+            <X className="h-3.5 w-3.5" />
+            Back to live
+          </button>
+        </div>
+      </div>
+
+      <div className="relative mt-3">
+        {/* Fetched portion of the range */}
+        <div className="absolute inset-y-0 left-0 my-auto h-1.5 rounded-full bg-violet-200" style={{ width: `${Math.min(100, loadedPct)}%` }} />
+        <input
+          type="range"
+          min={session.from}
+          max={session.to}
+          step={1000}
+          value={clock}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="relative w-full accent-violet-600 bg-transparent"
+        />
+      </div>
+      <div className="flex justify-between text-[11px] text-violet-700 mt-1">
+        <span>{formatClock(session.from)}</span>
+        <span className="inline-flex items-center gap-1">
+          {loading && <Loader className="h-3 w-3 animate-spin" />}
+          {error ? <span className="text-red-600">{error}</span> : `${loadedCount.toLocaleString()} readings loaded`}
+        </span>
+        <span>{formatClock(session.to)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayBanner;
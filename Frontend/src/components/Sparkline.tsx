@@ -0,0 +1,36 @@
+import React from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+
+export interface SparklineProps {
+  values: (number | null)[];
+  color: string;
+  height?: number;
+}
+
+// Axis-less trend line for the live sensor tiles
+const Sparkline: React.FC<SparklineProps> = ({ values, color, height = 36 }) => {
+  if (values.filter((v) => v != null).length < 2) {
+    return <div style={{ height }} />;
+  }
+
+  const data = values.map((v, i) => ({ i, v }));
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data} margin={{ top: 2, right: 2, left: 2, bottom: 2 }}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        <Line
+          type="monotone"
+          dataKey="v"
+          stroke={color}
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+          connectNulls
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOverlay, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { ChevronLeft, ChevronRight, Layers } from 'lucide-react';
+import { bandColor, surfaceEstimator, surfaceReach } from '../lib/interpolation';
+import type { InterpolationMethod, SurfaceBand, SurfacePoint, SurfaceSnapshot } from '../types/Surface';
+
+// One estimate per CELL_PX × CELL_PX screen block; the browser's smoothing
+// when stretching the image does the rest
+const CELL_PX = 6;
+const SURFACE_ALPHA = 0.5;
+
+const hexToRgb = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+interface InterpolationLayerProps {
+  points: SurfacePoint[];
+  method: InterpolationMethod;
+  bands: SurfaceBand[];
+}
+
+// Continuous surface over the visible bounds, redrawn after every pan or zoom.
+// It fades out away from the nodes instead of extrapolating across the map.
+export const InterpolationLayer: React.FC<InterpolationLayerProps> = ({ points, method, bands }) => {
+  const map = useMap();
+  const [view, setView] = useState(0);
+  const [overlay, setOverlay] = useState<{ url: string; bounds: L.LatLngBounds } | null>(null);
+  useMapEvents({ moveend: () => setView((v) => v + 1) });
+
+  useEffect(() => {
+    if (points.length === 0) {
+      setOverlay(null);
+      return;
+    }
+    const size = map.getSize();
+    const cols = Math.ceil(size.x / CELL_PX);
+    const rows = Math.ceil(size.y / CELL_PX);
+    const canvas = document.createElement('canvas');
+    canvas.width = cols;
+    canvas.height = rows;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const estimate = surfaceEstimator(points, method);
+    const { reachM, nearestM } = surfaceReach(points);
+    const image = ctx.createImageData(cols, rows);
+    for (let y = 0; y < rows; y += 1) {
+      for (let x = 0; x < cols; x += 1) {
+        const { lat, lng } = map.containerPointToLatLng([(x + 0.5) * CELL_PX, (y + 0.5) * CELL_PX]);
+        const fade = Math.min(1, Math.max(0, 2 - nearestM(lat, lng) / reachM));
+        if (fade === 0) continue;
+        const [r, g, b] = hexToRgb(bandColor(bands, estimate(lat, lng)));
+        const i = (y * cols + x) * 4;
+        image.data[i] = r;
+        image.data[i + 1] = g;
+        image.data[i + 2] = b;
+        image.data[i + 3] = Math.round(255 * SURFACE_ALPHA * fade);
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+    setOverlay({
+      url: canvas.toDataURL(),
+      bounds: L.latLngBounds(
+        map.containerPointToLatLng([0, rows * CELL_PX]),
+        map.containerPointToLatLng([cols * CELL_PX, 0]),
+      ),
+    });
+  }, [map, points, method, bands, view]);
+
+  return overlay ? <ImageOverlay url={overlay.url} bounds={overlay.bounds} interactive={false} /> : null;
+};
+
+const formatHour = (iso: string) =>
+  new Date(iso).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+interface SurfacePanelProps {
+  method: InterpolationMethod;
+  onMethodChange: (method: InterpolationMethod) => void;
+  metricLabel: string;
+  bands: SurfaceBand[];
+  snapshots: SurfaceSnapshot[];
+  // Index into `snapshots`; null shows live readings
+  snapshotIndex: number | null;
+  onSnapshotChange: (index: number | null) => void;
+  nodeCount: number;
+  loading: boolean;
+}
+
+// Surface controls: interpolation method, hourly stepping and the legend
+const SurfacePanel: React.FC<SurfacePanelProps> = ({
+  method, onMethodChange, metricLabel, bands, snapshots, snapshotIndex, onSnapshotChange, nodeCount, loading,
+}) => {
+  // The slider's last stop is "live"
+  const position = snapshotIndex ?? snapshots.length;
+  const step = (to: number) => {
+    const clamped = Math.max(0, Math.min(snapshots.length, to));
+    onSnapshotChange(clamped === snapshots.length ? null : clamped);
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-[1000] w-[20rem] bg-white/90 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/40 p-5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-orange-500" />
+          <h3 className="font-bold text-gray-800">{metricLabel} surface</h3>
+        </div>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs">
+          {(['idw', 'kriging'] as InterpolationMethod[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => onMethodChange(m)}
+              title={m === 'idw' ? 'Inverse-distance weighting' : 'Ordinary kriging (exponential variogram)'}
+              className={`px-2.5 py-1 font-medium ${method === m ? 'bg-orange-500 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              {m === 'idw' ? 'IDW' : 'Kriging'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mb-1">
+        <button
+          onClick={() => step(position - 1)}
+          disabled={position === 0}
+          className="p-1 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+          title="Previous hour"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={snapshots.length}
+          value={position}
+          onChange={(e) => step(Number(e.target.value))}
+          className="flex-1 accent-orange-500"
+        />
+        <button
+          onClick={() => step(position + 1)}
+          disabled={snapshotIndex === null}
+          className="p-1 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+          title="Next hour"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-3 text-center">
+        {snapshotIndex === null
+          ? 'Live'
+          : `Hour from ${formatHour(snapshots[snapshotIndex].hour)}`}
+        {' · '}
+        {loading && snapshots.length === 0
+          ? 'loading history…'
+          : `${nodeCount} node${nodeCount === 1 ? '' : 's'}`}
+      </p>
+
+      {nodeCount === 0 && (
+        <p className="text-xs text-gray-500 mb-3">No positioned node reported {snapshotIndex === null ? 'recently' : 'in this hour'}.</p>
+      )}
+
+      <ul className="space-y-1">
+        {bands.map((band) => (
+          <li key={band.label} className="flex items-center gap-2 text-xs text-gray-600">
+            <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: band.color }} />
+            {band.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SurfacePanel;
@@ -0,0 +1,315 @@
+import React, { useEffect, useMemo } from 'react';
+import { CircleMarker, Marker, Polyline, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Pause, Play, Route, X } from 'lucide-react';
+import { aqiCategory, AQI_STANDARDS } from '../lib/aqi';
+import { CO2_BANDS, TRACK_WINDOWS_H, co2Color, formatDuration, pointIndexAt } from '../lib/track';
+import type { AqiStandard } from '../types/Aqi';
+import type { DeviceTrack, TrackMetric, TrackPoint } from '../types/Track';
+
+// Whole window plays back in about this long
+const PLAYBACK_MS = 30 * 1000;
+const PLAYBACK_TICK_MS = 100;
+const FUTURE_COLOR = '#cbd5e1';
+
+const formatTime = (iso: string | number) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const pointColor = (p: TrackPoint, metric: TrackMetric, standard: AqiStandard) => {
+  const value = metric === 'co2' ? p.co2 : p.aqi;
+  if (value == null) return FUTURE_COLOR;
+  return metric === 'co2' ? co2Color(value) : aqiCategory(value, standard).color;
+};
+
+// Consecutive same-coloured steps merged into one polyline each
+type TrackRun = { start: number; end: number; color: string; positions: [number, number][]; future: boolean };
+
+function buildRuns(
+  points: TrackPoint[],
+  cursorIndex: number,
+  metric: TrackMetric,
+  standard: AqiStandard,
+): TrackRun[] {
+  const runs: TrackRun[] = [];
+  for (let i = 1; i < points.length; i += 1) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (a.segment !== b.segment) continue;
+    const future = i > cursorIndex;
+    const color = future ? FUTURE_COLOR : pointColor(a, metric, standard);
+    const last = runs[runs.length - 1];
+    if (last && last.end === i - 1 && last.color === color && last.future === future) {
+      last.positions.push([b.lat, b.lng]);
+      last.end = i;
+    } else {
+      runs.push({ start: i - 1, end: i, color, positions: [[a.lat, a.lng], [b.lat, b.lng]], future });
+    }
+  }
+  return runs;
+}
+
+const endpointIcon = (label: string, color: string) =>
+  new L.DivIcon({
+    html: `<div style="width:24px;height:24px;border-radius:50%;background:${color};border:3px solid white;box-shadow:0 2px 6px rgba(0,0,0,0.35);display:flex;align-items:center;justify-content:center;color:white;font-size:11px;font-weight:800;">${label}</div>`,
+    className: 'custom-div-icon',
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+  });
+
+const START_ICON = endpointIcon('S', '#16a34a');
+const STOP_ICON = endpointIcon('E', '#dc2626');
+
+interface TrackLayerProps {
+  track: DeviceTrack;
+  metric: TrackMetric;
+  aqiStandard: AqiStandard;
+  cursorTs: number;
+}
+
+// Track path on the map: coloured up to the playback cursor, grey after it,
+// with start / stop, dwell and top-speed annotations
+export const TrackLayer: React.FC<TrackLayerProps> = ({ track, metric, aqiStandard, cursorTs }) => {
+  const map = useMap();
+  const { points } = track;
+
+  // Frame the whole path whenever a new track loads
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(L.latLngBounds(points.map((p) => [p.lat, p.lng])), { padding: [80, 80], maxZoom: 17 });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [track, map]);
+
+  const cursorIndex = pointIndexAt(points, cursorTs);
+  const runs = useMemo(
+    () => buildRuns(points, cursorIndex, metric, aqiStandard),
+    [points, cursorIndex, metric, aqiStandard],
+  );
+
+  if (points.length === 0) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const cursor = cursorIndex >= 0 ? points[cursorIndex] : null;
+
+  return (
+    <>
+      {runs.map((run) => (
+        <Polyline
+          key={`${run.start}-${run.end}-${run.color}`}
+          positions={run.positions}
+          pathOptions={{ color: run.color, weight: run.future ? 3 : 5, opacity: run.future ? 0.6 : 0.9 }}
+        />
+      ))}
+
+      {track.dwells.map((dwell) => (
+        <CircleMarker
+          key={dwell.from}
+          center={[dwell.lat, dwell.lng]}
+          radius={Math.min(18, 6 + dwell.minutes / 10)}
+          pathOptions={{ color: '#7c3aed', fillColor: '#8b5cf6', fillOpacity: 0.25, weight: 2, dashArray: '4 3' }}
+        >
+          <Tooltip direction="top">
+            Stopped {formatDuration(dwell.minutes)} · {formatTime(dwell.from)}
+          </Tooltip>
+        </CircleMarker>
+      ))}
+
+      {track.stats.maxSpeed && track.stats.maxSpeed.kmh > 0 && (
+        <CircleMarker
+          center={[track.stats.maxSpeed.lat, track.stats.maxSpeed.lng]}
+          radius={5}
+          pathOptions={{ color: '#0f172a', fillColor: '#facc15', fillOpacity: 1, weight: 2 }}
+        >
+          <Tooltip direction="right">
+            Top speed {track.stats.maxSpeed.kmh} km/h · {formatTime(track.stats.maxSpeed.at)}
+          </Tooltip>
+        </CircleMarker>
+      )}
+
+      <Marker position={[first.lat, first.lng]} icon={START_ICON}>
+        <Tooltip direction="top">Start · {formatTime(first.ts)}</Tooltip>
+      </Marker>
+      {points.length > 1 && (
+        <Marker position={[last.lat, last.lng]} icon={STOP_ICON}>
+          <Tooltip direction="top">End · {formatTime(last.ts)}</Tooltip>
+        </Marker>
+      )}
+
+      {cursor && (
+        <CircleMarker
+          center={[cursor.lat, cursor.lng]}
+          radius={9}
+          pathOptions={{ color: 'white', fillColor: pointColor(cursor, metric, aqiStandard), fillOpacity: 1, weight: 3 }}
+        >
+          <Tooltip direction="top" permanent>
+            {new Date(cursor.ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {cursor.speed != null && ` · ${Math.round(cursor.speed)} km/h`}
+            {metric === 'co2' && cursor.co2 != null && ` · ${Math.round(cursor.co2)} ppm`}
+            {metric === 'aqi' && cursor.aqi != null && ` · AQI ${Math.round(cursor.aqi)}`}
+          </Tooltip>
+        </CircleMarker>
+      )}
+    </>
+  );
+};
+
+interface TrackPanelProps {
+  nodes: { deviceId: string; name: string }[];
+  deviceId: string | null;
+  onDeviceChange: (deviceId: string) => void;
+  windowHours: number;
+  onWindowChange: (hours: number) => void;
+  metric: TrackMetric;
+  onMetricChange: (metric: TrackMetric) => void;
+  aqiStandard: AqiStandard;
+  track: DeviceTrack | null;
+  loading: boolean;
+  error: string | null;
+  cursorTs: number;
+  onCursorChange: (ts: number) => void;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  onClose: () => void;
+}
+
+// Track controls: node, window, colour metric, time slider and playback
+const TrackPanel: React.FC<TrackPanelProps> = ({
+  nodes, deviceId, onDeviceChange, windowHours, onWindowChange, metric, onMetricChange,
+  aqiStandard, track, loading, error, cursorTs, onCursorChange, playing, onPlayingChange, onClose,
+}) => {
+  const start = track?.points.length ? new Date(track.points[0].ts).getTime() : 0;
+  const end = track?.points.length ? new Date(track.points[track.points.length - 1].ts).getTime() : 0;
+
+  // Advance the cursor while playing; stop at the end
+  useEffect(() => {
+    if (!playing || !track || end <= start) return;
+    const step = ((end - start) * PLAYBACK_TICK_MS) / PLAYBACK_MS;
+    const timer = window.setTimeout(() => {
+      onCursorChange(Math.min(end, cursorTs + step));
+      if (cursorTs + step >= end) onPlayingChange(false);
+    }, PLAYBACK_TICK_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, track, start, end, cursorTs, onCursorChange, onPlayingChange]);
+
+  const togglePlay = () => {
+    if (!playing && cursorTs >= end) onCursorChange(start);
+    onPlayingChange(!playing);
+  };
+
+  const legend = metric === 'co2'
+    ? CO2_BANDS.map((b) => ({ color: b.color, label: b.label }))
+    : AQI_STANDARDS[aqiStandard].categories.map((c) => ({ color: c.color, label: c.label }));
+
+  return (
+    <div className="absolute bottom-4 right-4 z-[1000] w-[22rem] bg-white/90 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/40 p-5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Route className="h-5 w-5 text-orange-500" />
+          <h3 className="font-bold text-gray-800">Track playback</h3>
+        </div>
+        <button onClick={onClose} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100" title="Hide track">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <select
+          value={deviceId ?? ''}
+          onChange={(e) => onDeviceChange(e.target.value)}
+          className="col-span-2 rounded-lg border border-gray-200 px-3 py-1.5 text-sm"
+        >
+          {nodes.map((n) => (
+            <option key={n.deviceId} value={n.deviceId}>{n.name}</option>
+          ))}
+        </select>
+        <select
+          value={windowHours}
+          onChange={(e) => onWindowChange(Number(e.target.value))}
+          className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm"
+        >
+          {TRACK_WINDOWS_H.map((h) => (
+            <option key={h} value={h}>Last {h < 24 ? `${h} h` : `${h / 24} d`}</option>
+          ))}
+        </select>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+          {(['co2', 'aqi'] as TrackMetric[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => onMetricChange(m)}
+              className={`flex-1 py-1.5 font-medium ${metric === m ? 'bg-orange-500 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              {m === 'co2' ? 'CO₂' : 'AQI'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && <p className="text-sm text-gray-500">Loading track…</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {track && !loading && track.points.length === 0 && (
+        <p className="text-sm text-gray-500">No GPS fixes in this window.</p>
+      )}
+
+      {track && track.points.length > 0 && (
+        <>
+          <div className="flex items-center gap-3 mb-1">
+            <button
+              onClick={togglePlay}
+              className="w-9 h-9 shrink-0 rounded-full bg-slate-900 text-white flex items-center justify-center hover:bg-slate-800"
+              title={playing ? 'Pause' : 'Play'}
+            >
+              {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </button>
+            <input
+              type="range"
+              min={start}
+              max={end}
+              step={1000}
+              value={Math.min(Math.max(cursorTs, start), end)}
+              onChange={(e) => {
+                onPlayingChange(false);
+                onCursorChange(Number(e.target.value));
+              }}
+              className="flex-1 accent-orange-500"
+            />
+          </div>
+          <div className="flex justify-between text-[11px] text-gray-500 mb-3 pl-12">
+            <span>{formatTime(start)}</span>
+            <span>{formatTime(end)}</span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+            <div className="p-2 rounded-xl bg-gray-50">
+              <div className="text-sm font-bold text-gray-800">{track.stats.distanceKm} km</div>
+              <div className="text-[10px] text-gray-500">distance</div>
+            </div>
+            <div className="p-2 rounded-xl bg-gray-50">
+              <div className="text-sm font-bold text-gray-800">{track.stats.avgMovingKmh ?? '—'} km/h</div>
+              <div className="text-[10px] text-gray-500">avg moving</div>
+            </div>
+            <div className="p-2 rounded-xl bg-gray-50">
+              <div className="text-sm font-bold text-gray-800">{track.dwells.length}</div>
+              <div className="text-[10px] text-gray-500">stops ≥ 5 min</div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {legend.map((item) => (
+              <span key={item.label} className="flex items-center gap-1 text-[10px] text-gray-600">
+                <span className="w-3 h-1.5 rounded-full" style={{ backgroundColor: item.color }} />
+                {item.label}
+              </span>
+            ))}
+          </div>
+          {(track.toleranceM > 0 || track.truncated) && (
+            <p className="text-[10px] text-gray-400 mt-2">
+              {track.toleranceM > 0 && `${track.points.length} of ${track.rawPoints} fixes shown (simplified to ${track.toleranceM} m).`}
+              {track.truncated && ' Range capped; the latest fixes are missing.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TrackPanel;
@@ -2,11 +2,14 @@ import React, { useState, useEffect } from 'react';
 import {
   User, Mail, Shield, Calendar, Activity, Lock, Eye, EyeOff,
   Save, Pencil, X, ChevronLeft, Database, Link2, AlertTriangle,
-  CheckCircle, Clock, Zap, Star, Trash2, ShieldCheck, Cpu
+  CheckCircle, Clock, Zap, Star, Trash2, ShieldCheck, Cpu, HeartPulse
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { API_BASE as API } from '../config';
+import { DEFAULT_HEALTH_PROFILE, HEALTH_PROFILES } from '../lib/healthProfiles';
+import type { HealthProfileId } from '../types/HealthProfile';
+import PushNotificationSettings from './PushNotificationSettings';
 
 interface ProfileStats {
   totalReadings: number;
@@ -23,6 +26,7 @@ interface ProfileData {
   lastLogin: string | null;
   createdAt: string;
   bio: string;
+  healthProfile: HealthProfileId;
 }
 
 interface UserProfileProps {
@@ -60,6 +64,8 @@ const UserProfile: React.FC<UserProfileProps> = ({ onBack }) => {
   const [editBio, setEditBio] = useState('');
   const [savingProfile, setSavingProfile] = useState(false);
 
+  const [savingHealthProfile, setSavingHealthProfile] = useState(false);
+
   // Change password state
   const [showPwPanel, setShowPwPanel] = useState(false);
   const [currentPw, setCurrentPw] = useState('');
@@ -135,6 +141,36 @@ const UserProfile: React.FC<UserProfileProps> = ({ onBack }) => {
     }
   };
 
+  const handleHealthProfile = async (healthProfile: HealthProfileId) => {
+    setSavingHealthProfile(true);
+    try {
+      const res = await fetch(`${API}/api/auth/health-profile`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ healthProfile }),
+      });
+      const data = await res.json();
+      if (data.ok) {
+        setProfile(prev => prev ? { ...prev, healthProfile: data.healthProfile } : prev);
+        setUser(prev => prev ? { ...prev, healthProfile: data.healthProfile } : prev);
+
+        const storedUser = localStorage.getItem('atmos_user');
+        if (storedUser) {
+           const parsed = JSON.parse(storedUser);
+           localStorage.setItem('atmos_user', JSON.stringify({ ...parsed, healthProfile: data.healthProfile }));
+        }
+
+        showToast(`Health advice now uses: ${HEALTH_PROFILES[data.healthProfile as HealthProfileId].label}`, 'success');
+      } else {
+        showToast(data.error || 'Update failed', 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setSavingHealthProfile(false);
+    }
+  };
+
   const handleChangePassword = async () => {
     if (!currentPw || !newPw || !confirmPw) { showToast('All fields required', 'error'); return; }
     if (newPw !== confirmPw) { showToast('New passwords do not match', 'error'); return; }
@@ -439,6 +475,51 @@ const UserProfile: React.FC<UserProfileProps> = ({ onBack }) => {
           </div>
         </div>
 
+        {/* ── HEALTH PROFILE ────────────────────────────────────────────── */}
+        <div className="bg-white/80 backdrop-blur-md rounded-[2.5rem] border border-cream-200 p-8 shadow-lg">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-12 h-12 rounded-2xl bg-rose-500/10 flex items-center justify-center text-rose-600 shadow-inner">
+              <HeartPulse className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="text-xl font-black text-gray-900 tracking-tight">Health Profile</h3>
+              <p className="text-xs text-gray-400 font-medium">Tailors thresholds and advice in the Health view</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {Object.values(HEALTH_PROFILES).map((option) => {
+              const selected = (profile?.healthProfile ?? DEFAULT_HEALTH_PROFILE) === option.id;
+              return (
+                <button
+                  key={option.id}
+                  disabled={savingHealthProfile || selected}
+                  onClick={() => handleHealthProfile(option.id)}
+                  className={`text-left p-4 rounded-2xl border transition-all ${
+                    selected
+                      ? 'border-orange-500 bg-orange-50 shadow-md'
+                      : 'border-cream-200 bg-white hover:border-orange-300 disabled:opacity-60'
+                  }`}
+                >
+                  <p className={`text-sm font-black ${selected ? 'text-orange-700' : 'text-gray-800'}`}>{option.label}</p>
+                  <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+                  {(option.levelShift > 0 || option.co2Factor < 1) && (
+                    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mt-2">
+                      {[
+                        option.levelShift > 0 && `AQI +${option.levelShift} band`,
+                        option.co2Factor < 1 && `CO₂ ×${option.co2Factor}`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* ── PUSH NOTIFICATIONS ────────────────────────────────────────── */}
+        <PushNotificationSettings />
+
         {/* ── DANGER ZONE ───────────────────────────────────────────────── */}
         <div className="bg-rose-50/50 backdrop-blur-sm rounded-[2.5rem] border border-rose-100 p-8 shadow-sm">
           <div 
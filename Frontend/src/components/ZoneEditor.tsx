@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { CircleMarker, Polygon, Polyline, Tooltip, useMapEvents } from 'react-leaflet';
+import { Hexagon, Undo2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import type { LatLngTuple, Zone, ZoneStats } from '../types/Zone';
+import { API_BASE } from '../config';
+
+const DEFAULT_COLOR = '#f97316';
+const DEFAULT_AQI_LIMIT = 100;
+
+interface ZoneLayerProps {
+  zones: Zone[];
+  stats: Record<string, ZoneStats>;
+  // Vertices placed so far while drawing; null when not drawing
+  draft: LatLngTuple[] | null;
+  onAddVertex: (vertex: LatLngTuple) => void;
+}
+
+// Saved zones, plus the outline being drawn. While drawing, every map
+// click adds a vertex and the saved zones stop taking clicks.
+export const ZoneLayer: React.FC<ZoneLayerProps> = ({ zones, stats, draft, onAddVertex }) => {
+  useMapEvents({
+    click: (e) => {
+      if (draft) onAddVertex([e.latlng.lat, e.latlng.lng]);
+    },
+  });
+
+  return (
+    <>
+      {zones.map((zone) => {
+        const s = stats[zone._id];
+        return (
+          <Polygon
+            // Leaflet reads `interactive` only when the layer is created
+            key={`${zone._id}-${draft ? 'drawing' : 'idle'}`}
+            positions={zone.polygon}
+            interactive={!draft}
+            pathOptions={{ color: zone.color, weight: 2, fillOpacity: 0.08 }}
+          >
+            <Tooltip sticky>
+              <span className="font-semibold">{zone.name}</span>
+              {s && s.meanAqi !== null && (
+                <span> · AQI {s.meanAqi} mean / {s.maxAqi} max (24 h)</span>
+              )}
+            </Tooltip>
+          </Polygon>
+        );
+      })}
+
+      {draft && draft.length > 0 && (
+        <>
+          <Polyline positions={draft} pathOptions={{ color: DEFAULT_COLOR, weight: 2 }} />
+          {draft.length >= 3 && (
+            <Polyline
+              positions={[draft[draft.length - 1], draft[0]]}
+              pathOptions={{ color: DEFAULT_COLOR, weight: 2, dashArray: '4 6' }}
+            />
+          )}
+          {draft.map((vertex, i) => (
+            <CircleMarker
+              key={i}
+              center={vertex}
+              radius={4}
+              pathOptions={{ color: '#fff', weight: 2, fillColor: DEFAULT_COLOR, fillOpacity: 1 }}
+            />
+          ))}
+        </>
+      )}
+    </>
+  );
+};
+
+interface ZoneDrawPanelProps {
+  draft: LatLngTuple[];
+  onUndo: () => void;
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+// Drawing controls: undo / cancel, then name, AQI limit and colour once the
+// outline has at least three vertices
+const ZoneDrawPanel: React.FC<ZoneDrawPanelProps> = ({ draft, onUndo, onCancel, onSaved }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [name, setName] = useState('');
+  const [aqiLimit, setAqiLimit] = useState(DEFAULT_AQI_LIMIT);
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [saving, setSaving] = useState(false);
+
+  const canSave = draft.length >= 3 && name.trim().length > 0 && !saving;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/zones`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ name: name.trim(), polygon: draft, color, aqiLimit }),
+      });
+      const data = await res.json();
+      if (data.ok) {
+        showToast(`Zone "${data.zone.name}" saved`, 'success');
+        onSaved();
+      } else {
+        showToast(data.error || 'Failed to save zone', 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-[1000] w-[20rem] bg-white/90 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/40 p-5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Hexagon className="h-5 w-5 text-orange-500" />
+          <h3 className="font-bold text-gray-800">New zone</h3>
+        </div>
+        <button onClick={onCancel} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100" title="Cancel drawing">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-3 text-xs text-gray-500">
+        <span>
+          {draft.length < 3
+            ? `Click the map to place vertices (${draft.length}/3)`
+            : `${draft.length} vertices`}
+        </span>
+        <button
+          onClick={onUndo}
+          disabled={draft.length === 0}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+        >
+          <Undo2 className="h-3.5 w-3.5" /> Undo
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={80}
+          placeholder="Zone name, e.g. Kiln floor"
+          className="w-full rounded-lg border border-gray-200 px-3 py-1.5 text-sm"
+        />
+        <div className="flex items-center gap-2">
+          <label className="flex-1 flex items-center gap-2 text-xs text-gray-500">
+            AQI limit
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={aqiLimit}
+              onChange={(e) => setAqiLimit(Number(e.target.value))}
+              className="w-20 rounded-lg border border-gray-200 px-2 py-1.5 text-sm"
+            />
+          </label>
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            title="Outline colour"
+            className="h-8 w-10 rounded border border-gray-200"
+          />
+        </div>
+        <button
+          onClick={save}
+          disabled={!canSave}
+          className="w-full text-sm font-semibold px-3 py-2 rounded-xl bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save zone'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ZoneDrawPanel;
@@ -0,0 +1,252 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { LiveReading } from '../types/LiveReading';
+import type { PlaybackSession, PlaybackSpeed } from '../types/Playback';
+import { API_BASE } from '../config';
+import { useAuth } from './AuthContext';
+import { useRealtime } from './RealtimeContext';
+
+type PlaybackContextValue = {
+  session: PlaybackSession | null;
+  playing: boolean;
+  speed: PlaybackSpeed;
+  // Replay clock, epoch ms
+  position: number | null;
+  // Newest timestamp fetched so far; seeking past it waits for the loader
+  loadedUntil: number | null;
+  loadedCount: number;
+  loading: boolean;
+  error: string | null;
+  start: (deviceId: string, from: number, to: number) => void;
+  stop: () => void;
+  play: () => void;
+  pause: () => void;
+  seek: (ms: number) => void;
+  setSpeed: (speed: PlaybackSpeed) => void;
+};
+
+const PlaybackContext = createContext<PlaybackContextValue | undefined>(
+  undefined,
+);
+
+export const PLAYBACK_SPEEDS: PlaybackSpeed[] = [1, 5, 10, 30, 60];
+const PAGE_SIZE = 2000;
+const TICK_MS = 250;
+// Matches the realtime buffer, so sparklines are full straight after a seek
+const PREFILL_MS = 60 * 60 * 1000;
+
+const readingTime = (r: LiveReading) => new Date(r.timestamp).getTime();
+
+// Index of the first reading strictly after `ms`
+function indexAfter(readings: LiveReading[], ms: number) {
+  let lo = 0;
+  let hi = readings.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (readingTime(readings[mid]) <= ms) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Replays stored readings through the realtime context, as if they were
+ * arriving live. Pages are fetched from /api/readings/history in the
+ * background while playback runs.
+ */
+export const PlaybackProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { token } = useAuth();
+  const { startReplay, feedReplay, stopReplay } = useRealtime();
+
+  const [session, setSession] = useState<PlaybackSession | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<PlaybackSpeed>(10);
+  const [position, setPosition] = useState<number | null>(null);
+  const [loadedUntil, setLoadedUntil] = useState<number | null>(null);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readingsRef = useRef<LiveReading[]>([]);
+  // Next reading to hand to the realtime context
+  const indexRef = useRef(0);
+  const positionRef = useRef<number | null>(null);
+  const loadedUntilRef = useRef<number | null>(null);
+  const doneRef = useRef(false);
+  // Bumped per session so a stale page loader stops appending
+  const generationRef = useRef(0);
+
+  const loadPages = async (target: PlaybackSession, generation: number) => {
+    const params = new URLSearchParams({
+      deviceId: target.deviceId,
+      from: new Date(target.from).toISOString(),
+      to: new Date(target.to).toISOString(),
+      format: 'live',
+      limit: String(PAGE_SIZE),
+    });
+    let cursor: string | null = null;
+
+    setLoading(true);
+    try {
+      do {
+        if (cursor) params.set('cursor', cursor);
+        const res = await fetch(`${API_BASE}/api/readings/history?${params}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const data = await res.json();
+        if (generation !== generationRef.current) return;
+        if (!res.ok || !data.ok) throw new Error(data.error || 'Failed to load history');
+
+        const page = data.data as LiveReading[];
+        readingsRef.current = readingsRef.current.concat(page);
+        cursor = data.nextCursor;
+        loadedUntilRef.current = cursor && page.length
+          ? readingTime(page[page.length - 1])
+          : target.to;
+        setLoadedUntil(loadedUntilRef.current);
+        setLoadedCount(readingsRef.current.length);
+      } while (cursor);
+      doneRef.current = true;
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+      setPlaying(false);
+    } finally {
+      if (generation === generationRef.current) setLoading(false);
+    }
+  };
+
+  // Hand every loaded reading up to `clock` to the realtime context
+  const advanceTo = (clock: number) => {
+    const readings = readingsRef.current;
+    const end = indexAfter(readings, clock);
+    const batch = readings.slice(indexRef.current, end);
+    indexRef.current = Math.max(indexRef.current, end);
+    positionRef.current = clock;
+    feedReplay(batch, clock);
+    setPosition(clock);
+  };
+
+  const start = useCallback(
+    (deviceId: string, from: number, to: number) => {
+      const generation = ++generationRef.current;
+      const next = { deviceId, from, to: Math.min(to, Date.now()) };
+      readingsRef.current = [];
+      indexRef.current = 0;
+      positionRef.current = next.from;
+      loadedUntilRef.current = null;
+      doneRef.current = false;
+
+      setSession(next);
+      setPosition(next.from);
+      setLoadedUntil(null);
+      setLoadedCount(0);
+      setError(null);
+      setPlaying(true);
+      startReplay(deviceId, next.from);
+      loadPages(next, generation);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [token, startReplay],
+  );
+
+  const stop = useCallback(() => {
+    generationRef.current += 1;
+    readingsRef.current = [];
+    positionRef.current = null;
+    setSession(null);
+    setPlaying(false);
+    setPosition(null);
+    setLoading(false);
+    stopReplay();
+  }, [stopReplay]);
+
+  const seek = useCallback(
+    (ms: number) => {
+      if (!session) return;
+      const clock = Math.max(session.from, Math.min(ms, session.to));
+      const readings = readingsRef.current;
+      const from = indexAfter(readings, clock - PREFILL_MS);
+      startReplay(session.deviceId, clock);
+      indexRef.current = from;
+      advanceTo(clock);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [session, startReplay],
+  );
+
+  const play = useCallback(() => {
+    if (!session) return;
+    // Replaying from the end restarts the range
+    if (positionRef.current !== null && positionRef.current >= session.to) {
+      seek(session.from);
+    }
+    setPlaying(true);
+  }, [session, seek]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  useEffect(() => {
+    if (!session || !playing) return;
+
+    const timer = window.setInterval(() => {
+      const current = positionRef.current ?? session.from;
+      // Never run ahead of what has been fetched, or readings would arrive late
+      const limit = doneRef.current
+        ? session.to
+        : Math.min(session.to, loadedUntilRef.current ?? session.from);
+      const next = Math.min(current + TICK_MS * speed, limit);
+      if (next > current) advanceTo(next);
+      if (next >= session.to) setPlaying(false);
+    }, TICK_MS);
+
+    return () => window.clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, playing, speed]);
+
+  // Leaving the app mid-replay must not leave the realtime context replaying
+  useEffect(() => () => stopReplay(), [stopReplay]);
+
+  const value = useMemo(
+    () => ({
+      session,
+      playing,
+      speed,
+      position,
+      loadedUntil,
+      loadedCount,
+      loading,
+      error,
+      start,
+      stop,
+      play,
+      pause,
+      seek,
+      setSpeed,
+    }),
+    [session, playing, speed, position, loadedUntil, loadedCount, loading, error, start, stop, play, pause, seek],
+  );
+
+  return (
+    <PlaybackContext.Provider value={value}>
+      {children}
+    </PlaybackContext.Provider>
+  );
+};
+
+export const usePlayback = () => {
+  const ctx = useContext(PlaybackContext);
+  if (!ctx) {
+    throw new Error('usePlayback must be used within PlaybackProvider');
+  }
+  return ctx;
+};
@@ -1,19 +1,72 @@
 import React, {
   createContext,
+  useCallback,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from 'react';
 import type { LiveReading } from '../types/LiveReading';
+import type { RollingStats } from '../types/RollingStats';
+import type { DeviceLiveness } from '../types/DeviceLiveness';
+import type { ReplayState } from '../types/Playback';
+import type { DeviceSummary } from '../types/DeviceSummary';
+import type { AqiStandard } from '../types/Aqi';
+import type { MapNode, RegistryNode } from '../types/NodeRegistry';
+import type {
+  ClientToServerEvents,
+  ReadingClassifiedEvent,
+  ReadingNewEvent,
+  ServerEventName,
+  ServerToClientEvents,
+} from '../types/SocketEvents';
+import { ReadingRingBuffer, computeRollingStats } from '../lib/readingBuffer';
+import { LivenessTracker, evaluateLiveness } from '../lib/deviceLiveness';
+import { DEFAULT_AQI_STANDARD } from '../lib/aqi';
 import { io, Socket } from 'socket.io-client';
 import { API_BASE } from '../config';
+import { useAuth } from './AuthContext';
 
-type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+// 'failed' = automatic retries are exhausted; only reconnect() recovers
+export type ConnectionStatus =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'error'
+  | 'failed';
+
+type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+type EventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
+type EventListener<E extends ServerEventName> = (payload: EventPayload<E>) => void;
+type ListenerRegistry = { [E in ServerEventName]?: Set<EventListener<E>> };
 
 type RealtimeContextValue = {
-  latestReading: LiveReading | null;
+  devices: Map<string, LiveReading>;
   status: ConnectionStatus;
+  reconnect: () => void;
+  // Every known node, live or not, from GET /api/devices
+  deviceList: DeviceSummary[];
+  refreshDevices: () => Promise<void>;
+  selectedDeviceId: string | null;
+  // Persisted per user, locally and on the server
+  selectDevice: (deviceId: string) => void;
+  subscribeDevice: (deviceId: string) => () => void;
+  // Bumped on every buffered reading so window selectors recompute
+  bufferVersion: number;
+  getWindow: (deviceId: string, minutes: number) => LiveReading[];
+  getLiveness: (deviceId: string | null, now?: number) => DeviceLiveness;
+  // Listen to a raw protocol event; survives reconnects
+  subscribeEvent: <E extends ServerEventName>(
+    event: E,
+    listener: EventListener<E>,
+  ) => () => void;
+  // Non-null while stored readings are being replayed. Views then see the
+  // replayed device, readings and clock instead of the live socket feed.
+  replay: ReplayState | null;
+  startReplay: (deviceId: string, clock: number) => void;
+  feedReplay: (readings: LiveReading[], clock: number) => void;
+  stopReplay: () => void;
 };
 
 const RealtimeContext = createContext<RealtimeContextValue | undefined>(
@@ -23,15 +76,60 @@ const RealtimeContext = createContext<RealtimeContextValue | undefined>(
 // Socket.IO backend URL
 const IO_URL = API_BASE;
 const MAX_RETRIES = 5;
+// Room key understood by the backend as "every device"
+const ALL_DEVICES = '*';
+const SELECTED_DEVICE_KEY = 'atmostrack-selected-device';
+const selectionKey = (userId: string) => `${SELECTED_DEVICE_KEY}:${userId}`;
+// One hour of history per device at the firmware's 5 s cadence
+const BUFFER_CAPACITY = 720;
+// Server maximum for /api/readings/since
+const BACKFILL_PAGE_SIZE = 2000;
+const SERVER_EVENTS: ServerEventName[] = [
+  'reading:new',
+  'reading:classified',
+  'reading:anchored',
+  'batch:updated',
+  'alert:triggered',
+  'alert:resolved',
+  'incident:updated',
+];
 
 export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
-  const [latestReading, setLatestReading] = useState<LiveReading | null>(null);
+  const [devices, setDevices] = useState<Map<string, LiveReading>>(
+    () => new Map(),
+  );
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
-  const socketRef = useRef<Socket | null>(null);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
+  const [deviceList, setDeviceList] = useState<DeviceSummary[]>([]);
+  const socketRef = useRef<AppSocket | null>(null);
   const retryCountRef = useRef(0);
   const reconnectTimeoutRef = useRef<number | null>(null);
+  // deviceId → number of mounted hooks that want its room
+  const subscriptionsRef = useRef<Map<string, number>>(new Map());
+  const buffersRef = useRef<Map<string, ReadingRingBuffer>>(new Map());
+  const livenessRef = useRef<Map<string, LivenessTracker>>(new Map());
+  // Replay keeps its own stores so the live buffers stay intact underneath
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [replayDevices, setReplayDevices] = useState<Map<string, LiveReading>>(
+    () => new Map(),
+  );
+  const replayBuffersRef = useRef<Map<string, ReadingRingBuffer>>(new Map());
+  const replayLivenessRef = useRef<Map<string, LivenessTracker>>(new Map());
+  // Listeners live here rather than on the socket, which is replaced on reconnect
+  const listenersRef = useRef<ListenerRegistry>({});
+  const [bufferVersion, setBufferVersion] = useState(0);
+  // Newest reading timestamp seen, used as the backfill cursor after reconnect
+  const lastReadingAtRef = useRef<number | null>(null);
+  const disconnectedAtRef = useRef<number | null>(null);
+  const hasConnectedRef = useRef(false);
+  const { token, user } = useAuth();
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+  const userId = user?.id ?? null;
+  const userIdRef = useRef(userId);
+  userIdRef.current = userId;
 
   const clearReconnectTimeout = () => {
     if (reconnectTimeoutRef.current !== null) {
@@ -40,6 +138,269 @@ export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  const selectDevice = useCallback((deviceId: string) => {
+    setSelectedDeviceId(deviceId);
+    if (!userIdRef.current || !tokenRef.current) return;
+    localStorage.setItem(selectionKey(userIdRef.current), deviceId);
+    fetch(`${API_BASE}/api/auth/selected-device`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${tokenRef.current}`,
+      },
+      body: JSON.stringify({ deviceId }),
+    }).catch((err) => console.warn('Saving device selection failed:', err));
+  }, []);
+
+  const refreshDevices = useCallback(async () => {
+    if (!tokenRef.current) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/devices`, {
+        headers: { Authorization: `Bearer ${tokenRef.current}` },
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) return;
+      const list = data.devices as DeviceSummary[];
+      setDeviceList(list);
+      // The server copy wins so the choice follows the user across browsers
+      setSelectedDeviceId(
+        (current) => data.selectedDeviceId ?? current ?? list[0]?.deviceId ?? null,
+      );
+    } catch (err) {
+      console.warn('Loading device list failed:', err);
+    }
+  }, []);
+
+  // Restore this user's last pick right away, then confirm with the server
+  useEffect(() => {
+    if (!userId || !token) {
+      setSelectedDeviceId(null);
+      setDeviceList([]);
+      return;
+    }
+    setSelectedDeviceId(localStorage.getItem(selectionKey(userId)));
+    refreshDevices();
+  }, [userId, token, refreshDevices]);
+
+  const subscribeDevice = useCallback((deviceId: string) => {
+    const subs = subscriptionsRef.current;
+    const count = subs.get(deviceId) ?? 0;
+    subs.set(deviceId, count + 1);
+    if (count === 0) socketRef.current?.emit('device:subscribe', deviceId);
+
+    return () => {
+      const remaining = (subs.get(deviceId) ?? 1) - 1;
+      if (remaining > 0) {
+        subs.set(deviceId, remaining);
+        return;
+      }
+      subs.delete(deviceId);
+      socketRef.current?.emit('device:unsubscribe', deviceId);
+    };
+  }, []);
+
+  const subscribeEvent = useCallback(
+    <E extends ServerEventName>(event: E, listener: EventListener<E>) => {
+      const listeners: ListenerRegistry = listenersRef.current;
+      const forEvent: Set<EventListener<E>> = listeners[event] ?? new Set();
+      listeners[event] = forEvent as ListenerRegistry[E];
+      forEvent.add(listener);
+      return () => {
+        forEvent.delete(listener);
+      };
+    },
+    [],
+  );
+
+  const dispatch = <E extends ServerEventName>(event: E, payload: EventPayload<E>) => {
+    const forEvent: Set<EventListener<E>> | undefined = listenersRef.current[event];
+    forEvent?.forEach((listener) => listener(payload));
+  };
+
+  const getWindow = useCallback(
+    (deviceId: string, minutes: number) => {
+      const buffers = replay ? replayBuffersRef.current : buffersRef.current;
+      const buffer = buffers.get(deviceId);
+      if (!buffer) return [];
+      const now = replay?.clock ?? Date.now();
+      return buffer.since(now - minutes * 60 * 1000);
+    },
+    [replay],
+  );
+
+  const getLiveness = useCallback(
+    (deviceId: string | null, now = Date.now()) => {
+      // A replayed device is judged against the replay clock, never the socket
+      if (replay) {
+        return evaluateLiveness(
+          deviceId,
+          deviceId ? replayLivenessRef.current.get(deviceId) : undefined,
+          'connected',
+          replay.clock,
+        );
+      }
+      return evaluateLiveness(
+        deviceId,
+        deviceId ? livenessRef.current.get(deviceId) : undefined,
+        status,
+        now,
+      );
+    },
+    [status, replay],
+  );
+
+  const trackerFor = (
+    deviceId: string,
+    trackers = livenessRef.current,
+  ) => {
+    let tracker = trackers.get(deviceId);
+    if (!tracker) {
+      tracker = new LivenessTracker();
+      trackers.set(deviceId, tracker);
+    }
+    return tracker;
+  };
+
+  const trackLiveness = (reading: LiveReading) => {
+    trackerFor(reading.deviceId).observe(reading.id, reading.timestamp);
+  };
+
+  const bufferFor = (
+    deviceId: string,
+    buffers = buffersRef.current,
+  ) => {
+    let buffer = buffers.get(deviceId);
+    if (!buffer) {
+      buffer = new ReadingRingBuffer(BUFFER_CAPACITY);
+      buffers.set(deviceId, buffer);
+    }
+    return buffer;
+  };
+
+  const startReplay = useCallback((deviceId: string, clock: number) => {
+    replayBuffersRef.current = new Map();
+    replayLivenessRef.current = new Map();
+    setReplayDevices(new Map());
+    setReplay({ deviceId, clock });
+    setBufferVersion((v) => v + 1);
+  }, []);
+
+  // Readings must arrive in timestamp order and no later than `clock`
+  const feedReplay = useCallback((readings: LiveReading[], clock: number) => {
+    readings.forEach((reading) => {
+      // Replayed readings are "received" at their own timestamp: no skew
+      trackerFor(reading.deviceId, replayLivenessRef.current).observe(
+        reading.id,
+        reading.timestamp,
+        new Date(reading.timestamp).getTime(),
+      );
+      bufferFor(reading.deviceId, replayBuffersRef.current).push(reading);
+    });
+    if (readings.length) {
+      setReplayDevices((prev) => {
+        const next = new Map(prev);
+        readings.forEach((reading) => next.set(reading.deviceId, reading));
+        return next;
+      });
+    }
+    setReplay((prev) => (prev ? { ...prev, clock } : prev));
+    setBufferVersion((v) => v + 1);
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    replayBuffersRef.current = new Map();
+    replayLivenessRef.current = new Map();
+    setReplayDevices(new Map());
+    setReplay(null);
+    setBufferVersion((v) => v + 1);
+  }, []);
+
+  const noteReadingTime = (reading: LiveReading) => {
+    const ts = new Date(reading.timestamp).getTime();
+    if (lastReadingAtRef.current === null || ts > lastReadingAtRef.current) {
+      lastReadingAtRef.current = ts;
+    }
+  };
+
+  const bufferReading = (reading: LiveReading) => {
+    bufferFor(reading.deviceId).push(reading);
+    noteReadingTime(reading);
+    setBufferVersion((v) => v + 1);
+  };
+
+  // Merge readings missed while the socket was down into the buffers and
+  // advance each device's latest reading if the backfill is newer.
+  const mergeBackfill = (readings: LiveReading[]) => {
+    const subs = subscriptionsRef.current;
+    const wanted = readings.filter(
+      (r) => subs.has(ALL_DEVICES) || subs.has(r.deviceId),
+    );
+    if (!wanted.length) return;
+
+    const byDevice = new Map<string, LiveReading[]>();
+    wanted.forEach((r) => {
+      byDevice.set(r.deviceId, [...(byDevice.get(r.deviceId) ?? []), r]);
+      noteReadingTime(r);
+      trackerFor(r.deviceId).observeStored(r.id, r.timestamp);
+    });
+    byDevice.forEach((list, deviceId) => bufferFor(deviceId).merge(list));
+
+    setDevices((prev) => {
+      const next = new Map(prev);
+      byDevice.forEach((_, deviceId) => {
+        const newest = buffersRef.current.get(deviceId)?.last();
+        const current = next.get(deviceId);
+        if (
+          newest &&
+          (!current ||
+            new Date(newest.timestamp).getTime() >= new Date(current.timestamp).getTime())
+        ) {
+          next.set(deviceId, newest);
+        }
+      });
+      return next;
+    });
+    setBufferVersion((v) => v + 1);
+  };
+
+  // Pages oldest first, so the newest readings of a long gap arrive last
+  const backfillSince = async (sinceMs: number) => {
+    let cursor: string | null = null;
+    try {
+      do {
+        if (!tokenRef.current) return;
+        const params = new URLSearchParams({
+          since: new Date(sinceMs).toISOString(),
+          limit: String(BACKFILL_PAGE_SIZE),
+        });
+        if (cursor) params.set('cursor', cursor);
+        const res = await fetch(`${API_BASE}/api/readings/since?${params}`, {
+          headers: { Authorization: `Bearer ${tokenRef.current}` },
+        });
+        const data = await res.json();
+        if (!res.ok || !data.ok) return;
+        mergeBackfill(data.data as LiveReading[]);
+        cursor = data.truncated ? data.nextCursor : null;
+      } while (cursor);
+    } catch (err) {
+      console.warn('Realtime backfill failed:', err);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (retryCountRef.current >= MAX_RETRIES) {
+      setStatus('failed');
+      return;
+    }
+    const delay = 1000 * Math.pow(2, retryCountRef.current);
+    retryCountRef.current += 1;
+
+    clearReconnectTimeout();
+    reconnectTimeoutRef.current = window.setTimeout(() => {
+      connect();
+    }, delay);
+  };
+
   const connect = () => {
     setStatus('connecting');
 
@@ -53,36 +414,73 @@ export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({
       setStatus('connected');
       retryCountRef.current = 0;
       clearReconnectTimeout();
+      // Rooms are per-connection, so re-join everything after a reconnect
+      subscriptionsRef.current.forEach((_, deviceId) => {
+        socket.emit('device:subscribe', deviceId);
+      });
+
+      if (hasConnectedRef.current) {
+        const since = lastReadingAtRef.current ?? disconnectedAtRef.current;
+        if (since !== null) backfillSince(since);
+      }
+      hasConnectedRef.current = true;
     });
 
-    socket.on('sensorUpdate', (data: any) => {
-  console.log('RAW sensorUpdate payload', data);
-  if (data && typeof data.deviceId === 'string' && data.timestamp) {
-    setLatestReading(data as LiveReading);
-  }
-});
+    socket.on('reading:new', (event: ReadingNewEvent) => {
+      if (!event || typeof event.deviceId !== 'string' || !event.timestamp) return;
+      const { replayed, ...reading } = event;
+      if (replayed) trackerFor(reading.deviceId).observeStored(reading.id, reading.timestamp);
+      else trackLiveness(reading);
+      bufferReading(reading);
+      setDevices((prev) => new Map(prev).set(reading.deviceId, reading));
+      setSelectedDeviceId((current) => current ?? reading.deviceId);
+    });
+
+    socket.on('reading:classified', (event: ReadingClassifiedEvent) => {
+      if (!event?.id || typeof event.deviceId !== 'string') return;
+      const update = { sourceClassification: event.sourceClassification };
+      if (buffersRef.current.get(event.deviceId)?.patch(event.id, update)) {
+        setBufferVersion((v) => v + 1);
+      }
+      setDevices((prev) => {
+        const current = prev.get(event.deviceId);
+        if (current?.id !== event.id) return prev;
+        return new Map(prev).set(event.deviceId, { ...current, ...update });
+      });
+    });
+
+    // Fan every protocol event out to subscribeEvent() listeners
+    SERVER_EVENTS.forEach((event) => {
+      socket.on(event, (payload: EventPayload<typeof event>) => dispatch(event, payload));
+    });
 
 
     socket.on('connect_error', () => {
       setStatus('error');
+      socket.close();
+      socketRef.current = null;
+      scheduleReconnect();
     });
 
-    socket.on('disconnect', () => {
+    socket.on('disconnect', (reason) => {
       setStatus('disconnected');
       socketRef.current = null;
+      disconnectedAtRef.current = Date.now();
 
-      if (retryCountRef.current < MAX_RETRIES) {
-        const delay = 1000 * Math.pow(2, retryCountRef.current);
-        retryCountRef.current += 1;
-
-        clearReconnectTimeout();
-        reconnectTimeoutRef.current = window.setTimeout(() => {
-          connect();
-        }, delay);
-      }
+      // Our own disconnect() on unmount must not trigger a retry
+      if (reason === 'io client disconnect') return;
+      scheduleReconnect();
     });
   };
 
+  const reconnect = useCallback(() => {
+    if (socketRef.current) return;
+    clearReconnectTimeout();
+    retryCountRef.current = 0;
+    connect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   useEffect(() => {
     connect();
 
@@ -96,8 +494,30 @@ export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const value = useMemo(
+    () => ({
+      devices: replay ? replayDevices : devices,
+      status,
+      reconnect,
+      deviceList,
+      refreshDevices,
+      selectedDeviceId: replay ? replay.deviceId : selectedDeviceId,
+      selectDevice,
+      subscribeDevice,
+      bufferVersion,
+      getWindow,
+      getLiveness,
+      subscribeEvent,
+      replay,
+      startReplay,
+      feedReplay,
+      stopReplay,
+    }),
+    [devices, replayDevices, status, reconnect, deviceList, refreshDevices, selectedDeviceId, selectDevice, subscribeDevice, bufferVersion, getWindow, getLiveness, subscribeEvent, replay, startReplay, feedReplay, stopReplay],
+  );
+
   return (
-    <RealtimeContext.Provider value={{ latestReading, status }}>
+    <RealtimeContext.Provider value={value}>
       {children}
     </RealtimeContext.Provider>
   );
@@ -110,3 +530,207 @@ export const useRealtime = () => {
   }
   return ctx;
 };
+
+/**
+ * Latest live reading for one device. Joins the device's socket room while
+ * the calling component is mounted.
+ */
+export const useDeviceReading = (deviceId: string | null): LiveReading | null => {
+  const { devices, subscribeDevice } = useRealtime();
+
+  useEffect(() => {
+    if (!deviceId) return;
+    return subscribeDevice(deviceId);
+  }, [deviceId, subscribeDevice]);
+
+  return deviceId ? devices.get(deviceId) ?? null : null;
+};
+
+/**
+ * Latest live reading of every device that has reported, sorted by deviceId.
+ * Joins the all-devices room while the calling component is mounted.
+ */
+export const useAllDevices = (): LiveReading[] => {
+  const { devices, subscribeDevice } = useRealtime();
+
+  useEffect(() => subscribeDevice(ALL_DEVICES), [subscribeDevice]);
+
+  return useMemo(
+    () =>
+      Array.from(devices.values()).sort((a, b) =>
+        a.deviceId.localeCompare(b.deviceId),
+      ),
+    [devices],
+  );
+};
+
+/**
+ * Buffered live readings for one device from the last `minutes`, oldest
+ * first. Recomputed whenever a new reading is buffered.
+ */
+export const useReadingWindow = (
+  deviceId: string | null,
+  minutes: number,
+): LiveReading[] => {
+  const { subscribeDevice, bufferVersion, getWindow } = useRealtime();
+
+  useEffect(() => {
+    if (!deviceId) return;
+    return subscribeDevice(deviceId);
+  }, [deviceId, subscribeDevice]);
+
+  return useMemo(
+    () => (deviceId ? getWindow(deviceId, minutes) : []),
+    // bufferVersion is the change signal for the ref-held buffers
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [deviceId, minutes, bufferVersion, getWindow],
+  );
+};
+
+/** Mean, min/max and trend slope per metric over a live window. */
+export const useRollingStats = (
+  deviceId: string | null,
+  minutes: number,
+): RollingStats => {
+  const readings = useReadingWindow(deviceId, minutes);
+  return useMemo(() => computeRollingStats(readings), [readings]);
+};
+
+/**
+ * Liveness of one device, separate from the socket status: distinguishes a
+ * down backend from a silent or gappy device. Re-evaluated every second.
+ */
+export const useDeviceLiveness = (deviceId: string | null): DeviceLiveness => {
+  const { getLiveness, subscribeDevice, bufferVersion } = useRealtime();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!deviceId) return;
+    return subscribeDevice(deviceId);
+  }, [deviceId, subscribeDevice]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return useMemo(
+    () => getLiveness(deviceId, now),
+    // bufferVersion re-evaluates as soon as a new reading lands
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [deviceId, now, bufferVersion, getLiveness],
+  );
+};
+
+/** AQI tables configured for a device's site; the default until /api/devices loads. */
+export const useAqiStandard = (deviceId: string | null): AqiStandard => {
+  const { deviceList } = useRealtime();
+  return deviceList.find((d) => d.deviceId === deviceId)?.aqiStandard ?? DEFAULT_AQI_STANDARD;
+};
+
+// Matches the backend's DEVICE_ONLINE_MS, for nodes not heard live yet
+const REGISTRY_ONLINE_MS = 30 * 1000;
+const REGISTRY_TICK_MS = 5 * 1000;
+
+const hasFix = (lat: number | null | undefined, lng: number | null | undefined) =>
+  lat != null && lng != null && !(lat === 0 && lng === 0);
+
+/**
+ * Every registered node (GET /api/nodes) with its last known position,
+ * kept current by live readings from the all-devices room. Nodes that first
+ * report after the registry loaded are added as they appear.
+ */
+export const useNodeRegistry = (): { nodes: MapNode[]; loading: boolean } => {
+  const { token } = useAuth();
+  const { status, getLiveness } = useRealtime();
+  const live = useAllDevices();
+  const [registry, setRegistry] = useState<RegistryNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setLoading(true);
+    fetch(`${API_BASE}/api/nodes`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => {
+        if (!cancelled && d.ok) setRegistry(d.nodes);
+      })
+      .catch((err) => console.warn('Loading node registry failed:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), REGISTRY_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const nodes = useMemo(() => {
+    const byId = new Map(registry.map((n) => [n.deviceId, n]));
+    for (const reading of live) {
+      if (!byId.has(reading.deviceId)) {
+        byId.set(reading.deviceId, {
+          deviceId: reading.deviceId,
+          name: reading.deviceId,
+          aqiStandard: DEFAULT_AQI_STANDARD,
+          location: null,
+          lastSeen: null,
+          online: false,
+          latest: null,
+        });
+      }
+    }
+
+    const liveById = new Map(live.map((r) => [r.deviceId, r]));
+    return Array.from(byId.values())
+      .map((node): MapNode => {
+        const reading = liveById.get(node.deviceId);
+        const isNewer = reading && (!node.lastSeen || reading.timestamp >= node.lastSeen);
+        const latest = isNewer ? reading : node.latest;
+        const lastSeen = isNewer ? reading.timestamp : node.lastSeen;
+        const fix = reading?.location;
+        const location = isNewer && fix && hasFix(fix.lat, fix.lng)
+          ? { lat: fix.lat, lng: fix.lng, at: reading.timestamp, source: node.location?.source ?? 'gps' }
+          : node.location;
+
+        // Nodes heard this session use the cadence-aware tracker; the rest
+        // are judged by the age of their last stored reading
+        const tracked = getLiveness(node.deviceId, now);
+        const liveness = tracked.lastReceivedAt !== null || status !== 'connected'
+          ? tracked.state
+          : lastSeen && now - new Date(lastSeen).getTime() < REGISTRY_ONLINE_MS
+            ? 'online'
+            : 'offline';
+
+        return { ...node, latest, lastSeen, location, liveness };
+      })
+      .sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+  }, [registry, live, getLiveness, status, now]);
+
+  return { nodes, loading };
+};
+
+/**
+ * Run `listener` for every `event` received while the calling component is
+ * mounted. The latest listener is always used, so inline closures are fine.
+ */
+export const useSocketEvent = <E extends ServerEventName>(
+  event: E,
+  listener: EventListener<E>,
+) => {
+  const { subscribeEvent } = useRealtime();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(
+    () =>
+      subscribeEvent(event, (payload: EventPayload<E>) => listenerRef.current(payload)),
+    [event, subscribeEvent],
+  );
+};
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import type { DeviceTrack } from '../types/Track';
+import { API_BASE } from '../config';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Simplified GPS track of a device over the last `windowHours`, fetched
+ * once per device / window. Null while loading or when no device is given.
+ */
+export const useDeviceTrack = (
+  deviceId: string | null,
+  windowHours: number,
+): { track: DeviceTrack | null; loading: boolean; error: string | null } => {
+  const { token } = useAuth();
+  const [track, setTrack] = useState<DeviceTrack | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTrack(null);
+    setError(null);
+    if (!token || !deviceId) return;
+
+    let cancelled = false;
+    const to = new Date();
+    const from = new Date(to.getTime() - windowHours * 60 * 60 * 1000);
+    setLoading(true);
+    fetch(
+      `${API_BASE}/api/track/${encodeURIComponent(deviceId)}?from=${from.toISOString()}&to=${to.toISOString()}`,
+      { headers: { Authorization: `Bearer ${token}` } },
+    )
+      .then((r) => r.json())
+      .then((d) => {
+        if (cancelled) return;
+        if (d.ok) setTrack(d.track);
+        else setError(d.error || 'Failed to load track');
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load track');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, deviceId, windowHours]);
+
+  return { track, loading, error };
+};
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { DeviceForecast } from '../types/Forecast';
+import { API_BASE } from '../config';
+import { useAuth } from '../contexts/AuthContext';
+import { useRealtime } from '../contexts/RealtimeContext';
+
+// The server caches forecasts for a minute; polling faster gains nothing
+const FORECAST_REFRESH_MS = 60 * 1000;
+
+/**
+ * CO₂ / AQI nowcast for a device, refreshed every minute. Null while
+ * loading and during replay, where "the next hour" has already happened.
+ */
+export const useForecast = (
+  deviceId: string | null,
+  horizonMinutes = 60,
+): DeviceForecast | null => {
+  const { token } = useAuth();
+  const { replay } = useRealtime();
+  const [forecast, setForecast] = useState<DeviceForecast | null>(null);
+  const replaying = !!replay;
+
+  useEffect(() => {
+    setForecast(null);
+    if (!token || !deviceId || replaying) return;
+
+    let cancelled = false;
+    const load = () =>
+      fetch(`${API_BASE}/api/forecast/${encodeURIComponent(deviceId)}?horizon=${horizonMinutes}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+        .then((r) => r.json())
+        .then((d) => {
+          if (!cancelled && d.ok) setForecast(d.forecast);
+        })
+        .catch(() => { });
+
+    load();
+    const timer = window.setInterval(load, FORECAST_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [token, deviceId, horizonMinutes, replaying]);
+
+  return forecast;
+};
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import type { SurfaceSnapshot } from '../types/Surface';
+import { API_BASE } from '../config';
+import { useAuth } from '../contexts/AuthContext';
+
+// Only the newest, still-filling hour changes between refreshes
+const SURFACE_REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * Hourly node snapshots for the interpolated map surface, covering the last
+ * `hours`. Fetched only while `enabled`.
+ */
+export const useSurfaceSnapshots = (
+  enabled: boolean,
+  hours = 24,
+): { snapshots: SurfaceSnapshot[]; loading: boolean } => {
+  const { token } = useAuth();
+  const [snapshots, setSnapshots] = useState<SurfaceSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!token || !enabled) return;
+
+    let cancelled = false;
+    const load = () => {
+      const to = new Date();
+      const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+      setLoading(true);
+      return fetch(`${API_BASE}/api/surface/hourly?from=${from.toISOString()}&to=${to.toISOString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+        .then((r) => r.json())
+        .then((d) => {
+          if (!cancelled && d.ok) setSnapshots(d.snapshots);
+        })
+        .catch(() => { })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    };
+
+    load();
+    const timer = window.setInterval(load, SURFACE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [token, enabled, hours]);
+
+  return { snapshots, loading };
+};
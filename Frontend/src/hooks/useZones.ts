@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Zone, ZoneStats } from '../types/Zone';
+import { API_BASE } from '../config';
+import { useAuth } from '../contexts/AuthContext';
+
+const ZONE_STATS_REFRESH_MS = 60 * 1000;
+
+/**
+ * Geofenced zones and their last-24-hour summaries (stats refresh every
+ * minute). Call `reload` after creating, editing or deleting a zone.
+ */
+export const useZones = (): {
+  zones: Zone[];
+  stats: Record<string, ZoneStats>;
+  loading: boolean;
+  reload: () => void;
+} => {
+  const { token } = useAuth();
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [stats, setStats] = useState<Record<string, ZoneStats>>({});
+  const [loading, setLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    const headers = { Authorization: `Bearer ${token}` };
+    const loadStats = () =>
+      fetch(`${API_BASE}/api/zones/stats`, { headers })
+        .then((r) => r.json())
+        .then((d) => {
+          if (cancelled || !d.ok) return;
+          setStats(Object.fromEntries((d.stats as ZoneStats[]).map((z) => [z.zoneId, z])));
+        })
+        .catch(() => { });
+
+    setLoading(true);
+    fetch(`${API_BASE}/api/zones`, { headers })
+      .then((r) => r.json())
+      .then((d) => {
+        if (!cancelled && d.ok) setZones(d.zones);
+      })
+      .catch(() => { })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    loadStats();
+    const timer = window.setInterval(loadStats, ZONE_STATS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [token, version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+  return { zones, stats, loading, reload };
+};
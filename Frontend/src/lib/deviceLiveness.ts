@@ -0,0 +1,117 @@
+import type { ConnectionStatus } from '../contexts/RealtimeContext';
+import type { DeviceLiveness, LivenessState } from '../types/DeviceLiveness';
+
+// Firmware posts every 5 s; used until enough readings have been observed
+export const DEFAULT_CADENCE_MS = 5000;
+// Missed samples before a device counts as degraded / offline.
+// At the default cadence "offline" matches the backend's 30 s rule.
+const DEGRADED_AFTER_MISSED = 1;
+const OFFLINE_AFTER_MISSED = 6;
+const CADENCE_SAMPLES = 12;
+const SKEW_SMOOTHING = 0.2;
+
+/**
+ * Running liveness bookkeeping for one device. Fed once per new sample;
+ * the state itself is evaluated lazily against the current time.
+ */
+export class LivenessTracker {
+  private intervals: number[] = [];
+  private lastId: string | null = null;
+  private skewKnown = false;
+  lastReadingAt: number | null = null;
+  lastReceivedAt: number | null = null;
+  totalMissedSamples = 0;
+  clockSkewMs = 0;
+
+  /**
+   * Record a live reading. Re-emits of a reading already seen (same id, e.g.
+   * after classification or a location correction) are not new samples.
+   */
+  observe(id: string | undefined, timestamp: string, receivedAt = Date.now()) {
+    if (!id || id === this.lastId) return;
+    const readingAt = new Date(timestamp).getTime();
+    if (Number.isNaN(readingAt)) return;
+
+    this.countInterval(readingAt);
+
+    const skew = receivedAt - readingAt;
+    this.clockSkewMs = this.skewKnown
+      ? this.clockSkewMs + SKEW_SMOOTHING * (skew - this.clockSkewMs)
+      : skew;
+    this.skewKnown = true;
+
+    this.lastId = id;
+    this.lastReadingAt = readingAt;
+    this.lastReceivedAt = receivedAt;
+  }
+
+  /**
+   * Record a reading that was not delivered live (gap backfill, or the
+   * cached latest reading the server replays on subscribe). It counts
+   * towards cadence and missed samples, but it arrived now only because it
+   * was fetched now: its receipt time is estimated from the current skew,
+   * and it is not a skew sample.
+   */
+  observeStored(id: string | undefined, timestamp: string, now = Date.now()) {
+    if (!id || id === this.lastId) return;
+    const readingAt = new Date(timestamp).getTime();
+    if (Number.isNaN(readingAt)) return;
+    if (this.lastReadingAt !== null && readingAt <= this.lastReadingAt) return;
+
+    this.countInterval(readingAt);
+
+    const receivedAt = Math.min(now, readingAt + this.clockSkewMs);
+    this.lastId = id;
+    this.lastReadingAt = readingAt;
+    this.lastReceivedAt = Math.max(this.lastReceivedAt ?? receivedAt, receivedAt);
+  }
+
+  private countInterval(readingAt: number) {
+    if (this.lastReadingAt === null || readingAt <= this.lastReadingAt) return;
+    const interval = readingAt - this.lastReadingAt;
+    const cadence = this.expectedCadenceMs;
+    this.totalMissedSamples += Math.max(0, Math.round(interval / cadence) - 1);
+    this.intervals = [...this.intervals, interval].slice(-CADENCE_SAMPLES);
+  }
+
+  /** Median of recent sample intervals, robust to the odd gap. */
+  get expectedCadenceMs(): number {
+    if (this.intervals.length < 2) return DEFAULT_CADENCE_MS;
+    const sorted = [...this.intervals].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+}
+
+export function evaluateLiveness(
+  deviceId: string | null,
+  tracker: LivenessTracker | undefined,
+  status: ConnectionStatus,
+  now = Date.now(),
+): DeviceLiveness {
+  const expectedCadenceMs = tracker?.expectedCadenceMs ?? DEFAULT_CADENCE_MS;
+  const lastReceivedAt = tracker?.lastReceivedAt ?? null;
+
+  // Age is measured on this browser's clock so device/server skew cancels out
+  const missedSamples =
+    lastReceivedAt === null
+      ? 0
+      : Math.max(0, Math.floor((now - lastReceivedAt) / expectedCadenceMs) - 1);
+
+  let state: LivenessState;
+  if (status !== 'connected') state = 'backend_offline';
+  else if (lastReceivedAt === null) state = 'waiting';
+  else if (missedSamples >= OFFLINE_AFTER_MISSED) state = 'offline';
+  else if (missedSamples >= DEGRADED_AFTER_MISSED) state = 'degraded';
+  else state = 'online';
+
+  return {
+    deviceId,
+    state,
+    expectedCadenceMs,
+    lastReadingAt: tracker?.lastReadingAt ?? null,
+    lastReceivedAt,
+    missedSamples,
+    totalMissedSamples: tracker?.totalMissedSamples ?? 0,
+    clockSkewMs: tracker?.clockSkewMs ?? 0,
+  };
+}
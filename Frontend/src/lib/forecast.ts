@@ -0,0 +1,45 @@
+import type { DeviceForecast } from '../types/Forecast';
+
+export type PredictedExceedance = {
+  // Start of the first step that crosses
+  ts: string;
+  // Minutes from now until that step starts
+  inMinutes: number;
+  // 'likely' = the central forecast crosses; 'possible' = only the upper band does
+  confidence: 'likely' | 'possible';
+  co2: number | null;
+  aqi: number | null;
+};
+
+/**
+ * First forecast step where `exceeds(co2, aqi)` holds, checking the central
+ * forecast before the upper band. A metric without a forecast is passed as
+ * null. Returns null when nothing crosses within the horizon.
+ */
+export function firstExceedance(
+  forecast: DeviceForecast | null,
+  exceeds: (co2: number | null, aqi: number | null) => boolean,
+  now = Date.now(),
+): PredictedExceedance | null {
+  if (!forecast) return null;
+  const co2 = forecast.metrics.co2?.points ?? [];
+  const aqi = forecast.metrics.aqi?.points ?? [];
+  const steps = Math.max(co2.length, aqi.length);
+
+  for (const [confidence, key] of [['likely', 'mean'], ['possible', 'upper']] as const) {
+    for (let i = 0; i < steps; i += 1) {
+      const c = co2[i]?.[key] ?? null;
+      const a = aqi[i]?.[key] ?? null;
+      if (!exceeds(c, a)) continue;
+      const ts = (co2[i] ?? aqi[i]).ts;
+      return {
+        ts,
+        inMinutes: Math.max(0, Math.round((new Date(ts).getTime() - now) / 60000)),
+        confidence,
+        co2: c,
+        aqi: a,
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,232 @@
+/**
+ * Health sensitivity profiles. A profile makes the Health view stricter
+ * for people who react to poor air sooner: the live AQI category is moved
+ * up by `levelShift` bands and the CO₂ thresholds (800 / 1500 / 3000 /
+ * 5000 ppm) are scaled by `co2Factor` before the risk level is chosen.
+ * Where a profile has its own advice for that risk level it replaces the
+ * general text.
+ *
+ * The ids are mirrored by the enum on Backend/models/User.js.
+ */
+
+import type { AqiCategory } from '../types/Aqi';
+import type { HealthProfile, HealthProfileId, HealthRiskLevel } from '../types/HealthProfile';
+
+export const DEFAULT_HEALTH_PROFILE: HealthProfileId = 'general';
+
+export const HEALTH_PROFILES: Record<HealthProfileId, HealthProfile> = {
+  general: {
+    id: 'general',
+    label: 'General population',
+    description: 'Healthy adults without known sensitivities.',
+    levelShift: 0,
+    co2Factor: 1,
+    basis: 'WHO / EPA thresholds for the general population.',
+    advice: {},
+  },
+  asthma: {
+    id: 'asthma',
+    label: 'Asthma / respiratory',
+    description: 'Asthma, COPD or other chronic lung conditions.',
+    levelShift: 1,
+    co2Factor: 1,
+    basis: 'EPA lists people with lung disease as a sensitive group; advice starts one AQI band earlier.',
+    advice: {
+      moderate: {
+        recommendations: [
+          'Keep your reliever inhaler with you',
+          'Swap intense outdoor exercise for lighter activity',
+          'Close windows if traffic or smoke is nearby',
+          'Watch for coughing, wheezing or chest tightness',
+        ],
+        activityAdvice: '⚡ LIGHT ACTIVITY ONLY - Shorten outdoor exercise and keep medication at hand',
+      },
+      high: {
+        recommendations: [
+          'Stay indoors and keep windows closed',
+          'Follow your asthma action plan if symptoms start',
+          'Run an air purifier in the room you spend most time in',
+          'Contact your doctor if you need your reliever more than usual',
+        ],
+        activityAdvice: '⛔ INDOORS - Avoid outdoor exertion entirely',
+      },
+      very_unhealthy: {
+        recommendations: [
+          '⚠️ Remain indoors with filtered air',
+          'Use your preventer medication as prescribed',
+          'Seek medical help if your reliever does not ease symptoms',
+          'Avoid cooking smoke, incense and aerosols indoors',
+        ],
+        activityAdvice: '🚫 NO OUTDOOR ACTIVITY - Stay in a filtered room',
+      },
+    },
+  },
+  cardiac: {
+    id: 'cardiac',
+    label: 'Heart condition',
+    description: 'Heart disease, previous heart attack or high blood pressure.',
+    levelShift: 1,
+    co2Factor: 0.8,
+    basis: 'Particle and CO₂ exposure raise cardiovascular strain; AQI advice one band earlier and CO₂ limits at 80 %.',
+    advice: {
+      moderate: {
+        recommendations: [
+          'Keep physical effort moderate and take breaks',
+          'Avoid exercising next to busy roads',
+          'Ventilate the room if CO₂ keeps rising',
+          'Watch for chest pain, palpitations or unusual breathlessness',
+        ],
+        activityAdvice: '⚡ MODERATE EFFORT ONLY - Walking is fine, avoid strenuous exercise',
+      },
+      high: {
+        recommendations: [
+          'Stay indoors and avoid physical exertion',
+          'Take medication as prescribed and keep it nearby',
+          'Seek care immediately for chest pain or palpitations',
+          'Improve ventilation or use filtration indoors',
+        ],
+        activityAdvice: '⛔ REST INDOORS - Postpone exercise and heavy chores',
+      },
+    },
+  },
+  pregnancy: {
+    id: 'pregnancy',
+    label: 'Pregnancy',
+    description: 'Expecting mothers.',
+    levelShift: 1,
+    co2Factor: 0.8,
+    basis: 'Air pollution exposure in pregnancy is linked to low birth weight; AQI advice one band earlier and CO₂ limits at 80 %.',
+    advice: {
+      moderate: {
+        recommendations: [
+          'Limit time next to traffic and smoke',
+          'Choose indoor or green-space walks',
+          'Keep living spaces ventilated',
+          'Mention any breathlessness at your next check-up',
+        ],
+        activityAdvice: '⚡ SHORT OUTDOOR TRIPS - Prefer parks and quieter streets',
+      },
+      high: {
+        recommendations: [
+          'Stay indoors with windows closed',
+          'Use an air purifier where you sleep',
+          'Avoid indoor smoke, incense and strong cleaning products',
+          'Contact your doctor if you feel dizzy or breathless',
+        ],
+        activityAdvice: '⛔ INDOORS - Postpone outdoor errands',
+      },
+    },
+  },
+  elderly: {
+    id: 'elderly',
+    label: 'Older adult (65+)',
+    description: 'Adults aged 65 and over.',
+    levelShift: 1,
+    co2Factor: 0.9,
+    basis: 'EPA lists older adults as a sensitive group; AQI advice one band earlier and CO₂ limits at 90 %.',
+    advice: {
+      moderate: {
+        recommendations: [
+          'Keep walks short and at an easy pace',
+          'Go out in the early morning when air is cleaner',
+          'Keep regular medication to hand',
+          'Ventilate rooms that feel stuffy',
+        ],
+        activityAdvice: '⚡ EASY ACTIVITY - Short, gentle outings only',
+      },
+      high: {
+        recommendations: [
+          'Stay indoors and rest',
+          'Ask family or neighbours to run errands',
+          'Keep windows closed and use filtration if available',
+          'Seek help for breathlessness, confusion or chest pain',
+        ],
+        activityAdvice: '⛔ STAY INDOORS - Avoid outdoor activity',
+      },
+    },
+  },
+  child: {
+    id: 'child',
+    label: 'Child',
+    description: 'Children under 14.',
+    levelShift: 1,
+    co2Factor: 0.8,
+    basis: 'Children breathe more air per kg of body weight; AQI advice one band earlier and CO₂ limits at 80 %.',
+    advice: {
+      moderate: {
+        recommendations: [
+          'Swap running games for calmer play',
+          'Keep play away from busy roads',
+          'Open classroom / bedroom windows when CO₂ rises',
+          'Watch for coughing or tiredness',
+        ],
+        activityAdvice: '⚡ CALM PLAY - Reduce running and sports outdoors',
+      },
+      high: {
+        recommendations: [
+          'Keep children indoors for play',
+          'Move sports practice indoors or postpone it',
+          'Keep windows closed and use filtration if available',
+          'See a doctor if breathing seems laboured',
+        ],
+        activityAdvice: '⛔ INDOOR PLAY ONLY - No outdoor sports',
+      },
+    },
+  },
+  outdoorWorker: {
+    id: 'outdoorWorker',
+    label: 'Outdoor worker',
+    description: 'Spends long shifts outdoors: construction, delivery, traffic duty.',
+    levelShift: 0,
+    co2Factor: 1,
+    basis: 'General thresholds, with advice for long exposure during shifts.',
+    advice: {
+      moderate: {
+        recommendations: [
+          'Take breaks indoors or in cleaner air',
+          'Rotate the heaviest tasks between the team',
+          'Drink water regularly',
+          'Report coughing or breathlessness to your supervisor',
+        ],
+        activityAdvice: '⚡ PACE THE SHIFT - Regular breaks away from traffic',
+      },
+      high: {
+        recommendations: [
+          'Wear a fitted N95 / FFP2 mask',
+          'Reschedule heavy work to cleaner hours',
+          'Take frequent breaks indoors',
+          'Stop work if you feel dizzy, short of breath or unwell',
+        ],
+        activityAdvice: '⛔ REDUCED WORKLOAD - Masks and indoor breaks required',
+      },
+      very_unhealthy: {
+        recommendations: [
+          '⚠️ Postpone non-essential outdoor work',
+          'Essential work only with N95 / FFP2 masks',
+          'Limit each person’s time outside',
+          'Employers should provide filtered rest areas',
+        ],
+        activityAdvice: '🚫 ESSENTIAL WORK ONLY - With respiratory protection',
+      },
+    },
+  },
+};
+
+export const healthProfileFor = (id: string | null | undefined): HealthProfile =>
+  HEALTH_PROFILES[(id ?? DEFAULT_HEALTH_PROFILE) as HealthProfileId] ?? HEALTH_PROFILES.general;
+
+/** Risk level for an AQI category and CO₂ value under a profile's thresholds. */
+export function healthRiskLevel(
+  category: AqiCategory,
+  co2: number,
+  profile: HealthProfile,
+): HealthRiskLevel {
+  const level = category.level + profile.levelShift;
+  const co2Over = (ppm: number) => co2 > ppm * profile.co2Factor;
+
+  if (level >= 5 || co2Over(5000)) return 'hazardous';
+  if (level >= 4 || co2Over(3000)) return 'very_unhealthy';
+  if (level >= 3 || co2Over(1500)) return 'high';
+  if (level >= 2 || co2Over(800)) return 'moderate';
+  return 'safe';
+}
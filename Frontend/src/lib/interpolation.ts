@@ -0,0 +1,226 @@
+import { AQI_STANDARDS } from './aqi';
+import { CO2_BANDS } from './track';
+import type { AqiStandard } from '../types/Aqi';
+import type { InterpolationMethod, SurfaceBand, SurfaceMetric, SurfacePoint } from '../types/Surface';
+
+// Spatial interpolation of node values into a continuous surface.
+// Distances are metres on a local equirectangular projection, which is
+// plenty at campus / city scale.
+
+export type Estimator = (lat: number, lng: number) => number;
+
+const EARTH_RADIUS_M = 6371000;
+// Nodes closer than this are one sample (kriging cannot solve for two
+// samples at the same spot)
+const COINCIDENT_M = 1;
+const IDW_POWER = 2;
+// Past this distance from the nearest node the surface fades out
+const MIN_REACH_M = 300;
+
+type XYPoint = { x: number; y: number; value: number };
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+function projector(points: SurfacePoint[]) {
+  const lat0 = points.reduce((s, p) => s + p.lat, 0) / points.length;
+  const lng0 = points.reduce((s, p) => s + p.lng, 0) / points.length;
+  const kx = EARTH_RADIUS_M * Math.cos(toRad(lat0));
+  return (lat: number, lng: number) => ({
+    x: toRad(lng - lng0) * kx,
+    y: toRad(lat - lat0) * EARTH_RADIUS_M,
+  });
+}
+
+const dist = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function mergeCoincident(points: XYPoint[]): XYPoint[] {
+  const merged: { x: number; y: number; sum: number; n: number }[] = [];
+  for (const p of points) {
+    const near = merged.find((m) => dist(m, p) < COINCIDENT_M);
+    if (near) {
+      near.sum += p.value;
+      near.n += 1;
+    } else {
+      merged.push({ x: p.x, y: p.y, sum: p.value, n: 1 });
+    }
+  }
+  return merged.map((m) => ({ x: m.x, y: m.y, value: m.sum / m.n }));
+}
+
+function prepare(points: SurfacePoint[]) {
+  const project = projector(points);
+  const xy = mergeCoincident(points.map((p) => ({ ...project(p.lat, p.lng), value: p.value })));
+  return { project, xy };
+}
+
+function idw(xy: XYPoint[], project: (lat: number, lng: number) => { x: number; y: number }): Estimator {
+  return (lat, lng) => {
+    const q = project(lat, lng);
+    let num = 0;
+    let den = 0;
+    for (const p of xy) {
+      const d = dist(q, p);
+      if (d < COINCIDENT_M) return p.value;
+      const w = 1 / d ** IDW_POWER;
+      num += w * p.value;
+      den += w;
+    }
+    return num / den;
+  };
+}
+
+// Exponential model with no nugget; `range` is the practical range
+const exponential = (sill: number, range: number) => (h: number) => sill * (1 - Math.exp((-3 * h) / range));
+
+/**
+ * Fit the variogram range to the binned empirical semivariogram by grid
+ * search; the sill is the sample variance.
+ */
+function fitVariogram(xy: XYPoint[], sill: number) {
+  const pairs: { h: number; g: number }[] = [];
+  for (let i = 0; i < xy.length; i += 1) {
+    for (let j = i + 1; j < xy.length; j += 1) {
+      pairs.push({ h: dist(xy[i], xy[j]), g: (xy[i].value - xy[j].value) ** 2 / 2 });
+    }
+  }
+  const maxH = Math.max(...pairs.map((p) => p.h));
+  if (xy.length < 4) return exponential(sill, maxH / 2);
+
+  const binCount = Math.min(8, pairs.length);
+  const bins = Array.from({ length: binCount }, () => ({ h: 0, g: 0, n: 0 }));
+  for (const p of pairs) {
+    const bin = bins[Math.min(binCount - 1, Math.floor((p.h / maxH) * binCount))];
+    bin.h += p.h;
+    bin.g += p.g;
+    bin.n += 1;
+  }
+  const empirical = bins.filter((b) => b.n > 0).map((b) => ({ h: b.h / b.n, g: b.g / b.n, n: b.n }));
+
+  let best = { range: maxH / 2, error: Infinity };
+  for (let k = 1; k <= 30; k += 1) {
+    const range = (maxH * k) / 20;
+    const model = exponential(sill, range);
+    const error = empirical.reduce((s, b) => s + b.n * (model(b.h) - b.g) ** 2, 0);
+    if (error < best.error) best = { range, error };
+  }
+  return exponential(sill, best.range);
+}
+
+// Gauss–Jordan inverse with partial pivoting; null when singular
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r += 1) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let c = 0; c < 2 * n; c += 1) a[col][c] /= p;
+    for (let r = 0; r < n; r += 1) {
+      if (r === col) continue;
+      const f = a[r][col];
+      if (f === 0) continue;
+      for (let c = 0; c < 2 * n; c += 1) a[r][c] -= f * a[col][c];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
+
+/**
+ * Ordinary kriging with a fitted exponential variogram. The system is
+ * solved once, so each estimate is O(n). Null when there are too few
+ * distinct samples or the system is singular.
+ */
+function kriging(xy: XYPoint[], project: (lat: number, lng: number) => { x: number; y: number }): Estimator | null {
+  const n = xy.length;
+  if (n < 3) return null;
+  const mean = xy.reduce((s, p) => s + p.value, 0) / n;
+  const sill = xy.reduce((s, p) => s + (p.value - mean) ** 2, 0) / n;
+  if (sill === 0) return () => mean;
+
+  const gamma = fitVariogram(xy, sill);
+  const system = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: n + 1 }, (_, j) => {
+      if (i === n && j === n) return 0;
+      if (i === n || j === n) return 1;
+      return gamma(dist(xy[i], xy[j]));
+    }),
+  );
+  const inverse = invert(system);
+  if (!inverse) return null;
+
+  // weights·values = Σ_j g_j c_j with c = valuesᵀ · inverse
+  const c = Array.from({ length: n + 1 }, (_, j) => xy.reduce((s, p, i) => s + p.value * inverse[i][j], 0));
+  const min = Math.min(...xy.map((p) => p.value));
+  const max = Math.max(...xy.map((p) => p.value));
+  return (lat, lng) => {
+    const q = project(lat, lng);
+    let v = c[n];
+    for (let j = 0; j < n; j += 1) v += c[j] * gamma(dist(q, xy[j]));
+    // Kriging can overshoot between samples; keep to the measured range
+    return Math.min(max, Math.max(min, v));
+  };
+}
+
+/**
+ * Estimator for `points` (at least one). Kriging falls back to IDW when it
+ * cannot be solved, e.g. with fewer than three distinct positions.
+ */
+export function surfaceEstimator(points: SurfacePoint[], method: InterpolationMethod): Estimator {
+  const { project, xy } = prepare(points);
+  return (method === 'kriging' && kriging(xy, project)) || idw(xy, project);
+}
+
+/**
+ * Distance (m) to the nearest node, and how far the surface reaches before
+ * fading: one and a half times the widest gap between neighbouring nodes.
+ */
+export function surfaceReach(points: SurfacePoint[]) {
+  const { project, xy } = prepare(points);
+  let widest = 0;
+  for (const p of xy) {
+    const nearest = Math.min(...xy.filter((q) => q !== p).map((q) => dist(p, q)));
+    if (Number.isFinite(nearest)) widest = Math.max(widest, nearest);
+  }
+  return {
+    reachM: Math.max(MIN_REACH_M, widest * 1.5),
+    nearestM: (lat: number, lng: number) => {
+      const q = project(lat, lng);
+      return Math.min(...xy.map((p) => dist(q, p)));
+    },
+  };
+}
+
+// Colour bands per metric, matching the colours used elsewhere on the map
+export function surfaceBands(metric: SurfaceMetric, standard: AqiStandard): SurfaceBand[] {
+  switch (metric) {
+    case 'aqi': {
+      const { categories } = AQI_STANDARDS[standard];
+      return categories.map((c, i) => ({
+        below: i === categories.length - 1 ? Infinity : c.max + 1,
+        color: c.color,
+        label: `${c.label} (${i === 0 ? 0 : categories[i - 1].max + 1}–${c.max})`,
+      }));
+    }
+    case 'co2':
+      return CO2_BANDS;
+    case 'voc':
+      return [
+        { below: 31, color: '#10b981', label: '≤ 30 ppb' },
+        { below: 51, color: '#f59e0b', label: '31–50 ppb' },
+        { below: Infinity, color: '#ef4444', label: '> 50 ppb' },
+      ];
+    case 'health':
+      return [
+        { below: 60, color: '#ef4444', label: 'Below 60' },
+        { below: 80, color: '#f59e0b', label: '60–79' },
+        { below: Infinity, color: '#10b981', label: '80 and above' },
+      ];
+  }
+}
+
+export const bandColor = (bands: SurfaceBand[], value: number): string =>
+  (bands.find((b) => value < b.below) ?? bands[bands.length - 1]).color;
@@ -0,0 +1,44 @@
+/**
+ * Screen-space marker clustering for the map. Points closer than
+ * `radiusPx` at the current zoom share a cluster; zooming in splits them.
+ * Greedy and order-stable, which is plenty for a fleet of tens of nodes.
+ */
+
+export type ClusterPoint = { lat: number; lng: number };
+
+export type MarkerCluster<T extends ClusterPoint> = {
+  // Stable across re-renders while membership is unchanged
+  id: string;
+  lat: number;
+  lng: number;
+  members: T[];
+};
+
+export function clusterPoints<T extends ClusterPoint>(
+  points: T[],
+  project: (lat: number, lng: number) => { x: number; y: number },
+  keyOf: (point: T) => string,
+  radiusPx = 48,
+): MarkerCluster<T>[] {
+  const seeds: { x: number; y: number; members: T[] }[] = [];
+
+  for (const point of points) {
+    const p = project(point.lat, point.lng);
+    const seed = seeds.find((s) => Math.hypot(s.x - p.x, s.y - p.y) <= radiusPx);
+    if (seed) seed.members.push(point);
+    else seeds.push({ ...p, members: [point] });
+  }
+
+  return seeds.map(({ members }) => ({
+    id: members.map(keyOf).join('|'),
+    lat: members.reduce((sum, m) => sum + m.lat, 0) / members.length,
+    lng: members.reduce((sum, m) => sum + m.lng, 0) / members.length,
+    members,
+  }));
+}
+
+/** True when every member sits on (practically) the same spot, so zooming cannot split them. */
+export const isStacked = <T extends ClusterPoint>(members: T[], toleranceDeg = 1e-5): boolean =>
+  members.every(
+    (m) => Math.abs(m.lat - members[0].lat) <= toleranceDeg && Math.abs(m.lng - members[0].lng) <= toleranceDeg,
+  );
@@ -0,0 +1,78 @@
+/**
+ * Browser side of Web Push: the service worker in public/sw.js, the push
+ * subscription for this browser, and local notifications for conditions the
+ * frontend detects itself (e.g. the Health view turning hazardous).
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+export const pushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+/** Register (or reuse) the service worker; null where unsupported. */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (err) {
+    console.warn('Service worker registration failed:', err);
+    return null;
+  }
+}
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+/** This browser's current push subscription, if any. */
+export async function currentSubscription(): Promise<PushSubscription | null> {
+  if (!pushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for notification permission and subscribe this browser with the
+ * server's VAPID key. Throws with a user-facing message on refusal.
+ */
+export async function subscribeBrowser(publicKey: string): Promise<PushSubscription> {
+  if (!pushSupported()) throw new Error('This browser does not support push notifications');
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notification permission was not granted');
+
+  const registration = await registerServiceWorker();
+  if (!registration) throw new Error('Service worker could not be registered');
+  await navigator.serviceWorker.ready;
+
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey) as BufferSource,
+  });
+}
+
+/**
+ * Show a notification from the page through the service worker, so it
+ * behaves like a push (click focuses the tab). No-op without permission.
+ */
+export async function showLocalNotification(
+  title: string,
+  options: { body: string; tag: string; requireInteraction?: boolean },
+): Promise<void> {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+    : undefined;
+  if (registration) {
+    await registration.showNotification(title, { ...options, data: { view: 'health' } });
+  } else {
+    new Notification(title, options);
+  }
+}
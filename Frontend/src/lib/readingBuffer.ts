@@ -0,0 +1,166 @@
+import type { LiveReading } from '../types/LiveReading';
+import type { ReadingMetric, RollingStat, RollingStats } from '../types/RollingStats';
+
+// Readings are de-duplicated by id; location-only pushes have none
+const readingKey = (r: LiveReading) => r.id ?? r.timestamp;
+const readingTime = (r: LiveReading) => new Date(r.timestamp).getTime();
+
+/**
+ * Fixed-capacity ring buffer of live readings for one device, kept in
+ * timestamp order. Once full, the oldest reading is overwritten.
+ */
+export class ReadingRingBuffer {
+  private items: (LiveReading | undefined)[];
+  private start = 0;
+  private size = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  get length() {
+    return this.size;
+  }
+
+  private at(i: number): LiveReading {
+    return this.items[(this.start + i) % this.capacity] as LiveReading;
+  }
+
+  last(): LiveReading | null {
+    return this.size ? this.at(this.size - 1) : null;
+  }
+
+  /**
+   * Append a reading. A reading with the same id as the newest entry
+   * replaces it — the backend re-emits a reading once it has been classified.
+   */
+  push(reading: LiveReading) {
+    const newest = this.last();
+    if (newest && readingKey(newest) === readingKey(reading)) {
+      this.items[(this.start + this.size - 1) % this.capacity] = reading;
+      return;
+    }
+    if (this.size < this.capacity) {
+      this.items[(this.start + this.size) % this.capacity] = reading;
+      this.size += 1;
+    } else {
+      this.items[this.start] = reading;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Merge readings that may overlap or predate what is buffered (e.g. a
+   * backfill after reconnect). Duplicates by id are dropped, order is
+   * restored and only the newest `capacity` readings are kept.
+   */
+  merge(readings: LiveReading[]) {
+    const byKey = new Map<string, LiveReading>();
+    for (const r of this.toArray()) byKey.set(readingKey(r), r);
+    for (const r of readings) {
+      if (!byKey.has(readingKey(r))) byKey.set(readingKey(r), r);
+    }
+    const merged = Array.from(byKey.values())
+      .sort((a, b) => readingTime(a) - readingTime(b))
+      .slice(-this.capacity);
+
+    this.items = new Array(this.capacity);
+    merged.forEach((r, i) => {
+      this.items[i] = r;
+    });
+    this.start = 0;
+    this.size = merged.length;
+  }
+
+  /**
+   * Apply a partial update to the buffered reading with this id (e.g. a
+   * classification that arrived after the reading). Returns false if the
+   * reading has already been overwritten.
+   */
+  patch(id: string, update: Partial<LiveReading>): boolean {
+    for (let i = this.size - 1; i >= 0; i--) {
+      const idx = (this.start + i) % this.capacity;
+      const reading = this.items[idx];
+      if (reading?.id === id) {
+        this.items[idx] = { ...reading, ...update };
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Readings with a timestamp at or after `sinceMs`, oldest first. */
+  since(sinceMs: number): LiveReading[] {
+    const out: LiveReading[] = [];
+    for (let i = this.size - 1; i >= 0; i--) {
+      const reading = this.at(i);
+      if (readingTime(reading) < sinceMs) break;
+      out.push(reading);
+    }
+    return out.reverse();
+  }
+
+  toArray(): LiveReading[] {
+    return Array.from({ length: this.size }, (_, i) => this.at(i));
+  }
+}
+
+const METRICS: ReadingMetric[] = ['co2', 'temperature', 'humidity', 'mq135Raw'];
+
+export function readMetric(reading: LiveReading, metric: ReadingMetric): number | null {
+  switch (metric) {
+    case 'co2':
+      return reading.co2?.ppm ?? reading.air?.co2ppm ?? null;
+    case 'temperature':
+      return reading.environment?.temperature ?? null;
+    case 'humidity':
+      return reading.environment?.humidity ?? null;
+    case 'mq135Raw':
+      return reading.mq135?.raw ?? null;
+  }
+}
+
+function statFor(readings: LiveReading[], metric: ReadingMetric): RollingStat | null {
+  const points: { t: number; v: number }[] = [];
+  for (const reading of readings) {
+    const v = readMetric(reading, metric);
+    if (v == null || !Number.isFinite(v)) continue;
+    points.push({ t: readingTime(reading) / 60000, v });
+  }
+  if (!points.length) return null;
+
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let sumT = 0;
+  for (const { t, v } of points) {
+    sum += v;
+    sumT += t;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const mean = sum / points.length;
+  const meanT = sumT / points.length;
+
+  let num = 0;
+  let den = 0;
+  for (const { t, v } of points) {
+    num += (t - meanT) * (v - mean);
+    den += (t - meanT) ** 2;
+  }
+
+  return {
+    count: points.length,
+    mean,
+    min,
+    max,
+    slopePerMin: den > 0 ? num / den : 0,
+  };
+}
+
+/** Mean, min/max and least-squares trend for every tracked metric. */
+export function computeRollingStats(readings: LiveReading[]): RollingStats {
+  return Object.fromEntries(
+    METRICS.map((metric) => [metric, statFor(readings, metric)]),
+  ) as RollingStats;
+}
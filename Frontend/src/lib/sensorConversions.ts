@@ -0,0 +1,32 @@
+/**
+ * Sensor conversions shared by every view. The backend mirrors this file in
+ * Backend/services/sensorConversions.js and stores its output on Reading,
+ * so a value computed here must match what is stored and exported.
+ *
+ * AQI lives in ./aqi.ts.
+ *
+ * Golden values (both implementations, checked by test/conversions.test.ts):
+ *   co2Status(399) → 'OUTDOOR_FRESH', co2Status(1000) → 'STUFFY'
+ */
+
+// ESP32 ADC is 12-bit
+export const ADC_MAX = 4095;
+
+export type CO2Status = 'OUTDOOR_FRESH' | 'GOOD' | 'STUFFY' | 'POOR' | 'DANGEROUS';
+
+/** CO₂ band for an MG811 reading in ppm. */
+export function co2Status(ppm: number): CO2Status {
+  if (ppm < 400) return 'OUTDOOR_FRESH';
+  if (ppm < 1000) return 'GOOD';
+  if (ppm < 2000) return 'STUFFY';
+  if (ppm < 5000) return 'POOR';
+  return 'DANGEROUS';
+}
+
+export function co2HealthAdvice(ppm: number): string {
+  if (ppm < 400) return 'Outdoor fresh air quality';
+  if (ppm < 1000) return 'Good indoor air quality';
+  if (ppm < 2000) return 'Acceptable but may cause drowsiness';
+  if (ppm < 5000) return 'Poor air quality - increase ventilation';
+  return 'Dangerous levels - evacuate immediately';
+}
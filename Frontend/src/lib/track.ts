@@ -0,0 +1,36 @@
+import type { TrackPoint } from '../types/Track';
+
+// Playback windows offered on the map, in hours
+export const TRACK_WINDOWS_H = [1, 6, 24, 72, 168];
+
+// Same bands as the backend's co2Status()
+export const CO2_BANDS: { below: number; color: string; label: string }[] = [
+  { below: 400, color: '#14b8a6', label: '< 400 ppm' },
+  { below: 1000, color: '#22c55e', label: '400–1000 ppm' },
+  { below: 2000, color: '#eab308', label: '1000–2000 ppm' },
+  { below: 5000, color: '#f97316', label: '2000–5000 ppm' },
+  { below: Infinity, color: '#dc2626', label: '≥ 5000 ppm' },
+];
+
+export const co2Color = (ppm: number): string =>
+  (CO2_BANDS.find((b) => ppm < b.below) ?? CO2_BANDS[CO2_BANDS.length - 1]).color;
+
+/** Index of the last point at or before `ts`; -1 before the track starts. */
+export function pointIndexAt(points: TrackPoint[], ts: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (new Date(points[mid].ts).getTime() <= ts) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+export const formatDuration = (minutes: number): string =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
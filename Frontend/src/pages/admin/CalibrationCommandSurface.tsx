@@ -0,0 +1,550 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ArrowLeft,
+  Gauge,
+  Play,
+  Square,
+  RotateCw,
+  Save,
+  History,
+  Wind,
+  Clock,
+  AlertTriangle,
+} from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useRealtime, useReadingWindow } from '../../contexts/RealtimeContext';
+import { API_BASE } from '../../config';
+import { View } from '../../types';
+import type {
+  BaselineSummary,
+  CalibrationProfile,
+  ReprocessResult,
+} from '../../types/Calibration';
+
+type CalibrationProps = {
+  setActiveView: (view: View) => void;
+};
+
+// Form state is kept as strings so half-typed numbers survive re-renders
+type Draft = {
+  point1Raw: string;
+  point1Ppm: string;
+  point2Raw: string;
+  point2Ppm: string;
+  r0Kohm: string;
+  temperatureOffset: string;
+  humidityOffset: string;
+  notes: string;
+};
+
+// Mirrors MIN_BASELINE_SAMPLES on the server
+const MIN_BASELINE_SAMPLES = 12;
+const QUICK_WINDOW_MIN = 10;
+// Firmware maps the MG811 linearly onto 0–5000 ppm; used as the second
+// curve point until a span gas measurement is entered
+const FIRMWARE_FULL_SCALE = { raw: 4095, ppm: 5000 };
+
+const str = (v: number | null | undefined) => (v == null ? '' : String(v));
+
+const draftFromProfile = (p: CalibrationProfile | null): Draft => ({
+  point1Raw: str(p?.mg811?.point1Raw),
+  point1Ppm: str(p?.mg811?.point1Ppm),
+  point2Raw: str(p?.mg811?.point2Raw),
+  point2Ppm: str(p?.mg811?.point2Ppm),
+  r0Kohm: str(p?.mq135?.r0Kohm),
+  temperatureOffset: str(p?.offsets.temperature ?? 0),
+  humidityOffset: str(p?.offsets.humidity ?? 0),
+  notes: '',
+});
+
+const toLocalInput = (d: Date) =>
+  new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const formatElapsed = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${String(Math.floor(s / 60)).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const Field = ({ label, value, onChange, placeholder }: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  placeholder?: string;
+}) => (
+  <label className="block">
+    <span className="text-[10px] text-gray-500 uppercase tracking-wide font-bold">{label}</span>
+    <input
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      inputMode="decimal"
+      className="mt-1 w-full rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-300"
+    />
+  </label>
+);
+
+const CalibrationCommandSurface: React.FC<CalibrationProps> = ({ setActiveView }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const { selectedDeviceId: deviceId } = useRealtime();
+
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<Draft>(() => draftFromProfile(null));
+  const [saving, setSaving] = useState(false);
+
+  // Fresh-air capture session
+  const [captureStart, setCaptureStart] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [referenceCo2, setReferenceCo2] = useState('420');
+  const [referenceTemp, setReferenceTemp] = useState('');
+  const [referenceHumidity, setReferenceHumidity] = useState('');
+  const [baseline, setBaseline] = useState<BaselineSummary | null>(null);
+  const [computing, setComputing] = useState(false);
+
+  // Reprocessing
+  const [reprocessFrom, setReprocessFrom] = useState(() => toLocalInput(new Date(Date.now() - 24 * 3600 * 1000)));
+  const [reprocessTo, setReprocessTo] = useState(() => toLocalInput(new Date()));
+  const [reprocessVersion, setReprocessVersion] = useState('');
+  const [reprocessing, setReprocessing] = useState(false);
+  const [lastReprocess, setLastReprocess] = useState<ReprocessResult | null>(null);
+
+  const latest = profiles[0] ?? null;
+  const base = deviceId ? `${API_BASE}/api/admin/calibration/${encodeURIComponent(deviceId)}` : null;
+
+  const fetchProfiles = async () => {
+    if (!token || !base) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`${base}/profiles`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (res.ok && data.ok) {
+        setProfiles(data.profiles);
+        setDraft(draftFromProfile(data.profiles[0] ?? null));
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setBaseline(null);
+    setCaptureStart(null);
+    setLastReprocess(null);
+    fetchProfiles();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, deviceId]);
+
+  useEffect(() => {
+    if (captureStart === null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [captureStart]);
+
+  const elapsedMs = captureStart !== null ? now - captureStart : 0;
+  const windowMinutes = Math.ceil(elapsedMs / 60000) + 1;
+  const liveWindow = useReadingWindow(captureStart !== null ? deviceId : null, windowMinutes);
+  const captured = useMemo(
+    () => (captureStart === null ? [] : liveWindow.filter((r) => new Date(r.timestamp).getTime() >= captureStart)),
+    [liveWindow, captureStart],
+  );
+  const lastSample = captured[captured.length - 1];
+
+  const computeBaseline = async (from: Date, to: Date) => {
+    if (!base) return;
+    setComputing(true);
+    try {
+      const res = await fetch(`${base}/baseline`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          from: from.toISOString(),
+          to: to.toISOString(),
+          referenceCo2ppm: Number(referenceCo2),
+          referenceTemperature: referenceTemp,
+          referenceHumidity: referenceHumidity,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) {
+        showToast(data.error || 'Baseline failed', 'error');
+        return;
+      }
+      const summary = data as BaselineSummary;
+      setBaseline(summary);
+      setCaptureStart(null);
+
+      const { mg811Point, mq135, offsets } = summary.proposal;
+      setDraft((d) => ({
+        ...d,
+        ...(mg811Point && {
+          point1Raw: String(mg811Point.raw),
+          point1Ppm: String(mg811Point.ppm),
+          point2Raw: d.point2Raw || String(FIRMWARE_FULL_SCALE.raw),
+          point2Ppm: d.point2Ppm || String(FIRMWARE_FULL_SCALE.ppm),
+        }),
+        ...(mq135 && { r0Kohm: String(mq135.r0Kohm) }),
+        temperatureOffset: String(offsets.temperature),
+        humidityOffset: String(offsets.humidity),
+      }));
+      showToast(`Baseline computed from ${summary.sampleCount} readings`, 'success');
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!base) return;
+
+    const hasCurve = [draft.point1Raw, draft.point1Ppm, draft.point2Raw, draft.point2Ppm].every((v) => v.trim() !== '');
+    const body = {
+      mg811: hasCurve
+        ? {
+          point1Raw: Number(draft.point1Raw),
+          point1Ppm: Number(draft.point1Ppm),
+          point2Raw: Number(draft.point2Raw),
+          point2Ppm: Number(draft.point2Ppm),
+        }
+        : null,
+      mq135: draft.r0Kohm.trim() ? { r0Kohm: Number(draft.r0Kohm) } : null,
+      offsets: {
+        temperature: Number(draft.temperatureOffset || 0),
+        humidity: Number(draft.humidityOffset || 0),
+      },
+      baselineSession: baseline
+        ? { from: baseline.from, to: baseline.to, sampleCount: baseline.sampleCount }
+        : null,
+      notes: draft.notes,
+    };
+
+    setSaving(true);
+    try {
+      const res = await fetch(`${base}/profiles`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok && data.ok) {
+        showToast(`Saved calibration v${data.profile.version}`, 'success');
+        setBaseline(null);
+        fetchProfiles();
+      } else {
+        showToast(data.error || 'Error saving profile', 'error');
+      }
+    } catch {
+      showToast('Error saving profile', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReprocess = async () => {
+    if (!base || !latest) return;
+    const version = reprocessVersion || String(latest.version);
+    if (!window.confirm(`Recompute readings from ${reprocessFrom} to ${reprocessTo} with calibration v${version}? Their integrity hashes are re-issued and anchored again on chain; the original anchors are kept.`)) return;
+
+    setReprocessing(true);
+    try {
+      const res = await fetch(`${base}/reprocess`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          from: new Date(reprocessFrom).toISOString(),
+          to: new Date(reprocessTo).toISOString(),
+          version: Number(version),
+        }),
+      });
+      const data = await res.json();
+      if (res.ok && data.ok) {
+        setLastReprocess(data);
+        showToast(`Reprocessed ${data.updated} readings`, 'success');
+      } else {
+        showToast(data.error || 'Reprocess failed', 'error');
+      }
+    } catch {
+      showToast('Network error', 'error');
+    } finally {
+      setReprocessing(false);
+    }
+  };
+
+  const set = (key: keyof Draft) => (value: string) => setDraft((d) => ({ ...d, [key]: value }));
+
+  return (
+    <div className="pt-20 px-4 pb-12 min-h-screen bg-gradient-to-br from-cream-50 via-orange-50/60 to-amber-50">
+      <div className="max-w-[1440px] mx-auto pl-12 pr-4 lg:pr-8">
+
+        {/* Header */}
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6 mb-8">
+          <div>
+            <button
+              onClick={() => setActiveView('admin')}
+              className="inline-flex items-center gap-1.5 text-xs text-orange-600 hover:text-orange-800 font-bold uppercase tracking-wider mb-4 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" /> Exit Command Floor
+            </button>
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-teal-600 to-cyan-700 flex items-center justify-center shadow-lg border border-teal-500 text-white">
+                <Gauge className="w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-black text-gray-900 tracking-tight">
+                  Sensor <span className="text-transparent bg-clip-text bg-gradient-to-r from-teal-600 to-cyan-600">Calibration</span>
+                </h1>
+                <p className="text-sm text-gray-500 font-medium italic">
+                  Versioned MG811, MQ135 and DHT11 corrections, applied to every new reading.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="bg-white rounded-2xl border border-teal-100 p-4 shadow-sm min-w-[140px]">
+              <div className="text-[10px] text-gray-400 uppercase tracking-wide font-bold mb-1">Device</div>
+              <div className="text-lg font-black text-gray-900 font-mono">{deviceId ?? '—'}</div>
+            </div>
+            <div className="bg-white rounded-2xl border border-teal-100 p-4 shadow-sm min-w-[140px]">
+              <div className="text-[10px] text-gray-400 uppercase tracking-wide font-bold mb-1">Active Version</div>
+              <div className="text-2xl font-black text-gray-900">{latest ? `v${latest.version}` : 'Raw'}</div>
+            </div>
+          </div>
+        </div>
+
+        {!deviceId ? (
+          <div className="bg-white rounded-3xl border border-amber-200 p-8 text-center text-sm text-gray-600">
+            <AlertTriangle className="w-6 h-6 text-amber-500 mx-auto mb-2" />
+            Pick a device in the navigation bar to calibrate it.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+
+            {/* Capture + proposal */}
+            <div className="xl:col-span-2 space-y-6">
+              <div className="bg-white rounded-3xl border border-teal-100 shadow-sm p-6 space-y-5">
+                <div className="flex items-center gap-3">
+                  <Wind className="w-5 h-5 text-teal-600" />
+                  <div>
+                    <h2 className="font-bold text-gray-900">Fresh-air baseline</h2>
+                    <p className="text-xs text-gray-500">
+                      Place the node outdoors away from traffic, let it warm up, then capture at least {MIN_BASELINE_SAMPLES} readings.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Field label="Reference CO₂ (ppm)" value={referenceCo2} onChange={setReferenceCo2} />
+                  <Field label="Reference temp (°C)" value={referenceTemp} onChange={setReferenceTemp} placeholder="optional" />
+                  <Field label="Reference humidity (%)" value={referenceHumidity} onChange={setReferenceHumidity} placeholder="optional" />
+                </div>
+
+                {captureStart === null ? (
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      onClick={() => { setNow(Date.now()); setCaptureStart(Date.now()); }}
+                      className="flex items-center gap-2 px-5 py-3 rounded-2xl bg-slate-900 text-white font-bold shadow-md hover:bg-slate-800 transition-all text-sm"
+                    >
+                      <Play className="w-4 h-4" /> Start capture
+                    </button>
+                    <button
+                      onClick={() => computeBaseline(new Date(Date.now() - QUICK_WINDOW_MIN * 60000), new Date())}
+                      disabled={computing}
+                      className="flex items-center gap-2 px-5 py-3 rounded-2xl bg-white border border-teal-200 text-teal-700 font-bold hover:bg-teal-50 transition-all text-sm disabled:opacity-50"
+                    >
+                      <Clock className="w-4 h-4" /> Use last {QUICK_WINDOW_MIN} min
+                    </button>
+                  </div>
+                ) : (
+                  <div className="rounded-2xl bg-teal-50 border border-teal-100 p-4 flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex gap-6 text-sm">
+                      <div>
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">Elapsed</div>
+                        <div className="font-mono font-black text-gray-900">{formatElapsed(elapsedMs)}</div>
+                      </div>
+                      <div>
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">Samples</div>
+                        <div className="font-black text-gray-900">{captured.length}</div>
+                      </div>
+                      <div>
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">MQ135 raw</div>
+                        <div className="font-black text-gray-900">{lastSample?.mq135?.raw ?? '—'}</div>
+                      </div>
+                      <div>
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">CO₂</div>
+                        <div className="font-black text-gray-900">{lastSample?.co2?.ppm ?? '—'}</div>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setCaptureStart(null)}
+                        className="px-4 py-2 rounded-xl border border-gray-200 text-gray-600 text-xs font-bold hover:bg-white"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => computeBaseline(new Date(captureStart), new Date())}
+                        disabled={computing || captured.length < MIN_BASELINE_SAMPLES}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-teal-600 text-white text-xs font-bold shadow hover:bg-teal-700 disabled:opacity-50"
+                      >
+                        <Square className="w-3.5 h-3.5" /> Finish &amp; compute
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {baseline && (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                    {[
+                      ['MQ135 median', baseline.stats.mq135Raw],
+                      ['MG811 median', baseline.stats.mg811Raw],
+                      ['Mean temp', baseline.stats.temperature],
+                      ['Mean RH', baseline.stats.humidity],
+                    ].map(([label, value]) => (
+                      <div key={label as string} className="rounded-xl bg-gray-50 border border-gray-100 px-3 py-2">
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">{label}</div>
+                        <div className="font-black text-gray-900">{value ?? '—'}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <form onSubmit={handleSave} className="bg-white rounded-3xl border border-teal-100 shadow-sm p-6 space-y-5">
+                <div>
+                  <h2 className="font-bold text-gray-900">New profile version</h2>
+                  <p className="text-xs text-gray-500">Leave a sensor blank to keep its uncalibrated values.</p>
+                </div>
+
+                <div>
+                  <div className="text-xs font-bold text-gray-700 mb-2">MG811 curve (log ppm vs ADC count)</div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <Field label="Point 1 raw" value={draft.point1Raw} onChange={set('point1Raw')} />
+                    <Field label="Point 1 ppm" value={draft.point1Ppm} onChange={set('point1Ppm')} />
+                    <Field label="Point 2 raw" value={draft.point2Raw} onChange={set('point2Raw')} />
+                    <Field label="Point 2 ppm" value={draft.point2Ppm} onChange={set('point2Ppm')} />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Field label="MQ135 R0 (kΩ)" value={draft.r0Kohm} onChange={set('r0Kohm')} />
+                  <Field label="Temperature offset (°C)" value={draft.temperatureOffset} onChange={set('temperatureOffset')} />
+                  <Field label="Humidity offset (%RH)" value={draft.humidityOffset} onChange={set('humidityOffset')} />
+                </div>
+
+                <label className="block">
+                  <span className="text-[10px] text-gray-500 uppercase tracking-wide font-bold">Notes</span>
+                  <textarea
+                    value={draft.notes}
+                    onChange={(e) => set('notes')(e.target.value)}
+                    rows={2}
+                    className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-teal-300"
+                  />
+                </label>
+
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-gradient-to-r from-teal-600 to-cyan-600 text-white font-bold shadow-md hover:scale-[1.02] transition-all text-sm disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" /> Save as v{(latest?.version ?? 0) + 1}
+                </button>
+              </form>
+            </div>
+
+            {/* History + reprocess */}
+            <div className="space-y-6">
+              <div className="bg-white rounded-3xl border border-teal-100 shadow-sm p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <History className="w-5 h-5 text-teal-600" />
+                  <h2 className="font-bold text-gray-900">Version history</h2>
+                </div>
+                {loading ? (
+                  <div className="h-24 bg-gray-50 rounded-2xl animate-pulse" />
+                ) : profiles.length === 0 ? (
+                  <p className="text-sm text-gray-500">No calibration yet — readings are stored uncalibrated.</p>
+                ) : (
+                  <ul className="space-y-3 max-h-[420px] overflow-y-auto">
+                    {profiles.map((p) => (
+                      <li key={p._id} className="rounded-2xl border border-gray-100 p-3 text-xs text-gray-600 space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="font-black text-gray-900 text-sm">v{p.version}</span>
+                          <span>{new Date(p.createdAt).toLocaleString()}</span>
+                        </div>
+                        <div>
+                          MG811 {p.mg811 ? `${p.mg811.point1Raw}→${p.mg811.point1Ppm} / ${p.mg811.point2Raw}→${p.mg811.point2Ppm} ppm` : 'raw'}
+                          {' · '}R0 {p.mq135 ? `${p.mq135.r0Kohm} kΩ` : 'raw'}
+                        </div>
+                        <div>ΔT {p.offsets.temperature} °C · ΔRH {p.offsets.humidity} %</div>
+                        {p.baselineSession && <div>Baseline: {p.baselineSession.sampleCount} readings</div>}
+                        {p.createdBy && <div>By {p.createdBy.name}</div>}
+                        {p.notes && <div className="italic">{p.notes}</div>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white rounded-3xl border border-amber-100 shadow-sm p-6 space-y-4">
+                <div className="flex items-center gap-2">
+                  <RotateCw className="w-5 h-5 text-amber-600" />
+                  <h2 className="font-bold text-gray-900">Reprocess history</h2>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Recompute stored readings with a profile version (at most 31 days per run). Tampered readings are skipped.
+                </p>
+                <label className="block">
+                  <span className="text-[10px] text-gray-500 uppercase tracking-wide font-bold">From</span>
+                  <input type="datetime-local" value={reprocessFrom} onChange={(e) => setReprocessFrom(e.target.value)} className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 text-sm" />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] text-gray-500 uppercase tracking-wide font-bold">To</span>
+                  <input type="datetime-local" value={reprocessTo} onChange={(e) => setReprocessTo(e.target.value)} className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 text-sm" />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] text-gray-500 uppercase tracking-wide font-bold">Version</span>
+                  <select value={reprocessVersion} onChange={(e) => setReprocessVersion(e.target.value)} className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 text-sm">
+                    <option value="">Latest{latest ? ` (v${latest.version})` : ''}</option>
+                    {profiles.map((p) => <option key={p._id} value={p.version}>v{p.version}</option>)}
+                  </select>
+                </label>
+                <button
+                  onClick={handleReprocess}
+                  disabled={reprocessing || !latest}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white text-xs font-bold shadow-md disabled:opacity-50"
+                >
+                  <RotateCw className={`w-4 h-4 ${reprocessing ? 'animate-spin' : ''}`} /> {reprocessing ? 'Reprocessing…' : 'Reprocess range'}
+                </button>
+                {lastReprocess && (
+                  <div className="text-xs text-gray-600 rounded-xl bg-amber-50 border border-amber-100 p-3">
+                    v{lastReprocess.version}: {lastReprocess.updated} of {lastReprocess.matched} readings updated
+                    {lastReprocess.skippedTampered > 0 && `, ${lastReprocess.skippedTampered} tampered skipped`}
+                    {lastReprocess.unanchored > 0 && `, ${lastReprocess.unanchored} pending re-anchor`}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationCommandSurface;
@@ -1,3 +1,5 @@
+import type { HealthProfileId } from './types/HealthProfile';
+
 export type Role = 'admin' | 'operator' | 'viewer';
 
 export type AuthUser = {
@@ -8,6 +10,7 @@ export type AuthUser = {
   emailVerified: boolean;
   lastLogin?: string;
   needsRoleSelection?: boolean;
+  healthProfile?: HealthProfileId;
 };
 
 export type View =
@@ -23,4 +26,5 @@ export type View =
   | 'profile'
   | 'provenance'
   | 'exportRecipes'
+  | 'calibration'
   | 'fleet';
@@ -0,0 +1,56 @@
+// src/types/Alert.ts
+// Server-side alert rules (Backend/services/alertEngine.js)
+
+export type AlertMetric = 'co2ppm' | 'aqi' | 'aqiLevel' | 'temperature' | 'humidity' | 'mq135Ppm';
+export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertRule = {
+  _id: string;
+  name: string;
+  // null = every device
+  deviceId: string | null;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  durationSec: number;
+  hysteresis: number;
+  cooldownSec: number;
+  severity: AlertSeverity;
+  enabled: boolean;
+  createdAt: string;
+};
+
+// alert:triggered — also the shape of GET /api/alerts/active entries
+export type AlertTriggeredEvent = {
+  alertId: string;
+  ruleId: string;
+  ruleName: string;
+  deviceId: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  severity: AlertSeverity;
+  value: number;
+  durationSec: number;
+  readingId: string;
+  // When the condition started to hold, before the duration elapsed
+  breachStartedAt: string;
+  triggeredAt: string;
+};
+
+// alert:resolved — value is null when the rule was edited or deleted
+export type AlertResolvedEvent = {
+  alertId: string;
+  ruleId: string;
+  ruleName: string;
+  deviceId: string;
+  metric: AlertMetric;
+  severity: AlertSeverity;
+  value: number | null;
+  peakValue: number;
+  peakAt: string;
+  triggeredAt: string;
+  resolvedAt: string;
+  reason: 'cleared' | 'rule-changed';
+};
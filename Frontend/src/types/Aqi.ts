@@ -0,0 +1,23 @@
+// src/types/Aqi.ts
+// Output of the breakpoint AQI engine in lib/aqi.ts
+export type AqiStandard = 'IN_NAQI' | 'US_EPA';
+
+export type Pollutant = 'pm25' | 'pm10' | 'no2' | 'o3' | 'co' | 'so2' | 'nh3' | 'mq135';
+
+// Units as documented in lib/aqi.ts; null/absent pollutants are skipped
+export type PollutantConcentrations = Partial<Record<Pollutant, number | null>>;
+
+export type AqiCategory = {
+  // 0 (best) … 5 (worst); both standards have six bands
+  level: number;
+  label: string;
+  color: string;
+};
+
+export type AqiResult = {
+  standard: AqiStandard;
+  aqi: number;
+  category: AqiCategory;
+  dominant: Pollutant;
+  subIndices: Partial<Record<Pollutant, number>>;
+};
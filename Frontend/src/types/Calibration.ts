@@ -0,0 +1,55 @@
+// src/types/Calibration.ts
+
+export type Mg811Curve = {
+  point1Raw: number;
+  point1Ppm: number;
+  point2Raw: number;
+  point2Ppm: number;
+};
+
+export type CalibrationOffsets = {
+  temperature: number;
+  humidity: number;
+};
+
+// One immutable version of a device's calibration (GET /api/admin/calibration/:deviceId/profiles)
+export type CalibrationProfile = {
+  _id: string;
+  deviceId: string;
+  version: number;
+  mg811: Mg811Curve | null;
+  mq135: { r0Kohm: number } | null;
+  offsets: CalibrationOffsets;
+  baselineSession: { from: string; to: string; sampleCount: number } | null;
+  notes: string;
+  createdBy: { name: string; email: string } | null;
+  createdAt: string;
+};
+
+// POST /api/admin/calibration/:deviceId/baseline
+export type BaselineSummary = {
+  from: string;
+  to: string;
+  sampleCount: number;
+  stats: {
+    mq135Raw: number | null;
+    mg811Raw: number | null;
+    temperature: number | null;
+    humidity: number | null;
+  };
+  proposal: {
+    mq135: { r0Kohm: number } | null;
+    mg811Point: { raw: number; ppm: number } | null;
+    offsets: CalibrationOffsets;
+  };
+};
+
+// POST /api/admin/calibration/:deviceId/reprocess
+export type ReprocessResult = {
+  version: number;
+  matched: number;
+  updated: number;
+  skippedTampered: number;
+  // Were anchored; back to PENDING with the new hash
+  unanchored: number;
+};
@@ -0,0 +1,27 @@
+// src/types/DeviceLiveness.ts
+
+// backend_offline — the socket itself is down, nothing is known about devices
+// offline         — socket is up but the device has stopped reporting
+// degraded        — device is reporting, but has missed recent samples
+export type LivenessState =
+  | 'backend_offline'
+  | 'waiting'
+  | 'online'
+  | 'degraded'
+  | 'offline';
+
+export type DeviceLiveness = {
+  deviceId: string | null;
+  state: LivenessState;
+  // Typical interval between samples, learned from recent readings
+  expectedCadenceMs: number;
+  // Reading timestamp as stamped server-side, and when this browser received it
+  lastReadingAt: number | null;
+  lastReceivedAt: number | null;
+  // Samples expected since the last reading that have not arrived
+  missedSamples: number;
+  // Samples lost in gaps between readings received this session
+  totalMissedSamples: number;
+  // Receive time minus reading timestamp (clock offset plus transport delay)
+  clockSkewMs: number;
+};
@@ -0,0 +1,13 @@
+// src/types/DeviceSummary.ts
+import type { AqiStandard } from './Aqi';
+
+// One entry of GET /api/devices, used by the global device picker
+export type DeviceSummary = {
+  deviceId: string;
+  firstSeen: string;
+  lastSeen: string;
+  readingCount: number;
+  online: boolean;
+  // Per-site AQI tables, set by an admin
+  aqiStandard: AqiStandard;
+};
@@ -0,0 +1,42 @@
+// src/types/Exposure.ts
+// Daily CO₂ exposure (Backend/services/exposure.js)
+
+export type ExposureLimits = {
+  twa8hPpm: number;
+  stel15minPpm: number;
+};
+
+export type ExposurePeak = {
+  ppm: number;
+  at: string;
+};
+
+export type StelExcursion = {
+  from: string;
+  to: string;
+  minutes: number;
+  peakPpm: number;
+};
+
+export type ExposurePoint = {
+  ts: string;
+  co2: number | null;
+  twa8h: number | null;
+  stel15min: number | null;
+};
+
+export type DailyExposure = {
+  date: string;
+  deviceId: string;
+  limits: ExposureLimits;
+  // Share of the elapsed day with readings (0–1)
+  coverage: number;
+  peakPpm: number | null;
+  maxTwa8h: ExposurePeak | null;
+  maxStel15min: ExposurePeak | null;
+  twaExceeded: boolean;
+  stelExceeded: boolean;
+  stelExcursions: StelExcursion[];
+  // One point per 5 minutes
+  series: ExposurePoint[];
+};
@@ -0,0 +1,29 @@
+// src/types/Forecast.ts
+// GET /api/forecast/:deviceId (Backend/services/forecast.js)
+export type ForecastMetric = 'co2' | 'aqi';
+
+export type ForecastPoint = {
+  // Start of the 5-minute step
+  ts: string;
+  mean: number;
+  // ~90 % band
+  lower: number;
+  upper: number;
+};
+
+export type MetricForecast = {
+  last: { ts: string; value: number };
+  sigma: number;
+  points: ForecastPoint[];
+};
+
+export type DeviceForecast = {
+  deviceId: string;
+  generatedAt: string;
+  stepMinutes: number;
+  horizonMinutes: number;
+  // Days of hourly history behind the diurnal profile
+  diurnalDays: number;
+  // null when recent history is too sparse or stale
+  metrics: Record<ForecastMetric, MetricForecast | null>;
+};
@@ -0,0 +1,31 @@
+// src/types/HealthProfile.ts
+// Per-user sensitivity profiles (lib/healthProfiles.ts), stored on User.healthProfile
+export type HealthProfileId =
+  | 'general'
+  | 'asthma'
+  | 'cardiac'
+  | 'pregnancy'
+  | 'elderly'
+  | 'child'
+  | 'outdoorWorker';
+
+export type HealthRiskLevel = 'safe' | 'moderate' | 'high' | 'very_unhealthy' | 'hazardous';
+
+export type HealthAdvice = {
+  recommendations: string[];
+  activityAdvice: string;
+};
+
+export type HealthProfile = {
+  id: HealthProfileId;
+  label: string;
+  description: string;
+  // AQI categories added before picking the risk level (1 = one band stricter)
+  levelShift: number;
+  // CO₂ risk thresholds are multiplied by this (0.8 = trip at 80 % of the usual ppm)
+  co2Factor: number;
+  // Why the thresholds differ, shown next to the advice
+  basis: string;
+  // Replaces the general advice at these risk levels
+  advice: Partial<Record<HealthRiskLevel, HealthAdvice>>;
+};
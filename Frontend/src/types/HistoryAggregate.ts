@@ -0,0 +1,20 @@
+// src/types/HistoryAggregate.ts
+// Response rows of GET /api/readings/aggregate (served from rollups)
+export type AggregateResolution = 'minute' | 'hour' | 'day';
+
+export type AggregateMetric = 'co2' | 'aqi' | 'temp' | 'humidity' | 'mq135Raw';
+
+export type MetricSummary = {
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  p95: number | null;
+};
+
+export type AggregateBucket = {
+  // Bucket start, epoch ms
+  ts: number;
+  count: number;
+  firstTs: string | null;
+  lastTs: string | null;
+} & Record<AggregateMetric, MetricSummary>;
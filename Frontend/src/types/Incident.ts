@@ -0,0 +1,45 @@
+// src/types/Incident.ts
+// Incident log (Backend/services/incidents.js)
+import type { AlertMetric, AlertOperator, AlertSeverity } from './Alert';
+
+export type IncidentStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+export type IncidentNote = {
+  text: string;
+  author: string | null;
+  authorName: string;
+  createdAt: string;
+};
+
+export type Incident = {
+  _id: string;
+  alertId: string;
+  ruleId: string;
+  ruleName: string;
+  deviceId: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  severity: AlertSeverity;
+  status: IncidentStatus;
+  // Exceedance window; clearedAt stays null while the value is still out of range
+  startedAt: string;
+  triggeredAt: string;
+  clearedAt: string | null;
+  durationSec: number | null;
+  peakValue: number;
+  peakAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  notes: IncidentNote[];
+};
+
+export type IncidentStats = {
+  open: number;
+  acknowledged: number;
+  // Mean time to acknowledge over the last 30 days, from the start of the exceedance
+  mttaSec: number | null;
+  mttaSampleSize: number;
+};
@@ -1,5 +1,9 @@
 // src/types/LiveReading.ts
+import type { Pollutant } from './Aqi';
+
 export type LiveReading = {
+  // Mongo _id of the stored Reading; absent on location-only pushes
+  id?: string;
   deviceId: string;
   timestamp: string;
 
@@ -26,8 +30,20 @@ export type LiveReading = {
   mq135?: {
     raw: number | null;
     volt: number | null;
+    // Temperature/humidity compensated: reference-equivalent count (used
+    // for AQI), Rs/R0, CO₂-equivalent ppm and the factor Rs was divided by
+    corrected?: number | null;
+    ratio?: number | null;
+    ppm?: number | null;
+    compensation?: number | null;
   };
 
+  // CalibrationProfile version applied at ingest (null = uncalibrated)
+  calibrationVersion?: number | null;
+
+  // Extra concentrations some nodes report (µg/m³, CO in mg/m³)
+  pollutants?: Partial<Record<Exclude<Pollutant, 'mq135'>, number>> | null;
+
   // Legacy air field (used in history)
   air?: {
     co2ppm: number;
@@ -55,4 +71,15 @@ export type LiveReading = {
   purification?: {
     on: boolean;
   };
+
+  // AI source label; arrives later via `reading:classified`
+  sourceClassification?: SourceClassification;
+};
+
+export type SourceClassification = {
+  label: string;
+  confidence: number;
+  overriddenByHeuristic?: boolean;
+  originalConfidence?: number;
+  modelAccuracy?: number;
 };
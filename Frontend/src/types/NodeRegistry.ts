@@ -0,0 +1,49 @@
+// src/types/NodeRegistry.ts
+import type { AqiCategory, AqiStandard } from './Aqi';
+import type { LiveReading } from './LiveReading';
+import type { LivenessState } from './DeviceLiveness';
+
+export type NodeLocation = {
+  lat: number;
+  lng: number;
+  at: string | null;
+  // The node's own GPS, or a fix pushed from a phone
+  source: 'gps' | 'phone' | null;
+};
+
+// One entry of GET /api/nodes
+export type RegistryNode = {
+  deviceId: string;
+  // Admin-set label; the deviceId when none is set
+  name: string;
+  aqiStandard: AqiStandard;
+  // Last known position; null until the node has reported a fix
+  location: NodeLocation | null;
+  lastSeen: string | null;
+  online: boolean;
+  latest: LiveReading | null;
+};
+
+// A registry node kept current by the realtime feed
+export type MapNode = RegistryNode & {
+  liveness: LivenessState;
+};
+
+// What the map draws for one node: position plus the metrics it colours by
+export type NodeMarker = {
+  deviceId: string;
+  name: string;
+  // Null when the node has never reported a fix; listed but not drawn
+  lat: number | null;
+  lng: number | null;
+  aqi: number;
+  // Category under the node's AQI standard; drives the colour ramp
+  aqiCategory: AqiCategory;
+  voc: number;
+  co2: number;
+  health: number;
+  liveness: LivenessState;
+  lastSeen: string | null;
+  // No reading at all yet: metrics are placeholders
+  noData: boolean;
+};
@@ -0,0 +1,17 @@
+// src/types/Playback.ts
+
+// Replay position as seen by the realtime context: which device is being
+// replayed and the simulated "now" (epoch ms) that views should use.
+export type ReplayState = {
+  deviceId: string;
+  clock: number;
+};
+
+export type PlaybackSpeed = 1 | 5 | 10 | 30 | 60;
+
+// A loaded replay range, epoch ms
+export type PlaybackSession = {
+  deviceId: string;
+  from: number;
+  to: number;
+};
@@ -0,0 +1,24 @@
+// src/types/Push.ts
+// Web Push preferences and subscriptions (Backend/services/pushNotifications.js)
+import type { AlertSeverity } from './Alert';
+
+export type NotificationPrefs = {
+  severities: Record<AlertSeverity, boolean>;
+  quietHours: {
+    enabled: boolean;
+    // Local HH:MM in `timezone`; the window may wrap past midnight
+    start: string;
+    end: string;
+    timezone: string;
+    // Critical alerts still come through during quiet hours
+    allowCritical: boolean;
+  };
+};
+
+export type PushSubscriptionSummary = {
+  _id: string;
+  endpoint: string;
+  userAgent: string;
+  createdAt: string;
+  lastSuccessAt: string | null;
+};
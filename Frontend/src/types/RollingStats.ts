@@ -0,0 +1,13 @@
+// src/types/RollingStats.ts
+export type ReadingMetric = 'co2' | 'temperature' | 'humidity' | 'mq135Raw';
+
+export type RollingStat = {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  // Least-squares trend in metric units per minute
+  slopePerMin: number;
+};
+
+export type RollingStats = Record<ReadingMetric, RollingStat | null>;
@@ -0,0 +1,64 @@
+// src/types/SocketEvents.ts
+// Socket.IO protocol shared with the backend (see the WebSocket section of
+// Backend/server.js). Event names and payloads must change in both places.
+import type { LiveReading, SourceClassification } from './LiveReading';
+import type { AlertResolvedEvent, AlertTriggeredEvent } from './Alert';
+import type { Incident } from './Incident';
+
+// reading:new — full reading, once per ingest. `replayed` marks a re-send of
+// the server's cached latest reading (room subscribe, location correction):
+// not a new sample, so it says nothing about when the device last reported.
+export type ReadingNewEvent = LiveReading & { replayed?: boolean };
+
+// reading:classified — AI label for a reading already sent as reading:new
+export type ReadingClassifiedEvent = {
+  id: string;
+  deviceId: string;
+  timestamp: string;
+  sourceClassification: SourceClassification;
+};
+
+// reading:anchored — the reading's hash was written on-chain
+export type ReadingAnchoredEvent = {
+  id: string;
+  deviceId: string;
+  timestamp: string;
+  dataHash: string;
+  anchorStatus: 'ANCHORED';
+  txHash: string;
+};
+
+// batch:updated — a DHI credit batch was computed or minted
+export type BatchUpdatedEvent = {
+  batchId: string;
+  deviceId: string;
+  date: string;
+  dhiHours: number;
+  tokens: number;
+  status: 'PENDING' | 'MINTED';
+  txHash: string | null;
+};
+
+// alert:triggered / alert:resolved — server-side alert rules (device rooms)
+export type { AlertResolvedEvent, AlertTriggeredEvent };
+
+// incident:updated — the whole incident after it was opened, changed or closed
+export type IncidentUpdatedEvent = Incident;
+
+export interface ServerToClientEvents {
+  'reading:new': (payload: ReadingNewEvent) => void;
+  'reading:classified': (payload: ReadingClassifiedEvent) => void;
+  'reading:anchored': (payload: ReadingAnchoredEvent) => void;
+  'batch:updated': (payload: BatchUpdatedEvent) => void;
+  'alert:triggered': (payload: AlertTriggeredEvent) => void;
+  'alert:resolved': (payload: AlertResolvedEvent) => void;
+  'incident:updated': (payload: IncidentUpdatedEvent) => void;
+}
+
+// deviceId '*' joins every device's room
+export interface ClientToServerEvents {
+  'device:subscribe': (deviceId: string) => void;
+  'device:unsubscribe': (deviceId: string) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
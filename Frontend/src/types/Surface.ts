@@ -0,0 +1,37 @@
+// src/types/Surface.ts
+// Interpolated map surface (lib/interpolation.ts) and its hourly snapshots
+// from GET /api/surface/hourly (Backend/services/surface.js)
+
+export type SurfaceNode = {
+  deviceId: string;
+  // Mean of the hour's GPS fixes
+  lat: number;
+  lng: number;
+  aqi: number | null;
+  co2: number | null;
+  mq135Raw: number | null;
+  count: number;
+};
+
+export type SurfaceSnapshot = {
+  // UTC start of the hour
+  hour: string;
+  nodes: SurfaceNode[];
+};
+
+export type SurfaceMetric = 'aqi' | 'voc' | 'co2' | 'health';
+
+export type InterpolationMethod = 'idw' | 'kriging';
+
+export type SurfacePoint = {
+  lat: number;
+  lng: number;
+  value: number;
+};
+
+// Legend / colour band: values below `below` (and above the previous band)
+export type SurfaceBand = {
+  below: number;
+  color: string;
+  label: string;
+};
@@ -0,0 +1,45 @@
+// src/types/Track.ts
+// GET /api/track/:deviceId (Backend/services/track.js)
+
+export type TrackPoint = {
+  ts: string;
+  lat: number;
+  lng: number;
+  // km/h, reported by the node or derived from consecutive fixes
+  speed: number | null;
+  // Means over the raw readings this (possibly simplified) point stands for
+  co2: number | null;
+  aqi: number | null;
+  // Points in different segments are separated by a reporting gap
+  segment: number;
+};
+
+export type TrackDwell = {
+  lat: number;
+  lng: number;
+  from: string;
+  to: string;
+  minutes: number;
+};
+
+export type DeviceTrack = {
+  deviceId: string;
+  from: string;
+  to: string;
+  rawPoints: number;
+  // The range held more readings than the server scans; the tail is missing
+  truncated: boolean;
+  // Simplification tolerance in metres; 0 = every fix is returned
+  toleranceM: number;
+  segments: number;
+  points: TrackPoint[];
+  dwells: TrackDwell[];
+  stats: {
+    distanceKm: number;
+    movingMinutes: number;
+    avgMovingKmh: number | null;
+    maxSpeed: { kmh: number; at: string; lat: number; lng: number } | null;
+  };
+};
+
+export type TrackMetric = 'co2' | 'aqi';
@@ -0,0 +1,33 @@
+// src/types/Zone.ts
+// /api/zones (Backend/models/Zone.js, Backend/services/zones.js)
+
+export type LatLngTuple = [number, number];
+
+export type Zone = {
+  _id: string;
+  name: string;
+  // [lat, lng] vertices; the ring is closed implicitly
+  polygon: LatLngTuple[];
+  color: string;
+  // AQI above this counts as time in exceedance
+  aqiLimit: number;
+  createdAt: string;
+};
+
+export type ZoneStats = {
+  zoneId: string;
+  aqiLimit: number;
+  readings: number;
+  devices: string[];
+  meanAqi: number | null;
+  maxAqi: number | null;
+  exceedanceMinutes: number;
+  lastReadingAt: string | null;
+};
+
+export type ZoneInput = {
+  name: string;
+  polygon: LatLngTuple[];
+  color: string;
+  aqiLimit: number;
+};
@@ -0,0 +1,65 @@
+// Golden values for the conversions the frontend shares with ingest. Both
+// copies run against the same table, so a change to one that the other
+// misses fails here instead of showing a different AQI than was stored.
+import { describe, expect, it } from 'vitest';
+import * as frontendSensors from '../src/lib/sensorConversions';
+import * as frontendAqi from '../src/lib/aqi';
+import * as backendSensors from '../../Backend/services/sensorConversions.js';
+import * as backendAqi from '../../Backend/services/aqi.js';
+import type { AqiStandard, Pollutant } from '../src/types/Aqi';
+
+const IMPLEMENTATIONS = [
+  { name: 'frontend', sensors: frontendSensors, aqi: frontendAqi },
+  { name: 'backend', sensors: backendSensors, aqi: backendAqi },
+];
+
+const CO2_GOLDEN: [ppm: number, status: string, advice: string][] = [
+  [0, 'OUTDOOR_FRESH', 'Outdoor fresh air quality'],
+  [399, 'OUTDOOR_FRESH', 'Outdoor fresh air quality'],
+  [400, 'GOOD', 'Good indoor air quality'],
+  [999, 'GOOD', 'Good indoor air quality'],
+  [1000, 'STUFFY', 'Acceptable but may cause drowsiness'],
+  [2000, 'POOR', 'Poor air quality - increase ventilation'],
+  [5000, 'DANGEROUS', 'Dangerous levels - evacuate immediately'],
+];
+
+const AQI_GOLDEN: [standard: AqiStandard, pollutant: Pollutant, value: number, aqi: number, label: string][] = [
+  ['IN_NAQI', 'pm25', 45, 75, 'Satisfactory'],
+  ['US_EPA', 'pm25', 35.4, 100, 'Moderate'],
+  ['IN_NAQI', 'mq135', 2000, 150, 'Moderate'],
+  ['US_EPA', 'mq135', 2000, 125, 'Unhealthy for Sensitive Groups'],
+  ['IN_NAQI', 'mq135', 0, 0, 'Good'],
+  ['IN_NAQI', 'mq135', 4095, 500, 'Severe'],
+];
+
+describe.each(IMPLEMENTATIONS)('$name conversions', ({ sensors, aqi }) => {
+  it('uses the 12-bit ADC range', () => {
+    expect(sensors.ADC_MAX).toBe(4095);
+  });
+
+  it.each(CO2_GOLDEN)('CO₂ %d ppm → %s', (ppm, status, advice) => {
+    expect(sensors.co2Status(ppm)).toBe(status);
+    expect(sensors.co2HealthAdvice(ppm)).toBe(advice);
+  });
+
+  it.each(AQI_GOLDEN)('%s %s %d → AQI %d (%s)', (standard, pollutant, value, expected, label) => {
+    const result = aqi.computeAQI({ [pollutant]: value }, standard);
+    expect(result?.aqi).toBe(expected);
+    expect(result?.category.label).toBe(label);
+    expect(result?.dominant).toBe(pollutant);
+  });
+
+  it('takes the highest sub-index as the AQI', () => {
+    const result = aqi.computeAQI({ pm25: 45, mq135: 2000 }, 'IN_NAQI');
+    expect(result?.aqi).toBe(150);
+    expect(result?.dominant).toBe('mq135');
+  });
+
+  it('returns null when nothing can be indexed', () => {
+    expect(aqi.computeAQI({}, 'IN_NAQI')).toBeNull();
+  });
+});
+
+it('keeps the same breakpoint tables on both sides', () => {
+  expect(backendAqi.AQI_STANDARDS).toEqual(frontendAqi.AQI_STANDARDS);
+});